@@ -0,0 +1,266 @@
+/** 页面内任意对象（注入脚本运行在页面上下文，无法依赖类型声明，属性使用前逐一收窄） */
+type PageObject = Record<string, unknown>
+
+/** 页面内任意函数 */
+type PageFunction = (this: unknown, ...args: unknown[]) => unknown
+
+/**
+ * 注入页面的加密调用 Hook（经 Function.toString 序列化后执行，函数体必须自包含，不能引用外部变量）
+ * 包装 crypto.subtle、CryptoJS、JSEncrypt 与 atob/btoa，经 Runtime.addBinding 注册的绑定函数上报调用
+ */
+function installCryptoHooks(bindingName: string): void {
+  // 页面全局对象
+  const page = globalThis as unknown as PageObject
+  if (page.__captureDecryptHooked)
+    return
+  page.__captureDecryptHooked = true
+  // 单个数据的最大上报字节数
+  const maxBytes = 64 * 1024
+  // atob/btoa 只上报足够长的数据，避免页面普通调用刷屏
+  const minCodecLength = 16
+  // 原始 atob/btoa（Hook 内部解码使用，避免重复上报）
+  const originalAtob = page.atob as (data: string) => string
+  const originalBtoa = page.btoa as (data: string) => string
+
+  /** 收窄为可读写属性的对象（含函数，如库的构造函数） */
+  const asObject = (value: unknown): PageObject | null =>
+    (typeof value === 'object' || typeof value === 'function') && value !== null ? value as PageObject : null
+
+  /** 判断是否为函数 */
+  const isFunction = (value: unknown): value is PageFunction => typeof value === 'function'
+
+  /** 字节转 hex（超长截断） */
+  const bytesToHex = (bytes: Uint8Array): string => {
+    let hex = ''
+    for (const byte of bytes.subarray(0, maxBytes))
+      hex += byte.toString(16).padStart(2, '0')
+    return hex
+  }
+
+  /** 任意二进制/文本数据转 hex（文本按 UTF-8 编码；无法识别返回 null） */
+  const toHex = (data: unknown): string | null => {
+    if (typeof data === 'string')
+      return bytesToHex(new TextEncoder().encode(data))
+    if (data instanceof ArrayBuffer)
+      return bytesToHex(new Uint8Array(data))
+    if (ArrayBuffer.isView(data))
+      return bytesToHex(new Uint8Array(data.buffer, data.byteOffset, data.byteLength))
+    return null
+  }
+
+  /** latin1 字符串（atob 输出）转 hex */
+  const latin1ToHex = (text: string): string => {
+    let hex = ''
+    for (let index = 0; index < Math.min(text.length, maxBytes); index += 1)
+      hex += (text.charCodeAt(index) & 0xFF).toString(16).padStart(2, '0')
+    return hex
+  }
+
+  /** 上报调用（绑定不存在或序列化失败时静默忽略） */
+  const report = (call: PageObject): void => {
+    try {
+      // 绑定函数
+      const binding = page[bindingName]
+      if (isFunction(binding))
+        binding(JSON.stringify({ ...call, timeStamp: Date.now() }))
+    }
+    catch {}
+  }
+
+  // crypto.subtle：记录 importKey 的原始密钥，加解密时关联
+  const subtle = asObject(asObject(page.crypto)?.subtle)
+  if (subtle && isFunction(subtle.importKey)) {
+    // CryptoKey -> 密钥 hex
+    const keyMaterial = new WeakMap<object, string>()
+    const originalImportKey = subtle.importKey
+    subtle.importKey = function (format: string, keyData: unknown, ...rest: unknown[]) {
+      return (originalImportKey.call(subtle, format, keyData, ...rest) as Promise<object>).then((key) => {
+        // 原始密钥（jwk 取 k 字段）
+        const jwkKey = format === 'jwk' ? asObject(keyData)?.k : undefined
+        const raw = format === 'raw'
+          ? toHex(keyData)
+          : typeof jwkKey === 'string'
+            ? latin1ToHex(originalAtob.call(page, jwkKey.replace(/-/g, '+').replace(/_/g, '/')))
+            : null
+        if (raw)
+          keyMaterial.set(key, raw)
+        return key
+      })
+    }
+    for (const operation of ['encrypt', 'decrypt'] as const) {
+      const original = subtle[operation]
+      if (!isFunction(original))
+        continue
+      subtle[operation] = function (algorithm: unknown, key: object, data: unknown) {
+        return (original.call(subtle, algorithm, key, data) as Promise<ArrayBuffer>).then((result) => {
+          // 算法参数
+          const params: PageObject = typeof algorithm === 'string' ? { name: algorithm } : asObject(algorithm) ?? {}
+          report({
+            api: `crypto.subtle.${operation}`,
+            operation,
+            algorithm: String(params.name ?? ''),
+            mode: null,
+            padding: null,
+            keyType: 'bytes',
+            key: keyMaterial.get(key) ?? null,
+            iv: toHex(params.iv ?? params.counter),
+            input: toHex(data) ?? '',
+            output: toHex(result) ?? '',
+          })
+          return result
+        })
+      }
+    }
+  }
+
+  /** WordArray 转 hex */
+  const wordArrayToHex = (value: unknown): string | null => {
+    // WordArray 结构：words（大端 32 位字）+ sigBytes
+    const wordArray = asObject(value)
+    const words: unknown = wordArray?.words
+    const sigBytes = wordArray?.sigBytes
+    if (!Array.isArray(words) || typeof sigBytes !== 'number')
+      return null
+    const bytes = new Uint8Array(Math.max(0, Math.min(sigBytes, maxBytes)))
+    for (let index = 0; index < bytes.length; index += 1)
+      bytes[index] = (Number((words as unknown[])[index >>> 2]) >>> (24 - (index % 4) * 8)) & 0xFF
+    return bytesToHex(bytes)
+  }
+
+  /** 在 CryptoJS 命名空间对象中查找值对应的名称（mode/pad） */
+  const findName = (namespace: unknown, value: unknown): string | null => {
+    // 命名空间对象
+    const names = asObject(namespace)
+    if (!names || !value)
+      return null
+    return Object.keys(names).find(name => names[name] === value) ?? null
+  }
+
+  /** 包装 CryptoJS 的对称算法 */
+  const hookCryptoJs = (value: unknown): void => {
+    // CryptoJS 命名空间
+    const cryptoJs = asObject(value)
+    if (!cryptoJs || cryptoJs.__captureDecryptHooked)
+      return
+    cryptoJs.__captureDecryptHooked = true
+    for (const algorithm of ['AES', 'DES', 'TripleDES', 'RC4', 'Rabbit']) {
+      const target = asObject(cryptoJs[algorithm])
+      if (!target)
+        continue
+      // 是否为分组算法
+      const isBlock = algorithm !== 'RC4' && algorithm !== 'Rabbit'
+      for (const operation of ['encrypt', 'decrypt'] as const) {
+        const original = target[operation]
+        if (!isFunction(original))
+          continue
+        target[operation] = function (message: unknown, key: unknown, config?: unknown) {
+          const result = original.call(target, message, key, config)
+          try {
+            // 调用选项与结果（CipherParams 或 WordArray）
+            const options = asObject(config)
+            const output = asObject(result)
+            // 密文：字符串为 Base64（可能含 Salted__ 头），CipherParams 取 ciphertext
+            const cipherInput = typeof message === 'string'
+              ? latin1ToHex(originalAtob.call(page, message))
+              : wordArrayToHex(asObject(message)?.ciphertext) ?? wordArrayToHex(message)
+            report({
+              api: `CryptoJS.${algorithm}.${operation}`,
+              operation,
+              algorithm,
+              // 分组算法默认 CBC + Pkcs7
+              mode: isBlock ? findName(cryptoJs.mode, options?.mode) ?? 'CBC' : null,
+              padding: isBlock ? findName(cryptoJs.pad, options?.padding) ?? 'Pkcs7' : null,
+              keyType: typeof key === 'string' ? 'passphrase' : 'bytes',
+              key: typeof key === 'string' ? toHex(key) : wordArrayToHex(key),
+              iv: wordArrayToHex(options?.iv) ?? wordArrayToHex(output?.iv),
+              input: operation === 'decrypt' ? cipherInput ?? '' : (typeof message === 'string' ? toHex(message) : wordArrayToHex(message)) ?? '',
+              output: operation === 'decrypt' ? wordArrayToHex(result) ?? '' : wordArrayToHex(output?.ciphertext) ?? '',
+            })
+          }
+          catch {}
+          return result
+        }
+      }
+    }
+  }
+
+  /** 包装 JSEncrypt（RSA） */
+  const hookJsEncrypt = (value: unknown): void => {
+    // JSEncrypt 原型
+    const prototype = asObject(asObject(value)?.prototype)
+    if (!prototype || prototype.__captureDecryptHooked)
+      return
+    prototype.__captureDecryptHooked = true
+    for (const operation of ['encrypt', 'decrypt'] as const) {
+      const original = prototype[operation]
+      if (!isFunction(original))
+        continue
+      prototype[operation] = function (this: PageObject, text: string) {
+        const result = original.call(this, text)
+        try {
+          // 当前密钥（PEM）
+          const getKey = operation === 'decrypt' ? this.getPrivateKey : this.getPublicKey
+          const pem = isFunction(getKey) ? getKey.call(this) : null
+          report({
+            api: `JSEncrypt.${operation}`,
+            operation,
+            algorithm: 'RSA',
+            mode: null,
+            padding: 'PKCS1',
+            keyType: 'pem',
+            key: typeof pem === 'string' ? toHex(pem) : null,
+            iv: null,
+            input: operation === 'decrypt' ? latin1ToHex(originalAtob.call(page, text)) : toHex(text) ?? '',
+            output: typeof result === 'string' ? (operation === 'decrypt' ? toHex(result) : latin1ToHex(originalAtob.call(page, result))) ?? '' : '',
+          })
+        }
+        catch {}
+        return result
+      }
+    }
+  }
+
+  /** 对可能稍后才赋值的全局库挂钩（已存在时立即包装，否则在赋值时包装） */
+  const hookGlobal = (name: string, hook: (value: unknown) => void): void => {
+    if (page[name]) {
+      hook(page[name])
+      return
+    }
+    // 当前值
+    let current: unknown
+    try {
+      Object.defineProperty(page, name, {
+        configurable: true,
+        enumerable: true,
+        get: () => current,
+        set: (value: unknown) => {
+          current = value
+          if (value)
+            hook(value)
+        },
+      })
+    }
+    catch {}
+  }
+  hookGlobal('CryptoJS', hookCryptoJs)
+  hookGlobal('JSEncrypt', hookJsEncrypt)
+
+  // atob / btoa
+  page.atob = function (data: string) {
+    const result = originalAtob.call(page, data)
+    if (typeof data === 'string' && data.length >= minCodecLength)
+      report({ api: 'atob', operation: 'decode', algorithm: 'Base64', mode: null, padding: null, keyType: 'bytes', key: null, iv: null, input: toHex(data), output: latin1ToHex(result) })
+    return result
+  }
+  page.btoa = function (data: string) {
+    const result = originalBtoa.call(page, data)
+    if (typeof data === 'string' && data.length >= minCodecLength)
+      report({ api: 'btoa', operation: 'encode', algorithm: 'Base64', mode: null, padding: null, keyType: 'bytes', key: null, iv: null, input: latin1ToHex(data), output: toHex(result) })
+    return result
+  }
+}
+
+/** 生成注入脚本源码 */
+export function buildCryptoHookSource(bindingName: string): string {
+  return `(${installCryptoHooks.toString()})(${JSON.stringify(bindingName)});`
+}
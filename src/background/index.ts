@@ -1,33 +1,140 @@
+import type { CryptoHookCall, CryptoHookCorrelation } from '../shared/crypto-hooks'
+import type { Logpoint, LogpointCapture } from '../shared/logpoints'
 import type {
   AppError,
   BackgroundToPanelMessage,
+  BodyPart,
+  DecryptResult,
+  HeaderEntry,
   PanelToBackgroundMessage,
+  RecordHeaders,
+  RecordSummary,
   RequestBody,
+  RequestInitiator,
   ResponseBody,
   ResponseRecord,
+  StackFrame,
+  StackSegment,
+  StreamEvent,
+  WebSocketFrame,
 } from '../shared/messages'
+import type { UrlRule } from '../shared/rules'
+import type { ScriptInfo, ScriptSearchMatch, ScriptSearchResult } from '../shared/script-search'
+import type { KeyProfile, Settings } from '../shared/settings'
+import type { StreamEventContent } from '../shared/stream'
+import type { PipelineValue, PipelineValueSnapshot } from '../shared/value'
+import { base64Decode, base64Encode, utf8Decode, utf8Encode } from '../shared/bytes'
+import { CRYPTO_HOOK_BINDING, MAX_HOOK_CALLS, correlateCryptoCall, parseCryptoHookCall } from '../shared/crypto-hooks'
+import { LOGPOINT_BINDING, MAX_LOGPOINT_CAPTURES, buildLogpointCondition, parseLogpointReport } from '../shared/logpoints'
+import { registerBuiltinOperators } from '../shared/operators'
+import { runPipeline, toPipelineTrace } from '../shared/pipeline'
+import { findMatchingRule } from '../shared/rules'
+import { MAX_SCRIPT_MATCHES, buildKeywordPattern, collectLineMatches, normalizeKeywords } from '../shared/script-search'
+import {
+  SETTINGS_STORAGE_KEY,
+  SETTINGS_VERSION,
+  createDefaultSettings,
+  createKeyProfileContext,
+  createSiteSettings,
+  getUrlHost,
+  migrateSettings,
+  parseCaptureLimits,
+  parseSiteSettings,
+  resolveSettingsForHost,
+  setCaptureLimits,
+  setSiteSettings,
+} from '../shared/settings'
+import { detectStreamFormat, splitStreamText } from '../shared/stream'
+import { bodyTextToValue, textValue, valueToBytes } from '../shared/value'
+import { buildCryptoHookSource } from './hook-script'
 
 /** 调试日志开关 */
 const DEBUG = false
 
-/** 最大缓存记录数 */
-const MAX_RECORDS = 200
+/** 按需加载的大正文最多缓存份数 */
+const MAX_LARGE_BODIES = 3
 
-/** 最大响应体字节阈值 */
-const MAX_BODY_BYTES = 200 * 1024
+/** 大正文推送给面板时的分块字符数 */
+const BODY_CHUNK_CHARS = 256 * 1024
 
-/** 最大请求体字节阈值 */
-const MAX_REQUEST_BODY_BYTES = 200 * 1024
+/** 浏览器为全部请求保留正文的缓冲区下限（Chrome 默认值） */
+const MIN_TOTAL_BUFFER_BYTES = 100 * 1024 * 1024
 
-/** UTF-8 编码器 */
-const TEXT_ENCODER = new TextEncoder()
+/** 流式读取大响应体时单次 IO.read 的字节数 */
+const BODY_READ_BYTES = 256 * 1024
+
+/** 响应阶段拦截的资源类型（大正文在此流式读取；EventSource 与 WebSocket 不经拦截） */
+const INTERCEPTED_RESOURCE_TYPES = ['XHR', 'Fetch']
+
+/** 视为未压缩的 Content-Encoding 取值（仅此时 Content-Length 即流中正文的长度） */
+const IDENTITY_ENCODINGS = new Set(['', 'identity'])
+
+/** 淘汰日志上限（超出后更早的增量请求退化为全量快照） */
+const MAX_REMOVED_LOG = 1000
+
+/** ExtraInfo 暂存条目上限 */
+const MAX_EXTRA_INFO_ENTRIES = 500
+
+/** 异步调用栈最大深度（Debugger.setAsyncCallStackDepth） */
+const ASYNC_STACK_DEPTH = 32
+
+/** 最大保留的已解析脚本数 */
+const MAX_SCRIPTS = 2000
+
+/** 单个 WebSocket 连接最多保留的帧数 */
+const MAX_WEBSOCKET_FRAMES = 1000
+
+/** 单帧载荷（及单个流事件数据）最大字节阈值 */
+const MAX_FRAME_BYTES = 64 * 1024
+
+/** 单个流式响应最多保留的事件数 */
+const MAX_STREAM_EVENTS = 1000
 
 /** 允许的资源类型集合 */
-const ALLOWED_RESOURCE_TYPES = new Set(['Fetch', 'XHR'])
+const ALLOWED_RESOURCE_TYPES = new Set(['Fetch', 'XHR', 'WebSocket', 'EventSource'])
 
 /** 当前附加的标签页 ID */
 let attachedTabId: number | null = null
 
+/** 当前持久化设置（规则、流水线、密钥配置） */
+let settings: Settings = createDefaultSettings()
+
+/** 设置加载完成信号（加载失败时按空设置继续） */
+let settingsReady: Promise<void> = Promise.resolve()
+
+/** 存储中的设置是否可被覆盖（无法解析或读取失败时禁止写回，避免用默认值覆盖原数据） */
+let settingsWritable = true
+
+/** 是否启用页面加密调用 Hook */
+let hooksEnabled = false
+
+/** 已注入的 Hook 脚本标识（用于移除） */
+let hookScriptId: string | null = null
+
+/** Hook 调用序号 */
+let hookCallSeq = 0
+
+/** Hook 调用缓存 */
+const hookCalls: CryptoHookCall[] = []
+
+/** 当前标签页是否已启用 Debugger 域 */
+let debuggerEnabled = false
+
+/** 已解析的页面脚本（scriptId -> 脚本信息） */
+const parsedScripts = new Map<string, ScriptInfo>()
+
+/** 脚本搜索序号（新搜索开始后旧搜索停止） */
+let scriptSearchSeq = 0
+
+/** 捕获点列表（跨附加保留，附加时重新设置断点） */
+const logpoints: Logpoint[] = []
+
+/** 捕获点与捕获数据序号 */
+let logpointSeq = 0
+
+/** 捕获数据缓存 */
+const captures: LogpointCapture[] = []
+
 /** 已连接的面板端口集合 */
 const panelPorts = new Set<chrome.runtime.Port>()
 
@@ -43,6 +150,10 @@ interface PendingRequest {
   hasPostData: boolean
   /** 请求体文本 */
   requestPostData: string | null
+  /** 请求头 */
+  requestHeaders: HeaderEntry[]
+  /** 响应头 */
+  responseHeaders: HeaderEntry[]
   /** 响应状态码 */
   status: number
   /** 响应 MIME 类型 */
@@ -51,14 +162,98 @@ interface PendingRequest {
   resourceType: string
   /** 捕获时间戳（毫秒） */
   timeStamp: number
+  /** 请求发起方 */
+  initiator: RequestInitiator | null
+}
+
+/** 响应阶段暂停中的响应（流式读取后原样交还页面所需的信息） */
+interface PausedResponse {
+  /** 拦截 ID */
+  interceptionId: string
+  /** 响应状态码 */
+  status: number
+  /** 响应状态文本 */
+  statusText: string
+  /** 原始响应头 */
+  headers: HeaderEntry[]
+  /** 声明的正文长度（Content-Length） */
+  declared: number
 }
 
 /** 挂起请求映射表 */
 const pendingRequests = new Map<string, PendingRequest>()
 
+/** ExtraInfo 原始头部暂存结构 */
+interface PendingExtraInfo {
+  /** 原始请求头 */
+  requestHeaders: HeaderEntry[]
+  /** 原始响应头 */
+  responseHeaders: HeaderEntry[]
+}
+
+/** ExtraInfo 暂存映射表（可能早于 requestWillBeSent 到达） */
+const pendingExtraInfo = new Map<string, PendingExtraInfo>()
+
 /** 响应记录缓存 */
 const recordBuffer: ResponseRecord[] = []
 
+/** 记录会话 ID（每次 Service Worker 启动时生成；序号只在同一会话内可比，会话不符的增量请求退化为全量快照） */
+const recordSession = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+/** 记录变更序号（会话内自增） */
+let recordSeq = 0
+
+/** 可提供增量的最小序号（清空、附加等整体重置或淘汰日志溢出后抬高） */
+let recordSeqFloor = recordSeq
+
+/** 记录最近一次变更的序号（记录 ID -> 序号） */
+const recordSeqs = new Map<string, number>()
+
+/** 淘汰日志（按序号递增） */
+const removedRecords: Array<{ id: string, seq: number }> = []
+
+/** 各记录的估算占用字节数（记录 ID -> 字节数） */
+const recordBytes = new Map<string, number>()
+
+/** 缓冲区内全部记录与大正文缓存的估算占用字节数 */
+let bufferBytes = 0
+
+/** 已固定的记录 ID（不参与淘汰，清空与切换标签页时保留） */
+const pinnedRecords = new Set<string>()
+
+/** 按需加载的大正文缓存（`记录 ID:部分` -> 正文，独立于记录列表但计入缓冲区总量，最近使用的在后） */
+const largeBodies = new Map<string, ResponseBody>()
+
+/** 进行中的大正文读取（同一正文只读取一次；响应阶段的流式读取也登记于此） */
+const largeBodyLoads = new Map<string, Promise<ResponseBody>>()
+
+/** 进行中的 WebSocket 连接（requestId -> 记录，关闭后移除） */
+const webSockets = new Map<string, ResponseRecord>()
+
+/** WebSocket 帧与流事件的处理队列（保证异步解密后按到达顺序追加） */
+const recordQueues = new Map<string, Promise<void>>()
+
+/** 流式响应处理状态 */
+interface StreamState {
+  /** 流记录 */
+  record: ResponseRecord
+  /** 挂起请求（结束时生成头部） */
+  pending: PendingRequest
+  /** UTF-8 流式解码器（分块可能切断多字节字符） */
+  decoder: TextDecoder
+  /** 尚未构成完整事件的文本 */
+  buffer: string
+  /** 累积正文 */
+  bodyText: string
+  /** 累积正文字节数 */
+  bodyBytes: number
+  /** 累积正文是否已截断 */
+  bodyTruncated: boolean
+}
+
+/** 进行中的流式响应（requestId -> 状态，结束后移除） */
+const streams = new Map<string, StreamState>()
+
 /** DevTools 事件：requestWillBeSent */
 const EVENT_REQUEST_WILL_BE_SENT = 'Network.requestWillBeSent'
 
@@ -71,6 +266,51 @@ const EVENT_LOADING_FINISHED = 'Network.loadingFinished'
 /** DevTools 事件：loadingFailed */
 const EVENT_LOADING_FAILED = 'Network.loadingFailed'
 
+/** DevTools 事件：requestWillBeSentExtraInfo */
+const EVENT_REQUEST_EXTRA_INFO = 'Network.requestWillBeSentExtraInfo'
+
+/** DevTools 事件：responseReceivedExtraInfo */
+const EVENT_RESPONSE_EXTRA_INFO = 'Network.responseReceivedExtraInfo'
+
+/** Runtime 绑定调用事件名 */
+const EVENT_BINDING_CALLED = 'Runtime.bindingCalled'
+
+/** DevTools 事件：脚本已解析 */
+const EVENT_SCRIPT_PARSED = 'Debugger.scriptParsed'
+
+/** DevTools 事件：全局对象已清除（页面跳转或刷新） */
+const EVENT_GLOBAL_OBJECT_CLEARED = 'Debugger.globalObjectCleared'
+
+/** DevTools 事件：dataReceived（流式响应分块） */
+const EVENT_DATA_RECEIVED = 'Network.dataReceived'
+
+/** DevTools 事件：EventSource 消息 */
+const EVENT_EVENT_SOURCE_MESSAGE = 'Network.eventSourceMessageReceived'
+
+/** DevTools 事件：WebSocket 连接创建 */
+const EVENT_WEBSOCKET_CREATED = 'Network.webSocketCreated'
+
+/** DevTools 事件：WebSocket 握手响应 */
+const EVENT_WEBSOCKET_HANDSHAKE_RESPONSE = 'Network.webSocketHandshakeResponseReceived'
+
+/** DevTools 事件：WebSocket 发出帧 */
+const EVENT_WEBSOCKET_FRAME_SENT = 'Network.webSocketFrameSent'
+
+/** DevTools 事件：WebSocket 接收帧 */
+const EVENT_WEBSOCKET_FRAME_RECEIVED = 'Network.webSocketFrameReceived'
+
+/** DevTools 事件：WebSocket 帧错误 */
+const EVENT_WEBSOCKET_FRAME_ERROR = 'Network.webSocketFrameError'
+
+/** DevTools 事件：WebSocket 连接关闭 */
+const EVENT_WEBSOCKET_CLOSED = 'Network.webSocketClosed'
+
+/** DevTools 事件：断点解析到新位置（脚本稍后加载） */
+const EVENT_BREAKPOINT_RESOLVED = 'Debugger.breakpointResolved'
+
+/** DevTools 事件：请求在响应阶段暂停 */
+const EVENT_REQUEST_PAUSED = 'Fetch.requestPaused'
+
 /** 输出调试日志 */
 function debugLog(message: string): void {
   if (!DEBUG)
@@ -94,15 +334,73 @@ function broadcast(message: BackgroundToPanelMessage): void {
     port.postMessage(message)
 }
 
-/** 发送当前状态与记录快照 */
-function sendSnapshot(port: chrome.runtime.Port): void {
+/** 生成记录摘要 */
+function toRecordSummary(record: ResponseRecord): RecordSummary {
+  return {
+    id: record.id,
+    url: record.url,
+    method: record.method,
+    status: record.status,
+    mimeType: record.mimeType,
+    resourceType: record.resourceType,
+    timeStamp: record.timeStamp,
+    encodedDataLength: record.encodedDataLength,
+    hasRequestBody: record.requestBody.text !== null || !!record.requestBody.error,
+    hasResponseBody: record.body.text !== null || !!record.body.error,
+    pinned: pinnedRecords.has(record.id),
+  }
+}
+
+/** 标记记录已变更，返回新序号 */
+function markRecordChanged(recordId: string): number {
+  recordSeq += 1
+  recordSeqs.set(recordId, recordSeq)
+  return recordSeq
+}
+
+/** 整体重置记录后使此前的序号失效 */
+function resetRecordSeq(): void {
+  recordSeq += 1
+  recordSeqFloor = recordSeq
+  recordSeqs.clear()
+  removedRecords.length = 0
+}
+
+/** 发送记录：同一会话且 sinceSeq 仍可增量时只发送其后的变更，否则发送全量摘要快照 */
+function sendRecords(port: chrome.runtime.Port, session: string | null, sinceSeq: number | null): void {
+  if (session !== recordSession || sinceSeq === null || sinceSeq < recordSeqFloor || sinceSeq > recordSeq) {
+    port.postMessage({ type: 'records.snapshot', records: recordBuffer.map(toRecordSummary), session: recordSession, seq: recordSeq, attachedTabId })
+    return
+  }
   port.postMessage({
-    type: 'records.snapshot',
-    records: [...recordBuffer],
-    attachedTabId,
+    type: 'records.delta',
+    records: recordBuffer.filter(record => (recordSeqs.get(record.id) ?? 0) > sinceSeq).map(toRecordSummary),
+    removed: removedRecords.filter(entry => entry.seq > sinceSeq).map(entry => entry.id),
+    session: recordSession,
+    seq: recordSeq,
   })
 }
 
+/** 发送 Hook 调用与捕获点快照 */
+function sendCaptureSnapshot(port: chrome.runtime.Port): void {
+  port.postMessage({ type: 'hooks.snapshot', enabled: hooksEnabled, calls: [...hookCalls] })
+  port.postMessage({ type: 'logpoints.snapshot', logpoints: [...logpoints], captures: [...captures] })
+}
+
+/** 发送当前状态与记录快照 */
+function sendSnapshot(port: chrome.runtime.Port): void {
+  sendRecords(port, null, null)
+  sendCaptureSnapshot(port)
+}
+
+/** 广播记录更新（摘要） */
+function broadcastRecordUpdated(record: ResponseRecord): void {
+  // 已被淘汰的记录不再推送
+  if (!recordBuffer.includes(record))
+    return
+  broadcast({ type: 'records.updated', record: toRecordSummary(record), session: recordSession, seq: markRecordChanged(record.id) })
+}
+
 /** 发送状态更新 */
 function sendStatusUpdate(): void {
   broadcast({ type: 'status.update', attachedTabId })
@@ -113,27 +411,183 @@ function sendError(error: AppError): void {
   broadcast({ type: 'error', error })
 }
 
-/** 追加响应记录并广播 */
+/** 估算正文文本的字节数（base64 按解码后的长度，文本按 UTF-8 长度） */
+function measureBodyText(text: string | null, isBase64: boolean): number {
+  if (text === null)
+    return 0
+  return isBase64 ? getBase64ByteLength(text) : getTextByteLength(text)
+}
+
+/** 估算值快照的字节数（字节按解码后的长度，JSON 按序列化后的 UTF-8 长度计） */
+function measureSnapshot(snapshot: PipelineValueSnapshot | null): number {
+  if (!snapshot)
+    return 0
+  if (snapshot.type === 'text')
+    return getTextByteLength(snapshot.text)
+  if (snapshot.type === 'bytes')
+    return getBase64ByteLength(snapshot.base64)
+  return getTextByteLength(JSON.stringify(snapshot.data) ?? '')
+}
+
+/** 估算解密结果的字节数（最终输出与各步骤的输入/输出快照） */
+function measureDecrypted(result: DecryptResult | undefined): number {
+  if (!result)
+    return 0
+  // 最终输出
+  let bytes = measureSnapshot(result.trace.output)
+  for (const step of result.trace.steps)
+    bytes += measureSnapshot(step.input) + measureSnapshot(step.output)
+  return bytes
+}
+
+/** 估算单个 WebSocket 帧占用的字节数 */
+function measureFrame(frame: WebSocketFrame): number {
+  return measureBodyText(frame.payload, frame.isBase64) + measureDecrypted(frame.decrypted)
+}
+
+/** 估算单个流事件占用的字节数 */
+function measureStreamEvent(event: StreamEvent): number {
+  return getTextByteLength(event.data) + measureDecrypted(event.decrypted)
+}
+
+/** 估算记录占用的字节数（按已保存的正文、帧载荷、事件数据及其解密快照的解码后字节数计，不含头部等元数据） */
+function measureRecord(record: ResponseRecord): number {
+  let bytes = getTextByteLength(record.requestBody.text ?? '') + measureDecrypted(record.requestBody.decrypted)
+    + measureBodyText(record.body.text, record.body.isBase64) + measureDecrypted(record.body.decrypted)
+  for (const frame of record.webSocket?.frames ?? [])
+    bytes += measureFrame(frame)
+  for (const event of record.stream?.events ?? [])
+    bytes += measureStreamEvent(event)
+  return bytes
+}
+
+/** 重新估算记录占用并同步缓冲区总量（已淘汰的记录忽略） */
+function updateRecordBytes(record: ResponseRecord): void {
+  if (!recordBuffer.includes(record))
+    return
+  // 新的估算值
+  const bytes = measureRecord(record)
+  bufferBytes += bytes - (recordBytes.get(record.id) ?? 0)
+  recordBytes.set(record.id, bytes)
+}
+
+/** 按记录数与总字节上限从最旧的记录开始淘汰（跳过固定的记录，最新一条始终保留） */
+function enforceRecordLimits(): void {
+  const { maxRecords, maxBufferBytes } = settings.limits
+  // 大正文缓存可重新读取，先于记录释放（最久未用的在前）
+  for (const key of largeBodies.keys()) {
+    if (bufferBytes <= maxBufferBytes)
+      break
+    deleteLargeBody(key)
+  }
+  // 当前检查位置
+  let index = 0
+  while ((recordBuffer.length > maxRecords || bufferBytes > maxBufferBytes) && index < recordBuffer.length - 1) {
+    const record = recordBuffer[index]
+    if (!record || pinnedRecords.has(record.id)) {
+      index += 1
+      continue
+    }
+    // 被淘汰的记录连同其大正文缓存一并释放
+    recordBuffer.splice(index, 1)
+    removeRecordEntry(record.id)
+  }
+}
+
+/** 追加响应记录并广播，随后按上限淘汰旧记录 */
 function pushRecord(record: ResponseRecord): void {
-  if (recordBuffer.length >= MAX_RECORDS)
-    recordBuffer.shift()
   recordBuffer.push(record)
-  broadcast({ type: 'records.added', record })
+  updateRecordBytes(record)
+  broadcast({ type: 'records.added', record: toRecordSummary(record), session: recordSession, seq: markRecordChanged(record.id) })
+  enforceRecordLimits()
+}
+
+/** 整体重置记录缓存：仅保留固定的记录，并使此前的序号失效 */
+function resetRecordBuffer(): void {
+  // 保留的记录
+  const kept = recordBuffer.filter(record => pinnedRecords.has(record.id))
+  recordBuffer.splice(0, recordBuffer.length, ...kept)
+  recordBytes.clear()
+  bufferBytes = 0
+  for (const record of kept)
+    updateRecordBytes(record)
+  largeBodies.clear()
+  resetRecordSeq()
+}
+
+/** 固定或取消固定记录；取消固定后可能立即被淘汰 */
+function pinRecord(recordId: string, pinned: boolean): void {
+  // 目标记录
+  const record = recordBuffer.find(item => item.id === recordId)
+  if (!record)
+    return
+  if (pinned)
+    pinnedRecords.add(recordId)
+  else
+    pinnedRecords.delete(recordId)
+  broadcastRecordUpdated(record)
+  enforceRecordLimits()
+}
+
+/** 记录淘汰后的清理：释放大正文缓存与占用统计、停止追踪其连接与流、写入淘汰日志并广播 */
+function removeRecordEntry(recordId: string): void {
+  dropLargeBodies(recordId)
+  // 后续帧、事件与流结束事件随之忽略；挂起请求一并丢弃，流结束时不会再生成普通记录
+  webSockets.delete(recordId)
+  if (streams.delete(recordId)) {
+    pendingRequests.delete(recordId)
+    pendingExtraInfo.delete(recordId)
+  }
+  recordQueues.delete(recordId)
+  bufferBytes -= recordBytes.get(recordId) ?? 0
+  recordBytes.delete(recordId)
+  pinnedRecords.delete(recordId)
+  recordSeqs.delete(recordId)
+  recordSeq += 1
+  removedRecords.push({ id: recordId, seq: recordSeq })
+  if (removedRecords.length > MAX_REMOVED_LOG) {
+    // 日志溢出后，早于最早保留条目的序号无法再增量
+    const dropped = removedRecords.shift()
+    if (dropped)
+      recordSeqFloor = dropped.seq
+  }
+  broadcast({ type: 'records.removed', ids: [recordId], session: recordSession, seq: recordSeq })
 }
 
-/** 计算 UTF-8 字符串长度 */
+/** 计算字符串按 UTF-8 编码后的字节数（逐码元累计，不分配缓冲区；孤立代理项按替换字符 3 字节计） */
 function getTextByteLength(text: string): number {
-  return TEXT_ENCODER.encode(text).length
+  let bytes = 0
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index)
+    if (code < 0x80) {
+      bytes += 1
+    }
+    else if (code < 0x800) {
+      bytes += 2
+    }
+    else if (code >= 0xD800 && code <= 0xDBFF && (text.charCodeAt(index + 1) & 0xFC00) === 0xDC00) {
+      // 代理对合成一个 4 字节码点
+      bytes += 4
+      index += 1
+    }
+    else {
+      bytes += 3
+    }
+  }
+  return bytes
 }
 
 /** 生成响应体结构 */
 async function buildResponseBody(tabId: number, requestId: string, encodedDataLength: number): Promise<ResponseBody> {
-  if (encodedDataLength > MAX_BODY_BYTES) {
+  // 响应阶段已流式读取（或正在读取）的正文同样按需加载
+  const key = getLargeBodyKey(requestId, 'response')
+  if (encodedDataLength > settings.limits.maxRecordBytes || largeBodyLoads.has(key) || largeBodies.has(key)) {
     return {
       text: null,
       isBase64: false,
       truncated: true,
-      error: createError('BODY_TOO_LARGE', '响应体超过阈值，已跳过'),
+      deferred: true,
+      error: createError('BODY_TOO_LARGE', '响应体超过阈值，选中记录时按需加载'),
     }
   }
 
@@ -184,11 +638,12 @@ async function buildRequestBody(
   // 采用已有的请求体文本
   let resolvedPostData = requestPostData
   // 先对已有文本做阈值判断
-  if (resolvedPostData !== null && getTextByteLength(resolvedPostData) > MAX_REQUEST_BODY_BYTES) {
+  if (resolvedPostData !== null && getTextByteLength(resolvedPostData) > settings.limits.maxRecordBytes) {
     return {
       text: null,
       truncated: true,
-      error: createError('REQUEST_BODY_TOO_LARGE', '请求体超过阈值，已跳过。'),
+      deferred: true,
+      error: createError('REQUEST_BODY_TOO_LARGE', '请求体超过阈值，选中记录时按需加载'),
     }
   }
 
@@ -220,11 +675,12 @@ async function buildRequestBody(
   }
 
   // 最终阈值判断
-  if (getTextByteLength(resolvedPostData) > MAX_REQUEST_BODY_BYTES) {
+  if (getTextByteLength(resolvedPostData) > settings.limits.maxRecordBytes) {
     return {
       text: null,
       truncated: true,
-      error: createError('REQUEST_BODY_TOO_LARGE', '请求体超过阈值，已跳过。'),
+      deferred: true,
+      error: createError('REQUEST_BODY_TOO_LARGE', '请求体超过阈值，选中记录时按需加载'),
     }
   }
 
@@ -235,6 +691,355 @@ async function buildRequestBody(
   }
 }
 
+/** 大正文缓存键 */
+function getLargeBodyKey(recordId: string, part: BodyPart): string {
+  return `${recordId}:${part}`
+}
+
+/** 估算大正文缓存项占用的字节数（与 measureRecord 同口径） */
+function measureLargeBody(body: ResponseBody): number {
+  return measureBodyText(body.text, body.isBase64) + measureDecrypted(body.decrypted)
+}
+
+/** 写入大正文缓存并计入缓冲区总量（已存在时移到最近使用的位置，超出条数时移除最久未用的） */
+function cacheLargeBody(key: string, body: ResponseBody): void {
+  deleteLargeBody(key)
+  largeBodies.set(key, body)
+  bufferBytes += measureLargeBody(body)
+  for (const oldest of largeBodies.keys()) {
+    if (largeBodies.size <= MAX_LARGE_BODIES)
+      break
+    deleteLargeBody(oldest)
+  }
+}
+
+/** 移除大正文缓存项并从缓冲区总量中扣除 */
+function deleteLargeBody(key: string): void {
+  // 缓存的正文
+  const body = largeBodies.get(key)
+  if (!body)
+    return
+  largeBodies.delete(key)
+  bufferBytes -= measureLargeBody(body)
+}
+
+/** 释放记录的大正文缓存 */
+function dropLargeBodies(recordId: string): void {
+  deleteLargeBody(getLargeBodyKey(recordId, 'request'))
+  deleteLargeBody(getLargeBodyKey(recordId, 'response'))
+}
+
+/** 超过按需加载上限时的正文结构 */
+function buildOverLimitBody(limit: number): ResponseBody {
+  return {
+    text: null,
+    isBase64: false,
+    truncated: true,
+    error: createError('BODY_LIMIT_EXCEEDED', `正文超过按需加载上限（${Math.round(limit / 1024 / 1024)} MB），可在捕获限制中调整`),
+  }
+}
+
+/** 校验读取到的大正文（受按需加载上限约束）并按规则解密 */
+async function decryptLargeBody(target: Pick<ResponseRecord, 'url' | 'method'>, part: BodyPart, text: string, isBase64: boolean): Promise<ResponseBody> {
+  await settingsReady
+  // 解码后的字节数（压缩传输的响应可能远大于传输大小）
+  const limit = settings.limits.largeBodyBytes
+  const size = isBase64 ? getBase64ByteLength(text) : getTextByteLength(text)
+  if (size > limit)
+    return buildOverLimitBody(limit)
+
+  // 按规则解密
+  const body: ResponseBody = { text, isBase64, truncated: false }
+  const siteSettings = resolveSettingsForHost(settings, getUrlHost(target.url))
+  const rule = findMatchingRule(siteSettings.rules, target.url, target.method, part)
+  const input = bodyTextToValue(text, isBase64)
+  if (rule && input)
+    body.decrypted = await runRulePipeline(rule, input, siteSettings.keyProfiles)
+  return body
+}
+
+/** 一次性读取浏览器缓冲中的大正文（响应阶段未流式读取时的回退路径）并按规则解密 */
+async function readLargeBody(record: ResponseRecord, part: BodyPart): Promise<ResponseBody> {
+  if (attachedTabId === null)
+    return { text: null, isBase64: false, truncated: true, error: createError('BODY_LOAD_DETACHED', '调试器未附加，无法加载正文') }
+  const tabId = attachedTabId
+  await settingsReady
+  // 按需加载上限
+  const limit = settings.limits.largeBodyBytes
+  if (part === 'response' && record.encodedDataLength > limit)
+    return buildOverLimitBody(limit)
+
+  // 正文文本与 base64 标记
+  let text: string | null = null
+  let isBase64 = false
+  try {
+    if (part === 'response') {
+      const result = await sendDebuggerCommand<{ body?: string, base64Encoded?: boolean }>(tabId, 'Network.getResponseBody', { requestId: record.id })
+      text = typeof result.body === 'string' ? result.body : null
+      isBase64 = result.base64Encoded === true
+    }
+    else {
+      const result = await sendDebuggerCommand<{ postData?: string }>(tabId, 'Network.getRequestPostData', { requestId: record.id })
+      text = typeof result.postData === 'string' ? result.postData : null
+    }
+  }
+  catch (error) {
+    return {
+      text: null,
+      isBase64: false,
+      truncated: true,
+      error: createError('BODY_LOAD_FAILED', '读取正文失败（浏览器可能已释放该请求的缓冲）', error),
+    }
+  }
+  if (text === null)
+    return { text: null, isBase64: false, truncated: false }
+  return decryptLargeBody(record, part, text, isBase64)
+}
+
+/** 按需加载正文：优先使用缓存，否则读取后存入缓存，再分块推送给面板 */
+async function loadLargeBody(recordId: string, part: BodyPart): Promise<void> {
+  // 目标记录
+  const record = recordBuffer.find(item => item.id === recordId)
+  const deferred = part === 'request' ? record?.requestBody.deferred : record?.body.deferred
+  if (!record || !deferred) {
+    broadcast({
+      type: 'record.body.loaded',
+      recordId,
+      part,
+      body: { text: null, isBase64: false, truncated: false, error: createError('BODY_LOAD_UNAVAILABLE', '记录已不存在或正文无需加载') },
+    })
+    return
+  }
+
+  // 缓存键与正文（响应阶段仍在流式读取时等待其完成，期间进度经 record.body.progress 推送）
+  const key = getLargeBodyKey(recordId, part)
+  let body = largeBodies.get(key)
+  if (!body) {
+    let loading = largeBodyLoads.get(key)
+    if (!loading) {
+      loading = readLargeBody(record, part).finally(() => largeBodyLoads.delete(key))
+      largeBodyLoads.set(key, loading)
+    }
+    body = await loading
+  }
+  // 仅缓存读取成功且记录仍在列表中的正文（命中时重新写入以标记为最近使用）
+  if (body.text !== null && recordBuffer.includes(record)) {
+    cacheLargeBody(key, body)
+    enforceRecordLimits()
+  }
+
+  // 分块推送（每块之间让出事件循环，避免长时间阻塞其他事件）
+  const text = body.text ?? ''
+  for (let offset = 0; offset < text.length; offset += BODY_CHUNK_CHARS) {
+    const chunk = text.slice(offset, offset + BODY_CHUNK_CHARS)
+    broadcast({ type: 'record.body.chunk', recordId, part, text: chunk, loaded: offset + chunk.length, total: text.length })
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+  broadcast({ type: 'record.body.loaded', recordId, part, body: { ...body, text: null } })
+}
+
+/** 解析 Fetch 域的响应头列表 */
+function parseFetchHeaders(value: unknown): HeaderEntry[] {
+  if (!Array.isArray(value))
+    return []
+  // 输出列表
+  const entries: HeaderEntry[] = []
+  for (const item of value) {
+    const name = isRecord(item) ? asString(item.name) : null
+    const headerValue = isRecord(item) ? asString(item.value) : null
+    if (name !== null && headerValue !== null)
+      entries.push({ name, value: headerValue })
+  }
+  return entries
+}
+
+/** 拼接读取到的分块 */
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  // 合并结果
+  const bytes = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes
+}
+
+/**
+ * 处理响应阶段暂停：未压缩且声明长度超过单条内联上限（且不超过按需加载上限）的响应改为流式读取正文，其余立即原样放行
+ * 压缩响应的 Content-Length 是压缩后的大小，解码后的正文长度无从预知，不走流式读取，仍在选中时经浏览器缓冲按需读取
+ */
+async function handleRequestPaused(tabId: number, params: unknown): Promise<void> {
+  if (!isRecord(params))
+    return
+  // 拦截 ID 与对应的网络请求
+  const interceptionId = asString(params.requestId)
+  const networkId = asString(params.networkId)
+  if (!interceptionId)
+    return
+  const pending = networkId ? pendingRequests.get(networkId) : undefined
+  // 响应状态与头部（请求失败时没有状态码）
+  const status = asNumber(params.responseStatusCode)
+  const statusText = asString(params.responseStatusText) ?? ''
+  const headers = parseFetchHeaders(params.responseHeaders)
+  const mimeType = findHeaderValue(headers, 'content-type') ?? ''
+  const encoding = (findHeaderValue(headers, 'content-encoding') ?? '').trim().toLowerCase()
+  const declared = Number(findHeaderValue(headers, 'content-length') ?? Number.NaN)
+  await settingsReady
+  const { maxRecordBytes, largeBodyBytes } = settings.limits
+  const streamable = !!networkId && !!pending && status !== null
+    && IDENTITY_ENCODINGS.has(encoding)
+    && declared > maxRecordBytes && declared <= largeBodyBytes
+    && !detectStreamFormat(pending.resourceType, mimeType, headers)
+  if (!networkId || !pending || status === null || !streamable) {
+    await continuePausedRequest(tabId, interceptionId)
+    return
+  }
+
+  // 登记为进行中的读取：记录生成后选中时等待此读取，而不是再次读取
+  const key = getLargeBodyKey(networkId, 'response')
+  const response: PausedResponse = { interceptionId, status, statusText, headers, declared }
+  const loading = streamResponseBody(tabId, pending, response, largeBodyBytes).finally(() => largeBodyLoads.delete(key))
+  largeBodyLoads.set(key, loading)
+  // 读取成功的正文写入缓存（与按需加载共用，计入缓冲区总量）
+  const body = await loading
+  if (body.text !== null) {
+    cacheLargeBody(key, body)
+    enforceRecordLimits()
+  }
+}
+
+/** 按名称（不区分大小写）查找头部取值 */
+function findHeaderValue(headers: HeaderEntry[], name: string): string | null {
+  return headers.find(header => header.name.toLowerCase() === name)?.value ?? null
+}
+
+/** 原样放行暂停中的请求（失败多为请求已被页面取消，无需提示） */
+async function continuePausedRequest(tabId: number, interceptionId: string): Promise<void> {
+  await sendDebuggerCommand(tabId, 'Fetch.continueRequest', { requestId: interceptionId }).catch((error) => {
+    debugLog(`continue paused request failed: ${String(error)}`)
+  })
+}
+
+/**
+ * 以读取到的字节交还页面（状态、状态文本与响应头保持原样）
+ * 交还失败时请求仍处于暂停状态：先尝试放行，仍失败才终止请求，避免页面请求一直挂起到分离调试器
+ */
+async function fulfillPausedRequest(tabId: number, response: PausedResponse, body: string): Promise<boolean> {
+  try {
+    await sendDebuggerCommand(tabId, 'Fetch.fulfillRequest', {
+      requestId: response.interceptionId,
+      responseCode: response.status,
+      responsePhrase: response.statusText || undefined,
+      responseHeaders: response.headers,
+      body,
+    })
+    return true
+  }
+  catch (error) {
+    debugLog(`fulfill paused request failed: ${String(error)}`)
+    await sendDebuggerCommand(tabId, 'Fetch.continueRequest', { requestId: response.interceptionId }).catch(async () => {
+      await sendDebuggerCommand(tabId, 'Fetch.failRequest', { requestId: response.interceptionId, errorReason: 'Failed' }).catch(() => {})
+    })
+    return false
+  }
+}
+
+/**
+ * 分块读取暂停中的响应体（每次读取推送进度），读完后原样交还页面并按规则解密
+ * 仅用于未压缩的响应，流中字节数即 Content-Length（不超过按需加载上限）；超过上限时立即停止读取（仅异常服务端会触发）
+ * 取流失败时原样放行；读取中途失败时以已读取的字节交还页面，均不会让页面收到原本没有的网络错误
+ */
+async function streamResponseBody(tabId: number, pending: PendingRequest, response: PausedResponse, limit: number): Promise<ResponseBody> {
+  // 响应体流句柄（取流失败时请求仍可原样放行）
+  let stream: string
+  try {
+    stream = (await sendDebuggerCommand<{ stream: string }>(tabId, 'Fetch.takeResponseBodyAsStream', { requestId: response.interceptionId })).stream
+  }
+  catch (error) {
+    debugLog(`take response body stream failed: ${String(error)}`)
+    await continuePausedRequest(tabId, response.interceptionId)
+    return { text: null, isBase64: false, truncated: true, error: createError('BODY_STREAM_FAILED', '流式读取响应体失败，请求已原样放行，可重新加载正文', error) }
+  }
+
+  // 已读取的分块、字节数与读取错误
+  const chunks: Uint8Array[] = []
+  let received = 0
+  let readError: unknown = null
+  try {
+    while (received <= limit) {
+      const result = await sendDebuggerCommand<{ data: string, base64Encoded?: boolean, eof: boolean }>(tabId, 'IO.read', { handle: stream, size: BODY_READ_BYTES })
+      const bytes = result.base64Encoded ? base64Decode(result.data) : utf8Encode(result.data)
+      if (bytes && bytes.length > 0) {
+        chunks.push(bytes)
+        received += bytes.length
+        broadcast({ type: 'record.body.progress', recordId: pending.requestId, part: 'response', received, total: response.declared })
+      }
+      if (result.eof)
+        break
+    }
+  }
+  catch (error) {
+    debugLog(`stream response body failed: ${String(error)}`)
+    readError = error
+  }
+  finally {
+    await sendDebuggerCommand(tabId, 'IO.close', { handle: stream }).catch(() => {})
+  }
+
+  // 交还页面
+  const bytes = concatChunks(chunks, received)
+  const body = base64Encode(bytes)
+  if (!await fulfillPausedRequest(tabId, response, body))
+    return { text: null, isBase64: false, truncated: true, error: createError('BODY_STREAM_FAILED', '响应体交还页面失败') }
+  if (readError !== null)
+    return { text: null, isBase64: false, truncated: true, error: createError('BODY_STREAM_FAILED', '流式读取响应体中途失败，页面收到已读取的部分', readError) }
+  if (received > limit)
+    return buildOverLimitBody(limit)
+  // 合法 UTF-8 按文本保存，否则保存 base64
+  const text = utf8Decode(bytes, true)
+  return text === null ? decryptLargeBody(pending, 'response', body, true) : decryptLargeBody(pending, 'response', text, false)
+}
+
+/** 使用规则绑定的流水线解密输入（密钥配置以变量形式注入） */
+async function runRulePipeline(rule: UrlRule, input: PipelineValue, keyProfiles: KeyProfile[]): Promise<DecryptResult> {
+  // 执行流水线
+  const result = await runPipeline(rule.pipeline, input, createKeyProfileContext(keyProfiles))
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    trace: toPipelineTrace(result),
+  }
+}
+
+/** 按 URL 规则解密记录的请求体与响应体 */
+async function decryptRecord(record: ResponseRecord): Promise<ResponseRecord> {
+  // 等待设置加载完成，避免 SW 刚启动时漏匹配
+  await settingsReady
+  // 对当前域名生效的设置
+  const siteSettings = resolveSettingsForHost(settings, getUrlHost(record.url))
+  // 请求体规则
+  const requestRule = findMatchingRule(siteSettings.rules, record.url, record.method, 'request')
+  // 响应体规则
+  const responseRule = findMatchingRule(siteSettings.rules, record.url, record.method, 'response')
+  if (!requestRule && !responseRule)
+    return record
+
+  // 请求体解密
+  let requestBody = record.requestBody
+  if (requestRule && requestBody.text !== null)
+    requestBody = { ...requestBody, decrypted: await runRulePipeline(requestRule, textValue(requestBody.text), siteSettings.keyProfiles) }
+
+  // 响应体解密
+  let body = record.body
+  // 响应体输入值（base64 正文按字节传入，避免文本解码损坏密文）
+  const responseInput = body.text === null ? null : bodyTextToValue(body.text, body.isBase64)
+  if (responseRule && responseInput)
+    body = { ...body, decrypted: await runRulePipeline(responseRule, responseInput, siteSettings.keyProfiles) }
+
+  return { ...record, requestBody, body }
+}
+
 /** 发送 debugger 命令并包装为 Promise */
 function sendDebuggerCommand<T>(tabId: number, method: string, params?: Record<string, unknown>): Promise<T> {
   return new Promise((resolve, reject) => {
@@ -265,11 +1070,86 @@ function asNumber(value: unknown): number | null {
   return typeof value === 'number' && Number.isFinite(value) ? value : null
 }
 
-/** 灏嗚緭鍏ヨВ鏋愪负甯冨皵鍊间互 */
+/** 将输入解析为布尔值 */
 function asBoolean(value: unknown): boolean | null {
   return typeof value === 'boolean' ? value : null
 }
 
+/** 将 CDP Headers 对象解析为头部列表 */
+function parseHeaders(value: unknown): HeaderEntry[] {
+  if (!isRecord(value))
+    return []
+  // 输出列表
+  const entries: HeaderEntry[] = []
+  for (const [name, rawValue] of Object.entries(value)) {
+    // 头部值
+    const headerValue = asString(rawValue)
+    if (headerValue === null)
+      continue
+    // 同名多值（如 Set-Cookie）以换行分隔，拆成多条
+    for (const part of headerValue.split('\n'))
+      entries.push({ name, value: part })
+  }
+  return entries
+}
+
+/** 解析 CDP Runtime.CallFrame */
+function parseStackFrame(value: unknown): StackFrame | null {
+  if (!isRecord(value))
+    return null
+  // 帧字段
+  const functionName = asString(value.functionName)
+  const url = asString(value.url)
+  const scriptId = asString(value.scriptId)
+  const lineNumber = asNumber(value.lineNumber)
+  const columnNumber = asNumber(value.columnNumber)
+  if (functionName === null || url === null || scriptId === null || lineNumber === null || columnNumber === null)
+    return null
+  return { functionName, url, scriptId, lineNumber, columnNumber }
+}
+
+/** 将 CDP Runtime.StackTrace 及其 parent 链展开为栈片段列表 */
+function parseStackTrace(value: unknown): StackSegment[] {
+  // 输出列表
+  const segments: StackSegment[] = []
+  // 当前栈（深度受 ASYNC_STACK_DEPTH 约束，额外加一层同步栈）
+  let current = value
+  while (isRecord(current) && segments.length <= ASYNC_STACK_DEPTH) {
+    // 栈帧
+    const frames = Array.isArray(current.callFrames)
+      ? current.callFrames.map(parseStackFrame).filter((frame): frame is StackFrame => frame !== null)
+      : []
+    // 异步边界说明（同步栈不带说明）
+    const description = segments.length > 0 ? asString(current.description) ?? 'async' : null
+    // 空的异步片段（如仅有边界说明）不保留
+    if (frames.length > 0)
+      segments.push({ description, frames })
+    current = current.parent
+  }
+  return segments
+}
+
+/** 解析 requestWillBeSent 的 initiator */
+function parseInitiator(value: unknown): RequestInitiator | null {
+  if (!isRecord(value))
+    return null
+  // 发起方类型
+  const type = asString(value.type)
+  if (!type)
+    return null
+  // 调用栈
+  const stack = parseStackTrace(value.stack)
+  // 发起位置：优先 initiator 自带字段，脚本发起时取栈顶帧
+  const topFrame = stack[0]?.frames[0] ?? null
+  return {
+    type,
+    url: asString(value.url) ?? topFrame?.url ?? null,
+    lineNumber: asNumber(value.lineNumber) ?? topFrame?.lineNumber ?? null,
+    columnNumber: asNumber(value.columnNumber) ?? topFrame?.columnNumber ?? null,
+    stack,
+  }
+}
+
 /** 解析面板发送的消息 */
 function parsePanelMessage(value: unknown): PanelToBackgroundMessage | null {
   if (!isRecord(value))
@@ -299,32 +1179,133 @@ function parsePanelMessage(value: unknown): PanelToBackgroundMessage | null {
   if (messageType === 'debugger.status')
     return { type: 'debugger.status' }
 
-  if (messageType === 'records.get')
-    return { type: 'records.get' }
+  if (messageType === 'records.get') {
+    // 已同步会话与序号（缺省视为全量）
+    const session = asString(value.session)
+    const sinceSeq = asNumber(value.sinceSeq)
+    return { type: 'records.get', session, sinceSeq }
+  }
+
+  if (messageType === 'record.body.get') {
+    // 记录 ID
+    const recordId = asString(value.recordId)
+    if (!recordId)
+      return null
+    return { type: 'record.body.get', recordId }
+  }
+
+  if (messageType === 'hooks.correlate')
+    return { type: 'hooks.correlate' }
+
+  if (messageType === 'records.pin') {
+    // 记录 ID 与固定状态
+    const recordId = asString(value.recordId)
+    const pinned = asBoolean(value.pinned)
+    if (!recordId || pinned === null)
+      return null
+    return { type: 'records.pin', recordId, pinned }
+  }
 
   if (messageType === 'records.clear')
     return { type: 'records.clear' }
 
-  return null
-}
+  if (messageType === 'settings.get')
+    return { type: 'settings.get' }
 
-/** 解析 requestWillBeSent 参数 */
-function parseRequestWillBeSent(value: unknown): PendingRequest | null {
-  if (!isRecord(value))
-    return null
+  if (messageType === 'settings.site.set') {
+    // 站点键与站点设置
+    const site = asString(value.site)
+    const siteSettings = parseSiteSettings(value.settings)
+    if (site === null || !siteSettings)
+      return null
+    return { type: 'settings.site.set', site, settings: siteSettings }
+  }
 
-  // 读取 requestId
-  const requestId = asString(value.requestId)
-  if (!requestId)
-    return null
+  if (messageType === 'settings.site.remove') {
+    // 站点键
+    const site = asString(value.site)
+    if (site === null)
+      return null
+    return { type: 'settings.site.remove', site }
+  }
 
-  // 读取 request 对象
-  const requestValue = isRecord(value.request) ? value.request : null
-  if (!requestValue)
-    return null
+  if (messageType === 'settings.limits.set') {
+    // 捕获限制
+    const limits = parseCaptureLimits(value.limits)
+    if (!limits)
+      return null
+    return { type: 'settings.limits.set', limits }
+  }
 
-  // 读取 URL 与方法
-  const url = asString(requestValue.url)
+  if (messageType === 'record.body.load') {
+    // 记录 ID 与正文部分
+    const recordId = asString(value.recordId)
+    const part = value.part === 'request' || value.part === 'response' ? value.part : null
+    if (!recordId || !part)
+      return null
+    return { type: 'record.body.load', recordId, part }
+  }
+
+  if (messageType === 'hooks.set') {
+    // 开关状态
+    const enabled = asBoolean(value.enabled)
+    if (enabled === null)
+      return null
+    return { type: 'hooks.set', enabled }
+  }
+
+  if (messageType === 'scripts.list')
+    return { type: 'scripts.list' }
+
+  if (messageType === 'scripts.search') {
+    // 关键字与大小写选项
+    const keywords = Array.isArray(value.keywords) ? value.keywords.filter((item): item is string => typeof item === 'string') : null
+    const caseSensitive = asBoolean(value.caseSensitive)
+    if (!keywords || caseSensitive === null)
+      return null
+    return { type: 'scripts.search', keywords, caseSensitive }
+  }
+
+  if (messageType === 'logpoints.add') {
+    // 位置、表达式与条件
+    const url = asString(value.url)
+    const lineNumber = asNumber(value.lineNumber)
+    const columnNumber = asNumber(value.columnNumber)
+    const expressions = Array.isArray(value.expressions) ? value.expressions.filter((item): item is string => typeof item === 'string') : null
+    const condition = asString(value.condition)
+    if (!url || lineNumber === null || columnNumber === null || !expressions || expressions.length === 0 || condition === null)
+      return null
+    return { type: 'logpoints.add', url, lineNumber, columnNumber, expressions, condition }
+  }
+
+  if (messageType === 'logpoints.remove') {
+    // 捕获点 ID
+    const id = asString(value.id)
+    if (!id)
+      return null
+    return { type: 'logpoints.remove', id }
+  }
+
+  return null
+}
+
+/** 解析 requestWillBeSent 参数 */
+function parseRequestWillBeSent(value: unknown): PendingRequest | null {
+  if (!isRecord(value))
+    return null
+
+  // 读取 requestId
+  const requestId = asString(value.requestId)
+  if (!requestId)
+    return null
+
+  // 读取 request 对象
+  const requestValue = isRecord(value.request) ? value.request : null
+  if (!requestValue)
+    return null
+
+  // 读取 URL 与方法
+  const url = asString(requestValue.url)
   const method = asString(requestValue.method)
   if (!url || !method)
     return null
@@ -334,6 +1315,9 @@ function parseRequestWillBeSent(value: unknown): PendingRequest | null {
   const hasPostData = asBoolean(requestValue.hasPostData)
   const resolvedHasPostData = hasPostData ?? requestPostData !== null
 
+  // 读取请求头
+  const requestHeaders = parseHeaders(requestValue.headers)
+
   // 读取资源类型
   const resourceType = asString(value.type)
   if (!resourceType || !isAllowedResourceType(resourceType))
@@ -345,10 +1329,13 @@ function parseRequestWillBeSent(value: unknown): PendingRequest | null {
     method,
     hasPostData: resolvedHasPostData,
     requestPostData,
+    requestHeaders,
+    responseHeaders: [],
     status: 0,
     mimeType: '',
     resourceType,
     timeStamp: Date.now(),
+    initiator: parseInitiator(value.initiator),
   }
 }
 
@@ -373,8 +1360,12 @@ function applyResponseReceived(pending: PendingRequest, value: unknown): Pending
   if (resourceType && !isAllowedResourceType(resourceType))
     return null
 
+  // 读取响应头
+  const responseHeaders = parseHeaders(responseValue.headers)
+
   return {
     ...pending,
+    responseHeaders,
     status,
     mimeType,
     resourceType: resourceType ?? pending.resourceType,
@@ -399,8 +1390,57 @@ function parseLoadingFinished(value: unknown): { requestId: string, encodedDataL
   return { requestId, encodedDataLength }
 }
 
+/** 解析 ExtraInfo 事件参数 */
+function parseExtraInfo(value: unknown): { requestId: string, headers: HeaderEntry[] } | null {
+  if (!isRecord(value))
+    return null
+
+  // 读取 requestId
+  const requestId = asString(value.requestId)
+  if (!requestId)
+    return null
+
+  return { requestId, headers: parseHeaders(value.headers) }
+}
+
+/** 读取或创建 ExtraInfo 暂存条目 */
+function getPendingExtraInfo(requestId: string): PendingExtraInfo {
+  // 已有条目
+  const existing = pendingExtraInfo.get(requestId)
+  if (existing)
+    return existing
+  // 超出上限时淘汰最早的条目
+  if (pendingExtraInfo.size >= MAX_EXTRA_INFO_ENTRIES) {
+    const oldestKey = pendingExtraInfo.keys().next().value
+    if (oldestKey !== undefined)
+      pendingExtraInfo.delete(oldestKey)
+  }
+  // 新建条目
+  const created: PendingExtraInfo = { requestHeaders: [], responseHeaders: [] }
+  pendingExtraInfo.set(requestId, created)
+  return created
+}
+
+/** 取出并移除 ExtraInfo 暂存条目 */
+function takePendingExtraInfo(requestId: string): PendingExtraInfo {
+  // 暂存条目
+  const extraInfo = pendingExtraInfo.get(requestId)
+  pendingExtraInfo.delete(requestId)
+  return extraInfo ?? { requestHeaders: [], responseHeaders: [] }
+}
+
+/** 生成记录头部集合 */
+function buildRecordHeaders(pending: PendingRequest, extraInfo: PendingExtraInfo): RecordHeaders {
+  return {
+    request: pending.requestHeaders,
+    response: pending.responseHeaders,
+    requestExtra: extraInfo.requestHeaders,
+    responseExtra: extraInfo.responseHeaders,
+  }
+}
+
 /** 解析 loadingFailed 参数 */
-function parseLoadingFailed(value: unknown): { requestId: string } | null {
+function parseLoadingFailed(value: unknown): { requestId: string, errorText: string | null } | null {
   if (!isRecord(value))
     return null
 
@@ -409,7 +1449,7 @@ function parseLoadingFailed(value: unknown): { requestId: string } | null {
   if (!requestId)
     return null
 
-  return { requestId }
+  return { requestId, errorText: asString(value.errorText) }
 }
 
 /** 处理 DevTools 事件 */
@@ -442,6 +1482,18 @@ function handleDebuggerEvent(source: chrome.debugger.Debuggee, method: string, p
     if (!updated)
       return
     pendingRequests.set(requestId, updated)
+    // 流式响应在响应头到达时即生成记录
+    startStream(updated)
+    return
+  }
+
+  if (method === EVENT_DATA_RECEIVED) {
+    handleDataReceived(params)
+    return
+  }
+
+  if (method === EVENT_EVENT_SOURCE_MESSAGE) {
+    handleEventSourceMessage(params)
     return
   }
 
@@ -450,19 +1502,431 @@ function handleDebuggerEvent(source: chrome.debugger.Debuggee, method: string, p
     const info = parseLoadingFinished(params)
     if (!info)
       return
+    if (streams.has(info.requestId)) {
+      finishStream(info.requestId, null)
+      return
+    }
     void handleLoadingFinished(info.requestId, info.encodedDataLength)
     return
   }
 
+  if (method === EVENT_REQUEST_EXTRA_INFO) {
+    // 解析原始请求头
+    const info = parseExtraInfo(params)
+    if (!info)
+      return
+    getPendingExtraInfo(info.requestId).requestHeaders = info.headers
+    return
+  }
+
+  if (method === EVENT_RESPONSE_EXTRA_INFO) {
+    // 解析原始响应头
+    const info = parseExtraInfo(params)
+    if (!info)
+      return
+    getPendingExtraInfo(info.requestId).responseHeaders = info.headers
+    return
+  }
+
+  if (method === EVENT_BINDING_CALLED) {
+    handleBindingCalled(params)
+    return
+  }
+
+  if (method === EVENT_SCRIPT_PARSED) {
+    handleScriptParsed(params)
+    return
+  }
+
+  if (method === EVENT_GLOBAL_OBJECT_CLEARED) {
+    parsedScripts.clear()
+    return
+  }
+
+  if (method === EVENT_WEBSOCKET_CREATED) {
+    handleWebSocketCreated(params)
+    return
+  }
+
+  if (method === EVENT_WEBSOCKET_HANDSHAKE_RESPONSE) {
+    handleWebSocketHandshake(params)
+    return
+  }
+
+  if (method === EVENT_WEBSOCKET_FRAME_SENT || method === EVENT_WEBSOCKET_FRAME_RECEIVED) {
+    handleWebSocketFrame(params, method === EVENT_WEBSOCKET_FRAME_SENT ? 'sent' : 'received')
+    return
+  }
+
+  if (method === EVENT_WEBSOCKET_FRAME_ERROR || method === EVENT_WEBSOCKET_CLOSED) {
+    handleWebSocketEnded(params, method === EVENT_WEBSOCKET_CLOSED)
+    return
+  }
+
+  if (method === EVENT_BREAKPOINT_RESOLVED) {
+    handleBreakpointResolved(params)
+    return
+  }
+
+  if (method === EVENT_REQUEST_PAUSED && source.tabId !== undefined) {
+    void handleRequestPaused(source.tabId, params).catch((error) => {
+      sendError(createError('BODY_STREAM_FAILED', '流式读取响应体失败', error))
+    })
+    return
+  }
+
   if (method === EVENT_LOADING_FAILED) {
     // 解析失败事件
     const info = parseLoadingFailed(params)
     if (!info)
       return
+    if (streams.has(info.requestId)) {
+      finishStream(info.requestId, info.errorText ?? '请求失败')
+      return
+    }
     void handleLoadingFailed(info.requestId)
   }
 }
 
+/** 在记录的处理队列末尾追加任务（任务失败不影响后续任务） */
+function enqueueRecordTask(requestId: string, task: () => Promise<void>): Promise<void> {
+  // 前序任务
+  const previous = recordQueues.get(requestId) ?? Promise.resolve()
+  const next = previous.then(task)
+  recordQueues.set(requestId, next.catch((error) => {
+    debugLog(`record task failed: ${String(error)}`)
+  }))
+  return next
+}
+
+/** 计算 base64 文本对应的字节数 */
+function getBase64ByteLength(text: string): number {
+  // 末尾填充数
+  const padding = text.endsWith('==') ? 2 : text.endsWith('=') ? 1 : 0
+  return Math.max(0, Math.floor(text.length * 3 / 4) - padding)
+}
+
+/** 处理 WebSocket 连接创建：立即生成连接记录，帧随后追加 */
+function handleWebSocketCreated(params: unknown): void {
+  if (!isRecord(params) || !isAllowedResourceType('WebSocket'))
+    return
+  // 连接标识与 URL
+  const requestId = asString(params.requestId)
+  const url = asString(params.url)
+  if (!requestId || !url)
+    return
+  const record: ResponseRecord = {
+    id: requestId,
+    url,
+    method: 'GET',
+    status: 0,
+    mimeType: '',
+    resourceType: 'WebSocket',
+    timeStamp: Date.now(),
+    encodedDataLength: 0,
+    headers: { request: [], response: [], requestExtra: [], responseExtra: [] },
+    requestBody: { text: null, truncated: false },
+    body: { text: null, isBase64: false, truncated: false },
+    initiator: parseInitiator(params.initiator),
+    webSocket: { frames: [], dropped: 0, closed: false, error: null },
+    stream: null,
+  }
+  webSockets.set(requestId, record)
+  pushRecord(record)
+}
+
+/** 处理 WebSocket 握手响应：补充状态码与握手头部 */
+function handleWebSocketHandshake(params: unknown): void {
+  if (!isRecord(params))
+    return
+  // 对应连接
+  const record = webSockets.get(asString(params.requestId) ?? '')
+  const response = isRecord(params.response) ? params.response : null
+  if (!record || !response)
+    return
+  record.status = asNumber(response.status) ?? record.status
+  record.headers = {
+    ...record.headers,
+    request: parseHeaders(response.requestHeaders),
+    response: parseHeaders(response.headers),
+  }
+  broadcastRecordUpdated(record)
+}
+
+/** 解析 WebSocket 帧（文本帧按原文保存，其余按 base64 保存；超长截断；序号在追加时分配） */
+function parseWebSocketFrame(value: unknown, direction: WebSocketFrame['direction']): WebSocketFrame | null {
+  if (!isRecord(value))
+    return null
+  // opcode 与载荷
+  const opcode = asNumber(value.opcode)
+  const payloadData = asString(value.payloadData)
+  if (opcode === null || payloadData === null)
+    return null
+  // CDP 约定：opcode 1 为 UTF-8 文本，其余为 base64 编码的二进制
+  const isBase64 = opcode !== 1
+  const size = isBase64 ? getBase64ByteLength(payloadData) : getTextByteLength(payloadData)
+  const truncated = size > MAX_FRAME_BYTES
+  // 截断后的载荷（base64 按 4 字符对齐）
+  const payload = !truncated
+    ? payloadData
+    : isBase64
+      ? payloadData.slice(0, Math.floor(MAX_FRAME_BYTES / 3) * 4)
+      : payloadData.slice(0, MAX_FRAME_BYTES)
+  return { index: 0, direction, opcode, payload, isBase64, size, truncated, timeStamp: Date.now() }
+}
+
+/** 按 URL 规则解密单帧：发出帧使用请求规则，接收帧使用响应规则；仅处理完整的数据帧 */
+async function decryptFrame(record: ResponseRecord, frame: WebSocketFrame): Promise<WebSocketFrame> {
+  if ((frame.opcode !== 1 && frame.opcode !== 2) || frame.truncated)
+    return frame
+  await settingsReady
+  // 对当前域名生效的设置与规则
+  const siteSettings = resolveSettingsForHost(settings, getUrlHost(record.url))
+  const rule = findMatchingRule(siteSettings.rules, record.url, record.method, frame.direction === 'sent' ? 'request' : 'response')
+  // 帧输入值（二进制帧按字节传入）
+  const input = bodyTextToValue(frame.payload, frame.isBase64)
+  if (!rule || !input)
+    return frame
+  return { ...frame, decrypted: await runRulePipeline(rule, input, siteSettings.keyProfiles) }
+}
+
+/** 处理 WebSocket 帧：在连接队列中解密后追加并广播 */
+function handleWebSocketFrame(params: unknown, direction: WebSocketFrame['direction']): void {
+  if (!isRecord(params))
+    return
+  // 对应连接
+  const requestId = asString(params.requestId) ?? ''
+  const record = webSockets.get(requestId)
+  const connection = record?.webSocket
+  if (!record || !connection)
+    return
+  // 帧内容（时间戳取到达时刻）
+  const frame = parseWebSocketFrame(params.response, direction)
+  if (!frame)
+    return
+  // 排队处理（队列串行执行，序号即到达顺序）
+  void enqueueRecordTask(requestId, async () => {
+    frame.index = connection.frames.length + connection.dropped
+    const decrypted = await decryptFrame(record, frame)
+    // 解密期间记录已被淘汰时丢弃该帧
+    if (!recordBuffer.includes(record))
+      return
+    if (connection.frames.length >= MAX_WEBSOCKET_FRAMES) {
+      connection.frames.shift()
+      connection.dropped += 1
+    }
+    connection.frames.push(decrypted)
+    // 超出单条记录上限时继续丢弃最早的帧（最新一帧始终保留）
+    let bytes = measureRecord(record)
+    while (bytes > settings.limits.maxRecordBytes && connection.frames.length > 1) {
+      const dropped = connection.frames.shift()
+      bytes -= dropped ? measureFrame(dropped) : 0
+      connection.dropped += 1
+    }
+    record.encodedDataLength += decrypted.size
+    updateRecordBytes(record)
+    broadcast({ type: 'records.frame.added', recordId: record.id, frame: decrypted })
+    enforceRecordLimits()
+  })
+}
+
+/** 处理 WebSocket 帧错误或关闭：标记连接状态，待队列清空后广播 */
+function handleWebSocketEnded(params: unknown, closed: boolean): void {
+  if (!isRecord(params))
+    return
+  // 对应连接
+  const requestId = asString(params.requestId) ?? ''
+  const record = webSockets.get(requestId)
+  const connection = record?.webSocket
+  if (!record || !connection)
+    return
+  if (closed) {
+    connection.closed = true
+    webSockets.delete(requestId)
+  }
+  else {
+    connection.error = asString(params.errorMessage) ?? 'WebSocket 帧错误'
+  }
+  // 等已排队的帧追加后再广播，避免面板收到的记录缺帧
+  void enqueueRecordTask(requestId, async () => {
+    if (closed)
+      recordQueues.delete(requestId)
+    broadcastRecordUpdated(record)
+  })
+}
+
+/** 响应头到达时识别流式响应：立即生成流记录，事件随后追加；fetch 流开启分块内容推送 */
+function startStream(pending: PendingRequest): void {
+  if (attachedTabId === null || streams.has(pending.requestId))
+    return
+  // 流格式
+  const format = detectStreamFormat(pending.resourceType, pending.mimeType, pending.responseHeaders)
+  if (!format)
+    return
+  const tabId = attachedTabId
+  const { requestId } = pending
+  const record: ResponseRecord = {
+    id: requestId,
+    url: pending.url,
+    method: pending.method,
+    status: pending.status,
+    mimeType: pending.mimeType,
+    resourceType: pending.resourceType,
+    timeStamp: pending.timeStamp,
+    encodedDataLength: 0,
+    headers: buildRecordHeaders(pending, pendingExtraInfo.get(requestId) ?? { requestHeaders: [], responseHeaders: [] }),
+    requestBody: { text: null, truncated: false },
+    body: { text: null, isBase64: false, truncated: false },
+    initiator: pending.initiator,
+    webSocket: null,
+    stream: { format, events: [], dropped: 0, complete: false, error: null },
+  }
+  streams.set(requestId, { record, pending, decoder: new TextDecoder(), buffer: '', bodyText: '', bodyBytes: 0, bodyTruncated: false })
+  void enqueueRecordTask(requestId, async () => {
+    record.requestBody = await buildRequestBody(tabId, requestId, pending.hasPostData, pending.requestPostData)
+    pushRecord(record)
+  })
+  // EventSource 的事件由 eventSourceMessageReceived 单独推送
+  if (pending.resourceType === 'EventSource')
+    return
+  void enqueueRecordTask(requestId, async () => {
+    // 已缓冲的数据；此后的 dataReceived 会携带分块内容
+    const result = await sendDebuggerCommand<{ bufferedData: string }>(tabId, 'Network.streamResourceContent', { requestId })
+    const state = streams.get(requestId)
+    const bytes = base64Decode(result.bufferedData)
+    if (state && bytes && bytes.length > 0)
+      await appendStreamChunk(state, bytes, false)
+  })
+}
+
+/** 追加一个流事件：截断、按响应规则解密后广播 */
+async function appendStreamEvent(state: StreamState, content: StreamEventContent): Promise<void> {
+  const stream = state.record.stream
+  if (!stream)
+    return
+  // 数据大小与截断
+  const size = getTextByteLength(content.data)
+  const truncated = size > MAX_FRAME_BYTES
+  let event: StreamEvent = {
+    index: stream.events.length + stream.dropped,
+    eventName: content.eventName,
+    eventId: content.eventId,
+    data: truncated ? content.data.slice(0, MAX_FRAME_BYTES) : content.data,
+    size,
+    truncated,
+    timeStamp: Date.now(),
+  }
+  if (!truncated) {
+    await settingsReady
+    // 对当前域名生效的设置与响应规则
+    const siteSettings = resolveSettingsForHost(settings, getUrlHost(state.record.url))
+    const rule = findMatchingRule(siteSettings.rules, state.record.url, state.record.method, 'response')
+    if (rule)
+      event = { ...event, decrypted: await runRulePipeline(rule, textValue(event.data), siteSettings.keyProfiles) }
+  }
+  // 记录已被淘汰（或解密期间被淘汰）时丢弃该事件
+  if (!recordBuffer.includes(state.record))
+    return
+  if (stream.events.length >= MAX_STREAM_EVENTS) {
+    stream.events.shift()
+    stream.dropped += 1
+  }
+  stream.events.push(event)
+  // 超出单条记录上限时继续丢弃最早的事件（最新事件始终保留）
+  let bytes = measureRecord(state.record)
+  while (bytes > settings.limits.maxRecordBytes && stream.events.length > 1) {
+    const dropped = stream.events.shift()
+    bytes -= dropped ? measureStreamEvent(dropped) : 0
+    stream.dropped += 1
+  }
+  updateRecordBytes(state.record)
+  broadcast({ type: 'records.event.added', recordId: state.record.id, event })
+  enforceRecordLimits()
+}
+
+/** 处理到达的分块：累积正文，并按流格式切出完整事件 */
+async function appendStreamChunk(state: StreamState, bytes: Uint8Array, flush: boolean): Promise<void> {
+  // 解码文本（flush 时输出解码器中残留的字节）
+  const text = state.decoder.decode(bytes, { stream: !flush })
+  if (!state.bodyTruncated) {
+    if (state.bodyBytes + bytes.length > settings.limits.maxRecordBytes)
+      state.bodyTruncated = true
+    else
+      state.bodyText += text
+    state.bodyBytes += bytes.length
+  }
+  // 切出完整事件
+  const format = state.record.stream?.format ?? 'chunk'
+  const { events, rest } = splitStreamText(state.buffer + text, format, flush)
+  state.buffer = rest
+  for (const content of events)
+    await appendStreamEvent(state, content)
+}
+
+/** 处理 EventSource 消息 */
+function handleEventSourceMessage(params: unknown): void {
+  if (!isRecord(params))
+    return
+  // 对应的流
+  const requestId = asString(params.requestId) ?? ''
+  const state = streams.get(requestId)
+  const data = asString(params.data)
+  if (!state || data === null)
+    return
+  // CDP 中缺省事件类型为空串
+  const content: StreamEventContent = { eventName: asString(params.eventName) || 'message', eventId: asString(params.eventId) || null, data }
+  void enqueueRecordTask(requestId, () => appendStreamEvent(state, content))
+}
+
+/** 处理 dataReceived：累计传输字节，开启推送后的分块按顺序追加 */
+function handleDataReceived(params: unknown): void {
+  if (!isRecord(params))
+    return
+  // 对应的流
+  const requestId = asString(params.requestId) ?? ''
+  const state = streams.get(requestId)
+  if (!state)
+    return
+  state.record.encodedDataLength += asNumber(params.encodedDataLength) ?? 0
+  // 分块内容（未开启推送时不携带）
+  const data = asString(params.data)
+  const bytes = data ? base64Decode(data) : null
+  if (bytes && bytes.length > 0)
+    void enqueueRecordTask(requestId, () => appendStreamChunk(state, bytes, false))
+}
+
+/** 结束流：输出残留事件，补全正文与头部后广播更新（推送未生效时回退为一次性读取正文） */
+function finishStream(requestId: string, error: string | null): void {
+  // 对应的流
+  const state = streams.get(requestId)
+  if (!state)
+    return
+  streams.delete(requestId)
+  const tabId = attachedTabId
+  void enqueueRecordTask(requestId, async () => {
+    const { record, pending } = state
+    await appendStreamChunk(state, new Uint8Array(0), true)
+    // 未收到任何分块时读取完整正文并整体切分
+    if (state.bodyBytes === 0 && record.resourceType !== 'EventSource' && tabId !== null && !error) {
+      const body = await buildResponseBody(tabId, requestId, record.encodedDataLength)
+      const value = body.text === null ? null : bodyTextToValue(body.text, body.isBase64)
+      if (value)
+        await appendStreamChunk(state, valueToBytes(value), true)
+    }
+    if (record.stream) {
+      record.stream.complete = true
+      record.stream.error = error
+    }
+    record.body = { text: state.bodyBytes > 0 ? state.bodyText : null, isBase64: false, truncated: state.bodyTruncated }
+    record.headers = buildRecordHeaders(pending, takePendingExtraInfo(requestId))
+    pendingRequests.delete(requestId)
+    recordQueues.delete(requestId)
+    updateRecordBytes(record)
+    broadcastRecordUpdated(record)
+    enforceRecordLimits()
+  })
+}
+
 /** 处理响应完成事件 */
 async function handleLoadingFinished(requestId: string, encodedDataLength: number): Promise<void> {
   if (attachedTabId === null)
@@ -470,8 +1934,11 @@ async function handleLoadingFinished(requestId: string, encodedDataLength: numbe
 
   // 读取挂起请求
   const pending = pendingRequests.get(requestId)
-  if (!pending)
+  if (!pending) {
+    // 非目标资源类型的请求，同步丢弃其 ExtraInfo
+    pendingExtraInfo.delete(requestId)
     return
+  }
 
   // 构建请求体
   const requestBody = await buildRequestBody(attachedTabId, requestId, pending.hasPostData, pending.requestPostData)
@@ -487,11 +1954,15 @@ async function handleLoadingFinished(requestId: string, encodedDataLength: numbe
     resourceType: pending.resourceType,
     timeStamp: pending.timeStamp,
     encodedDataLength,
+    headers: buildRecordHeaders(pending, takePendingExtraInfo(requestId)),
     requestBody,
     body,
+    initiator: pending.initiator,
+    webSocket: null,
+    stream: null,
   }
   pendingRequests.delete(requestId)
-  pushRecord(record)
+  pushRecord(await decryptRecord(record))
 }
 
 /** 处理响应失败事件 */
@@ -501,8 +1972,11 @@ async function handleLoadingFailed(requestId: string): Promise<void> {
 
   // 读取挂起请求
   const pending = pendingRequests.get(requestId)
-  if (!pending)
+  if (!pending) {
+    // 非目标资源类型的请求，同步丢弃其 ExtraInfo
+    pendingExtraInfo.delete(requestId)
     return
+  }
 
   // 构建请求体
   const requestBody = await buildRequestBody(attachedTabId, requestId, pending.hasPostData, pending.requestPostData)
@@ -523,11 +1997,15 @@ async function handleLoadingFailed(requestId: string): Promise<void> {
     resourceType: pending.resourceType,
     timeStamp: pending.timeStamp,
     encodedDataLength: 0,
+    headers: buildRecordHeaders(pending, takePendingExtraInfo(requestId)),
     requestBody,
     body,
+    initiator: pending.initiator,
+    webSocket: null,
+    stream: null,
   }
   pendingRequests.delete(requestId)
-  pushRecord(record)
+  pushRecord(await decryptRecord(record))
 }
 
 /** 附加到指定标签页 */
@@ -541,7 +2019,11 @@ async function attachToTab(tabId: number): Promise<void> {
 
   // 清空临时数据
   pendingRequests.clear()
-  recordBuffer.length = 0
+  pendingExtraInfo.clear()
+  webSockets.clear()
+  recordQueues.clear()
+  streams.clear()
+  resetRecordBuffer()
 
   // 执行附加
   await new Promise<void>((resolve, reject) => {
@@ -557,13 +2039,174 @@ async function attachToTab(tabId: number): Promise<void> {
   })
 
   // 启用网络事件
-  await sendDebuggerCommand(tabId, 'Network.enable')
+  await settingsReady
+  await enableNetworkDomain(tabId)
+  // 启用 Debugger 域（失败时仅缺少异步父栈与脚本列表，不影响捕获）
+  await enableDebuggerDomain(tabId).catch((error) => {
+    debugLog(`enable debugger failed: ${String(error)}`)
+  })
   attachedTabId = tabId
+  // 附加完成后再开启拦截，否则附加期间暂停的请求无人放行（失败时大响应体回退为按需一次性读取）
+  await enableResponseInterception(tabId).catch((error) => {
+    debugLog(`enable fetch interception failed: ${String(error)}`)
+  })
+  hookCalls.length = 0
+  captures.length = 0
+  if (hooksEnabled) {
+    await installHooks(tabId).catch((error) => {
+      sendError(createError('HOOK_INSTALL_FAILED', '注入加密调用 Hook 失败', error))
+    })
+  }
+  await applyLogpoints(tabId).catch((error) => {
+    sendError(createError('LOGPOINT_SET_FAILED', '设置捕获点失败', error))
+  })
   sendStatusUpdate()
-  broadcast({ type: 'records.snapshot', records: [...recordBuffer], attachedTabId })
+  for (const port of panelPorts)
+    sendRecords(port, null, null)
   debugLog(`attached to tab ${tabId}`)
 }
 
+/** 启用 Network 域（单个请求的正文缓冲需覆盖按需加载上限，否则大正文在读取前即被浏览器释放；重复调用即更新缓冲区大小） */
+async function enableNetworkDomain(tabId: number): Promise<void> {
+  const { largeBodyBytes } = settings.limits
+  await sendDebuggerCommand(tabId, 'Network.enable', {
+    maxResourceBufferSize: largeBodyBytes,
+    maxTotalBufferSize: Math.max(MIN_TOTAL_BUFFER_BYTES, largeBodyBytes * 4),
+  })
+}
+
+/** 启用响应阶段拦截：XHR/Fetch 响应头到达时暂停，由 handleRequestPaused 决定放行或流式读取正文 */
+async function enableResponseInterception(tabId: number): Promise<void> {
+  await sendDebuggerCommand(tabId, 'Fetch.enable', {
+    patterns: INTERCEPTED_RESOURCE_TYPES.map(resourceType => ({ urlPattern: '*', resourceType, requestStage: 'Response' })),
+  })
+}
+
+/** 按需加载上限变化时立即以新的缓冲区大小重新启用 Network 域（已附加时），无需重新附加 */
+function syncNetworkBuffers(previousLargeBodyBytes: number): void {
+  if (attachedTabId === null || settings.limits.largeBodyBytes === previousLargeBodyBytes)
+    return
+  void enableNetworkDomain(attachedTabId).catch((error) => {
+    sendError(createError('LIMITS_APPLY_FAILED', '更新正文缓冲区大小失败，重新附加后生效', error))
+  })
+}
+
+/**
+ * 启用 Debugger 域：开始接收 scriptParsed（启用时会补发已加载脚本），并设置异步栈深度，使 initiator 携带 Promise/定时器等异步父栈
+ * 始终跳过所有暂停，以免页面中的 debugger 语句中断执行；捕获点的断点条件在跳过暂停时仍会求值
+ */
+async function enableDebuggerDomain(tabId: number): Promise<void> {
+  if (debuggerEnabled)
+    return
+  await sendDebuggerCommand(tabId, 'Debugger.enable')
+  debuggerEnabled = true
+  await sendDebuggerCommand(tabId, 'Debugger.setSkipAllPauses', { skip: true })
+  await sendDebuggerCommand(tabId, 'Debugger.setAsyncCallStackDepth', { maxDepth: ASYNC_STACK_DEPTH })
+}
+
+/** 广播捕获点快照 */
+function broadcastLogpoints(): void {
+  broadcast({ type: 'logpoints.snapshot', logpoints: [...logpoints], captures: [...captures] })
+}
+
+/** 注册捕获点上报绑定（重复注册无副作用） */
+async function ensureLogpointBinding(tabId: number): Promise<void> {
+  await sendDebuggerCommand(tabId, 'Runtime.enable')
+  await sendDebuggerCommand(tabId, 'Runtime.addBinding', { name: LOGPOINT_BINDING })
+}
+
+/** 为捕获点设置 CDP 条件断点（条件内求值并上报，始终返回 false），记录断点 ID 与已解析位置数 */
+async function setLogpointBreakpoint(tabId: number, logpoint: Logpoint): Promise<void> {
+  const result = await sendDebuggerCommand<{ breakpointId: string, locations: unknown[] }>(tabId, 'Debugger.setBreakpointByUrl', {
+    url: logpoint.url,
+    lineNumber: logpoint.lineNumber,
+    columnNumber: logpoint.columnNumber,
+    condition: buildLogpointCondition(logpoint),
+  })
+  logpoint.breakpointId = result.breakpointId
+  logpoint.resolved = result.locations.length
+}
+
+/** 附加后重新设置全部捕获点（旧会话的断点 ID 已失效） */
+async function applyLogpoints(tabId: number): Promise<void> {
+  for (const logpoint of logpoints) {
+    logpoint.breakpointId = null
+    logpoint.resolved = 0
+  }
+  if (logpoints.length === 0)
+    return
+  await enableDebuggerDomain(tabId)
+  await ensureLogpointBinding(tabId)
+  for (const logpoint of logpoints)
+    await setLogpointBreakpoint(tabId, logpoint)
+  broadcastLogpoints()
+}
+
+/** 添加捕获点（已附加时立即设置断点） */
+async function addLogpoint(url: string, lineNumber: number, columnNumber: number, expressions: string[], condition: string): Promise<void> {
+  logpointSeq += 1
+  // 新捕获点
+  const logpoint: Logpoint = { id: `logpoint-${logpointSeq}`, url, lineNumber, columnNumber, expressions, condition, breakpointId: null, resolved: 0 }
+  logpoints.push(logpoint)
+  try {
+    if (attachedTabId !== null) {
+      await enableDebuggerDomain(attachedTabId)
+      await ensureLogpointBinding(attachedTabId)
+      await setLogpointBreakpoint(attachedTabId, logpoint)
+    }
+  }
+  finally {
+    broadcastLogpoints()
+  }
+}
+
+/** 移除捕获点及其断点 */
+async function removeLogpoint(id: string): Promise<void> {
+  // 目标位置
+  const index = logpoints.findIndex(item => item.id === id)
+  if (index < 0)
+    return
+  const [logpoint] = logpoints.splice(index, 1)
+  broadcastLogpoints()
+  if (attachedTabId === null || !logpoint)
+    return
+  if (logpoint.breakpointId)
+    await sendDebuggerCommand(attachedTabId, 'Debugger.removeBreakpoint', { breakpointId: logpoint.breakpointId })
+}
+
+/** 处理断点解析事件（脚本在设置断点后才加载） */
+function handleBreakpointResolved(params: unknown): void {
+  if (!isRecord(params))
+    return
+  // 对应的捕获点
+  const logpoint = logpoints.find(item => item.breakpointId !== null && item.breakpointId === params.breakpointId)
+  if (!logpoint)
+    return
+  logpoint.resolved += 1
+  broadcastLogpoints()
+}
+
+/** 处理捕获点命中上报：补充捕获 ID 与时间后保存并广播 */
+function handleLogpointReport(payload: string): void {
+  let raw: unknown
+  try {
+    raw = JSON.parse(payload)
+  }
+  catch {
+    return
+  }
+  // 上报内容（已移除的捕获点不再记录）
+  const report = parseLogpointReport(raw)
+  if (!report || !logpoints.some(item => item.id === report.logpointId))
+    return
+  logpointSeq += 1
+  const capture: LogpointCapture = { id: `capture-${logpointSeq}`, timeStamp: Date.now(), ...report }
+  if (captures.length >= MAX_LOGPOINT_CAPTURES)
+    captures.shift()
+  captures.push(capture)
+  broadcast({ type: 'captures.added', capture })
+}
+
 /** 解除指定标签页的附加 */
 async function detachFromTab(tabId: number): Promise<void> {
   if (attachedTabId !== tabId)
@@ -576,15 +2219,257 @@ async function detachFromTab(tabId: number): Promise<void> {
   })
 
   attachedTabId = null
+  hookScriptId = null
+  debuggerEnabled = false
+  parsedScripts.clear()
+  webSockets.clear()
+  recordQueues.clear()
+  streams.clear()
   pendingRequests.clear()
+  pendingExtraInfo.clear()
   sendStatusUpdate()
   debugLog(`detached from tab ${tabId}`)
 }
 
-/** 清空记录缓存 */
+/** 注入加密调用 Hook：注册绑定、在新文档加载前执行脚本，并立即在当前页面执行一次 */
+async function installHooks(tabId: number): Promise<void> {
+  // Hook 脚本源码
+  const source = buildCryptoHookSource(CRYPTO_HOOK_BINDING)
+  await sendDebuggerCommand(tabId, 'Runtime.enable')
+  await sendDebuggerCommand(tabId, 'Runtime.addBinding', { name: CRYPTO_HOOK_BINDING })
+  const result = await sendDebuggerCommand<{ identifier: string }>(tabId, 'Page.addScriptToEvaluateOnNewDocument', { source })
+  hookScriptId = result.identifier
+  await sendDebuggerCommand(tabId, 'Runtime.evaluate', { expression: source })
+}
+
+/** 移除加密调用 Hook（已执行的页面需刷新后才完全恢复） */
+async function uninstallHooks(tabId: number): Promise<void> {
+  if (hookScriptId !== null)
+    await sendDebuggerCommand(tabId, 'Page.removeScriptToEvaluateOnNewDocument', { identifier: hookScriptId })
+  hookScriptId = null
+  await sendDebuggerCommand(tabId, 'Runtime.removeBinding', { name: CRYPTO_HOOK_BINDING })
+}
+
+/** 切换 Hook 开关（已附加时立即注入或移除） */
+async function setHooksEnabled(enabled: boolean): Promise<void> {
+  hooksEnabled = enabled
+  broadcast({ type: 'hooks.snapshot', enabled: hooksEnabled, calls: [...hookCalls] })
+  if (attachedTabId === null)
+    return
+  if (enabled)
+    await installHooks(attachedTabId)
+  else
+    await uninstallHooks(attachedTabId)
+}
+
+/** 处理绑定上报：按绑定名分发到捕获点或加密调用 Hook */
+function handleBindingCalled(params: unknown): void {
+  if (!isRecord(params))
+    return
+  // 上报内容
+  const payload = asString(params.payload)
+  if (!payload)
+    return
+  if (params.name === LOGPOINT_BINDING) {
+    handleLogpointReport(payload)
+    return
+  }
+  if (!hooksEnabled || params.name !== CRYPTO_HOOK_BINDING)
+    return
+  let raw: unknown
+  try {
+    raw = JSON.parse(payload)
+  }
+  catch {
+    return
+  }
+  hookCallSeq += 1
+  const call = parseCryptoHookCall(raw, `hook-${hookCallSeq}`)
+  if (!call)
+    return
+  if (hookCalls.length >= MAX_HOOK_CALLS)
+    hookCalls.shift()
+  hookCalls.push(call)
+  broadcast({ type: 'hooks.call.added', call })
+}
+
+/** 计算全部 Hook 调用与记录的关联（数据匹配需要正文，因此在后台进行） */
+function correlateHookCalls(): CryptoHookCorrelation[] {
+  // 关联结果
+  const correlations: CryptoHookCorrelation[] = []
+  for (const call of hookCalls) {
+    const correlation = correlateCryptoCall(call, recordBuffer)
+    if (correlation)
+      correlations.push({ callId: call.id, ...correlation })
+  }
+  return correlations
+}
+
+/** 处理脚本解析事件（跳过扩展自身与浏览器内部脚本） */
+function handleScriptParsed(params: unknown): void {
+  if (!isRecord(params))
+    return
+  // 脚本字段
+  const scriptId = asString(params.scriptId)
+  const url = asString(params.url) ?? ''
+  const length = asNumber(params.length) ?? 0
+  if (!scriptId || url.startsWith('chrome-extension://') || url.startsWith('chrome://'))
+    return
+  if (parsedScripts.size >= MAX_SCRIPTS) {
+    // 淘汰最早解析的脚本
+    const oldest = parsedScripts.keys().next().value
+    if (oldest !== undefined)
+      parsedScripts.delete(oldest)
+  }
+  parsedScripts.set(scriptId, { scriptId, url, length })
+}
+
+/** 发送已解析脚本列表 */
+async function sendScriptList(): Promise<void> {
+  if (attachedTabId === null) {
+    sendError(createError('NOT_ATTACHED', '未附加调试器，无法列出脚本'))
+    return
+  }
+  await enableDebuggerDomain(attachedTabId)
+  broadcast({ type: 'scripts.snapshot', scripts: [...parsedScripts.values()] })
+}
+
+/** 逐个脚本执行 Debugger.searchInContent，汇总命中并按脚本分组返回 */
+async function searchScripts(keywords: string[], caseSensitive: boolean): Promise<void> {
+  if (attachedTabId === null) {
+    sendError(createError('NOT_ATTACHED', '未附加调试器，无法搜索脚本'))
+    return
+  }
+  // 规范化关键字与正则
+  const normalized = normalizeKeywords(keywords)
+  const query = buildKeywordPattern(normalized)
+  if (!query) {
+    sendError(createError('SCRIPT_SEARCH_EMPTY', '请至少选择或输入一个关键字'))
+    return
+  }
+  await enableDebuggerDomain(attachedTabId)
+  // 本次搜索序号
+  scriptSearchSeq += 1
+  const seq = scriptSearchSeq
+  // 逐行定位命中列号（CDP 每行只返回一次行内容）
+  const pattern = new RegExp(query, caseSensitive ? 'g' : 'gi')
+  const tabId = attachedTabId
+  // 结果与计数
+  const results: ScriptSearchResult[] = []
+  let scanned = 0
+  let failed = 0
+  for (const script of [...parsedScripts.values()]) {
+    // 新搜索已开始或已解除附加
+    if (seq !== scriptSearchSeq || attachedTabId !== tabId)
+      return
+    try {
+      const response = await sendDebuggerCommand<{ result: Array<{ lineNumber: number, lineContent: string }> }>(tabId, 'Debugger.searchInContent', {
+        scriptId: script.scriptId,
+        query,
+        caseSensitive,
+        isRegex: true,
+      })
+      scanned += 1
+      // 逐行展开命中
+      const matches: ScriptSearchMatch[] = []
+      for (const line of response.result) {
+        matches.push(...collectLineMatches(line.lineNumber, line.lineContent, pattern, MAX_SCRIPT_MATCHES + 1 - matches.length))
+        if (matches.length > MAX_SCRIPT_MATCHES)
+          break
+      }
+      if (matches.length > 0)
+        results.push({ script, matches: matches.slice(0, MAX_SCRIPT_MATCHES), truncated: matches.length > MAX_SCRIPT_MATCHES })
+    }
+    catch {
+      // 页面跳转后旧脚本已失效
+      failed += 1
+    }
+  }
+  broadcast({ type: 'scripts.search.result', keywords: normalized, results, scanned, failed })
+}
+
+/** 从 chrome.storage 读取设置（旧版本数据迁移后回写） */
+async function loadSettings(): Promise<void> {
+  // 存储内容
+  const stored = await chrome.storage.local.get(SETTINGS_STORAGE_KEY)
+  const raw = stored[SETTINGS_STORAGE_KEY] as unknown
+  // 迁移后的设置
+  const migrated = migrateSettings(raw)
+  if (!migrated) {
+    // 无法识别的数据保留原样，不覆盖
+    settingsWritable = false
+    sendError(createError('SETTINGS_INVALID', '已保存的设置无法解析，已使用空设置。'))
+    return
+  }
+  settings = migrated
+  enforceRecordLimits()
+  if (raw !== undefined && (raw as { version?: unknown }).version !== SETTINGS_VERSION) {
+    try {
+      await chrome.storage.local.set({ [SETTINGS_STORAGE_KEY]: migrated })
+    }
+    catch (error) {
+      // 回写失败不影响使用，旧版本数据下次启动仍可迁移
+      sendError(createError('SETTINGS_SAVE_FAILED', '保存迁移后的设置失败', error))
+    }
+  }
+  broadcast({ type: 'settings.snapshot', settings })
+}
+
+/** 等待设置加载后按当前设置计算新设置，保存并广播快照 */
+async function saveSettings(update: (current: Settings) => Settings): Promise<void> {
+  await settingsReady
+  if (!settingsWritable) {
+    // 存储中仍是无法解析的数据，拒绝覆盖并让面板回到当前快照
+    sendError(createError('SETTINGS_INVALID', '已保存的设置无法解析，为避免覆盖原数据已拒绝保存。请修复或清除存储中的设置后重试。'))
+    broadcast({ type: 'settings.snapshot', settings })
+    return
+  }
+  // 新设置
+  const next = update(settings)
+  // 变更前的按需加载上限
+  const previousLargeBodyBytes = settings.limits.largeBodyBytes
+  settings = next
+  syncNetworkBuffers(previousLargeBodyBytes)
+  enforceRecordLimits()
+  broadcast({ type: 'settings.snapshot', settings })
+  try {
+    await chrome.storage.local.set({ [SETTINGS_STORAGE_KEY]: next })
+  }
+  catch (error) {
+    sendError(createError('SETTINGS_SAVE_FAILED', '保存设置失败', error))
+  }
+}
+
+/** 处理存储变更（其他上下文写入或手动修改） */
+function handleStorageChanged(changes: Record<string, chrome.storage.StorageChange>, areaName: string): void {
+  if (areaName !== 'local' || !(SETTINGS_STORAGE_KEY in changes))
+    return
+  // 新设置
+  const next = migrateSettings(changes[SETTINGS_STORAGE_KEY]!.newValue)
+  if (!next) {
+    settingsWritable = false
+    sendError(createError('SETTINGS_INVALID', '存储中的设置无法解析，已忽略本次变更。'))
+    return
+  }
+  settingsWritable = true
+  // 变更前的按需加载上限
+  const previousLargeBodyBytes = settings.limits.largeBodyBytes
+  settings = next
+  syncNetworkBuffers(previousLargeBodyBytes)
+  enforceRecordLimits()
+  broadcast({ type: 'settings.snapshot', settings })
+}
+
+/** 清空记录缓存（固定的记录保留） */
 function clearRecords(): void {
-  recordBuffer.length = 0
+  resetRecordBuffer()
+  hookCalls.length = 0
+  captures.length = 0
+  webSockets.clear()
+  recordQueues.clear()
+  streams.clear()
   pendingRequests.clear()
+  pendingExtraInfo.clear()
   sendSnapshotToAll()
 }
 
@@ -595,7 +2480,7 @@ function sendSnapshotToAll(): void {
 }
 
 /** 处理面板消息 */
-function handlePanelMessage(message: PanelToBackgroundMessage): void {
+function handlePanelMessage(message: PanelToBackgroundMessage, port: chrome.runtime.Port): void {
   if (message.type === 'debugger.attach') {
     void attachToTab(message.tabId).catch((error) => {
       sendError(createError('ATTACH_FAILED', '附加调试器失败', error))
@@ -616,12 +2501,89 @@ function handlePanelMessage(message: PanelToBackgroundMessage): void {
   }
 
   if (message.type === 'records.get') {
-    sendSnapshotToAll()
+    sendRecords(port, message.session, message.sinceSeq)
+    return
+  }
+
+  if (message.type === 'record.body.get') {
+    port.postMessage({ type: 'record.body.result', recordId: message.recordId, record: recordBuffer.find(record => record.id === message.recordId) ?? null })
+    return
+  }
+
+  if (message.type === 'hooks.correlate') {
+    port.postMessage({ type: 'hooks.correlations', correlations: correlateHookCalls() })
+    return
+  }
+
+  if (message.type === 'records.pin') {
+    pinRecord(message.recordId, message.pinned)
     return
   }
 
   if (message.type === 'records.clear') {
     clearRecords()
+    return
+  }
+
+  if (message.type === 'settings.get') {
+    broadcast({ type: 'settings.snapshot', settings })
+    return
+  }
+
+  if (message.type === 'settings.site.set') {
+    void saveSettings(current => setSiteSettings(current, message.site, message.settings))
+    return
+  }
+
+  if (message.type === 'settings.limits.set') {
+    void saveSettings(current => setCaptureLimits(current, message.limits))
+    return
+  }
+
+  if (message.type === 'record.body.load') {
+    void loadLargeBody(message.recordId, message.part).catch((error) => {
+      sendError(createError('BODY_LOAD_FAILED', '加载正文失败', error))
+    })
+    return
+  }
+
+  if (message.type === 'settings.site.remove') {
+    void saveSettings(current => setSiteSettings(current, message.site, createSiteSettings()))
+    return
+  }
+
+  if (message.type === 'hooks.set') {
+    void setHooksEnabled(message.enabled).catch((error) => {
+      sendError(createError('HOOK_INSTALL_FAILED', message.enabled ? '注入加密调用 Hook 失败' : '移除加密调用 Hook 失败', error))
+    })
+    return
+  }
+
+  if (message.type === 'scripts.list') {
+    void sendScriptList().catch((error) => {
+      sendError(createError('SCRIPT_LIST_FAILED', '读取页面脚本失败', error))
+    })
+    return
+  }
+
+  if (message.type === 'scripts.search') {
+    void searchScripts(message.keywords, message.caseSensitive).catch((error) => {
+      sendError(createError('SCRIPT_SEARCH_FAILED', '搜索页面脚本失败', error))
+    })
+    return
+  }
+
+  if (message.type === 'logpoints.add') {
+    void addLogpoint(message.url, message.lineNumber, message.columnNumber, message.expressions, message.condition).catch((error) => {
+      sendError(createError('LOGPOINT_SET_FAILED', '设置捕获点失败', error))
+    })
+    return
+  }
+
+  if (message.type === 'logpoints.remove') {
+    void removeLogpoint(message.id).catch((error) => {
+      sendError(createError('LOGPOINT_REMOVE_FAILED', '移除捕获点失败', error))
+    })
   }
 }
 
@@ -631,14 +2593,16 @@ function handlePortConnection(port: chrome.runtime.Port): void {
     return
 
   panelPorts.add(port)
-  sendSnapshot(port)
+  // 记录由面板经 records.get 按序号拉取
+  port.postMessage({ type: 'status.update', attachedTabId })
+  sendCaptureSnapshot(port)
 
   port.onMessage.addListener((rawMessage) => {
     // 解析面板消息
     const message = parsePanelMessage(rawMessage)
     if (!message)
       return
-    handlePanelMessage(message)
+    handlePanelMessage(message, port)
   })
 
   port.onDisconnect.addListener(() => {
@@ -646,6 +2610,19 @@ function handlePortConnection(port: chrome.runtime.Port): void {
   })
 }
 
+// 注册内置解密算子
+registerBuiltinOperators()
+
+// 启动时读取设置
+settingsReady = loadSettings().catch((error) => {
+  // 读取失败时无法确认存储内容，同样禁止写回
+  settingsWritable = false
+  sendError(createError('SETTINGS_LOAD_FAILED', '读取设置失败', error))
+})
+
+// 注册存储变更监听
+chrome.storage.onChanged.addListener(handleStorageChanged)
+
 // 注册端口连接监听
 chrome.runtime.onConnect.addListener(handlePortConnection)
 
@@ -657,6 +2634,13 @@ chrome.debugger.onDetach.addListener((source) => {
   if (source.tabId !== attachedTabId)
     return
   attachedTabId = null
+  hookScriptId = null
+  debuggerEnabled = false
+  parsedScripts.clear()
+  webSockets.clear()
+  recordQueues.clear()
+  streams.clear()
   pendingRequests.clear()
+  pendingExtraInfo.clear()
   sendStatusUpdate()
 })
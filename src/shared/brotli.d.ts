@@ -0,0 +1,20 @@
+/** brotli 包的纯 JS 解码器（仅声明本项目用到的部分） */
+declare module 'brotli/dec/decode' {
+  /** 解码输出端：解码器会按元块长度替换 buffer，再按块回写环形缓冲区内容 */
+  export interface BrotliOutputSink {
+    /** 输出缓冲区 */
+    buffer: Uint8Array
+    /** 写入 buf 的前 count 字节，返回写入字节数 */
+    write: (buf: Uint8Array, count: number) => number
+  }
+
+  /** 执行解码（失败时抛出异常） */
+  export function BrotliDecompress(input: import('brotli/dec/streams').BrotliInput, output: BrotliOutputSink): void
+}
+
+declare module 'brotli/dec/streams' {
+  /** 解码输入端 */
+  export class BrotliInput {
+    constructor(buffer: Uint8Array)
+  }
+}
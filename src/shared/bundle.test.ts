@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import type { Settings, SiteSettings } from './settings'
+import { BUNDLE_FORMAT, createSettingsBundle, mergeSettingsBundle, parseSettingsBundle } from './bundle'
+import { createDefaultSettings } from './settings'
+
+/** 生成只含一个密钥配置的站点设置 */
+function createSite(id: string, key: string): SiteSettings {
+  return { rules: [], pipelines: [], keyProfiles: [{ id, name: id, key, keyEncoding: 'utf8', iv: '', ivEncoding: 'utf8' }] }
+}
+
+/** 测试设置 */
+const SETTINGS: Settings = {
+  ...createDefaultSettings(),
+  sites: { 'a.com': createSite('k1', 'old'), 'b.com': createSite('k2', 'b') },
+}
+
+describe('settingsBundle', () => {
+  it('导出指定站点后可解析还原', () => {
+    const bundle = createSettingsBundle(SETTINGS, ['a.com'])
+    expect(Object.keys(bundle.sites)).toEqual(['a.com'])
+    expect(parseSettingsBundle(JSON.parse(JSON.stringify(bundle)))).toEqual({ ok: true, bundle })
+  })
+
+  it('导入时按 id 覆盖已有项并追加新项', () => {
+    const incoming = { 'a.com': { ...createSite('k1', 'new'), keyProfiles: [...createSite('k1', 'new').keyProfiles, ...createSite('k3', 'c').keyProfiles] } }
+    const merged = mergeSettingsBundle(SETTINGS, { format: BUNDLE_FORMAT, version: 1, exportedAt: '', sites: incoming })
+    expect(merged).toHaveLength(1)
+    expect(merged[0]?.[0]).toBe('a.com')
+    expect(merged[0]?.[1].keyProfiles.map(profile => [profile.id, profile.key])).toEqual([['k1', 'new'], ['k3', 'c']])
+  })
+
+  it('同一主机名的不同端口合并为一个站点', () => {
+    const result = parseSettingsBundle({ format: BUNDLE_FORMAT, version: 1, sites: { 'A.com:8080': createSite('k1', 'x'), 'a.com': createSite('k2', 'y') } })
+    expect(result.ok && Object.keys(result.bundle.sites)).toEqual(['a.com'])
+    expect(result.ok && result.bundle.sites['a.com']?.keyProfiles.map(profile => profile.id)).toEqual(['k1', 'k2'])
+  })
+
+  it.each([
+    ['格式标识不符', { format: 'other', version: 1, sites: {} }, 'BUNDLE_INVALID'],
+    ['版本过高', { format: BUNDLE_FORMAT, version: 99, sites: {} }, 'BUNDLE_VERSION_UNSUPPORTED'],
+    ['缺少站点', { format: BUNDLE_FORMAT, version: 1 }, 'BUNDLE_INVALID'],
+    ['站点设置非法', { format: BUNDLE_FORMAT, version: 1, sites: { 'a.com': { rules: 'x' } } }, 'BUNDLE_INVALID'],
+  ])('%s时报错', (_title, value, code) => {
+    const result = parseSettingsBundle(value)
+    expect(result.ok ? null : result.error.code).toBe(code)
+  })
+
+  it('站点设置非法时指明站点', () => {
+    const result = parseSettingsBundle({ format: BUNDLE_FORMAT, version: 1, sites: { 'bad.com': null } })
+    expect(result.ok ? null : result.error.message).toContain('bad.com')
+  })
+})
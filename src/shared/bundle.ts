@@ -0,0 +1,101 @@
+import type { AppError } from './messages'
+import type { Settings, SiteSettings } from './settings'
+import { createSiteSettings, normalizeSite, parseSiteSettings } from './settings'
+
+/** 导出包格式标识 */
+export const BUNDLE_FORMAT = 'capture-decrypt-bundle'
+
+/** 当前导出包版本 */
+export const BUNDLE_VERSION = 1
+
+/** 设置导出包（规则、流水线、密钥配置，按站点划分） */
+export interface SettingsBundle {
+  /** 格式标识 */
+  format: typeof BUNDLE_FORMAT
+  /** 导出包版本 */
+  version: number
+  /** 导出时间（ISO 字符串） */
+  exportedAt: string
+  /** 站点设置 */
+  sites: Record<string, SiteSettings>
+}
+
+/** 导出包解析结果 */
+export type BundleParseResult = { ok: true, bundle: SettingsBundle } | { ok: false, error: AppError }
+
+/** 判断对象类型 */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/** 生成导出包（sites 为空时导出全部站点） */
+export function createSettingsBundle(settings: Settings, sites?: string[]): SettingsBundle {
+  // 导出的站点设置
+  const exported: Record<string, SiteSettings> = {}
+  for (const [site, siteSettings] of Object.entries(settings.sites)) {
+    if (!sites || sites.includes(site))
+      exported[site] = siteSettings
+  }
+  return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), sites: exported }
+}
+
+/** 判断 JSON 数据是否为导出包（仅检查格式标识） */
+export function isSettingsBundle(value: unknown): boolean {
+  return isRecord(value) && value.format === BUNDLE_FORMAT
+}
+
+/** 解析导出包 */
+export function parseSettingsBundle(value: unknown): BundleParseResult {
+  if (!isRecord(value) || value.format !== BUNDLE_FORMAT)
+    return { ok: false, error: { code: 'BUNDLE_INVALID', message: '不是本扩展导出的设置包' } }
+  if (typeof value.version !== 'number' || value.version > BUNDLE_VERSION)
+    return { ok: false, error: { code: 'BUNDLE_VERSION_UNSUPPORTED', message: `不支持的导出包版本：${String(value.version)}，请升级扩展后再导入` } }
+  if (!isRecord(value.sites))
+    return { ok: false, error: { code: 'BUNDLE_INVALID', message: '导出包缺少站点设置' } }
+  // 站点设置
+  const sites: Record<string, SiteSettings> = {}
+  for (const [site, item] of Object.entries(value.sites)) {
+    const parsed = parseSiteSettings(item)
+    if (!parsed)
+      return { ok: false, error: { code: 'BUNDLE_INVALID', message: `站点「${site}」的设置格式不正确` } }
+    // 同一主机名的多个端口合并
+    const key = normalizeSite(site)
+    const existing = sites[key]
+    sites[key] = existing
+      ? { rules: [...existing.rules, ...parsed.rules], pipelines: [...existing.pipelines, ...parsed.pipelines], keyProfiles: [...existing.keyProfiles, ...parsed.keyProfiles] }
+      : parsed
+  }
+  return {
+    ok: true,
+    bundle: {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: typeof value.exportedAt === 'string' ? value.exportedAt : '',
+      sites,
+    },
+  }
+}
+
+/** 按 id 合并列表（导入项覆盖同 id 的现有项，新项追加在末尾） */
+function mergeById<T extends { id: string }>(current: T[], incoming: T[]): T[] {
+  // 导入项索引
+  const incomingById = new Map(incoming.map(item => [item.id, item]))
+  // 先替换已有项，再追加新项
+  const merged = current.map(item => incomingById.get(item.id) ?? item)
+  // 已有 id
+  const currentIds = new Set(current.map(item => item.id))
+  return [...merged, ...incoming.filter(item => !currentIds.has(item.id))]
+}
+
+/** 将导出包合并到站点设置，返回需要写入的站点列表 */
+export function mergeSettingsBundle(settings: Settings, bundle: SettingsBundle): Array<[string, SiteSettings]> {
+  return Object.entries(bundle.sites).map(([site, incoming]) => {
+    // 现有站点设置
+    const current = settings.sites[site] ?? createSiteSettings()
+    return [site, {
+      rules: mergeById(current.rules, incoming.rules),
+      pipelines: mergeById(current.pipelines, incoming.pipelines),
+      keyProfiles: mergeById(current.keyProfiles, incoming.keyProfiles),
+    }]
+  })
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import {
+  base32Decode,
+  base32Encode,
+  base58Decode,
+  base58Encode,
+  base64Decode,
+  base64Encode,
+  base64UrlDecode,
+  base64UrlEncode,
+  hexDecode,
+  hexEncode,
+  latin1Decode,
+  utf8Encode,
+} from './bytes'
+
+/** RFC 4648 第 10 节测试向量：明文 -> [Base64, Base32, Hex] */
+const RFC4648_VECTORS: Array<[string, string, string, string]> = [
+  ['', '', '', ''],
+  ['f', 'Zg==', 'MY======', '66'],
+  ['fo', 'Zm8=', 'MZXQ====', '666f'],
+  ['foo', 'Zm9v', 'MZXW6===', '666f6f'],
+  ['foob', 'Zm9vYg==', 'MZXW6YQ=', '666f6f62'],
+  ['fooba', 'Zm9vYmE=', 'MZXW6YTB', '666f6f6261'],
+  ['foobar', 'Zm9vYmFy', 'MZXW6YTBOI======', '666f6f626172'],
+]
+
+describe('rFC 4648 编码', () => {
+  it.each(RFC4648_VECTORS)('「%s」编码与解码', (plain, base64, base32, hex) => {
+    const bytes = utf8Encode(plain)
+    expect(base64Encode(bytes)).toBe(base64)
+    expect(base32Encode(bytes)).toBe(base32)
+    expect(hexEncode(bytes)).toBe(hex)
+    expect(base64Decode(base64)).toEqual(bytes)
+    expect(base32Decode(base32)).toEqual(bytes)
+    expect(hexDecode(hex)).toEqual(bytes)
+  })
+
+  it('解码容忍空白、小写与省略的填充', () => {
+    expect(latin1Decode(base64Decode('Zm9v\nYmFy')!)).toBe('foobar')
+    expect(latin1Decode(base32Decode('mzxw6ytb oi')!)).toBe('foobar')
+    expect(latin1Decode(hexDecode('0x66 6F 6f')!)).toBe('foo')
+  })
+
+  it.each([
+    ['base64', () => base64Decode('Zm9v!')],
+    ['base32', () => base32Decode('MZXW1')],
+    ['hex 奇数长度', () => hexDecode('666')],
+    ['hex 非法字符', () => hexDecode('zz')],
+  ])('%s 非法输入返回 null', (_title, decode) => {
+    expect(decode()).toBeNull()
+  })
+})
+
+describe('base64URL', () => {
+  it('替换字符表并默认省略填充', () => {
+    const bytes = new Uint8Array([0xFB, 0xFF, 0xBF, 0xFE])
+    expect(base64Encode(bytes)).toBe('+/+//g==')
+    expect(base64UrlEncode(bytes)).toBe('-_-__g')
+    expect(base64UrlEncode(bytes, true)).toBe('-_-__g==')
+    expect(base64UrlDecode('-_-__g')).toEqual(bytes)
+    expect(base64UrlDecode('-_-__g==')).toEqual(bytes)
+    expect(base64UrlDecode('+/+//g')).toEqual(bytes)
+    expect(base64UrlDecode('ab$c')).toBeNull()
+  })
+})
+
+describe('base58', () => {
+  it.each([
+    ['Hello World!', '2NEpo7TZRRrLZSi2U'],
+    ['The quick brown fox jumps over the lazy dog.', 'USm3fpXnKG5EUBx2ndxBDMPVciP5hGey2Jh4NDv6gmeo1LkMeiKrLJUUBk6Z'],
+  ])('「%s」编码与解码', (plain, encoded) => {
+    expect(base58Encode(utf8Encode(plain))).toBe(encoded)
+    expect(base58Decode(encoded)).toEqual(utf8Encode(plain))
+  })
+
+  it('前导零字节映射为 1', () => {
+    const bytes = hexDecode('0000287fb4cd')!
+    expect(base58Encode(bytes)).toBe('11233QC4')
+    expect(base58Decode('11233QC4')).toEqual(bytes)
+  })
+
+  it('非法字符返回 null', () => {
+    expect(base58Decode('0OIl')).toBeNull()
+  })
+})
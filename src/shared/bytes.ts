@@ -0,0 +1,241 @@
+/** UTF-8 编码器 */
+const TEXT_ENCODER = new TextEncoder()
+
+/** btoa 单次处理的字节块大小（避免参数过多导致栈溢出） */
+const BASE64_CHUNK_SIZE = 0x8000
+
+/** 十六进制字符表 */
+const HEX_ALPHABET = '0123456789abcdef'
+
+/** Base32 字符表（RFC 4648） */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+/** Base58 字符表（Bitcoin） */
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+/** Hex dump 每行字节数 */
+const HEX_DUMP_ROW_SIZE = 16
+
+/** 将文本编码为 UTF-8 字节 */
+export function utf8Encode(text: string): Uint8Array {
+  return TEXT_ENCODER.encode(text)
+}
+
+/** 将字节按 UTF-8 解码为文本（fatal 为 true 时遇到非法序列返回 null） */
+export function utf8Decode(bytes: Uint8Array, fatal = false): string | null {
+  try {
+    return new TextDecoder('utf-8', { fatal }).decode(bytes)
+  }
+  catch {
+    return null
+  }
+}
+
+/** 将字节按 Latin-1 映射为文本（每字节一个字符，无损） */
+export function latin1Decode(bytes: Uint8Array): string {
+  // 分块拼接结果
+  let result = ''
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_SIZE)
+    result += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_CHUNK_SIZE))
+  return result
+}
+
+/** 将 Latin-1 文本映射为字节（码点超过 0xff 时返回 null） */
+export function latin1Encode(text: string): Uint8Array | null {
+  // 输出字节
+  const bytes = new Uint8Array(text.length)
+  for (let index = 0; index < text.length; index += 1) {
+    // 当前码点
+    const code = text.charCodeAt(index)
+    if (code > 0xFF)
+      return null
+    bytes[index] = code
+  }
+  return bytes
+}
+
+/** 将字节编码为标准 Base64 */
+export function base64Encode(bytes: Uint8Array): string {
+  return btoa(latin1Decode(bytes))
+}
+
+/** 将标准 Base64 解码为字节（忽略空白，非法输入返回 null） */
+export function base64Decode(text: string): Uint8Array | null {
+  try {
+    // 去除空白字符
+    const normalized = text.replace(/\s+/g, '')
+    return latin1Encode(atob(normalized))
+  }
+  catch {
+    return null
+  }
+}
+
+/** 将字节编码为 Base64URL（默认不带填充） */
+export function base64UrlEncode(bytes: Uint8Array, padding = false): string {
+  // 标准 Base64 替换字符
+  const encoded = base64Encode(bytes).replace(/\+/g, '-').replace(/\//g, '_')
+  return padding ? encoded : encoded.replace(/=+$/, '')
+}
+
+/** 将 Base64URL 解码为字节（填充可省略，非法输入返回 null） */
+export function base64UrlDecode(text: string): Uint8Array | null {
+  // 还原为标准 Base64
+  const normalized = text.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/')
+  if (/[^A-Z0-9+/=]/i.test(normalized))
+    return null
+  // 补齐填充
+  const unpadded = normalized.replace(/=+$/, '')
+  return base64Decode(unpadded.padEnd(Math.ceil(unpadded.length / 4) * 4, '='))
+}
+
+/** 将字节编码为 Base32（RFC 4648，带填充） */
+export function base32Encode(bytes: Uint8Array): string {
+  // 输出字符
+  let result = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      result += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 0x1F]!
+      bits -= 5
+    }
+  }
+  if (bits > 0)
+    result += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1F]!
+  return result.padEnd(Math.ceil(result.length / 8) * 8, '=')
+}
+
+/** 将 Base32 解码为字节（不区分大小写，填充可省略，非法输入返回 null） */
+export function base32Decode(text: string): Uint8Array | null {
+  // 规范化输入
+  const normalized = text.replace(/\s+/g, '').replace(/=+$/, '').toUpperCase()
+  // 输出字节
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index < 0)
+      return null
+    buffer = ((buffer << 5) | index) & 0xFFF
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xFF)
+      bits -= 8
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+/** 将字节编码为 Base58（Bitcoin 字符表，前导零字节映射为 1） */
+export function base58Encode(bytes: Uint8Array): string {
+  // 前导零个数
+  let zeros = 0
+  while (zeros < bytes.length && bytes[zeros] === 0)
+    zeros += 1
+  // 大端 58 进制数位（低位在前）
+  const digits: number[] = []
+  for (const byte of bytes.subarray(zeros)) {
+    let carry = byte
+    for (let index = 0; index < digits.length; index += 1) {
+      carry += digits[index]! << 8
+      digits[index] = carry % 58
+      carry = Math.floor(carry / 58)
+    }
+    while (carry > 0) {
+      digits.push(carry % 58)
+      carry = Math.floor(carry / 58)
+    }
+  }
+  return '1'.repeat(zeros) + digits.reverse().map(digit => BASE58_ALPHABET[digit]!).join('')
+}
+
+/** 将 Base58 解码为字节（非法字符返回 null） */
+export function base58Decode(text: string): Uint8Array | null {
+  // 规范化输入
+  const normalized = text.trim()
+  // 前导 1 个数
+  let zeros = 0
+  while (zeros < normalized.length && normalized[zeros] === '1')
+    zeros += 1
+  // 256 进制字节（低位在前）
+  const bytes: number[] = []
+  for (const char of normalized.slice(zeros)) {
+    let carry = BASE58_ALPHABET.indexOf(char)
+    if (carry < 0)
+      return null
+    for (let index = 0; index < bytes.length; index += 1) {
+      carry += bytes[index]! * 58
+      bytes[index] = carry & 0xFF
+      carry >>= 8
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xFF)
+      carry >>= 8
+    }
+  }
+  return new Uint8Array([...Array.from({ length: zeros }, () => 0), ...bytes.reverse()])
+}
+
+/** 将字节编码为小写十六进制 */
+export function hexEncode(bytes: Uint8Array): string {
+  // 输出字符
+  let result = ''
+  for (const byte of bytes)
+    result += HEX_ALPHABET[byte >> 4]! + HEX_ALPHABET[byte & 0x0F]!
+  return result
+}
+
+/** 将十六进制解码为字节（忽略空白与 0x 前缀，非法输入返回 null） */
+export function hexDecode(text: string): Uint8Array | null {
+  // 规范化输入
+  const normalized = text.replace(/\s+/g, '').replace(/^0x/i, '')
+  if (normalized.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(normalized))
+    return null
+  // 输出字节
+  const bytes = new Uint8Array(normalized.length / 2)
+  for (let index = 0; index < bytes.length; index += 1)
+    bytes[index] = Number.parseInt(normalized.slice(index * 2, index * 2 + 2), 16)
+  return bytes
+}
+
+/** 拼接多个字节数组 */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  // 总长度
+  const total = parts.reduce((sum, part) => sum + part.length, 0)
+  // 输出字节
+  const result = new Uint8Array(total)
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+/** 生成 Hex dump 文本（偏移 + 十六进制 + 可打印 ASCII） */
+export function hexDump(bytes: Uint8Array): string {
+  // 输出行
+  const lines: string[] = []
+  for (let offset = 0; offset < bytes.length; offset += HEX_DUMP_ROW_SIZE) {
+    // 当前行字节
+    const row = bytes.subarray(offset, offset + HEX_DUMP_ROW_SIZE)
+    // 十六进制列（第 8 字节后留空以便对齐阅读）
+    let hex = ''
+    for (let index = 0; index < HEX_DUMP_ROW_SIZE; index += 1) {
+      const byte = row[index]
+      hex += byte === undefined ? '   ' : `${HEX_ALPHABET[byte >> 4]!}${HEX_ALPHABET[byte & 0x0F]!} `
+      if (index === 7)
+        hex += ' '
+    }
+    // 可打印字符列
+    let ascii = ''
+    for (const byte of row)
+      ascii += byte >= 0x20 && byte < 0x7F ? String.fromCharCode(byte) : '.'
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex} |${ascii}|`)
+  }
+  return lines.join('\n')
+}
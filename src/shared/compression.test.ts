@@ -0,0 +1,41 @@
+import { brotliCompressSync, deflateRawSync, deflateSync, gzipSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import type { CompressionFormat } from './compression'
+import { utf8Decode, utf8Encode } from './bytes'
+import { decompressBytes, detectCompressionFormat } from './compression'
+
+/** 测试明文（重复内容便于压缩） */
+const PLAIN = utf8Encode('{"data":"加密载荷","items":[1,2,3]}'.repeat(20))
+
+/** 按格式用 node:zlib 压缩，作为独立实现的对照输入 */
+const COMPRESSORS: Record<CompressionFormat, (data: Uint8Array) => Uint8Array> = {
+  'gzip': data => gzipSync(data),
+  'zlib': data => deflateSync(data),
+  'deflate-raw': data => deflateRawSync(data),
+  'brotli': data => brotliCompressSync(data),
+}
+
+describe('decompressBytes', () => {
+  it.each(Object.keys(COMPRESSORS) as CompressionFormat[])('解压 %s 还原明文', async (format) => {
+    const result = await decompressBytes(COMPRESSORS[format](PLAIN), format)
+    expect(result.ok ? utf8Decode(result.bytes) : result.message).toBe(utf8Decode(PLAIN))
+  })
+
+  it.each(Object.keys(COMPRESSORS) as CompressionFormat[])('%s 解压结果超过上限时报 TOO_LARGE', async (format) => {
+    const result = await decompressBytes(COMPRESSORS[format](new Uint8Array(64 * 1024)), format, 1024)
+    expect(result.ok ? null : result.reason).toBe('TOO_LARGE')
+  })
+
+  it.each(['gzip', 'zlib', 'deflate-raw'] as CompressionFormat[])('%s 损坏数据报 INVALID', async (format) => {
+    const result = await decompressBytes(utf8Encode('not compressed at all'), format)
+    expect(result.ok ? null : result.reason).toBe('INVALID')
+  })
+})
+
+describe('detectCompressionFormat', () => {
+  it('按头部识别 gzip 与 zlib', () => {
+    expect(detectCompressionFormat(gzipSync(PLAIN))).toBe('gzip')
+    expect(detectCompressionFormat(deflateSync(PLAIN))).toBe('zlib')
+    expect(detectCompressionFormat(utf8Encode('{"a":1}'))).toBeNull()
+  })
+})
@@ -0,0 +1,118 @@
+import type { BrotliOutputSink } from 'brotli/dec/decode'
+import { BrotliDecompress } from 'brotli/dec/decode'
+import { BrotliInput } from 'brotli/dec/streams'
+import { concatBytes } from './bytes'
+
+/** 支持的压缩格式：zlib 即 HTTP 的 deflate，deflate-raw 为无头部的原始 deflate */
+export type CompressionFormat = 'gzip' | 'zlib' | 'deflate-raw' | 'brotli'
+
+/** 解压输出上限（字节），防止压缩炸弹耗尽内存 */
+export const MAX_DECOMPRESSED_SIZE = 64 * 1024 * 1024
+
+/** 解压结果 */
+export type DecompressResult
+  = | { ok: true, bytes: Uint8Array }
+    | { ok: false, reason: 'INVALID' | 'TOO_LARGE', message: string }
+
+/** DecompressionStream 对应的格式名 */
+const STREAM_FORMATS: Record<Exclude<CompressionFormat, 'brotli'>, 'gzip' | 'deflate' | 'deflate-raw'> = {
+  'gzip': 'gzip',
+  'zlib': 'deflate',
+  'deflate-raw': 'deflate-raw',
+}
+
+/** 超出上限时抛出的标记错误 */
+class OutputLimitError extends Error {}
+
+/** 判断是否为 gzip 头（1f 8b 08） */
+export function isGzipHeader(bytes: Uint8Array): boolean {
+  return bytes.length >= 3 && bytes[0] === 0x1F && bytes[1] === 0x8B && bytes[2] === 0x08
+}
+
+/** 判断是否为 zlib 头（CM=8 且 CMF/FLG 校验通过） */
+export function isZlibHeader(bytes: Uint8Array): boolean {
+  if (bytes.length < 2)
+    return false
+  // 压缩方法与头部校验
+  const cmf = bytes[0]!
+  const flg = bytes[1]!
+  return (cmf & 0x0F) === 8 && (cmf >> 4) <= 7 && ((cmf << 8) | flg) % 31 === 0
+}
+
+/** 按头部特征识别压缩格式（无法识别时返回 null） */
+export function detectCompressionFormat(bytes: Uint8Array): CompressionFormat | null {
+  if (isGzipHeader(bytes))
+    return 'gzip'
+  if (isZlibHeader(bytes))
+    return 'zlib'
+  return null
+}
+
+/** 使用 DecompressionStream 解压 gzip/zlib/raw deflate */
+async function decompressWithStream(bytes: Uint8Array, format: 'gzip' | 'deflate' | 'deflate-raw', maxSize: number): Promise<DecompressResult> {
+  // 解压流
+  const stream = new Blob([new Uint8Array(bytes)]).stream().pipeThrough(new DecompressionStream(format))
+  const reader = stream.getReader()
+  // 输出块
+  const chunks: Uint8Array[] = []
+  let total = 0
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done)
+        break
+      total += value.length
+      if (total > maxSize) {
+        await reader.cancel()
+        return { ok: false, reason: 'TOO_LARGE', message: `解压结果超过 ${maxSize} 字节上限` }
+      }
+      chunks.push(value)
+    }
+  }
+  catch (error) {
+    return { ok: false, reason: 'INVALID', message: error instanceof Error ? error.message : String(error) }
+  }
+  return { ok: true, bytes: concatBytes(...chunks) }
+}
+
+/** 使用内置 JS 解码器解压 brotli */
+function decompressBrotli(bytes: Uint8Array, maxSize: number): DecompressResult {
+  // 输出缓冲区：解码器在每个元块前按声明长度自行扩容
+  let buffer = new Uint8Array(0)
+  let position = 0
+  const sink: BrotliOutputSink = {
+    get buffer() {
+      return buffer
+    },
+    set buffer(next) {
+      if (next.length > maxSize)
+        throw new OutputLimitError()
+      buffer = next
+    },
+    write(chunk, count) {
+      buffer.set(chunk.subarray(0, count), position)
+      position += count
+      return count
+    },
+  }
+  try {
+    BrotliDecompress(new BrotliInput(bytes), sink)
+  }
+  catch (error) {
+    if (error instanceof OutputLimitError)
+      return { ok: false, reason: 'TOO_LARGE', message: `解压结果超过 ${maxSize} 字节上限` }
+    return { ok: false, reason: 'INVALID', message: error instanceof Error ? error.message : String(error) }
+  }
+  return { ok: true, bytes: buffer.slice(0, position) }
+}
+
+/** 按格式解压字节 */
+export function decompressBytes(
+  bytes: Uint8Array,
+  format: CompressionFormat,
+  maxSize = MAX_DECOMPRESSED_SIZE,
+): Promise<DecompressResult> {
+  if (format === 'brotli')
+    return Promise.resolve(decompressBrotli(bytes, maxSize))
+  return decompressWithStream(bytes, STREAM_FORMATS[format], maxSize)
+}
@@ -0,0 +1,231 @@
+import type { ResponseRecord } from './messages'
+import type { OperatorParams, PipelineStep } from './pipeline'
+import { base64Decode, base64Encode, hexDecode, hexEncode, utf8Decode } from './bytes'
+import { getDefaultParams, getOperator } from './pipeline'
+
+/** 注入脚本上报使用的 Runtime 绑定名 */
+export const CRYPTO_HOOK_BINDING = '__captureDecryptReport'
+
+/** 最大保留的 Hook 调用数（后台与面板一致，超出时丢弃最早的） */
+export const MAX_HOOK_CALLS = 500
+
+/** Hook 调用的操作类型 */
+export type CryptoHookOperation = 'encrypt' | 'decrypt' | 'encode' | 'decode'
+
+/** 密钥形式：bytes 原始字节，passphrase CryptoJS 口令，pem RSA 密钥 */
+export type CryptoHookKeyType = 'bytes' | 'passphrase' | 'pem'
+
+/** 页面加密调用记录 */
+export interface CryptoHookCall {
+  /** 调用唯一标识（后台分配） */
+  id: string
+  /** 调用的 API，如 `crypto.subtle.decrypt`、`CryptoJS.AES.decrypt` */
+  api: string
+  /** 操作类型 */
+  operation: CryptoHookOperation
+  /** 算法，如 `AES-CBC`、`AES`、`RSA`、`Base64` */
+  algorithm: string
+  /** 工作模式（CryptoJS） */
+  mode: string | null
+  /** 填充方式（CryptoJS） */
+  padding: string | null
+  /** 密钥形式 */
+  keyType: CryptoHookKeyType
+  /** 密钥（hex，未知时为 null） */
+  key: string | null
+  /** IV（hex） */
+  iv: string | null
+  /** 输入（hex，超长截断） */
+  input: string
+  /** 输出（hex，超长截断） */
+  output: string
+  /** 页面调用时间（毫秒） */
+  timeStamp: number
+}
+
+/** 调用与记录的关联方式：content 数据匹配，time 时间邻近 */
+export type CryptoHookMatch = 'content' | 'time'
+
+/** 调用与记录的关联结果 */
+export interface CryptoHookCorrelation {
+  /** 调用 ID */
+  callId: string
+  /** 关联的记录 ID */
+  recordId: string
+  /** 关联方式 */
+  match: CryptoHookMatch
+}
+
+/** 时间关联窗口：调用与请求开始时间相差该时长内才视为相关 */
+const CORRELATION_WINDOW_MS = 10_000
+
+/** 数据匹配使用的前缀字节数 */
+const MATCH_PREFIX_BYTES = 48
+
+/** 数据匹配的最小字节数（过短的数据容易误匹配） */
+const MIN_MATCH_BYTES = 8
+
+/** 判断对象类型 */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/** 读取可空字符串 */
+function asNullableString(value: unknown): string | null | undefined {
+  if (value === null || value === undefined)
+    return null
+  return typeof value === 'string' ? value : undefined
+}
+
+/** 解析 Hook 调用（id 缺失时使用传入的值） */
+export function parseCryptoHookCall(value: unknown, fallbackId?: string): CryptoHookCall | null {
+  if (!isRecord(value))
+    return null
+  // 必填字段
+  const id = typeof value.id === 'string' ? value.id : fallbackId
+  const { api, operation, algorithm, keyType, input, output, timeStamp } = value
+  if (!id || typeof api !== 'string' || typeof algorithm !== 'string' || typeof input !== 'string' || typeof output !== 'string' || typeof timeStamp !== 'number')
+    return null
+  if (operation !== 'encrypt' && operation !== 'decrypt' && operation !== 'encode' && operation !== 'decode')
+    return null
+  if (keyType !== 'bytes' && keyType !== 'passphrase' && keyType !== 'pem')
+    return null
+  // 可空字段
+  const mode = asNullableString(value.mode)
+  const padding = asNullableString(value.padding)
+  const key = asNullableString(value.key)
+  const iv = asNullableString(value.iv)
+  if (mode === undefined || padding === undefined || key === undefined || iv === undefined)
+    return null
+  return { id, api, operation, algorithm, mode, padding, keyType, key, iv, input, output, timeStamp }
+}
+
+/** 解析关联结果 */
+export function parseCryptoHookCorrelation(value: unknown): CryptoHookCorrelation | null {
+  if (!isRecord(value))
+    return null
+  const { callId, recordId, match } = value
+  if (typeof callId !== 'string' || typeof recordId !== 'string' || (match !== 'content' && match !== 'time'))
+    return null
+  return { callId, recordId, match }
+}
+
+/** 将 hex 数据转为可在正文中检索的文本前缀（Hex、Base64、UTF-8 原文） */
+function listDataForms(hex: string): string[] {
+  // 前缀字节（48 字节对齐 base64 分组，前缀编码与完整数据编码的开头一致）
+  const bytes = hexDecode(hex.slice(0, MATCH_PREFIX_BYTES * 2))
+  if (!bytes || bytes.length < MIN_MATCH_BYTES)
+    return []
+  // 各形式
+  const forms = [hexEncode(bytes), base64Encode(bytes)]
+  const text = utf8Decode(bytes, true)
+  if (text !== null)
+    forms.push(text)
+  return forms
+}
+
+/** 判断记录的请求/响应正文中是否出现指定数据 */
+function recordContains(record: ResponseRecord, forms: string[]): boolean {
+  // 正文（base64 响应先解码为字节，以 hex 检索）
+  const bodies = [record.requestBody.text ?? '', record.body.text ?? '']
+  if (record.body.isBase64 && record.body.text) {
+    const bytes = base64Decode(record.body.text)
+    if (bytes)
+      bodies.push(hexEncode(bytes))
+  }
+  return forms.some(form => bodies.some(body => body.includes(form)))
+}
+
+/** 为调用找到对应的记录：优先数据匹配（解密输入或加密输出出现在正文中），否则按时间邻近 */
+export function correlateCryptoCall(call: CryptoHookCall, records: ResponseRecord[]): { recordId: string, match: CryptoHookMatch } | null {
+  // 密文侧数据：解密看输入，加密看输出
+  const decrypting = call.operation === 'decrypt' || call.operation === 'decode'
+  const cipherHex = decrypting ? call.input : call.output
+  const forms = listDataForms(cipherHex)
+  if (forms.length > 0) {
+    const matched = records.find(record => recordContains(record, forms))
+    if (matched)
+      return { recordId: matched.id, match: 'content' }
+  }
+  // 时间邻近：解密取调用前最近发起的请求，加密取调用后最早发起的请求
+  let nearest: ResponseRecord | null = null
+  let nearestDistance = CORRELATION_WINDOW_MS
+  for (const record of records) {
+    // 时间差（按方向取正）
+    const distance = decrypting ? call.timeStamp - record.timeStamp : record.timeStamp - call.timeStamp
+    if (distance >= 0 && distance <= nearestDistance) {
+      nearest = record
+      nearestDistance = distance
+    }
+  }
+  return nearest ? { recordId: nearest.id, match: 'time' } : null
+}
+
+/** 生成步骤（默认参数 + 覆盖项） */
+function step(operatorId: string, overrides: OperatorParams = {}): PipelineStep {
+  // 目标算子
+  const operator = getOperator(operatorId)
+  return { operatorId, params: { ...(operator ? getDefaultParams(operator) : {}), ...overrides } }
+}
+
+/** CryptoJS 填充名到算子填充参数 */
+const CRYPTO_JS_PADDINGS: Record<string, string> = {
+  Pkcs7: 'PKCS7',
+  ZeroPadding: 'ZeroPadding',
+  NoPadding: 'NoPadding',
+}
+
+/** CryptoJS 算法名到算子前缀 */
+const CRYPTO_JS_BLOCK_CIPHERS: Record<string, string> = {
+  AES: 'aes',
+  DES: 'des',
+  TripleDES: 'tripledes',
+}
+
+/** WebCrypto 算法名到 AES 模式 */
+const SUBTLE_AES_MODES: Record<string, string> = {
+  'AES-CBC': 'CBC',
+  'AES-CTR': 'CTR',
+  'AES-GCM': 'GCM',
+}
+
+/** 由调用生成等价的解密/解码流水线（无法生成时返回说明） */
+export function buildPipelineFromCryptoCall(call: CryptoHookCall): { ok: true, steps: PipelineStep[] } | { ok: false, message: string } {
+  if (call.algorithm === 'Base64')
+    return { ok: true, steps: [step('base64.decode')] }
+  if (call.keyType === 'pem')
+    return { ok: false, message: 'RSA 私钥解密暂无对应算子' }
+  if (!call.key)
+    return { ok: false, message: '未捕获到密钥（可能在 Hook 注入前导入）' }
+  if (call.keyType === 'passphrase') {
+    const cipher = call.algorithm === 'AES' ? 'AES-256' : call.algorithm
+    if (cipher !== 'AES-256' && cipher !== 'DES' && cipher !== 'TripleDES')
+      return { ok: false, message: `${call.algorithm} 口令模式暂不支持` }
+    return { ok: true, steps: [step('openssl.decrypt', { passphrase: call.key, passphraseEncoding: 'hex', cipher })] }
+  }
+  // 密钥与 IV 参数
+  const keyParams: OperatorParams = { key: call.key, keyEncoding: 'hex', iv: call.iv ?? '', ivEncoding: 'hex' }
+  if (call.api.startsWith('crypto.subtle.')) {
+    // AES 模式
+    const mode = SUBTLE_AES_MODES[call.algorithm]
+    if (!mode)
+      return { ok: false, message: `WebCrypto 算法 ${call.algorithm} 暂不支持` }
+    return { ok: true, steps: [step('aes.decrypt', { ...keyParams, mode, padding: 'PKCS7' })] }
+  }
+  if (call.algorithm === 'RC4')
+    return { ok: true, steps: [step('rc4.decrypt', { key: call.key, keyEncoding: 'hex' })] }
+  // CryptoJS 分组算法
+  const prefix = CRYPTO_JS_BLOCK_CIPHERS[call.algorithm]
+  if (!prefix)
+    return { ok: false, message: `${call.algorithm} 暂不支持` }
+  const operator = getOperator(`${prefix}.decrypt`)
+  // 模式需在算子支持范围内
+  const modes = operator?.params.find(spec => spec.key === 'mode')?.options ?? []
+  const mode = (call.mode ?? 'CBC').toUpperCase()
+  if (!modes.includes(mode))
+    return { ok: false, message: `${call.algorithm} ${mode} 模式暂不支持` }
+  const padding = CRYPTO_JS_PADDINGS[call.padding ?? 'Pkcs7']
+  if (!padding)
+    return { ok: false, message: `填充方式 ${call.padding} 暂不支持` }
+  return { ok: true, steps: [step(`${prefix}.decrypt`, { ...keyParams, mode, padding })] }
+}
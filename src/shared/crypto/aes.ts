@@ -0,0 +1,200 @@
+import type { BlockCipher } from './types'
+
+/** AES 分组长度 */
+const BLOCK_SIZE = 16
+
+/** 支持的密钥长度（字节） */
+export const AES_KEY_SIZES = [16, 24, 32]
+
+/** S 盒 */
+const SBOX = new Uint8Array(256)
+
+/** 逆 S 盒 */
+const INV_SBOX = new Uint8Array(256)
+
+/** GF(2^8) 乘法查表：×2 / ×3 / ×9 / ×11 / ×13 / ×14 */
+const MUL2 = new Uint8Array(256)
+const MUL3 = new Uint8Array(256)
+const MUL9 = new Uint8Array(256)
+const MUL11 = new Uint8Array(256)
+const MUL13 = new Uint8Array(256)
+const MUL14 = new Uint8Array(256)
+
+/** 轮常量 */
+const RCON = [0x01, 0x02, 0x04, 0x08, 0x10, 0x20, 0x40, 0x80, 0x1B, 0x36]
+
+/** GF(2^8) 乘法 */
+function gfMul(a: number, b: number): number {
+  // 乘积
+  let product = 0
+  let x = a
+  let y = b
+  while (y > 0) {
+    if (y & 1)
+      product ^= x
+    x = (x << 1) ^ (x & 0x80 ? 0x11B : 0)
+    y >>= 1
+  }
+  return product & 0xFF
+}
+
+/** 8 位循环左移 */
+function rotl8(value: number, shift: number): number {
+  return ((value << shift) | (value >> (8 - shift))) & 0xFF
+}
+
+/** 初始化 S 盒与乘法表 */
+function initTables(): void {
+  // 通过生成元 3 遍历乘法群，同时维护其逆元
+  let p = 1
+  let q = 1
+  do {
+    p = p ^ ((p << 1) & 0xFF) ^ (p & 0x80 ? 0x1B : 0)
+    q ^= q << 1
+    q ^= q << 2
+    q ^= q << 4
+    q &= 0xFF
+    if (q & 0x80)
+      q ^= 0x09
+    // 仿射变换
+    const value = q ^ rotl8(q, 1) ^ rotl8(q, 2) ^ rotl8(q, 3) ^ rotl8(q, 4) ^ 0x63
+    SBOX[p] = value
+    INV_SBOX[value] = p
+  } while (p !== 1)
+  SBOX[0] = 0x63
+  INV_SBOX[0x63] = 0
+  for (let index = 0; index < 256; index += 1) {
+    MUL2[index] = gfMul(index, 2)
+    MUL3[index] = gfMul(index, 3)
+    MUL9[index] = gfMul(index, 9)
+    MUL11[index] = gfMul(index, 11)
+    MUL13[index] = gfMul(index, 13)
+    MUL14[index] = gfMul(index, 14)
+  }
+}
+
+initTables()
+
+/** 密钥扩展，返回每轮 16 字节的轮密钥 */
+function expandKey(key: Uint8Array): Uint8Array {
+  // 密钥字数
+  const nk = key.length / 4
+  // 轮数
+  const rounds = nk + 6
+  // 扩展后总字数
+  const totalWords = 4 * (rounds + 1)
+  // 轮密钥
+  const expanded = new Uint8Array(totalWords * 4)
+  expanded.set(key)
+  // 临时字
+  const temp = new Uint8Array(4)
+  for (let word = nk; word < totalWords; word += 1) {
+    temp.set(expanded.subarray((word - 1) * 4, word * 4))
+    if (word % nk === 0) {
+      // RotWord + SubWord + Rcon
+      const first = temp[0]!
+      temp[0] = SBOX[temp[1]!]! ^ RCON[word / nk - 1]!
+      temp[1] = SBOX[temp[2]!]!
+      temp[2] = SBOX[temp[3]!]!
+      temp[3] = SBOX[first]!
+    }
+    else if (nk > 6 && word % nk === 4) {
+      for (let index = 0; index < 4; index += 1)
+        temp[index] = SBOX[temp[index]!]!
+    }
+    for (let index = 0; index < 4; index += 1)
+      expanded[word * 4 + index] = expanded[(word - nk) * 4 + index]! ^ temp[index]!
+  }
+  return expanded
+}
+
+/** 轮密钥加 */
+function addRoundKey(state: Uint8Array, roundKeys: Uint8Array, round: number): void {
+  // 轮密钥偏移
+  const offset = round * BLOCK_SIZE
+  for (let index = 0; index < BLOCK_SIZE; index += 1)
+    state[index] = state[index]! ^ roundKeys[offset + index]!
+}
+
+/** 加密单个分组 */
+function encryptBlock(roundKeys: Uint8Array, rounds: number, block: Uint8Array): Uint8Array {
+  // 状态矩阵（按列存储）
+  const state = Uint8Array.from(block)
+  // 临时状态
+  const temp = new Uint8Array(BLOCK_SIZE)
+  addRoundKey(state, roundKeys, 0)
+  for (let round = 1; round <= rounds; round += 1) {
+    // SubBytes + ShiftRows
+    for (let column = 0; column < 4; column += 1) {
+      for (let row = 0; row < 4; row += 1)
+        temp[column * 4 + row] = SBOX[state[((column + row) % 4) * 4 + row]!]!
+    }
+    if (round === rounds) {
+      state.set(temp)
+    }
+    else {
+      // MixColumns
+      for (let column = 0; column < 4; column += 1) {
+        const offset = column * 4
+        const a0 = temp[offset]!
+        const a1 = temp[offset + 1]!
+        const a2 = temp[offset + 2]!
+        const a3 = temp[offset + 3]!
+        state[offset] = MUL2[a0]! ^ MUL3[a1]! ^ a2 ^ a3
+        state[offset + 1] = a0 ^ MUL2[a1]! ^ MUL3[a2]! ^ a3
+        state[offset + 2] = a0 ^ a1 ^ MUL2[a2]! ^ MUL3[a3]!
+        state[offset + 3] = MUL3[a0]! ^ a1 ^ a2 ^ MUL2[a3]!
+      }
+    }
+    addRoundKey(state, roundKeys, round)
+  }
+  return state
+}
+
+/** 解密单个分组 */
+function decryptBlock(roundKeys: Uint8Array, rounds: number, block: Uint8Array): Uint8Array {
+  // 状态矩阵（按列存储）
+  const state = Uint8Array.from(block)
+  // 临时状态
+  const temp = new Uint8Array(BLOCK_SIZE)
+  addRoundKey(state, roundKeys, rounds)
+  for (let round = rounds - 1; round >= 0; round -= 1) {
+    // InvShiftRows + InvSubBytes
+    for (let column = 0; column < 4; column += 1) {
+      for (let row = 0; row < 4; row += 1)
+        temp[((column + row) % 4) * 4 + row] = INV_SBOX[state[column * 4 + row]!]!
+    }
+    state.set(temp)
+    addRoundKey(state, roundKeys, round)
+    if (round > 0) {
+      // InvMixColumns
+      for (let column = 0; column < 4; column += 1) {
+        const offset = column * 4
+        const a0 = state[offset]!
+        const a1 = state[offset + 1]!
+        const a2 = state[offset + 2]!
+        const a3 = state[offset + 3]!
+        state[offset] = MUL14[a0]! ^ MUL11[a1]! ^ MUL13[a2]! ^ MUL9[a3]!
+        state[offset + 1] = MUL9[a0]! ^ MUL14[a1]! ^ MUL11[a2]! ^ MUL13[a3]!
+        state[offset + 2] = MUL13[a0]! ^ MUL9[a1]! ^ MUL14[a2]! ^ MUL11[a3]!
+        state[offset + 3] = MUL11[a0]! ^ MUL13[a1]! ^ MUL9[a2]! ^ MUL14[a3]!
+      }
+    }
+  }
+  return state
+}
+
+/** 创建 AES 分组密码实例（密钥需为 16/24/32 字节） */
+export function createAesCipher(key: Uint8Array): BlockCipher {
+  if (!AES_KEY_SIZES.includes(key.length))
+    throw new RangeError(`AES 密钥长度无效：${key.length}`)
+  // 轮密钥
+  const roundKeys = expandKey(key)
+  // 轮数
+  const rounds = key.length / 4 + 6
+  return {
+    blockSize: BLOCK_SIZE,
+    encryptBlock: block => encryptBlock(roundKeys, rounds, block),
+    decryptBlock: block => decryptBlock(roundKeys, rounds, block),
+  }
+}
@@ -0,0 +1,155 @@
+import type { BlockCipher } from './types'
+
+/** DES 分组长度 */
+const BLOCK_SIZE = 8
+
+/** 初始置换 IP */
+const IP = [58, 50, 42, 34, 26, 18, 10, 2, 60, 52, 44, 36, 28, 20, 12, 4, 62, 54, 46, 38, 30, 22, 14, 6, 64, 56, 48, 40, 32, 24, 16, 8, 57, 49, 41, 33, 25, 17, 9, 1, 59, 51, 43, 35, 27, 19, 11, 3, 61, 53, 45, 37, 29, 21, 13, 5, 63, 55, 47, 39, 31, 23, 15, 7]
+
+/** 末置换 FP（IP 的逆） */
+const FP = IP.map((_, index) => IP.indexOf(index + 1) + 1)
+
+/** P 置换 */
+const P = [16, 7, 20, 21, 29, 12, 28, 17, 1, 15, 23, 26, 5, 18, 31, 10, 2, 8, 24, 14, 32, 27, 3, 9, 19, 13, 30, 6, 22, 11, 4, 25]
+
+/** 密钥置换 PC-1 */
+const PC1 = [57, 49, 41, 33, 25, 17, 9, 1, 58, 50, 42, 34, 26, 18, 10, 2, 59, 51, 43, 35, 27, 19, 11, 3, 60, 52, 44, 36, 63, 55, 47, 39, 31, 23, 15, 7, 62, 54, 46, 38, 30, 22, 14, 6, 61, 53, 45, 37, 29, 21, 13, 5, 28, 20, 12, 4]
+
+/** 密钥置换 PC-2 */
+const PC2 = [14, 17, 11, 24, 1, 5, 3, 28, 15, 6, 21, 10, 23, 19, 12, 4, 26, 8, 16, 7, 27, 20, 13, 2, 41, 52, 31, 37, 47, 55, 30, 40, 51, 45, 33, 48, 44, 49, 39, 56, 34, 53, 46, 42, 50, 36, 29, 32]
+
+/** 每轮左移位数 */
+const KEY_SHIFTS = [1, 1, 2, 2, 2, 2, 2, 2, 1, 2, 2, 2, 2, 2, 2, 1]
+
+/** 8 个 S 盒（每盒 64 项，按行存储的十六进制半字节） */
+const SBOXES = [
+  'e4d12fb83a6c59070f74e2d1a6cb953841e8d62bfc973a50fc8249175b3ea06d',
+  'f18e6b34972dc05a3d47f28ec01a69b50e7ba4d158c6932fd8a13f42b67c05e9',
+  'a09e63f51dc7b428d709346a285ecbf1d6498f30b12c5ae71ad069874fe3b52c',
+  '7de3069a1285bc4fd8b56f03472c1ae9a690cb7df13e52843f06a1d8945bc72e',
+  '2c417ab6853fd0e9eb2c47d150fa3986421bad78f9c5630eb8c71e2d6f09a453',
+  'c1af92680d34e75baf427c9561de0b389ef528c3704a1db6432c95fabe17608d',
+  '4b2ef08d3c975a61d0b7491ae35c2f8614bdc37eaf6805926bd814a7950fe23c',
+  'd2846fb1a93e50c71fd8a374c56b0e927b419ce206adf35821e74a8dfc90356b',
+].map(hex => Array.from(hex, char => Number.parseInt(char, 16)))
+
+/** 按置换表重排位数组（表项为 1 起始的位序号） */
+function permute(bits: number[], table: number[]): number[] {
+  return table.map(position => bits[position - 1]!)
+}
+
+/** 字节转位数组（高位在前） */
+function bytesToBits(bytes: Uint8Array): number[] {
+  // 输出位
+  const bits: number[] = []
+  for (const byte of bytes) {
+    for (let shift = 7; shift >= 0; shift -= 1)
+      bits.push((byte >> shift) & 1)
+  }
+  return bits
+}
+
+/** 位数组转 32 位整数 */
+function bitsToWord(bits: number[]): number {
+  return bits.reduce((word, bit) => ((word << 1) | bit) >>> 0, 0)
+}
+
+/** 32 位整数转位数组 */
+function wordToBits(word: number): number[] {
+  return Array.from({ length: 32 }, (_, index) => (word >>> (31 - index)) & 1)
+}
+
+/** 预计算 S 盒 + P 置换合并表：SP[i][v] */
+const SP_TABLES = SBOXES.map((sbox, boxIndex) => Array.from({ length: 64 }, (_, value) => {
+  // 行号由首末位决定，列号由中间 4 位决定
+  const row = ((value >> 4) & 0b10) | (value & 1)
+  const column = (value >> 1) & 0x0F
+  // S 盒输出放到第 boxIndex 个半字节
+  const output = (sbox[row * 16 + column]! << (28 - boxIndex * 4)) >>> 0
+  return bitsToWord(permute(wordToBits(output), P))
+}))
+
+/** 32 位循环左移 */
+function rotl(value: number, shift: number): number {
+  // 规范化位移量
+  const n = ((shift % 32) + 32) % 32
+  return n === 0 ? value >>> 0 : ((value << n) | (value >>> (32 - n))) >>> 0
+}
+
+/** 生成 16 轮子密钥（每轮 8 个 6 位分量） */
+function expandKey(key: Uint8Array): number[][] {
+  // PC-1 后的 56 位
+  const permuted = permute(bytesToBits(key), PC1)
+  let c = permuted.slice(0, 28)
+  let d = permuted.slice(28)
+  // 子密钥
+  const subKeys: number[][] = []
+  for (const shift of KEY_SHIFTS) {
+    c = [...c.slice(shift), ...c.slice(0, shift)]
+    d = [...d.slice(shift), ...d.slice(0, shift)]
+    const bits = permute([...c, ...d], PC2)
+    subKeys.push(Array.from({ length: 8 }, (_, index) => bitsToWord(bits.slice(index * 6, index * 6 + 6))))
+  }
+  return subKeys
+}
+
+/** 轮函数 F */
+function feistel(right: number, subKey: number[]): number {
+  // 输出
+  let output = 0
+  for (let index = 0; index < 8; index += 1) {
+    // E 扩展的第 index 个 6 位分量
+    const chunk = (rotl(right, index * 4 - 1) >>> 26) & 0x3F
+    output |= SP_TABLES[index]![chunk ^ subKey[index]!]!
+  }
+  return output >>> 0
+}
+
+/** 按子密钥顺序处理单个分组 */
+function cryptBlock(subKeys: number[][], block: Uint8Array): Uint8Array {
+  // 初始置换
+  const bits = permute(bytesToBits(block), IP)
+  let left = bitsToWord(bits.slice(0, 32))
+  let right = bitsToWord(bits.slice(32))
+  for (const subKey of subKeys) {
+    const next = (left ^ feistel(right, subKey)) >>> 0
+    left = right
+    right = next
+  }
+  // 交换后末置换
+  const output = permute([...wordToBits(right), ...wordToBits(left)], FP)
+  const bytes = new Uint8Array(BLOCK_SIZE)
+  for (let index = 0; index < BLOCK_SIZE; index += 1)
+    bytes[index] = bitsToWord(output.slice(index * 8, index * 8 + 8))
+  return bytes
+}
+
+/** 创建 DES 分组密码实例（密钥需为 8 字节，忽略奇偶校验位） */
+export function createDesCipher(key: Uint8Array): BlockCipher {
+  if (key.length !== 8)
+    throw new RangeError(`DES 密钥长度无效：${key.length}`)
+  // 加密子密钥
+  const encryptKeys = expandKey(key)
+  // 解密子密钥（逆序）
+  const decryptKeys = [...encryptKeys].reverse()
+  return {
+    blockSize: BLOCK_SIZE,
+    encryptBlock: block => cryptBlock(encryptKeys, block),
+    decryptBlock: block => cryptBlock(decryptKeys, block),
+  }
+}
+
+/** 创建 3DES-EDE 分组密码实例（16 字节为 K1K2K1，24 字节为 K1K2K3） */
+export function createTripleDesCipher(key: Uint8Array): BlockCipher {
+  if (key.length !== 16 && key.length !== 24)
+    throw new RangeError(`3DES 密钥长度无效：${key.length}`)
+  // 三个子密码
+  const first = createDesCipher(key.subarray(0, 8))
+  const second = createDesCipher(key.subarray(8, 16))
+  const third = key.length === 24 ? createDesCipher(key.subarray(16, 24)) : first
+  return {
+    blockSize: BLOCK_SIZE,
+    encryptBlock: block => third.encryptBlock(second.decryptBlock(first.encryptBlock(block))),
+    decryptBlock: block => first.decryptBlock(second.encryptBlock(third.decryptBlock(block))),
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { hexDecode, hexEncode } from '../bytes'
+import { createAesCipher } from './aes'
+import { gcmDecrypt, gcmEncrypt } from './gcm'
+
+/** hex 转字节（测试向量均为合法 hex） */
+function hex(text: string): Uint8Array {
+  return hexDecode(text.replace(/\s+/g, ''))!
+}
+
+// GCM 规范（McGrew & Viega）测试用例公用的密钥、明文与附加数据
+const KEY = 'feffe9928665731c6d6a8f9467308308'
+const PLAIN = 'd9313225f88406e5a55909c5aff5269a86a7a9531534f7da2e4c303d8a318a721c3c0c95956809532fcf0e2449a6b525b16aedf5aa0de657ba637b391aafd255'
+const AAD = 'feedfacedeadbeeffeedfacedeadbeefabaddad2'
+
+/** GCM 已知答案：密钥、IV、明文、附加数据、密文、标签 */
+const VECTORS = [
+  { name: '用例 1：空明文', key: '00000000000000000000000000000000', iv: '000000000000000000000000', plain: '', aad: '', cipher: '', tag: '58e2fccefa7e3061367f1d57a4e7455a' },
+  { name: '用例 2：单分组零明文', key: '00000000000000000000000000000000', iv: '000000000000000000000000', plain: '00000000000000000000000000000000', aad: '', cipher: '0388dace60b6a392f328c2b971b2fe78', tag: 'ab6e47d42cec13bdf53a67b21257bddf' },
+  {
+    name: '用例 3：四分组明文',
+    key: KEY,
+    iv: 'cafebabefacedbaddecaf888',
+    plain: PLAIN,
+    aad: '',
+    cipher: '42831ec2217774244b7221b784d0d49ce3aa212f2c02a4e035c17e2329aca12e21d514b25466931c7d8f6a5aac84aa051ba30b396a0aac973d58e091473f5985',
+    tag: '4d5c2af327cd64a62cf35abd2ba6fab4',
+  },
+  {
+    name: '用例 4：非整分组明文 + 附加数据',
+    key: KEY,
+    iv: 'cafebabefacedbaddecaf888',
+    plain: PLAIN.slice(0, 120),
+    aad: AAD,
+    cipher: '42831ec2217774244b7221b784d0d49ce3aa212f2c02a4e035c17e2329aca12e21d514b25466931c7d8f6a5aac84aa051ba30b396a0aac973d58e091',
+    tag: '5bc94fbc3221a5db94fae95ae7121a47',
+  },
+  {
+    name: '用例 5：64 位 IV',
+    key: KEY,
+    iv: 'cafebabefacedbad',
+    plain: PLAIN.slice(0, 120),
+    aad: AAD,
+    cipher: '61353b4c2806934a777ff51fa22a4755699b2a714fcdc6f83766e5f97b6c742373806900e49f24b22b097544d4896b424989b5e1ebac0f07c23f4598',
+    tag: '3612d2e79e3b0785561be14aaca2fccb',
+  },
+  {
+    name: '用例 16：AES-256',
+    key: KEY + KEY,
+    iv: 'cafebabefacedbaddecaf888',
+    plain: PLAIN.slice(0, 120),
+    aad: AAD,
+    cipher: '522dc1f099567d07f47f37a32a84427d643a8cdcbfe5c0c97598a2bd2555d1aa8cb08e48590dbb3da7b08b1056828838c5f61e6393ba7a0abcc9f662',
+    tag: '76fc6ece0f4e1768cddf8853bb2d551b',
+  },
+]
+
+describe('createAesCipher', () => {
+  it('对照 FIPS-197 附录 C 示例', () => {
+    const plain = hex('00112233445566778899aabbccddeeff')
+    expect(hexEncode(createAesCipher(hex('000102030405060708090a0b0c0d0e0f')).encryptBlock(plain))).toBe('69c4e0d86a7b0430d8cdb78070b4c55a')
+    expect(hexEncode(createAesCipher(hex('000102030405060708090a0b0c0d0e0f1011121314151617')).encryptBlock(plain))).toBe('dda97ca4864cdfe06eaf70a0ec0d7191')
+    const cipher = createAesCipher(hex('000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f'))
+    expect(hexEncode(cipher.encryptBlock(plain))).toBe('8ea2b7ca516745bfeafc49904b496089')
+    expect(hexEncode(cipher.decryptBlock(hex('8ea2b7ca516745bfeafc49904b496089')))).toBe('00112233445566778899aabbccddeeff')
+  })
+})
+
+describe('gcm（对照 GCM 规范测试用例）', () => {
+  it.each(VECTORS)('$name', (vector) => {
+    const cipher = createAesCipher(hex(vector.key))
+    const { ciphertext, tag } = gcmEncrypt(cipher, hex(vector.plain), hex(vector.iv), hex(vector.aad))
+    expect(hexEncode(ciphertext)).toBe(vector.cipher)
+    expect(hexEncode(tag)).toBe(vector.tag)
+    expect(hexEncode(gcmDecrypt(cipher, hex(vector.cipher), hex(vector.iv), hex(vector.tag), hex(vector.aad))!)).toBe(vector.plain)
+  })
+
+  it('截短标签按前缀校验', () => {
+    const cipher = createAesCipher(hex(KEY))
+    const { tag } = gcmEncrypt(cipher, hex(PLAIN), hex('cafebabefacedbaddecaf888'), new Uint8Array(0), 12)
+    expect(hexEncode(tag)).toBe('4d5c2af327cd64a62cf35abd')
+  })
+
+  it('标签不符、为空或超过 16 字节时拒绝', () => {
+    const vector = VECTORS[2]!
+    const cipher = createAesCipher(hex(vector.key))
+    const decrypt = (tag: string): Uint8Array | null => gcmDecrypt(cipher, hex(vector.cipher), hex(vector.iv), hex(tag), new Uint8Array(0))
+    expect(decrypt(`${vector.tag.slice(0, -2)}00`)).toBeNull()
+    expect(decrypt('')).toBeNull()
+    expect(decrypt(`${vector.tag}00`)).toBeNull()
+  })
+})
@@ -0,0 +1,160 @@
+import { concatBytes } from '../bytes'
+import type { BlockCipher } from './types'
+
+/** GCM 分组长度 */
+const BLOCK_SIZE = 16
+
+/** 读取分组为 4 个 32 位字 */
+function toWords(block: Uint8Array): Uint32Array {
+  // 输出字
+  const words = new Uint32Array(4)
+  for (let index = 0; index < 4; index += 1) {
+    const offset = index * 4
+    words[index] = ((block[offset] ?? 0) << 24) | ((block[offset + 1] ?? 0) << 16) | ((block[offset + 2] ?? 0) << 8) | (block[offset + 3] ?? 0)
+  }
+  return words
+}
+
+/** GF(2^128) 乘法（GCM 位序） */
+function gfMultiply(x: Uint32Array, h: Uint32Array): Uint32Array {
+  // 累加结果
+  const z = new Uint32Array(4)
+  // 移位寄存器
+  const v = Uint32Array.from(h)
+  for (let bit = 0; bit < 128; bit += 1) {
+    // x 的当前位（高位优先）
+    const word = x[bit >>> 5]!
+    if ((word >>> (31 - (bit & 31))) & 1) {
+      z[0] = z[0]! ^ v[0]!
+      z[1] = z[1]! ^ v[1]!
+      z[2] = z[2]! ^ v[2]!
+      z[3] = z[3]! ^ v[3]!
+    }
+    // v 右移一位，溢出时异或约简多项式
+    const carry = v[3]! & 1
+    v[3] = (v[3]! >>> 1) | ((v[2]! & 1) << 31)
+    v[2] = (v[2]! >>> 1) | ((v[1]! & 1) << 31)
+    v[1] = (v[1]! >>> 1) | ((v[0]! & 1) << 31)
+    v[0] = v[0]! >>> 1
+    if (carry)
+      v[0] = v[0]! ^ 0xE1000000
+  }
+  return z
+}
+
+/** GHASH 计算 */
+function ghash(h: Uint32Array, aad: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  // 累加器
+  let y: Uint32Array = new Uint32Array(4)
+  // 吸收数据（按分组补零）
+  const absorb = (data: Uint8Array): void => {
+    for (let offset = 0; offset < data.length; offset += BLOCK_SIZE) {
+      const block = toWords(data.subarray(offset, offset + BLOCK_SIZE))
+      for (let index = 0; index < 4; index += 1)
+        y[index] = y[index]! ^ block[index]!
+      y = gfMultiply(y, h)
+    }
+  }
+  absorb(aad)
+  absorb(ciphertext)
+  // 长度分组：aad 位长 || 密文位长（各 64 位）
+  const lengths = new Uint8Array(BLOCK_SIZE)
+  const view = new DataView(lengths.buffer)
+  view.setUint32(0, Math.floor(aad.length / 0x20000000))
+  view.setUint32(4, (aad.length * 8) >>> 0)
+  view.setUint32(8, Math.floor(ciphertext.length / 0x20000000))
+  view.setUint32(12, (ciphertext.length * 8) >>> 0)
+  absorb(lengths)
+  // 输出字节
+  const output = new Uint8Array(BLOCK_SIZE)
+  const outputView = new DataView(output.buffer)
+  for (let index = 0; index < 4; index += 1)
+    outputView.setUint32(index * 4, y[index]!)
+  return output
+}
+
+/** 计数器低 32 位加一 */
+function increment32(counter: Uint8Array): void {
+  for (let index = BLOCK_SIZE - 1; index >= BLOCK_SIZE - 4; index -= 1) {
+    counter[index] = (counter[index]! + 1) & 0xFF
+    if (counter[index] !== 0)
+      return
+  }
+}
+
+/** 计算初始计数器 J0 */
+function deriveJ0(h: Uint32Array, iv: Uint8Array): Uint8Array {
+  if (iv.length === 12)
+    return concatBytes(iv, new Uint8Array([0, 0, 0, 1]))
+  return ghash(h, new Uint8Array(0), iv)
+}
+
+/** GCTR 运算 */
+function gctr(cipher: BlockCipher, initialCounter: Uint8Array, data: Uint8Array): Uint8Array {
+  // 输出
+  const output = new Uint8Array(data.length)
+  // 计数器
+  const counter = Uint8Array.from(initialCounter)
+  for (let offset = 0; offset < data.length; offset += BLOCK_SIZE) {
+    // 密钥流
+    const keyStream = cipher.encryptBlock(counter)
+    const end = Math.min(data.length, offset + BLOCK_SIZE)
+    for (let index = offset; index < end; index += 1)
+      output[index] = data[index]! ^ keyStream[index - offset]!
+    increment32(counter)
+  }
+  return output
+}
+
+/** 计算认证标签 */
+function computeTag(cipher: BlockCipher, h: Uint32Array, j0: Uint8Array, aad: Uint8Array, ciphertext: Uint8Array, tagLength: number): Uint8Array {
+  // S = GHASH(A, C)
+  const s = ghash(h, aad, ciphertext)
+  return gctr(cipher, j0, s).subarray(0, tagLength)
+}
+
+/** GCM 加密，返回密文与标签 */
+export function gcmEncrypt(
+  cipher: BlockCipher,
+  plaintext: Uint8Array,
+  iv: Uint8Array,
+  aad: Uint8Array,
+  tagLength = BLOCK_SIZE,
+): { ciphertext: Uint8Array, tag: Uint8Array } {
+  // 哈希子密钥
+  const h = toWords(cipher.encryptBlock(new Uint8Array(BLOCK_SIZE)))
+  // 初始计数器
+  const j0 = deriveJ0(h, iv)
+  const counter = Uint8Array.from(j0)
+  increment32(counter)
+  // 密文
+  const ciphertext = gctr(cipher, counter, plaintext)
+  return { ciphertext, tag: computeTag(cipher, h, j0, aad, ciphertext, tagLength) }
+}
+
+/** GCM 解密（标签为空、超过一个分组或校验失败时返回 null） */
+export function gcmDecrypt(
+  cipher: BlockCipher,
+  ciphertext: Uint8Array,
+  iv: Uint8Array,
+  tag: Uint8Array,
+  aad: Uint8Array,
+): Uint8Array | null {
+  if (tag.length === 0 || tag.length > BLOCK_SIZE)
+    return null
+  // 哈希子密钥
+  const h = toWords(cipher.encryptBlock(new Uint8Array(BLOCK_SIZE)))
+  // 初始计数器
+  const j0 = deriveJ0(h, iv)
+  // 期望标签
+  const expected = computeTag(cipher, h, j0, aad, ciphertext, tag.length)
+  // 常量时间比较
+  let diff = 0
+  for (let index = 0; index < tag.length; index += 1)
+    diff |= expected[index]! ^ tag[index]!
+  if (diff !== 0)
+    return null
+  const counter = Uint8Array.from(j0)
+  increment32(counter)
+  return gctr(cipher, counter, ciphertext)
+}
@@ -0,0 +1,107 @@
+import { concatBytes } from '../bytes'
+import { md5 } from './md5'
+
+/** 摘要算法（MD5 由本地实现，其余走 WebCrypto） */
+export type DigestAlgorithm = 'MD5' | 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512'
+
+/** WebCrypto 支持的摘要算法（PBKDF2/HKDF 可用） */
+export type WebDigestAlgorithm = Exclude<DigestAlgorithm, 'MD5'>
+
+/** EVP_BytesToKey 可选摘要 */
+export const EVP_DIGESTS: DigestAlgorithm[] = ['MD5', 'SHA-1', 'SHA-256']
+
+/** PBKDF2/HKDF 可选摘要 */
+export const WEB_DIGESTS: WebDigestAlgorithm[] = ['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512']
+
+/** 迭代次数上限（MD5 为纯 JS 实现，过大的次数会长时间阻塞面板） */
+export const MAX_KDF_ITERATIONS = 1_000_000
+
+/** 派生出的密钥与 IV */
+export interface DerivedKeyIv {
+  /** 密钥 */
+  key: Uint8Array
+  /** 初始向量 */
+  iv: Uint8Array
+}
+
+/** 复制为独立 ArrayBuffer 承载的字节（满足 WebCrypto 参数类型） */
+function toBufferSource(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(bytes)
+}
+
+/** 计算摘要 */
+export async function digest(algorithm: DigestAlgorithm, data: Uint8Array): Promise<Uint8Array> {
+  if (algorithm === 'MD5')
+    return md5(data)
+  return new Uint8Array(await crypto.subtle.digest(algorithm, toBufferSource(data)))
+}
+
+/** 按密钥/IV 长度切分派生结果 */
+export function splitKeyIv(material: Uint8Array, keyLength: number): DerivedKeyIv {
+  return { key: material.slice(0, keyLength), iv: material.slice(keyLength) }
+}
+
+/**
+ * OpenSSL EVP_BytesToKey：D_i = HASH^count(D_{i-1} || password || salt)，
+ * 拼接至 keyLength + ivLength 字节（CryptoJS 口令模式即 MD5、1 次迭代）
+ */
+export async function evpBytesToKey(
+  password: Uint8Array,
+  salt: Uint8Array,
+  keyLength: number,
+  ivLength: number,
+  algorithm: DigestAlgorithm = 'MD5',
+  iterations = 1,
+): Promise<DerivedKeyIv> {
+  // 目标长度
+  const total = keyLength + ivLength
+  // 已派生字节块
+  const blocks: Uint8Array[] = []
+  let derivedLength = 0
+  let previous: Uint8Array = new Uint8Array(0)
+  while (derivedLength < total) {
+    let block = await digest(algorithm, concatBytes(previous, password, salt))
+    for (let round = 1; round < iterations; round += 1)
+      block = await digest(algorithm, block)
+    blocks.push(block)
+    derivedLength += block.length
+    previous = block
+  }
+  return splitKeyIv(concatBytes(...blocks).slice(0, total), keyLength)
+}
+
+/** PBKDF2 派生指定字节数 */
+export async function pbkdf2(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number,
+  algorithm: WebDigestAlgorithm = 'SHA-256',
+): Promise<Uint8Array> {
+  // 导入口令
+  const baseKey = await crypto.subtle.importKey('raw', toBufferSource(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: algorithm, salt: toBufferSource(salt), iterations },
+    baseKey,
+    length * 8,
+  )
+  return new Uint8Array(bits)
+}
+
+/** HKDF（RFC 5869）派生指定字节数 */
+export async function hkdf(
+  keyMaterial: Uint8Array,
+  salt: Uint8Array,
+  info: Uint8Array,
+  length: number,
+  algorithm: WebDigestAlgorithm = 'SHA-256',
+): Promise<Uint8Array> {
+  // 导入输入密钥材料
+  const baseKey = await crypto.subtle.importKey('raw', toBufferSource(keyMaterial), 'HKDF', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: algorithm, salt: toBufferSource(salt), info: toBufferSource(info) },
+    baseKey,
+    length * 8,
+  )
+  return new Uint8Array(bits)
+}
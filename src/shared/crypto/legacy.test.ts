@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { hexDecode, hexEncode } from '../bytes'
+import { createDesCipher, createTripleDesCipher } from './des'
+import { rc4 } from './rc4'
+
+/** hex 转字节（测试向量均为合法 hex） */
+function hex(text: string): Uint8Array {
+  return hexDecode(text.replace(/\s+/g, ''))!
+}
+
+/** 逐分组 ECB 加密（测试向量均为整分组） */
+function encryptBlocks(encryptBlock: (block: Uint8Array) => Uint8Array, data: Uint8Array): string {
+  // 各分组密文
+  const blocks: string[] = []
+  for (let offset = 0; offset < data.length; offset += 8)
+    blocks.push(hexEncode(encryptBlock(data.subarray(offset, offset + 8))))
+  return blocks.join('')
+}
+
+describe('createDesCipher', () => {
+  it('经典示例：133457799BBCDFF1', () => {
+    const cipher = createDesCipher(hex('133457799BBCDFF1'))
+    expect(hexEncode(cipher.encryptBlock(hex('0123456789ABCDEF')))).toBe('85e813540f0ab405')
+    expect(hexEncode(cipher.decryptBlock(hex('85e813540f0ab405')))).toBe('0123456789abcdef')
+  })
+
+  it('对照 FIPS 81 ECB 示例', () => {
+    const cipher = createDesCipher(hex('0123456789ABCDEF'))
+    expect(hexEncode(cipher.encryptBlock(hex('4E6F772069732074')))).toBe('3fa40e8a984d4815')
+  })
+
+  it('密钥长度非法时抛出', () => {
+    expect(() => createDesCipher(new Uint8Array(7))).toThrow(RangeError)
+  })
+})
+
+describe('createTripleDesCipher', () => {
+  // NIST SP 800-67 示例明文 "The qufck brown fox jump"
+  const plaintext = hex('5468652071756663 6B2062726F776E20 666F78206A756D70')
+
+  it('三密钥（NIST SP 800-67）', () => {
+    const cipher = createTripleDesCipher(hex('0123456789ABCDEF 23456789ABCDEF01 456789ABCDEF0123'))
+    expect(encryptBlocks(cipher.encryptBlock, plaintext)).toBe('a826fd8ce53b855fcce21c8112256fe668d5c05dd9b6b900')
+    expect(hexEncode(cipher.decryptBlock(hex('a826fd8ce53b855f')))).toBe('5468652071756663')
+  })
+
+  it('双密钥（K1K2K1）', () => {
+    const cipher = createTripleDesCipher(hex('0123456789ABCDEF 23456789ABCDEF01'))
+    expect(hexEncode(cipher.encryptBlock(plaintext.subarray(0, 8)))).toBe('c44862f70cf2fbdc')
+    // 与显式 K1K2K1 的三密钥形式等价
+    const expanded = createTripleDesCipher(hex('0123456789ABCDEF 23456789ABCDEF01 0123456789ABCDEF'))
+    expect(encryptBlocks(cipher.encryptBlock, plaintext)).toBe(encryptBlocks(expanded.encryptBlock, plaintext))
+  })
+
+  it('三个子密钥相同时退化为单 DES', () => {
+    const cipher = createTripleDesCipher(hex('133457799BBCDFF1'.repeat(3)))
+    expect(hexEncode(cipher.encryptBlock(hex('0123456789ABCDEF')))).toBe('85e813540f0ab405')
+  })
+})
+
+describe('rc4（RFC 6229）', () => {
+  it('40 位密钥 0102030405', () => {
+    // 密钥流即全零明文的密文
+    const keystream = rc4(hex('0102030405'), new Uint8Array(1552))
+    expect(hexEncode(keystream.subarray(0, 32))).toBe('b2396305f03dc027ccc3524a0a1118a86982944f18fc82d589c403a47a0d0919')
+    expect(hexEncode(keystream.subarray(240, 256))).toBe('28cb1132c96ce286421dcaadb8b69eae')
+    expect(hexEncode(keystream.subarray(1536, 1552))).toBe('d8729db41882259bee4f825325f5a130')
+  })
+
+  it('128 位密钥 0102…0f10', () => {
+    expect(hexEncode(rc4(hex('0102030405060708090a0b0c0d0e0f10'), new Uint8Array(16)))).toBe('9ac7cc9a609d1ef7b2932899cde41b97')
+  })
+
+  it('drop 跳过密钥流前 n 字节', () => {
+    expect(hexEncode(rc4(hex('0102030405'), new Uint8Array(16), 1536))).toBe('d8729db41882259bee4f825325f5a130')
+  })
+})
@@ -0,0 +1,80 @@
+/** MD5 摘要长度（字节） */
+export const MD5_DIGEST_SIZE = 16
+
+/** 每轮循环左移位数 */
+const SHIFTS = [7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21]
+
+/** 轮常量 K[i] = floor(|sin(i + 1)| * 2^32) */
+const CONSTANTS = Array.from({ length: 64 }, (_, index) => Math.floor(Math.abs(Math.sin(index + 1)) * 0x100000000) >>> 0)
+
+/** 32 位循环左移 */
+function rotl(value: number, shift: number): number {
+  return ((value << shift) | (value >>> (32 - shift))) >>> 0
+}
+
+/** 消息填充：追加 1 位、补零并写入 64 位小端长度 */
+function padMessage(message: Uint8Array): Uint8Array {
+  // 填充后长度（64 字节对齐）
+  const paddedLength = Math.ceil((message.length + 9) / 64) * 64
+  const padded = new Uint8Array(paddedLength)
+  padded.set(message)
+  padded[message.length] = 0x80
+  // 位长度
+  const view = new DataView(padded.buffer)
+  const bitLength = message.length * 8
+  view.setUint32(paddedLength - 8, bitLength >>> 0, true)
+  view.setUint32(paddedLength - 4, Math.floor(bitLength / 0x100000000), true)
+  return padded
+}
+
+/** 压缩函数 */
+function compress(state: number[], block: DataView, offset: number): void {
+  // 消息字（小端）
+  const words = Array.from({ length: 16 }, (_, index) => block.getUint32(offset + index * 4, true))
+  let [a, b, c, d] = state as [number, number, number, number]
+  for (let round = 0; round < 64; round += 1) {
+    // 布尔函数与消息字下标
+    let f: number
+    let wordIndex: number
+    if (round < 16) {
+      f = (b & c) | (~b & d)
+      wordIndex = round
+    }
+    else if (round < 32) {
+      f = (d & b) | (~d & c)
+      wordIndex = (5 * round + 1) % 16
+    }
+    else if (round < 48) {
+      f = b ^ c ^ d
+      wordIndex = (3 * round + 5) % 16
+    }
+    else {
+      f = c ^ (b | ~d)
+      wordIndex = (7 * round) % 16
+    }
+    const next = (a + f + CONSTANTS[round]! + words[wordIndex]!) >>> 0
+    a = d
+    d = c
+    c = b
+    b = (b + rotl(next, SHIFTS[round]!)) >>> 0
+  }
+  state[0] = (state[0]! + a) >>> 0
+  state[1] = (state[1]! + b) >>> 0
+  state[2] = (state[2]! + c) >>> 0
+  state[3] = (state[3]! + d) >>> 0
+}
+
+/** 计算 MD5 摘要（WebCrypto 不提供 MD5，EVP_BytesToKey 等场景需要） */
+export function md5(message: Uint8Array): Uint8Array {
+  // 初始状态
+  const state = [0x67452301, 0xEFCDAB89, 0x98BADCFE, 0x10325476]
+  const padded = padMessage(message)
+  const view = new DataView(padded.buffer)
+  for (let offset = 0; offset < padded.length; offset += 64)
+    compress(state, view, offset)
+  // 小端输出
+  const digest = new Uint8Array(MD5_DIGEST_SIZE)
+  const digestView = new DataView(digest.buffer)
+  state.forEach((word, index) => digestView.setUint32(index * 4, word, true))
+  return digest
+}
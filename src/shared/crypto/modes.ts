@@ -0,0 +1,113 @@
+import type { BlockCipher } from './types'
+
+/** 分组工作模式 */
+export type CipherMode = 'CBC' | 'ECB' | 'CTR' | 'CFB' | 'GCM'
+
+/** 两个分组异或 */
+function xorBlock(left: Uint8Array, right: Uint8Array): Uint8Array {
+  // 输出分组
+  const result = new Uint8Array(left.length)
+  for (let index = 0; index < left.length; index += 1)
+    result[index] = left[index]! ^ (right[index] ?? 0)
+  return result
+}
+
+/** ECB 加密（输入需已对齐） */
+export function ecbEncrypt(cipher: BlockCipher, data: Uint8Array): Uint8Array {
+  // 输出
+  const output = new Uint8Array(data.length)
+  for (let offset = 0; offset < data.length; offset += cipher.blockSize)
+    output.set(cipher.encryptBlock(data.subarray(offset, offset + cipher.blockSize)), offset)
+  return output
+}
+
+/** ECB 解密（输入需已对齐） */
+export function ecbDecrypt(cipher: BlockCipher, data: Uint8Array): Uint8Array {
+  // 输出
+  const output = new Uint8Array(data.length)
+  for (let offset = 0; offset < data.length; offset += cipher.blockSize)
+    output.set(cipher.decryptBlock(data.subarray(offset, offset + cipher.blockSize)), offset)
+  return output
+}
+
+/** CBC 加密（输入需已对齐） */
+export function cbcEncrypt(cipher: BlockCipher, data: Uint8Array, iv: Uint8Array): Uint8Array {
+  // 输出
+  const output = new Uint8Array(data.length)
+  // 上一个密文分组
+  let previous = iv
+  for (let offset = 0; offset < data.length; offset += cipher.blockSize) {
+    previous = cipher.encryptBlock(xorBlock(data.subarray(offset, offset + cipher.blockSize), previous))
+    output.set(previous, offset)
+  }
+  return output
+}
+
+/** CBC 解密（输入需已对齐） */
+export function cbcDecrypt(cipher: BlockCipher, data: Uint8Array, iv: Uint8Array): Uint8Array {
+  // 输出
+  const output = new Uint8Array(data.length)
+  // 上一个密文分组
+  let previous = iv
+  for (let offset = 0; offset < data.length; offset += cipher.blockSize) {
+    // 当前密文分组
+    const block = data.subarray(offset, offset + cipher.blockSize)
+    output.set(xorBlock(cipher.decryptBlock(block), previous), offset)
+    previous = block
+  }
+  return output
+}
+
+/** 计数器分组按大端整体加一 */
+function incrementCounter(counter: Uint8Array): void {
+  for (let index = counter.length - 1; index >= 0; index -= 1) {
+    counter[index] = (counter[index]! + 1) & 0xFF
+    if (counter[index] !== 0)
+      return
+  }
+}
+
+/** CTR 加解密（对称运算，无需对齐） */
+export function ctrCrypt(cipher: BlockCipher, data: Uint8Array, iv: Uint8Array): Uint8Array {
+  // 输出
+  const output = new Uint8Array(data.length)
+  // 计数器
+  const counter = Uint8Array.from(iv)
+  for (let offset = 0; offset < data.length; offset += cipher.blockSize) {
+    // 密钥流
+    const keyStream = cipher.encryptBlock(counter)
+    output.set(xorBlock(data.subarray(offset, offset + cipher.blockSize), keyStream).subarray(0, Math.min(cipher.blockSize, data.length - offset)), offset)
+    incrementCounter(counter)
+  }
+  return output
+}
+
+/** CFB 加密（整分组反馈，无需对齐） */
+export function cfbEncrypt(cipher: BlockCipher, data: Uint8Array, iv: Uint8Array): Uint8Array {
+  // 输出
+  const output = new Uint8Array(data.length)
+  // 反馈寄存器
+  let feedback = iv
+  for (let offset = 0; offset < data.length; offset += cipher.blockSize) {
+    // 当前密文分组
+    const block = xorBlock(data.subarray(offset, offset + cipher.blockSize), cipher.encryptBlock(feedback))
+    output.set(block, offset)
+    feedback = block
+  }
+  return output
+}
+
+/** CFB 解密（整分组反馈，无需对齐） */
+export function cfbDecrypt(cipher: BlockCipher, data: Uint8Array, iv: Uint8Array): Uint8Array {
+  // 输出
+  const output = new Uint8Array(data.length)
+  // 反馈寄存器
+  let feedback = iv
+  for (let offset = 0; offset < data.length; offset += cipher.blockSize) {
+    // 当前密文分组
+    const block = data.subarray(offset, offset + cipher.blockSize)
+    output.set(xorBlock(block, cipher.encryptBlock(feedback)), offset)
+    feedback = block
+  }
+  return output
+}
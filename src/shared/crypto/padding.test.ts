@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { applyPadding, removePadding } from './padding'
+
+describe('applyPadding', () => {
+  it('pKCS7 补齐到分组长度，已对齐时补整组', () => {
+    expect(applyPadding(new Uint8Array([1, 2, 3]), 8, 'PKCS7')).toEqual(new Uint8Array([1, 2, 3, 5, 5, 5, 5, 5]))
+    expect(applyPadding(new Uint8Array(8), 8, 'PKCS7')).toEqual(new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0, 8, 8, 8, 8, 8, 8, 8, 8]))
+  })
+
+  it('zeroPadding 补零，已对齐时不变', () => {
+    expect(applyPadding(new Uint8Array([1, 2, 3]), 4, 'ZeroPadding')).toEqual(new Uint8Array([1, 2, 3, 0]))
+    expect(applyPadding(new Uint8Array([1, 2, 3, 4]), 4, 'ZeroPadding')).toEqual(new Uint8Array([1, 2, 3, 4]))
+  })
+
+  it('noPadding 要求长度已对齐', () => {
+    expect(applyPadding(new Uint8Array(4), 4, 'NoPadding')).toEqual(new Uint8Array(4))
+    expect(applyPadding(new Uint8Array(3), 4, 'NoPadding')).toBeNull()
+  })
+})
+
+describe('removePadding', () => {
+  it('pKCS7 去除合法填充', () => {
+    expect(removePadding(new Uint8Array([1, 2, 3, 5, 5, 5, 5, 5]), 8, 'PKCS7')).toEqual(new Uint8Array([1, 2, 3]))
+  })
+
+  it.each([
+    ['填充值为 0', [1, 2, 3, 0]],
+    ['填充值超过分组长度', [1, 2, 3, 9]],
+    ['填充字节不一致', [1, 2, 1, 2]],
+    ['长度未对齐', [1, 2, 1]],
+    ['空输入', []],
+  ])('pKCS7 %s时返回 null', (_title, data) => {
+    expect(removePadding(new Uint8Array(data), 4, 'PKCS7')).toBeNull()
+  })
+
+  it('zeroPadding 去掉末尾全部零字节，noPadding 原样返回', () => {
+    expect(removePadding(new Uint8Array([1, 0, 2, 0, 0]), 4, 'ZeroPadding')).toEqual(new Uint8Array([1, 0, 2]))
+    expect(removePadding(new Uint8Array([1, 0, 0]), 4, 'NoPadding')).toEqual(new Uint8Array([1, 0, 0]))
+  })
+})
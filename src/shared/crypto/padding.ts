@@ -0,0 +1,52 @@
+/** 填充模式 */
+export type PaddingMode = 'PKCS7' | 'ZeroPadding' | 'NoPadding'
+
+/** 填充模式列表 */
+export const PADDING_MODES: PaddingMode[] = ['PKCS7', 'ZeroPadding', 'NoPadding']
+
+/** 按分组长度补齐数据（NoPadding 要求长度已对齐，否则返回 null） */
+export function applyPadding(data: Uint8Array, blockSize: number, mode: PaddingMode): Uint8Array | null {
+  // 余数
+  const remainder = data.length % blockSize
+  if (mode === 'NoPadding')
+    return remainder === 0 ? data : null
+  if (mode === 'ZeroPadding') {
+    if (remainder === 0)
+      return data
+    // 补零后的数据
+    const padded = new Uint8Array(data.length + blockSize - remainder)
+    padded.set(data)
+    return padded
+  }
+  // PKCS7 填充长度
+  const padLength = blockSize - remainder
+  // 填充后的数据
+  const padded = new Uint8Array(data.length + padLength)
+  padded.set(data)
+  padded.fill(padLength, data.length)
+  return padded
+}
+
+/** 移除填充（PKCS7 校验失败时返回 null） */
+export function removePadding(data: Uint8Array, blockSize: number, mode: PaddingMode): Uint8Array | null {
+  if (mode === 'NoPadding')
+    return data
+  if (mode === 'ZeroPadding') {
+    // 末尾非零位置
+    let end = data.length
+    while (end > 0 && data[end - 1] === 0)
+      end -= 1
+    return data.subarray(0, end)
+  }
+  if (data.length === 0 || data.length % blockSize !== 0)
+    return null
+  // PKCS7 填充长度
+  const padLength = data[data.length - 1]!
+  if (padLength === 0 || padLength > blockSize)
+    return null
+  for (let index = data.length - padLength; index < data.length; index += 1) {
+    if (data[index] !== padLength)
+      return null
+  }
+  return data.subarray(0, data.length - padLength)
+}
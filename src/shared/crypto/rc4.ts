@@ -0,0 +1,29 @@
+/** RC4 加解密（对称运算），drop 为丢弃的初始密钥流字节数（RC4-drop[n]） */
+export function rc4(key: Uint8Array, data: Uint8Array, drop = 0): Uint8Array {
+  // 状态表
+  const state = new Uint8Array(256)
+  for (let index = 0; index < 256; index += 1)
+    state[index] = index
+  // 密钥调度 KSA
+  let j = 0
+  for (let index = 0; index < 256; index += 1) {
+    j = (j + state[index]! + key[index % key.length]!) & 0xFF
+    ;[state[index], state[j]] = [state[j]!, state[index]!]
+  }
+  // 伪随机生成 PRGA
+  let i = 0
+  j = 0
+  const nextByte = (): number => {
+    i = (i + 1) & 0xFF
+    j = (j + state[i]!) & 0xFF
+    ;[state[i], state[j]] = [state[j]!, state[i]!]
+    return state[(state[i]! + state[j]!) & 0xFF]!
+  }
+  for (let index = 0; index < drop; index += 1)
+    nextByte()
+  // 输出
+  const output = new Uint8Array(data.length)
+  for (let index = 0; index < data.length; index += 1)
+    output[index] = data[index]! ^ nextByte()
+  return output
+}
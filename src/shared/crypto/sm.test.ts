@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { hexDecode, hexEncode, utf8Decode, utf8Encode } from '../bytes'
+import { sm2Decrypt, sm2Verify } from './sm2'
+import { sm3 } from './sm3'
+import { createSm4Cipher } from './sm4'
+
+/** hex 转字节（测试向量均为合法 hex） */
+function hex(text: string): Uint8Array {
+  return hexDecode(text.replace(/\s+/g, ''))!
+}
+
+describe('createSm4Cipher（GB/T 32907-2016 附录 A）', () => {
+  // 示例 1：密钥与明文相同
+  const key = hex('0123456789abcdeffedcba9876543210')
+  const cipher = createSm4Cipher(key)
+
+  it('加密单个分组', () => {
+    expect(hexEncode(cipher.encryptBlock(key))).toBe('681edf34d206965e86b3e94f536e4246')
+  })
+
+  it('解密单个分组', () => {
+    expect(hexEncode(cipher.decryptBlock(hex('681edf34d206965e86b3e94f536e4246')))).toBe('0123456789abcdeffedcba9876543210')
+  })
+})
+
+describe('sm3（GB/T 32905-2016 附录 A）', () => {
+  it('示例 1：abc', () => {
+    expect(hexEncode(sm3(utf8Encode('abc')))).toBe('66c7f0f462eeedd9d1f2d46bdc10e4e24167c4875cf2f7a2297da02b8f4ba8e0')
+  })
+
+  it('示例 2：512 比特消息', () => {
+    expect(hexEncode(sm3(utf8Encode('abcd'.repeat(16))))).toBe('debe9ff92275b8a138604889c18e5a4d6fdb70e5387e5765293dcba39c0c5732')
+  })
+})
+
+describe('sm2（GB/T 32918 推荐曲线示例）', () => {
+  // 示例私钥与公钥
+  const privateKey = hex('3945208F7B2144B13F36E38AC6D39F95889393692860B51A42FB81EF4DF7C5B8')
+  const publicKey = hex(`
+    04
+    09F9DF311E5421A150DD7D161E4BC5C672179FAD1833FC076BB08FF356F35020
+    CCEA490CE26775A52DC6EA718CC1AA600AED05FBF35E084A6632F6072DA9AD13
+  `)
+
+  describe('加密解密', () => {
+    // C1 = k·G（k = 59276E27…BC21）
+    const c1 = `
+      04
+      04EBFC718E8D1798620432268E77FEB6415E2EDE0E073C0F4F640ECD2E149A73
+      E858F9D81E5430A57B36DAAB8F950A3C64E6EE6A63094D99283AFF767E124DF0
+    `
+    const c3 = '59983C18F809E262923C53AEC295D30383B54E39D609D160AFCB1908D0BD8766'
+    const c2 = '21886CA989CA9C7D58087307CA93092D651EFA'
+
+    it('解密 C1C3C2 密文', () => {
+      const result = sm2Decrypt(privateKey, hex(c1 + c3 + c2), 'C1C3C2', 'auto')
+      expect(result.ok && utf8Decode(result.plaintext)).toBe('encryption standard')
+    })
+
+    it('解密 C1C2C3 密文（无 04 前缀）', () => {
+      const result = sm2Decrypt(privateKey, hex(c1.trim().slice(2) + c2 + c3), 'C1C2C3', 'raw')
+      expect(result.ok && utf8Decode(result.plaintext)).toBe('encryption standard')
+    })
+
+    it('校验值 C3 不符时报错', () => {
+      const result = sm2Decrypt(privateKey, hex(`${c1}${c3.slice(0, -2)}00${c2}`), 'C1C3C2', 'auto')
+      expect(result).toEqual({ ok: false, reason: 'C3_MISMATCH' })
+    })
+  })
+
+  describe('签名验签', () => {
+    // 签名 (r, s)，用户 ID 为默认值 1234567812345678
+    const signature = hex(`
+      F5A03B0648D2C4630EEAC513E1BB81A15944DA3827D5B74143AC7EACEEE720B3
+      B1B6AA29DF212FD8763182BC0D421CA1BB9038FD1F7F42D4840B69C485BBC1AA
+    `)
+    const userId = utf8Encode('1234567812345678')
+
+    it('验证示例签名', () => {
+      expect(sm2Verify(publicKey, utf8Encode('message digest'), signature, userId)).toBe(true)
+    })
+
+    it('消息被篡改时验签失败', () => {
+      expect(sm2Verify(publicKey, utf8Encode('message digesT'), signature, userId)).toBe(false)
+    })
+
+    it('用户 ID 不同时验签失败', () => {
+      expect(sm2Verify(publicKey, utf8Encode('message digest'), signature, utf8Encode('ALICE123@YAHOO.COM'))).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,246 @@
+import { concatBytes } from '../bytes'
+import { SM3_DIGEST_SIZE, sm3 } from './sm3'
+
+/** SM2 推荐曲线参数（sm2p256v1） */
+const P = 0xFFFFFFFEFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF00000000FFFFFFFFFFFFFFFFn
+const A = 0xFFFFFFFEFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF00000000FFFFFFFFFFFFFFFCn
+const B = 0x28E9FA9E9D9F5E344D5A9E4BCF6509A7F39789F515AB8F92DDBCBD414D940E93n
+const N = 0xFFFFFFFEFFFFFFFFFFFFFFFFFFFFFFFF7203DF6B21C6052B53BBF40939D54123n
+const GX = 0x32C4AE2C1F1981195F9904466A39C9948FE30BBFF2660BE1715A4589334C74C7n
+const GY = 0xBC3736A2F4F6779C59BDCEE36B692153D0A9877CC62A474002DF32E52139F0A0n
+
+/** 坐标字节长度 */
+const COORDINATE_SIZE = 32
+
+/** 密文排列方式 */
+export type Sm2CipherMode = 'C1C3C2' | 'C1C2C3'
+
+/** C1 编码方式：prefixed 为 04||x||y，raw 为 x||y，auto 按首字节判断 */
+export type Sm2C1Format = 'auto' | 'prefixed' | 'raw'
+
+/** SM2 解密结果 */
+export type Sm2DecryptResult =
+  | { ok: true, plaintext: Uint8Array }
+  | { ok: false, reason: 'KEY_INVALID' | 'INPUT_INVALID' | 'C1_INVALID' | 'KDF_ZERO' | 'C3_MISMATCH' }
+
+/** Jacobian 坐标点（z 为 0 表示无穷远点） */
+interface JacobianPoint {
+  x: bigint
+  y: bigint
+  z: bigint
+}
+
+/** 取模（结果非负） */
+function mod(value: bigint, modulus = P): bigint {
+  // 余数
+  const result = value % modulus
+  return result >= 0n ? result : result + modulus
+}
+
+/** 扩展欧几里得求逆元 */
+function modInverse(value: bigint, modulus = P): bigint {
+  let [oldR, r] = [mod(value, modulus), modulus]
+  let [oldS, s] = [1n, 0n]
+  while (r !== 0n) {
+    // 商
+    const quotient = oldR / r
+    ;[oldR, r] = [r, oldR - quotient * r]
+    ;[oldS, s] = [s, oldS - quotient * s]
+  }
+  return mod(oldS, modulus)
+}
+
+/** 倍点 */
+function pointDouble(point: JacobianPoint): JacobianPoint {
+  if (point.z === 0n || point.y === 0n)
+    return { x: 0n, y: 1n, z: 0n }
+  const { x, y, z } = point
+  const y2 = mod(y * y)
+  const s = mod(4n * x * y2)
+  const z2 = mod(z * z)
+  const m = mod(3n * x * x + A * z2 * z2)
+  const x3 = mod(m * m - 2n * s)
+  const y3 = mod(m * (s - x3) - 8n * y2 * y2)
+  const z3 = mod(2n * y * z)
+  return { x: x3, y: y3, z: z3 }
+}
+
+/** 点加 */
+function pointAdd(left: JacobianPoint, right: JacobianPoint): JacobianPoint {
+  if (left.z === 0n)
+    return right
+  if (right.z === 0n)
+    return left
+  const z1z1 = mod(left.z * left.z)
+  const z2z2 = mod(right.z * right.z)
+  const u1 = mod(left.x * z2z2)
+  const u2 = mod(right.x * z1z1)
+  const s1 = mod(left.y * z2z2 * right.z)
+  const s2 = mod(right.y * z1z1 * left.z)
+  if (u1 === u2)
+    return s1 === s2 ? pointDouble(left) : { x: 0n, y: 1n, z: 0n }
+  const h = mod(u2 - u1)
+  const r = mod(s2 - s1)
+  const h2 = mod(h * h)
+  const h3 = mod(h2 * h)
+  const x3 = mod(r * r - h3 - 2n * u1 * h2)
+  const y3 = mod(r * (u1 * h2 - x3) - s1 * h3)
+  const z3 = mod(h * left.z * right.z)
+  return { x: x3, y: y3, z: z3 }
+}
+
+/** 标量乘（从高位开始的倍点-加法） */
+function scalarMultiply(scalar: bigint, point: JacobianPoint): JacobianPoint {
+  // 累加结果
+  let result: JacobianPoint = { x: 0n, y: 1n, z: 0n }
+  for (let bit = BigInt(scalar.toString(2).length - 1); bit >= 0n; bit -= 1n) {
+    result = pointDouble(result)
+    if ((scalar >> bit) & 1n)
+      result = pointAdd(result, point)
+  }
+  return result
+}
+
+/** 转回仿射坐标 */
+function toAffine(point: JacobianPoint): { x: bigint, y: bigint } | null {
+  if (point.z === 0n)
+    return null
+  const zInverse = modInverse(point.z)
+  const zInverse2 = mod(zInverse * zInverse)
+  return { x: mod(point.x * zInverse2), y: mod(point.y * zInverse2 * zInverse) }
+}
+
+/** 判断仿射点是否在曲线上 */
+function isOnCurve(x: bigint, y: bigint): boolean {
+  return x < P && y < P && mod(y * y) === mod(x * x * x + A * x + B)
+}
+
+/** 大端字节转整数 */
+function bytesToBigint(bytes: Uint8Array): bigint {
+  // 累加值
+  let value = 0n
+  for (const byte of bytes)
+    value = (value << 8n) | BigInt(byte)
+  return value
+}
+
+/** 整数转定长大端字节 */
+function bigintToBytes(value: bigint, length: number): Uint8Array {
+  // 输出字节
+  const bytes = new Uint8Array(length)
+  let rest = value
+  for (let index = length - 1; index >= 0; index -= 1) {
+    bytes[index] = Number(rest & 0xFFn)
+    rest >>= 8n
+  }
+  return bytes
+}
+
+/** 基于 SM3 的密钥派生函数 KDF */
+export function sm2Kdf(seed: Uint8Array, length: number): Uint8Array {
+  // 输出
+  const output = new Uint8Array(length)
+  // 计数器（32 位大端）
+  const counter = new Uint8Array(4)
+  const counterView = new DataView(counter.buffer)
+  for (let offset = 0, count = 1; offset < length; offset += SM3_DIGEST_SIZE, count += 1) {
+    counterView.setUint32(0, count)
+    const digest = sm3(concatBytes(seed, counter))
+    output.set(digest.subarray(0, Math.min(SM3_DIGEST_SIZE, length - offset)), offset)
+  }
+  return output
+}
+
+/** SM2 解密（GB/T 32918.4-2016） */
+export function sm2Decrypt(
+  privateKey: Uint8Array,
+  ciphertext: Uint8Array,
+  mode: Sm2CipherMode,
+  c1Format: Sm2C1Format,
+): Sm2DecryptResult {
+  // 私钥
+  const d = bytesToBigint(privateKey)
+  if (d <= 0n || d >= N)
+    return { ok: false, reason: 'KEY_INVALID' }
+
+  // C1 长度
+  const prefixed = c1Format === 'prefixed' || (c1Format === 'auto' && ciphertext[0] === 0x04)
+  const c1Length = COORDINATE_SIZE * 2 + (prefixed ? 1 : 0)
+  if (ciphertext.length <= c1Length + SM3_DIGEST_SIZE)
+    return { ok: false, reason: 'INPUT_INVALID' }
+
+  // 解析 C1
+  const c1 = ciphertext.subarray(prefixed ? 1 : 0, c1Length)
+  const x1 = bytesToBigint(c1.subarray(0, COORDINATE_SIZE))
+  const y1 = bytesToBigint(c1.subarray(COORDINATE_SIZE))
+  if (!isOnCurve(x1, y1))
+    return { ok: false, reason: 'C1_INVALID' }
+
+  // 拆分 C2 / C3
+  const rest = ciphertext.subarray(c1Length)
+  const c3 = mode === 'C1C3C2' ? rest.subarray(0, SM3_DIGEST_SIZE) : rest.subarray(rest.length - SM3_DIGEST_SIZE)
+  const c2 = mode === 'C1C3C2' ? rest.subarray(SM3_DIGEST_SIZE) : rest.subarray(0, rest.length - SM3_DIGEST_SIZE)
+
+  // (x2, y2) = d · C1
+  const shared = toAffine(scalarMultiply(d, { x: x1, y: y1, z: 1n }))
+  if (!shared)
+    return { ok: false, reason: 'C1_INVALID' }
+  const x2 = bigintToBytes(shared.x, COORDINATE_SIZE)
+  const y2 = bigintToBytes(shared.y, COORDINATE_SIZE)
+
+  // t = KDF(x2 || y2, klen)
+  const t = sm2Kdf(concatBytes(x2, y2), c2.length)
+  if (t.every(byte => byte === 0))
+    return { ok: false, reason: 'KDF_ZERO' }
+
+  // M = C2 ⊕ t
+  const plaintext = new Uint8Array(c2.length)
+  for (let index = 0; index < c2.length; index += 1)
+    plaintext[index] = c2[index]! ^ t[index]!
+
+  // 校验 u = SM3(x2 || M || y2) 与 C3
+  const u = sm3(concatBytes(x2, plaintext, y2))
+  if (!u.every((byte, index) => byte === c3[index]))
+    return { ok: false, reason: 'C3_MISMATCH' }
+  return { ok: true, plaintext }
+}
+
+/** 计算用户杂凑值 Z = SM3(ENTL || ID || a || b || xG || yG || xA || yA) */
+function sm2UserHash(userId: Uint8Array, x: bigint, y: bigint): Uint8Array {
+  // ID 比特长度（16 位大端）
+  const entl = new Uint8Array([(userId.length * 8) >> 8 & 0xFF, (userId.length * 8) & 0xFF])
+  return sm3(concatBytes(
+    entl,
+    userId,
+    ...[A, B, GX, GY, x, y].map(value => bigintToBytes(value, COORDINATE_SIZE)),
+  ))
+}
+
+/** SM2 验签（GB/T 32918.2-2016）：公钥为 04||x||y 或 x||y，签名为 r||s */
+export function sm2Verify(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array, userId: Uint8Array): boolean {
+  // 公钥坐标
+  const key = publicKey.length === COORDINATE_SIZE * 2 + 1 && publicKey[0] === 0x04 ? publicKey.subarray(1) : publicKey
+  if (key.length !== COORDINATE_SIZE * 2 || signature.length !== COORDINATE_SIZE * 2)
+    return false
+  const x = bytesToBigint(key.subarray(0, COORDINATE_SIZE))
+  const y = bytesToBigint(key.subarray(COORDINATE_SIZE))
+  if (!isOnCurve(x, y))
+    return false
+
+  // r、s 须在 [1, n-1] 内
+  const r = bytesToBigint(signature.subarray(0, COORDINATE_SIZE))
+  const s = bytesToBigint(signature.subarray(COORDINATE_SIZE))
+  if (r <= 0n || r >= N || s <= 0n || s >= N)
+    return false
+  const t = mod(r + s, N)
+  if (t === 0n)
+    return false
+
+  // e = SM3(Z || M)
+  const e = bytesToBigint(sm3(concatBytes(sm2UserHash(userId, x, y), message)))
+  // (x1, y1) = s·G + t·PA
+  const point = toAffine(pointAdd(scalarMultiply(s, { x: GX, y: GY, z: 1n }), scalarMultiply(t, { x, y, z: 1n })))
+  if (!point)
+    return false
+  return mod(e + point.x, N) === r
+}
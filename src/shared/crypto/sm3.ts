@@ -0,0 +1,92 @@
+/** SM3 初始向量 */
+const IV = [0x7380166F, 0x4914B2B9, 0x172442D7, 0xDA8A0600, 0xA96F30BC, 0x163138AA, 0xE38DEE4D, 0xB0FB0E4E]
+
+/** SM3 摘要长度（字节） */
+export const SM3_DIGEST_SIZE = 32
+
+/** 32 位循环左移 */
+function rotl(value: number, shift: number): number {
+  // 规范化位移量
+  const n = shift % 32
+  return n === 0 ? value >>> 0 : ((value << n) | (value >>> (32 - n))) >>> 0
+}
+
+/** 置换 P0 */
+function p0(value: number): number {
+  return (value ^ rotl(value, 9) ^ rotl(value, 17)) >>> 0
+}
+
+/** 置换 P1 */
+function p1(value: number): number {
+  return (value ^ rotl(value, 15) ^ rotl(value, 23)) >>> 0
+}
+
+/** 消息填充：追加 1 位、补零并写入 64 位长度 */
+function padMessage(message: Uint8Array): Uint8Array {
+  // 填充后长度（64 字节对齐）
+  const paddedLength = Math.ceil((message.length + 9) / 64) * 64
+  const padded = new Uint8Array(paddedLength)
+  padded.set(message)
+  padded[message.length] = 0x80
+  // 位长度
+  const view = new DataView(padded.buffer)
+  const bitLength = message.length * 8
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000))
+  view.setUint32(paddedLength - 4, bitLength >>> 0)
+  return padded
+}
+
+/** 压缩函数 */
+function compress(state: number[], block: DataView, offset: number): void {
+  // 消息扩展
+  const w = Array.from({ length: 68 }, () => 0)
+  const w1 = Array.from({ length: 64 }, () => 0)
+  for (let index = 0; index < 16; index += 1)
+    w[index] = block.getUint32(offset + index * 4)
+  for (let index = 16; index < 68; index += 1)
+    w[index] = (p1(w[index - 16]! ^ w[index - 9]! ^ rotl(w[index - 3]!, 15)) ^ rotl(w[index - 13]!, 7) ^ w[index - 6]!) >>> 0
+  for (let index = 0; index < 64; index += 1)
+    w1[index] = (w[index]! ^ w[index + 4]!) >>> 0
+
+  let [a, b, c, d, e, f, g, h] = state as [number, number, number, number, number, number, number, number]
+  for (let round = 0; round < 64; round += 1) {
+    // 轮常量
+    const t = round < 16 ? 0x79CC4519 : 0x7A879D8A
+    const ss1 = rotl((rotl(a, 12) + e + rotl(t, round)) >>> 0, 7)
+    const ss2 = (ss1 ^ rotl(a, 12)) >>> 0
+    // 布尔函数
+    const ff = round < 16 ? (a ^ b ^ c) : ((a & b) | (a & c) | (b & c))
+    const gg = round < 16 ? (e ^ f ^ g) : ((e & f) | (~e & g))
+    const tt1 = (ff + d + ss2 + w1[round]!) >>> 0
+    const tt2 = (gg + h + ss1 + w[round]!) >>> 0
+    d = c
+    c = rotl(b, 9)
+    b = a
+    a = tt1
+    h = g
+    g = rotl(f, 19)
+    f = e
+    e = p0(tt2)
+  }
+  // 与上一状态异或
+  const next = [a, b, c, d, e, f, g, h]
+  for (let index = 0; index < 8; index += 1)
+    state[index] = (state[index]! ^ next[index]!) >>> 0
+}
+
+/** 计算 SM3 摘要（GB/T 32905-2016） */
+export function sm3(message: Uint8Array): Uint8Array {
+  // 填充后的消息
+  const padded = padMessage(message)
+  const view = new DataView(padded.buffer)
+  // 状态
+  const state = [...IV]
+  for (let offset = 0; offset < padded.length; offset += 64)
+    compress(state, view, offset)
+  // 输出摘要
+  const digest = new Uint8Array(SM3_DIGEST_SIZE)
+  const digestView = new DataView(digest.buffer)
+  for (let index = 0; index < 8; index += 1)
+    digestView.setUint32(index * 4, state[index]!)
+  return digest
+}
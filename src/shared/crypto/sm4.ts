@@ -0,0 +1,121 @@
+import { hexDecode } from '../bytes'
+import type { BlockCipher } from './types'
+
+/** SM4 分组长度 */
+const BLOCK_SIZE = 16
+
+/** SM4 密钥长度 */
+export const SM4_KEY_SIZE = 16
+
+/** SM4 S 盒（GB/T 32907-2016） */
+const SBOX = hexDecode(
+  'd690e9fecce13db716b614c228fb2c05'
+  + '2b679a762abe04c3aa44132649860699'
+  + '9c4250f491ef987a33540b43edcfac62'
+  + 'e4b31ca9c908e89580df94fa758f3fa6'
+  + '4707a7fcf37317ba83593c19e6854fa8'
+  + '686b81b27164da8bf8eb0f4b70569d35'
+  + '1e240e5e6358d1a225227c3b01217887'
+  + 'd40046579fd327524c3602e7a0c4c89e'
+  + 'eabf8ad240c738b5a3f7f2cef96115a1'
+  + 'e0ae5da49b341a55ad933230f58cb1e3'
+  + '1df6e22e8266ca60c02923ab0d534e6f'
+  + 'd5db3745defd8e2f03ff6a726d6c5b51'
+  + '8d1baf92bbddbc7f11d95c411f105ad8'
+  + '0ac13188a5cd7bbd2d74d012b8e5b4b0'
+  + '8969974a0c96777e65b9f109c56ec684'
+  + '18f07dec3adc4d2079ee5f3ed7cb3948',
+)!
+
+/** 系统参数 FK */
+const FK = [0xA3B1BAC6, 0x56AA3350, 0x677D9197, 0xB27022DC]
+
+/** 固定参数 CK：ck[i][j] = (4i + j) × 7 mod 256 */
+const CK = Array.from({ length: 32 }, (_, round) => {
+  // 当前轮参数
+  let value = 0
+  for (let index = 0; index < 4; index += 1)
+    value = (value << 8) | (((round * 4 + index) * 7) & 0xFF)
+  return value >>> 0
+})
+
+/** 32 位循环左移 */
+function rotl(value: number, shift: number): number {
+  return ((value << shift) | (value >>> (32 - shift))) >>> 0
+}
+
+/** 非线性变换 τ */
+function tau(value: number): number {
+  return ((SBOX[(value >>> 24) & 0xFF]! << 24)
+    | (SBOX[(value >>> 16) & 0xFF]! << 16)
+    | (SBOX[(value >>> 8) & 0xFF]! << 8)
+    | SBOX[value & 0xFF]!) >>> 0
+}
+
+/** 轮函数合成置换 T */
+function transform(value: number): number {
+  // 非线性变换结果
+  const b = tau(value)
+  return (b ^ rotl(b, 2) ^ rotl(b, 10) ^ rotl(b, 18) ^ rotl(b, 24)) >>> 0
+}
+
+/** 密钥扩展合成置换 T' */
+function keyTransform(value: number): number {
+  // 非线性变换结果
+  const b = tau(value)
+  return (b ^ rotl(b, 13) ^ rotl(b, 23)) >>> 0
+}
+
+/** 读取 4 个大端 32 位字 */
+function readWords(bytes: Uint8Array): number[] {
+  // 数据视图
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  return [view.getUint32(0), view.getUint32(4), view.getUint32(8), view.getUint32(12)]
+}
+
+/** 密钥扩展，返回 32 个轮密钥 */
+function expandKey(key: Uint8Array): number[] {
+  // 中间密钥
+  const k = readWords(key).map((word, index) => (word ^ FK[index]!) >>> 0)
+  // 轮密钥
+  const roundKeys: number[] = []
+  for (let round = 0; round < 32; round += 1) {
+    const next = (k[round]! ^ keyTransform((k[round + 1]! ^ k[round + 2]! ^ k[round + 3]! ^ CK[round]!) >>> 0)) >>> 0
+    k.push(next)
+    roundKeys.push(next)
+  }
+  return roundKeys
+}
+
+/** 使用给定轮密钥顺序处理单个分组 */
+function cryptBlock(roundKeys: number[], block: Uint8Array): Uint8Array {
+  // 状态字
+  const x = readWords(block)
+  for (let round = 0; round < 32; round += 1) {
+    const next = (x[round]! ^ transform((x[round + 1]! ^ x[round + 2]! ^ x[round + 3]! ^ roundKeys[round]!) >>> 0)) >>> 0
+    x.push(next)
+  }
+  // 反序变换输出
+  const output = new Uint8Array(BLOCK_SIZE)
+  const view = new DataView(output.buffer)
+  view.setUint32(0, x[35]!)
+  view.setUint32(4, x[34]!)
+  view.setUint32(8, x[33]!)
+  view.setUint32(12, x[32]!)
+  return output
+}
+
+/** 创建 SM4 分组密码实例（密钥需为 16 字节） */
+export function createSm4Cipher(key: Uint8Array): BlockCipher {
+  if (key.length !== SM4_KEY_SIZE)
+    throw new RangeError(`SM4 密钥长度无效：${key.length}`)
+  // 加密轮密钥
+  const encryptKeys = expandKey(key)
+  // 解密轮密钥（逆序）
+  const decryptKeys = [...encryptKeys].reverse()
+  return {
+    blockSize: BLOCK_SIZE,
+    encryptBlock: block => cryptBlock(encryptKeys, block),
+    decryptBlock: block => cryptBlock(decryptKeys, block),
+  }
+}
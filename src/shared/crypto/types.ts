@@ -0,0 +1,9 @@
+/** 分组密码实例 */
+export interface BlockCipher {
+  /** 分组长度（字节） */
+  blockSize: number
+  /** 加密单个分组 */
+  encryptBlock: (block: Uint8Array) => Uint8Array
+  /** 解密单个分组 */
+  decryptBlock: (block: Uint8Array) => Uint8Array
+}
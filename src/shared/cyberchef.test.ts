@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { importCyberChefRecipe } from './cyberchef'
+import { registerBuiltinOperators } from './operators/index'
+import { runPipelineSteps } from './pipeline'
+import { textValue } from './value'
+
+registerBuiltinOperators()
+
+describe('importCyberChefRecipe', () => {
+  it('映射常见操作并保留禁用状态', () => {
+    const recipe = [
+      { op: 'From Base64', args: ['A-Za-z0-9-_', true] },
+      { op: 'XOR', args: [{ option: 'Decimal', string: '1, 2' }, 'Standard', false], disabled: true },
+      { op: 'ROT13', args: [true, true, false, 5] },
+    ]
+    expect(importCyberChefRecipe(JSON.stringify(recipe))).toEqual({
+      ok: true,
+      steps: [
+        { operatorId: 'base64url.decode', params: {} },
+        { operatorId: 'xor', params: { key: '0102', keyEncoding: 'hex' }, disabled: true },
+        { operatorId: 'rot.n', params: { shift: 5, rotateDigits: false } },
+      ],
+    })
+  })
+
+  it('导入的 AES 配方可直接执行（NIST SP 800-38A CBC 向量）', async () => {
+    const recipe = [{
+      op: 'AES Decrypt',
+      args: [
+        { option: 'Hex', string: '2b7e1516 28aed2a6 abf71588 09cf4f3c' },
+        { option: 'Hex', string: '000102030405060708090a0b0c0d0e0f' },
+        'CBC/NoPadding',
+        'Hex',
+        'Hex',
+      ],
+    }]
+    const imported = importCyberChefRecipe(JSON.stringify(recipe))
+    expect(imported.ok && imported.steps.map(item => item.operatorId)).toEqual(['aes.decrypt', 'hex.encode'])
+    const result = await runPipelineSteps(imported.ok ? imported.steps : [], textValue('7649abac8119b246cee98e9b12e9197d'))
+    expect(result.output).toEqual(textValue('6bc1bee22e409f96e93d7e117393172a'))
+  })
+
+  it('列出全部无法映射的步骤及其序号', () => {
+    const recipe = [
+      { op: 'From Hex', args: ['Auto'] },
+      { op: 'Magic', args: [] },
+      { op: 'AES Decrypt', args: [{ option: 'Hex', string: '00' }, { option: 'Hex', string: '' }, 'OFB', 'Raw', 'Raw'] },
+      { op: 'XOR', args: [{ option: 'Binary', string: '1010' }, 'Standard', false] },
+    ]
+    const result = importCyberChefRecipe(JSON.stringify(recipe))
+    expect(result.ok).toBe(false)
+    if (result.ok)
+      return
+    expect(result.error.code).toBe('CYBERCHEF_UNSUPPORTED')
+    expect(result.issues.map(issue => [issue.index, issue.op])).toEqual([[1, 'Magic'], [2, 'AES Decrypt'], [3, 'XOR']])
+    expect(result.issues[1]?.message).toContain('OFB')
+    expect(result.error.message.split('\n')).toHaveLength(3)
+    expect(result.error.message).toContain('第 2 步「Magic」')
+  })
+
+  it.each([
+    ['非 JSON', 'From Base64'],
+    ['不是数组', '{"op":"From Base64"}'],
+    ['缺少操作名', '[{"args":[]}]'],
+    ['参数不是数组', '[{"op":"From Hex","args":"Auto"}]'],
+  ])('%s时报配方格式错误', (_title, text) => {
+    const result = importCyberChefRecipe(text)
+    expect(result.ok ? null : result.error.code).toBe('CYBERCHEF_RECIPE_INVALID')
+  })
+})
@@ -0,0 +1,367 @@
+import type { AppError } from './messages'
+import type { OperatorParams, PipelineStep } from './pipeline'
+import { hexEncode } from './bytes'
+
+/** CyberChef 配方中的单个操作 */
+interface CyberChefOperation {
+  /** 操作名称，如 `From Base64` */
+  op: string
+  /** 参数列表（按 CyberChef 操作定义的顺序） */
+  args: unknown[]
+  /** 是否禁用 */
+  disabled: boolean
+}
+
+/** 单步映射结果 */
+type CyberChefMapping = { ok: true, steps: PipelineStep[] } | { ok: false, message: string }
+
+/** 配方导入问题（对应配方中的某一步） */
+export interface CyberChefImportIssue {
+  /** 配方中的步骤序号 */
+  index: number
+  /** CyberChef 操作名称 */
+  op: string
+  /** 问题说明 */
+  message: string
+}
+
+/** 配方导入结果 */
+export type CyberChefImportResult =
+  | { ok: true, steps: PipelineStep[] }
+  | { ok: false, error: AppError, issues: CyberChefImportIssue[] }
+
+/** 操作映射函数 */
+type CyberChefMapper = (args: unknown[]) => CyberChefMapping
+
+/** 判断对象类型 */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/** 生成单步映射成功结果 */
+function mapped(...steps: PipelineStep[]): CyberChefMapping {
+  return { ok: true, steps }
+}
+
+/** 生成单步映射失败结果 */
+function unsupported(message: string): CyberChefMapping {
+  return { ok: false, message }
+}
+
+/** 生成步骤 */
+function step(operatorId: string, params: OperatorParams = {}): PipelineStep {
+  return { operatorId, params }
+}
+
+/** 读取字符串参数 */
+function argString(args: unknown[], index: number, fallback = ''): string {
+  // 参数值
+  const value = args[index]
+  return typeof value === 'string' ? value : fallback
+}
+
+/** 读取布尔参数 */
+function argBoolean(args: unknown[], index: number, fallback: boolean): boolean {
+  // 参数值
+  const value = args[index]
+  return typeof value === 'boolean' ? value : fallback
+}
+
+/** 将 CyberChef 的 toggleString 参数（{ string, option }）转为字节参数值与编码 */
+function toBytesParam(value: unknown): { value: string, encoding: string } | null {
+  if (typeof value === 'string')
+    return { value, encoding: 'utf8' }
+  if (!isRecord(value) || typeof value.string !== 'string')
+    return null
+  // 参数文本与格式
+  const text = value.string
+  const option = typeof value.option === 'string' ? value.option : 'UTF8'
+  if (option === 'Hex')
+    return { value: text.replace(/0x|[\s,:]/gi, ''), encoding: 'hex' }
+  if (option === 'Base64')
+    return { value: text, encoding: 'base64' }
+  if (option === 'UTF8')
+    return { value: text, encoding: 'utf8' }
+  if (option === 'Latin1') {
+    // 单字节字符按字节转为 hex
+    const codes = Array.from(text, char => char.charCodeAt(0))
+    if (codes.some(code => code > 0xFF))
+      return null
+    return { value: hexEncode(new Uint8Array(codes)), encoding: 'hex' }
+  }
+  if (option === 'Decimal') {
+    // 空白或逗号分隔的十进制字节
+    const codes = text.split(/[\s,]+/).filter(Boolean).map(item => Number(item))
+    if (codes.some(code => !Number.isInteger(code) || code < 0 || code > 0xFF))
+      return null
+    return { value: hexEncode(new Uint8Array(codes)), encoding: 'hex' }
+  }
+  return null
+}
+
+/** 将字节参数写入参数表（键与 `${key}Encoding`） */
+function bytesParams(key: string, value: unknown, label: string): { ok: true, params: OperatorParams } | { ok: false, message: string } {
+  // 转换结果
+  const param = toBytesParam(value)
+  if (!param)
+    return { ok: false, message: `${label}的格式不受支持（支持 Hex/UTF8/Base64/Latin1/Decimal）` }
+  return { ok: true, params: { [key]: param.value, [`${key}Encoding`]: param.encoding } }
+}
+
+/** 解析分组密码模式（`CBC/NoPadding` 拆为模式与填充） */
+function parseCipherMode(value: string, modes: string[]): { mode: string, padding: string } | null {
+  // 模式与填充
+  const [mode = '', suffix] = value.split('/')
+  if (!modes.includes(mode))
+    return null
+  if (suffix !== undefined && suffix !== 'NoPadding')
+    return null
+  return { mode, padding: suffix ?? 'PKCS7' }
+}
+
+/** 生成分组密码解密映射（参数顺序：Key, IV, Mode, Input, Output[, GCM Tag, AAD]） */
+function createBlockDecryptMapper(operatorId: string, modes: string[]): CyberChefMapper {
+  return (args) => {
+    // 模式
+    const mode = parseCipherMode(argString(args, 2, 'CBC'), modes)
+    if (!mode)
+      return unsupported(`不支持的模式：${argString(args, 2)}（支持 ${modes.join('/')}）`)
+    // 密钥与 IV
+    const key = bytesParams('key', args[0], '密钥')
+    const iv = bytesParams('iv', args[1], 'IV')
+    if (!key.ok)
+      return unsupported(key.message)
+    if (!iv.ok)
+      return unsupported(iv.message)
+    // 输入/输出格式
+    const inputFormat = argString(args, 3, 'Raw') === 'Hex' ? 'hex' : 'raw'
+    const hexOutput = argString(args, 4, 'Raw') === 'Hex'
+    // GCM 标签与附加数据
+    let gcmParams: OperatorParams = {}
+    if (mode.mode === 'GCM') {
+      const tag = bytesParams('tag', args[5] ?? '', '认证标签')
+      const aad = bytesParams('aad', args[6] ?? '', '附加数据')
+      if (!tag.ok)
+        return unsupported(tag.message)
+      if (!aad.ok)
+        return unsupported(aad.message)
+      gcmParams = { ...tag.params, ...aad.params }
+    }
+    // 解密步骤
+    const decryptStep = step(operatorId, {
+      ...key.params,
+      ...iv.params,
+      ...gcmParams,
+      mode: mode.mode,
+      padding: mode.padding,
+      inputFormat,
+      outputFormat: hexOutput ? 'bytes' : 'auto',
+    })
+    return hexOutput ? mapped(decryptStep, step('hex.encode')) : mapped(decryptStep)
+  }
+}
+
+/** 生成分组密码加密映射（参数顺序：Key, IV, Mode, Input, Output[, AAD]） */
+function createBlockEncryptMapper(operatorId: string, modes: string[]): CyberChefMapper {
+  return (args) => {
+    // 模式
+    const mode = parseCipherMode(argString(args, 2, 'CBC'), modes)
+    if (!mode)
+      return unsupported(`不支持的模式：${argString(args, 2)}（支持 ${modes.join('/')}）`)
+    if (argString(args, 3, 'Raw') === 'Hex')
+      return unsupported('加密输入为 Hex 时请先添加 From Hex 步骤')
+    // 密钥与 IV
+    const key = bytesParams('key', args[0], '密钥')
+    const iv = bytesParams('iv', args[1], 'IV')
+    if (!key.ok)
+      return unsupported(key.message)
+    if (!iv.ok)
+      return unsupported(iv.message)
+    // GCM 附加数据
+    let gcmParams: OperatorParams = {}
+    if (mode.mode === 'GCM') {
+      const aad = bytesParams('aad', args[5] ?? '', '附加数据')
+      if (!aad.ok)
+        return unsupported(aad.message)
+      gcmParams = aad.params
+    }
+    return mapped(step(operatorId, {
+      ...key.params,
+      ...iv.params,
+      ...gcmParams,
+      mode: mode.mode,
+      padding: mode.padding,
+      outputFormat: argString(args, 4, 'Hex') === 'Hex' ? 'hex' : 'bytes',
+    }))
+  }
+}
+
+/** 生成 Base64 系列映射（按字母表区分标准与 URL 安全） */
+function createBase64Mapper(direction: 'decode' | 'encode'): CyberChefMapper {
+  return (args) => {
+    // 字母表
+    const alphabet = argString(args, 0, 'A-Za-z0-9+/=')
+    if (alphabet.startsWith('A-Za-z0-9+/'))
+      return mapped(step(`base64.${direction}`))
+    if (alphabet.startsWith('A-Za-z0-9-_'))
+      return mapped(step(`base64url.${direction}`))
+    return unsupported(`不支持的 Base64 字母表：${alphabet}`)
+  }
+}
+
+/** 生成逐字节密钥运算映射（XOR / ADD / SUB） */
+function createKeyedByteMapper(operatorId: string): CyberChefMapper {
+  return (args) => {
+    if (operatorId === 'xor' && argString(args, 1, 'Standard') !== 'Standard')
+      return unsupported(`不支持的 XOR 方案：${argString(args, 1)}`)
+    if (operatorId === 'xor' && argBoolean(args, 2, false))
+      return unsupported('不支持 Null preserving 选项')
+    // 密钥
+    const key = bytesParams('key', args[0], '密钥')
+    if (!key.ok)
+      return unsupported(key.message)
+    return mapped(step(operatorId, key.params))
+  }
+}
+
+/** RC4 文本格式映射为输入格式 */
+const RC4_INPUT_FORMATS: Record<string, string> = { Latin1: 'raw', UTF8: 'raw', Hex: 'hex', Base64: 'base64' }
+
+/** CyberChef 操作名 -> 映射函数 */
+const CYBERCHEF_MAPPERS: Record<string, CyberChefMapper> = {
+  'From Base64': createBase64Mapper('decode'),
+  'To Base64': createBase64Mapper('encode'),
+  'From Base32': () => mapped(step('base32.decode')),
+  'To Base32': () => mapped(step('base32.encode')),
+  'From Base58': args => argString(args, 0, '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz').startsWith('123456789ABC')
+    ? mapped(step('base58.decode'))
+    : unsupported('仅支持 Bitcoin 字母表'),
+  'To Base58': args => argString(args, 0, '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz').startsWith('123456789ABC')
+    ? mapped(step('base58.encode'))
+    : unsupported('仅支持 Bitcoin 字母表'),
+  'From Hex': () => mapped(step('hex.decode')),
+  'To Hex': args => ['None', ''].includes(argString(args, 0, 'Space'))
+    ? mapped(step('hex.encode'))
+    : unsupported('仅支持无分隔符的 Hex 输出（Delimiter 设为 None）'),
+  'URL Decode': () => mapped(step('url.decode', { plusAsSpace: false })),
+  'URL Encode': () => mapped(step('url.encode')),
+  'From HTML Entity': () => mapped(step('html.unescape')),
+  'Unescape Unicode Characters': () => mapped(step('unicode.unescape')),
+  'Decode text': args => argString(args, 0).startsWith('UTF-8')
+    ? mapped(step('utf8.decode'))
+    : unsupported('仅支持 UTF-8 编码'),
+  'Encode text': args => argString(args, 0).startsWith('UTF-8')
+    ? mapped(step('utf8.encode'))
+    : unsupported('仅支持 UTF-8 编码'),
+  'Reverse': (args) => {
+    // 反转单位
+    const unit = argString(args, 0, 'Byte')
+    if (unit === 'Line')
+      return unsupported('不支持按行反转')
+    return mapped(step('text.reverse', { unit: unit === 'Byte' ? 'byte' : 'char' }))
+  },
+  'ROT13': (args) => {
+    if (!argBoolean(args, 0, true) || !argBoolean(args, 1, true))
+      return unsupported('仅支持同时位移大小写字母')
+    // 位移量
+    const amount = typeof args[3] === 'number' ? args[3] : 13
+    return mapped(step('rot.n', { shift: amount, rotateDigits: argBoolean(args, 2, false) }))
+  },
+  'XOR': createKeyedByteMapper('xor'),
+  'ADD': createKeyedByteMapper('bytes.add'),
+  'SUB': createKeyedByteMapper('bytes.subtract'),
+  'Gunzip': () => mapped(step('gzip.decompress')),
+  'Zlib Inflate': () => mapped(step('zlib.decompress')),
+  'Raw Inflate': () => mapped(step('deflate.decompress')),
+  'JSON Beautify': args => mapped(step('json.stringify', { indent: argString(args, 0, '    ').length })),
+  'JSON Minify': () => mapped(step('json.stringify', { indent: 0 })),
+  'AES Decrypt': createBlockDecryptMapper('aes.decrypt', ['CBC', 'ECB', 'CTR', 'CFB', 'GCM']),
+  'AES Encrypt': createBlockEncryptMapper('aes.encrypt', ['CBC', 'ECB', 'CTR', 'CFB', 'GCM']),
+  'DES Decrypt': createBlockDecryptMapper('des.decrypt', ['CBC', 'ECB', 'CTR', 'CFB']),
+  'DES Encrypt': createBlockEncryptMapper('des.encrypt', ['CBC', 'ECB', 'CTR', 'CFB']),
+  'Triple DES Decrypt': createBlockDecryptMapper('tripledes.decrypt', ['CBC', 'ECB', 'CTR', 'CFB']),
+  'Triple DES Encrypt': createBlockEncryptMapper('tripledes.encrypt', ['CBC', 'ECB', 'CTR', 'CFB']),
+  'SM4 Decrypt': createBlockDecryptMapper('sm4.decrypt', ['ECB', 'CBC', 'CTR', 'CFB', 'GCM']),
+  'SM4 Encrypt': createBlockEncryptMapper('sm4.encrypt', ['ECB', 'CBC', 'CTR', 'CFB', 'GCM']),
+  'RC4': (args) => {
+    // 口令
+    const key = bytesParams('key', args[0], '口令')
+    if (!key.ok)
+      return unsupported(key.message)
+    // 输入/输出格式
+    const inputFormat = RC4_INPUT_FORMATS[argString(args, 1, 'Latin1')]
+    const outputFormat = argString(args, 2, 'Latin1')
+    if (!inputFormat || !(outputFormat in RC4_INPUT_FORMATS))
+      return unsupported('仅支持 Latin1/UTF8/Hex/Base64 输入输出格式')
+    // 解密步骤
+    const rc4Step = step('rc4.decrypt', { ...key.params, inputFormat, outputFormat: outputFormat === 'Hex' || outputFormat === 'Base64' ? 'bytes' : 'auto' })
+    if (outputFormat === 'Hex')
+      return mapped(rc4Step, step('hex.encode'))
+    if (outputFormat === 'Base64')
+      return mapped(rc4Step, step('base64.encode'))
+    return mapped(rc4Step)
+  },
+}
+
+/** 支持导入的 CyberChef 操作名列表 */
+export const SUPPORTED_CYBERCHEF_OPERATIONS = Object.keys(CYBERCHEF_MAPPERS)
+
+/** 解析配方 JSON 为操作列表 */
+function parseRecipe(value: unknown): CyberChefOperation[] | null {
+  if (!Array.isArray(value))
+    return null
+  // 操作列表
+  const operations: CyberChefOperation[] = []
+  for (const item of value) {
+    if (!isRecord(item) || typeof item.op !== 'string')
+      return null
+    if (item.args !== undefined && !Array.isArray(item.args))
+      return null
+    operations.push({ op: item.op, args: item.args ?? [], disabled: item.disabled === true })
+  }
+  return operations
+}
+
+/** 导入 CyberChef 配方（Compact/Clean JSON），任一步无法映射即整体失败并列出全部问题 */
+export function importCyberChefRecipe(text: string): CyberChefImportResult {
+  // 解析 JSON
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text) as unknown
+  }
+  catch (error) {
+    return {
+      ok: false,
+      error: { code: 'CYBERCHEF_RECIPE_INVALID', message: '配方不是合法的 JSON（请在 CyberChef 中以 Compact JSON 或 Clean JSON 格式保存）', cause: error },
+      issues: [],
+    }
+  }
+  // 操作列表
+  const operations = parseRecipe(parsed)
+  if (!operations)
+    return { ok: false, error: { code: 'CYBERCHEF_RECIPE_INVALID', message: '配方应为 [{ "op": ..., "args": [...] }] 形式的数组' }, issues: [] }
+  // 映射结果
+  const steps: PipelineStep[] = []
+  const issues: CyberChefImportIssue[] = []
+  for (const [index, operation] of operations.entries()) {
+    const mapper = CYBERCHEF_MAPPERS[operation.op]
+    if (!mapper) {
+      issues.push({ index, op: operation.op, message: '暂不支持该操作' })
+      continue
+    }
+    const result = mapper(operation.args)
+    if (!result.ok) {
+      issues.push({ index, op: operation.op, message: result.message })
+      continue
+    }
+    steps.push(...result.steps.map(item => (operation.disabled ? { ...item, disabled: true } : item)))
+  }
+  if (issues.length > 0) {
+    return {
+      ok: false,
+      error: { code: 'CYBERCHEF_UNSUPPORTED', message: issues.map(issue => `第 ${issue.index + 1} 步「${issue.op}」：${issue.message}`).join('\n') },
+      issues,
+    }
+  }
+  return { ok: true, steps }
+}
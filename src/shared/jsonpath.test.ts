@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { formatJsonPathLocation, parseJsonPath, queryJsonPath, setJsonPathValue } from './jsonpath'
+
+/** 测试文档 */
+const DOCUMENT = {
+  'data': 'a',
+  'list': [{ id: 1, data: 'b' }, { id: 2, data: 'c' }],
+  'nested': { inner: { data: 'd' } },
+  'odd key': 'e',
+}
+
+/** 解析并查询，返回命中位置的文本形式 */
+function queryLocations(path: string): string[] {
+  const parsed = parseJsonPath(path)
+  if (!parsed.ok)
+    throw new Error(parsed.message)
+  return queryJsonPath(DOCUMENT, parsed.segments).map(match => formatJsonPathLocation(match.location))
+}
+
+describe('queryJsonPath', () => {
+  it.each([
+    ['$.data', ['$.data']],
+    ['$[\'odd key\']', ['$["odd key"]']],
+    ['$.list[*].data', ['$.list[0].data', '$.list[1].data']],
+    ['$.list[-1].id', ['$.list[1].id']],
+    ['$.list[0,1,5].id', ['$.list[0].id', '$.list[1].id']],
+    ['$["data","missing"]', ['$.data']],
+    ['$..data', ['$.data', '$.list[0].data', '$.list[1].data', '$.nested.inner.data']],
+    ['$.nested.*', ['$.nested.inner']],
+    ['$', ['$']],
+  ])('%s', (path, expected) => {
+    expect(queryLocations(path)).toEqual(expected)
+  })
+
+  it.each(['data', '$.', '$[', '$[abc]', '$..'])('非法路径「%s」返回错误', (path) => {
+    expect(parseJsonPath(path).ok).toBe(false)
+  })
+})
+
+describe('setJsonPathValue', () => {
+  it('原位替换命中位置，根位置直接返回新值', () => {
+    const data = structuredClone(DOCUMENT)
+    expect(setJsonPathValue(data, ['list', 1, 'data'], { x: 1 })).toBe(data)
+    expect(data.list[1]?.data).toEqual({ x: 1 })
+    expect(setJsonPathValue(data, [], 'root')).toBe('root')
+  })
+})
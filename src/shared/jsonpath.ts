@@ -0,0 +1,220 @@
+/** JSONPath 路径段 */
+export type JsonPathSegment =
+  | { type: 'member', names: string[] }
+  | { type: 'index', indexes: number[] }
+  | { type: 'wildcard' }
+  | { type: 'descendant', names: string[] | null }
+
+/** 命中位置（由根到目标的键/下标序列） */
+export type JsonPathLocation = Array<string | number>
+
+/** 命中项 */
+export interface JsonPathMatch {
+  /** 命中位置 */
+  location: JsonPathLocation
+  /** 命中值 */
+  value: unknown
+}
+
+/** JSONPath 解析结果 */
+export type JsonPathParseResult = { ok: true, segments: JsonPathSegment[] } | { ok: false, message: string }
+
+/** 标识符正则（点号访问的成员名） */
+const IDENTIFIER_PATTERN = /^[\w$\u0080-\uFFFF-]+/
+
+/** 判断普通对象（不含数组） */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** 查找与开头 [ 配对的 ] 位置（跳过引号内字符），未找到返回 -1 */
+function findBracketEnd(text: string): number {
+  // 当前所在引号
+  let quote: string | null = null
+  for (let index = 1; index < text.length; index += 1) {
+    // 当前字符
+    const char = text[index]
+    if (quote) {
+      if (char === '\\')
+        index += 1
+      else if (char === quote)
+        quote = null
+    }
+    else if (char === '\'' || char === '"') {
+      quote = char
+    }
+    else if (char === ']') {
+      return index
+    }
+  }
+  return -1
+}
+
+/** 解析方括号内的内容：成员名列表、下标列表或通配符 */
+function parseBracket(body: string): JsonPathSegment | null {
+  // 去除空白
+  const trimmed = body.trim()
+  if (trimmed === '*')
+    return { type: 'wildcard' }
+  // 逗号分隔的候选项（引号内的逗号不拆分）
+  const items = trimmed.match(/'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|[^,]+/g)?.map(item => item.trim()) ?? []
+  if (items.length === 0)
+    return null
+  if (items.every(item => /^-?\d+$/.test(item)))
+    return { type: 'index', indexes: items.map(item => Number.parseInt(item, 10)) }
+  // 成员名列表
+  const names: string[] = []
+  for (const item of items) {
+    // 引号类型
+    const quote = item[0]
+    if ((quote !== '\'' && quote !== '"') || item.at(-1) !== quote || item.length < 2)
+      return null
+    names.push(item.slice(1, -1).replace(/\\(.)/g, '$1'))
+  }
+  return { type: 'member', names }
+}
+
+/** 解析 JSONPath（支持 $、.name、['name']、[0]、[-1]、[*]、.*、..name、[a,b]） */
+export function parseJsonPath(path: string): JsonPathParseResult {
+  // 去除空白
+  const source = path.trim()
+  if (!source.startsWith('$'))
+    return { ok: false, message: 'JSONPath 必须以 $ 开头' }
+  // 路径段
+  const segments: JsonPathSegment[] = []
+  // 当前位置
+  let index = 1
+  while (index < source.length) {
+    // 剩余文本
+    const rest = source.slice(index)
+    if (rest.startsWith('..')) {
+      // 递归下降：..name / ..* / ..['name']
+      const after = rest.slice(2)
+      if (after.startsWith('*')) {
+        segments.push({ type: 'descendant', names: null })
+        index += 3
+        continue
+      }
+      if (after.startsWith('[')) {
+        // 括号结束位置
+        const end = findBracketEnd(after)
+        const bracket = end > 0 ? parseBracket(after.slice(1, end)) : null
+        if (!bracket || bracket.type !== 'member')
+          return { ok: false, message: `无法解析递归成员：${rest}` }
+        segments.push({ type: 'descendant', names: bracket.names })
+        index += 2 + end + 1
+        continue
+      }
+      // 成员名
+      const name = IDENTIFIER_PATTERN.exec(after)?.[0]
+      if (!name)
+        return { ok: false, message: `无法解析递归成员：${rest}` }
+      segments.push({ type: 'descendant', names: [name] })
+      index += 2 + name.length
+      continue
+    }
+    if (rest.startsWith('.')) {
+      if (rest[1] === '*') {
+        segments.push({ type: 'wildcard' })
+        index += 2
+        continue
+      }
+      // 成员名
+      const name = IDENTIFIER_PATTERN.exec(rest.slice(1))?.[0]
+      if (!name)
+        return { ok: false, message: `无法解析成员：${rest}` }
+      segments.push({ type: 'member', names: [name] })
+      index += 1 + name.length
+      continue
+    }
+    if (rest.startsWith('[')) {
+      // 括号结束位置
+      const end = findBracketEnd(rest)
+      const bracket = end > 0 ? parseBracket(rest.slice(1, end)) : null
+      if (!bracket)
+        return { ok: false, message: `无法解析括号表达式：${rest}` }
+      segments.push(bracket)
+      index += end + 1
+      continue
+    }
+    return { ok: false, message: `无法解析：${rest}` }
+  }
+  return { ok: true, segments }
+}
+
+/** 列出容器的直接子项 */
+function listChildren(value: unknown): Array<[string | number, unknown]> {
+  if (Array.isArray(value))
+    return value.map((item, index) => [index, item])
+  if (isPlainObject(value))
+    return Object.entries(value)
+  return []
+}
+
+/** 按名称读取对象成员 */
+function pickMembers(value: unknown, names: string[]): Array<[string, unknown]> {
+  if (!isPlainObject(value))
+    return []
+  return names.filter(name => Object.hasOwn(value, name)).map(name => [name, value[name]])
+}
+
+/** 收集全部后代（先序，含自身） */
+function collectDescendants(match: JsonPathMatch, output: JsonPathMatch[]): void {
+  output.push(match)
+  for (const [key, child] of listChildren(match.value))
+    collectDescendants({ location: [...match.location, key], value: child }, output)
+}
+
+/** 对单个命中应用路径段 */
+function applySegment(match: JsonPathMatch, segment: JsonPathSegment): JsonPathMatch[] {
+  // 子项命中构造
+  const toMatch = ([key, value]: [string | number, unknown]): JsonPathMatch => ({ location: [...match.location, key], value })
+  if (segment.type === 'member')
+    return pickMembers(match.value, segment.names).map(toMatch)
+  if (segment.type === 'wildcard')
+    return listChildren(match.value).map(toMatch)
+  if (segment.type === 'index') {
+    if (!Array.isArray(match.value))
+      return []
+    // 数组长度
+    const length = match.value.length
+    return segment.indexes
+      .map(item => (item < 0 ? length + item : item))
+      .filter(item => item >= 0 && item < length)
+      .map(item => toMatch([item, (match.value as unknown[])[item]]))
+  }
+  // 递归下降：先取自身及全部后代，再按名称筛选子项
+  const descendants: JsonPathMatch[] = []
+  collectDescendants(match, descendants)
+  return descendants.flatMap(item => (segment.names
+    ? pickMembers(item.value, segment.names)
+    : listChildren(item.value)).map(([key, value]) => ({ location: [...item.location, key], value })))
+}
+
+/** 在数据上执行 JSONPath，返回全部命中 */
+export function queryJsonPath(data: unknown, segments: JsonPathSegment[]): JsonPathMatch[] {
+  // 当前命中集合
+  let matches: JsonPathMatch[] = [{ location: [], value: data }]
+  for (const segment of segments)
+    matches = matches.flatMap(match => applySegment(match, segment))
+  return matches
+}
+
+/** 将命中位置替换为新值（原地修改；根位置直接返回新值） */
+export function setJsonPathValue(data: unknown, location: JsonPathLocation, value: unknown): unknown {
+  if (location.length === 0)
+    return value
+  // 父容器
+  let parent = data as Record<string | number, unknown>
+  for (const key of location.slice(0, -1))
+    parent = parent[key] as Record<string | number, unknown>
+  parent[location.at(-1)!] = value
+  return data
+}
+
+/** 将命中位置格式化为 JSONPath 文本 */
+export function formatJsonPathLocation(location: JsonPathLocation): string {
+  return `$${location.map(key => (typeof key === 'number'
+    ? `[${key}]`
+    : IDENTIFIER_PATTERN.exec(key)?.[0] === key ? `.${key}` : `[${JSON.stringify(key)}]`)).join('')}`
+}
@@ -0,0 +1,227 @@
+import type { PipelineStep } from './pipeline'
+import type { KeyProfile } from './settings'
+import type { PipelineValue } from './value'
+import { base64Decode, hexDecode, hexEncode, utf8Decode, utf8Encode } from './bytes'
+import { isReadableText } from './magic'
+import { decodeParamBytes } from './operators/params'
+import { createOperatorContext, getOperator, runPipelineSteps } from './pipeline'
+import { valueToText } from './value'
+
+/** 候选密钥来源 */
+export type KeyCandidateSource = 'profile' | 'record' | 'paste'
+
+/** 候选密钥文本按何种编码解为字节 */
+export type KeyCandidateEncoding = 'utf8' | 'hex' | 'base64'
+
+/** 候选密钥 */
+export interface KeyCandidate {
+  /** 原始文本 */
+  text: string
+  /** 解码方式 */
+  encoding: KeyCandidateEncoding
+  /** 密钥字节 */
+  bytes: Uint8Array
+  /** 来源 */
+  source: KeyCandidateSource
+  /** 来源说明（配置名、记录 URL 等） */
+  origin: string
+}
+
+/** 候选文本（尚未解码；作为待扫描正文时 text 为整段正文） */
+export interface KeyCandidateText {
+  /** 原始文本 */
+  text: string
+  /** 来源 */
+  source: KeyCandidateSource
+  /** 来源说明 */
+  origin: string
+}
+
+/** IV 取值方式：template 沿用模板参数，key 与密钥相同 */
+export type KeySearchIvMode = 'template' | 'key'
+
+/** 密钥尝试任务 */
+export interface KeySearchRequest {
+  /** 密文输入 */
+  input: PipelineValue
+  /** 加密模板步骤（其中带 key 参数的步骤会被替换为候选密钥） */
+  steps: PipelineStep[]
+  /** IV 取值方式 */
+  ivMode: KeySearchIvMode
+  /** 密钥配置 */
+  profiles: KeyProfile[]
+  /** 逐条使用的候选文本（如粘贴列表） */
+  texts: KeyCandidateText[]
+  /** 待扫描的正文（从中提取候选片段） */
+  documents: KeyCandidateText[]
+}
+
+/** 命中结果 */
+export interface KeySearchHit {
+  /** 命中的候选密钥 */
+  candidate: KeyCandidate
+  /** 明文类型 */
+  kind: 'json' | 'text'
+  /** 明文片段 */
+  preview: string
+}
+
+/** 密钥尝试进度事件（Worker → 面板） */
+export type KeySearchEvent =
+  | { type: 'progress', done: number, total: number }
+  | { type: 'hit', hit: KeySearchHit }
+  | { type: 'done', done: number, total: number }
+  | { type: 'error', message: string }
+
+/** 候选密钥在上下文中的变量名 */
+export const KEY_CANDIDATE_VARIABLE = 'candidate.key'
+
+/** 单次任务最多尝试的候选数 */
+export const MAX_KEY_CANDIDATES = 5000
+
+/** 候选文本长度范围（覆盖 DES 8 字节到 AES-256 的 base64/hex 形式） */
+const MIN_CANDIDATE_LENGTH = 8
+const MAX_CANDIDATE_LENGTH = 96
+
+/** 单条正文最多扫描的字符数 */
+const MAX_SCAN_CHARS = 256 * 1024
+
+/** 命中明文片段长度 */
+const PREVIEW_LENGTH = 160
+
+/** 进度上报间隔（候选数） */
+const PROGRESS_INTERVAL = 50
+
+/** 正文中疑似密钥的片段：引号内字符串或连续的 base64/hex 字符 */
+const CANDIDATE_TOKEN_PATTERN = /"((?:[^"\\\r\n]|\\.){8,96})"|'([^'\r\n]{8,96})'|([\w+/=-]{8,96})/g
+
+/** 从文本中提取候选密钥片段 */
+export function extractCandidateTexts(text: string, source: KeyCandidateSource, origin: string): KeyCandidateText[] {
+  // 去重集合与结果
+  const seen = new Set<string>()
+  const result: KeyCandidateText[] = []
+  for (const match of text.slice(0, MAX_SCAN_CHARS).matchAll(CANDIDATE_TOKEN_PATTERN)) {
+    // 命中的片段（引号内的字符串去除转义）
+    const token = (match[1]?.replace(/\\(.)/g, '$1') ?? match[2] ?? match[3] ?? '').trim()
+    if (token.length < MIN_CANDIDATE_LENGTH || token.length > MAX_CANDIDATE_LENGTH || seen.has(token))
+      continue
+    seen.add(token)
+    result.push({ text: token, source, origin })
+  }
+  return result
+}
+
+/** 将候选文本按 utf8/hex/base64 展开为密钥字节 */
+function expandCandidateText(item: KeyCandidateText): KeyCandidate[] {
+  // 各编码解码结果
+  const variants: Array<[KeyCandidateEncoding, Uint8Array | null]> = [
+    ['utf8', utf8Encode(item.text)],
+    ['hex', /^[0-9a-f]+$/i.test(item.text) ? hexDecode(item.text) : null],
+    ['base64', /^[\w+/-]+={0,2}$/.test(item.text) ? base64Decode(item.text) : null],
+  ]
+  return variants
+    .filter((variant): variant is [KeyCandidateEncoding, Uint8Array] => variant[1] !== null && variant[1].length > 0)
+    .map(([encoding, bytes]) => ({ text: item.text, encoding, bytes, source: item.source, origin: item.origin }))
+}
+
+/** 将密钥配置转为候选密钥（按配置编码解码，密钥与 IV 各作一个候选） */
+function expandKeyProfile(profile: KeyProfile): KeyCandidate[] {
+  // 结果
+  const result: KeyCandidate[] = []
+  const key = decodeParamBytes(profile.key, profile.keyEncoding)
+  if (key && key.length > 0)
+    result.push({ text: profile.key, encoding: profile.keyEncoding as KeyCandidateEncoding, bytes: key, source: 'profile', origin: `${profile.name}.key` })
+  const iv = profile.iv ? decodeParamBytes(profile.iv, profile.ivEncoding) : null
+  if (iv && iv.length > 0)
+    result.push({ text: profile.iv, encoding: profile.ivEncoding as KeyCandidateEncoding, bytes: iv, source: 'profile', origin: `${profile.name}.iv` })
+  return result
+}
+
+/** 汇总候选密钥：密钥配置在前，候选文本按编码展开；同一字节序列只保留一次，总数受上限约束 */
+export function collectKeyCandidates(profiles: KeyProfile[], texts: KeyCandidateText[]): KeyCandidate[] {
+  // 去重集合与结果
+  const seen = new Set<string>()
+  const result: KeyCandidate[] = []
+  for (const candidate of [...profiles.flatMap(expandKeyProfile), ...texts.flatMap(expandCandidateText)]) {
+    // 去重键
+    const key = hexEncode(candidate.bytes)
+    if (seen.has(key))
+      continue
+    seen.add(key)
+    result.push(candidate)
+    if (result.length >= MAX_KEY_CANDIDATES)
+      break
+  }
+  return result
+}
+
+/** 将模板中的密钥（及按需的 IV）参数替换为指定值 */
+export function replaceKeyParams(steps: PipelineStep[], ivMode: KeySearchIvMode, key: string, keyEncoding: string): PipelineStep[] {
+  return steps.map((step) => {
+    // 步骤算子
+    const operator = getOperator(step.operatorId)
+    // 参数键集合
+    const keys = new Set(operator?.params.map(spec => spec.key) ?? [])
+    if (!keys.has('key') || !keys.has('keyEncoding'))
+      return step
+    // 替换后的参数
+    const params = { ...step.params, key, keyEncoding }
+    if (ivMode === 'key' && keys.has('iv') && keys.has('ivEncoding'))
+      Object.assign(params, { iv: key, ivEncoding: keyEncoding })
+    return { ...step, params }
+  })
+}
+
+/** 判断模板中是否存在可替换的密钥参数 */
+export function hasKeyParam(steps: PipelineStep[]): boolean {
+  return steps.some(step => getOperator(step.operatorId)?.params.some(spec => spec.key === 'key') ?? false)
+}
+
+/** 判定明文类型：JSON、可读文本或无效 */
+export function classifyPlaintext(value: PipelineValue): KeySearchHit['kind'] | null {
+  if (value.type === 'json')
+    return 'json'
+  // 严格 UTF-8 文本
+  const text = value.type === 'text' ? value.text : utf8Decode(value.bytes, true)
+  if (text === null || !text.trim() || !isReadableText(text))
+    return null
+  // 去除空白
+  const trimmed = text.trim()
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      JSON.parse(trimmed)
+      return 'json'
+    }
+    catch {
+      return 'text'
+    }
+  }
+  return 'text'
+}
+
+/** 逐个候选执行模板，通过回调上报进度与命中 */
+export async function runKeySearch(request: KeySearchRequest, emit: (event: KeySearchEvent) => void): Promise<void> {
+  // 替换为变量引用的模板
+  const steps = replaceKeyParams(request.steps, request.ivMode, KEY_CANDIDATE_VARIABLE, 'var')
+  // 候选密钥
+  const candidates = collectKeyCandidates(request.profiles, [
+    ...request.texts,
+    ...request.documents.flatMap(item => extractCandidateTexts(item.text, item.source, item.origin)),
+  ])
+  // 总数
+  const total = candidates.length
+  emit({ type: 'progress', done: 0, total })
+  for (const [index, candidate] of candidates.entries()) {
+    // 每个候选独立上下文
+    const context = createOperatorContext()
+    context.variables.set(KEY_CANDIDATE_VARIABLE, candidate.bytes)
+    const result = await runPipelineSteps(steps, request.input, context)
+    // 明文类型
+    const kind = result.ok && result.output ? classifyPlaintext(result.output) : null
+    if (kind && result.output)
+      emit({ type: 'hit', hit: { candidate, kind, preview: valueToText(result.output).slice(0, PREVIEW_LENGTH) } })
+    if ((index + 1) % PROGRESS_INTERVAL === 0)
+      emit({ type: 'progress', done: index + 1, total })
+  }
+  emit({ type: 'done', done: total, total })
+}
@@ -0,0 +1,41 @@
+import { runInNewContext } from 'node:vm'
+import { describe, expect, it } from 'vitest'
+import { LOGPOINT_BINDING, buildLogpointCondition, parseLogpointReport } from './logpoints'
+
+/** 模拟断点位置：在独立 vm 上下文的函数体内按断点条件求值，返回条件结果与绑定收到的上报 */
+function runCondition(condition: string, ...args: unknown[]): { result: unknown, reports: unknown[] } {
+  // 绑定收到的上报
+  const reports: unknown[] = []
+  const sandbox = { args, [LOGPOINT_BINDING]: (payload: string) => reports.push(JSON.parse(payload)) }
+  const result = runInNewContext(`(function (a, b) {\n  const local = a + b\n  return ${condition}\n}).apply(null, args)`, sandbox) as unknown
+  return { result, reports }
+}
+
+describe('buildLogpointCondition', () => {
+  it('在命中作用域内求值并上报，始终返回 false', () => {
+    const condition = buildLogpointCondition({ id: 'logpoint-1', expressions: ['Array.from(arguments)', 'local // 行尾注释', 'missing.value'], condition: '' })
+    const { result, reports } = runCondition(condition, 1, 2)
+    expect(result).toBe(false)
+    expect(reports).toHaveLength(1)
+    const report = parseLogpointReport(reports[0])
+    expect(report?.logpointId).toBe('logpoint-1')
+    expect(report?.values.map(item => item.value)).toEqual(['[1,2]', '3', null])
+    expect(report?.values[2]?.error).toContain('ReferenceError')
+  })
+
+  it('用户条件不满足或抛错时不上报', () => {
+    const condition = buildLogpointCondition({ id: 'logpoint-2', expressions: ['a'], condition: 'a > 5' })
+    expect(runCondition(condition, 1, 2).reports).toHaveLength(0)
+    expect(runCondition(condition, 7, 2).reports).toHaveLength(1)
+    const throwing = buildLogpointCondition({ id: 'logpoint-3', expressions: ['a'], condition: 'missing.value' })
+    const { result, reports } = runCondition(throwing, 1, 2)
+    expect(result).toBe(false)
+    expect(reports).toHaveLength(0)
+  })
+
+  it('超长值截断', () => {
+    const condition = buildLogpointCondition({ id: 'logpoint-4', expressions: ['\'x\'.repeat(5000)'], condition: '' })
+    const report = parseLogpointReport(runCondition(condition).reports[0])
+    expect(report?.values[0]?.value?.length).toBe(4097)
+  })
+})
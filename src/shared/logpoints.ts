@@ -0,0 +1,190 @@
+import type { RecordSummary } from './messages'
+
+/** 捕获点（命中时求值表达式后立即恢复执行的断点） */
+export interface Logpoint {
+  /** 捕获点唯一标识（后台分配） */
+  id: string
+  /** 脚本 URL */
+  url: string
+  /** 行号（从 0 开始） */
+  lineNumber: number
+  /** 列号（从 0 开始） */
+  columnNumber: number
+  /** 命中时求值的表达式 */
+  expressions: string[]
+  /** 命中条件（空串表示无条件） */
+  condition: string
+  /** CDP 断点 ID（未附加或设置失败时为 null） */
+  breakpointId: string | null
+  /** 实际解析到的位置数（0 表示脚本尚未加载或位置无效） */
+  resolved: number
+}
+
+/** 单个表达式的求值结果 */
+export interface LogpointValue {
+  /** 表达式 */
+  expression: string
+  /** 序列化后的值（求值失败时为 null） */
+  value: string | null
+  /** 求值错误信息 */
+  error: string | null
+}
+
+/** 一次命中捕获的数据 */
+export interface LogpointCapture {
+  /** 捕获唯一标识（后台分配） */
+  id: string
+  /** 所属捕获点 */
+  logpointId: string
+  /** 命中所在函数名 */
+  functionName: string
+  /** 命中时间（毫秒） */
+  timeStamp: number
+  /** 各表达式的值 */
+  values: LogpointValue[]
+}
+
+/** 命中时上报捕获数据使用的 Runtime 绑定名 */
+export const LOGPOINT_BINDING = '__captureDecryptLogpoint'
+
+/** 最大保留的捕获数据条数（后台与面板一致，超出时丢弃最早的） */
+export const MAX_LOGPOINT_CAPTURES = 500
+
+/** 新建捕获点时的默认表达式：当前函数的全部实参 */
+export const DEFAULT_LOGPOINT_EXPRESSIONS = ['Array.from(arguments)']
+
+/** 单个值序列化后的最大字符数 */
+export const MAX_LOGPOINT_VALUE_CHARS = 4096
+
+/** 命中时经绑定上报的数据（捕获 ID 与时间由后台补充） */
+export interface LogpointReport {
+  /** 所属捕获点 */
+  logpointId: string
+  /** 命中所在函数名 */
+  functionName: string
+  /** 各表达式的值 */
+  values: LogpointValue[]
+}
+
+/** 关联记录的时间窗口：捕获前后该时长内发起的请求视为相关 */
+const NEARBY_WINDOW_MS = 5_000
+
+/** 判断对象类型 */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/** 读取字符串数组 */
+function asStringArray(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string'))
+    return null
+  return value as string[]
+}
+
+/** 读取可空字符串 */
+function asNullableString(value: unknown): string | null | undefined {
+  if (value === null)
+    return null
+  return typeof value === 'string' ? value : undefined
+}
+
+/** 解析捕获点 */
+export function parseLogpoint(value: unknown): Logpoint | null {
+  if (!isRecord(value))
+    return null
+  const { id, url, lineNumber, columnNumber, condition, resolved } = value
+  // 表达式与断点 ID
+  const expressions = asStringArray(value.expressions)
+  const breakpointId = asNullableString(value.breakpointId)
+  if (typeof id !== 'string' || typeof url !== 'string' || typeof lineNumber !== 'number' || typeof columnNumber !== 'number' || typeof condition !== 'string' || typeof resolved !== 'number')
+    return null
+  if (!expressions || breakpointId === undefined)
+    return null
+  return { id, url, lineNumber, columnNumber, expressions, condition, breakpointId, resolved }
+}
+
+/** 解析表达式求值结果 */
+function parseLogpointValue(value: unknown): LogpointValue | null {
+  if (!isRecord(value) || typeof value.expression !== 'string')
+    return null
+  // 值与错误
+  const result = asNullableString(value.value)
+  const error = asNullableString(value.error)
+  if (result === undefined || error === undefined)
+    return null
+  return { expression: value.expression, value: result, error }
+}
+
+/** 解析命中捕获 */
+export function parseLogpointCapture(value: unknown): LogpointCapture | null {
+  if (!isRecord(value) || !Array.isArray(value.values))
+    return null
+  const { id, logpointId, functionName, timeStamp } = value
+  if (typeof id !== 'string' || typeof logpointId !== 'string' || typeof functionName !== 'string' || typeof timeStamp !== 'number')
+    return null
+  // 各表达式的值
+  const values = value.values.map(parseLogpointValue)
+  if (values.includes(null))
+    return null
+  return { id, logpointId, functionName, timeStamp, values: values as LogpointValue[] }
+}
+
+/** 解析命中上报 */
+export function parseLogpointReport(value: unknown): LogpointReport | null {
+  if (!isRecord(value) || !Array.isArray(value.values))
+    return null
+  const { logpointId, functionName } = value
+  if (typeof logpointId !== 'string' || typeof functionName !== 'string')
+    return null
+  // 各表达式的值
+  const values = value.values.map(parseLogpointValue)
+  if (values.includes(null))
+    return null
+  return { logpointId, functionName, values: values as LogpointValue[] }
+}
+
+/**
+ * 生成捕获点的断点条件：在命中位置的作用域内求值表达式，经绑定上报后返回 false，页面不会真正暂停
+ * 内部变量均带前缀，避免遮蔽表达式引用的页面变量；表达式各自包裹换行，行尾注释不会吞掉后续代码
+ */
+export function buildLogpointCondition(logpoint: Pick<Logpoint, 'id' | 'expressions' | 'condition'>): string {
+  // 单个表达式的求值（箭头函数沿用所在函数的 arguments 与 this）
+  const values = logpoint.expressions.map(expression => `(() => {
+  try { return { expression: ${JSON.stringify(expression)}, value: __captureDecryptFormat((
+${expression}
+)), error: null } }
+  catch (error) { return { expression: ${JSON.stringify(expression)}, value: null, error: String(error) } }
+})()`)
+  // 用户条件（不满足或抛错时不上报）
+  const guard = logpoint.condition.trim()
+    ? `try { if (!(
+${logpoint.condition}
+)) return false } catch { return false }
+`
+    : ''
+  return `(() => {
+${guard}const __captureDecryptFormat = (value) => {
+  let text = typeof value === 'string' ? value : undefined
+  if (text === undefined) { try { text = JSON.stringify(value) } catch {} }
+  if (text === undefined) text = String(value)
+  return text.length > ${MAX_LOGPOINT_VALUE_CHARS} ? text.slice(0, ${MAX_LOGPOINT_VALUE_CHARS}) + '…' : text
+}
+const __captureDecryptValues = [${values.join(', ')}]
+const __captureDecryptFunction = (/eval at ([^\\s(]+) \\(/.exec(new Error().stack || '') || [])[1] || ''
+try {
+  globalThis[${JSON.stringify(LOGPOINT_BINDING)}](JSON.stringify({
+    logpointId: ${JSON.stringify(logpoint.id)},
+    functionName: __captureDecryptFunction === '<anonymous>' ? '' : __captureDecryptFunction,
+    values: __captureDecryptValues,
+  }))
+} catch {}
+return false
+})()`
+}
+
+/** 查找捕获前后时间窗口内发起的记录（按时间差由近到远） */
+export function findNearbyRecords(capture: LogpointCapture, records: RecordSummary[]): RecordSummary[] {
+  return records
+    .filter(record => Math.abs(record.timeStamp - capture.timeStamp) <= NEARBY_WINDOW_MS)
+    .sort((left, right) => Math.abs(left.timeStamp - capture.timeStamp) - Math.abs(right.timeStamp - capture.timeStamp))
+}
@@ -0,0 +1,89 @@
+import { gzipSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { base64Encode, hexDecode, hexEncode, utf8Encode } from './bytes'
+import { analyzeValue, computeEntropy, detectTextCharset, looksLikeProtobuf, suggestPipelines } from './magic'
+import { registerBuiltinOperators } from './operators/index'
+import { bytesValue, textValue } from './value'
+
+registerBuiltinOperators()
+
+/** NIST SP 800-38A CBC 密文（64 字节高熵数据） */
+const CIPHERTEXT = hexDecode('7649abac8119b246cee98e9b12e9197d5086cb9b507219ee95db113a917678b273bed6b8e3c1743b7116e69e222295163ff1caa1681fac09120eca307586e1a7')!
+
+/** 最高分候选的算子链 */
+async function topChain(input: Parameters<typeof suggestPipelines>[0]): Promise<string[]> {
+  const suggestions = await suggestPipelines(input)
+  return suggestions[0]?.steps.map(step => step.operatorId) ?? []
+}
+
+describe('computeEntropy', () => {
+  it('单一字节为 0，全部字节均匀分布为 8', () => {
+    expect(computeEntropy(new Uint8Array(32))).toBe(0)
+    expect(computeEntropy(new Uint8Array(0))).toBe(0)
+    expect(computeEntropy(Uint8Array.from({ length: 256 }, (_, index) => index))).toBe(8)
+  })
+})
+
+describe('detectTextCharset', () => {
+  it.each([
+    ['deadbeef00112233', 'hex'],
+    ['eyJhIjoxfQ==', 'base64'],
+    ['eyJhIjoxfQ-_abc', 'base64url'],
+    ['password', 'text'],
+    ['hello world', 'text'],
+    ['abc', 'text'],
+    [null, 'binary'],
+  ])('%s 识别为 %s', (text, charset) => {
+    expect(detectTextCharset(text)).toBe(charset)
+  })
+})
+
+describe('looksLikeProtobuf', () => {
+  it('识别完整的线格式并拒绝截断数据', () => {
+    // 字段 1 varint 150，字段 2 字符串 "test"
+    expect(looksLikeProtobuf(hexDecode('089601120474657374')!)).toBe(true)
+    expect(looksLikeProtobuf(hexDecode('0896011204746573')!)).toBe(false)
+    expect(looksLikeProtobuf(hexDecode('089601')!)).toBe(false)
+  })
+})
+
+describe('analyzeValue', () => {
+  it('识别魔数与分组对齐', () => {
+    expect(analyzeValue(bytesValue(gzipSync('{}'))).signatures).toContain('gzip')
+    expect(analyzeValue(bytesValue(utf8Encode('Salted__12345678'))).signatures).toContain('openssl-salted')
+    expect(analyzeValue(textValue('{"a":1}')).signatures).toEqual(['json'])
+    expect(analyzeValue(bytesValue(CIPHERTEXT))).toMatchObject({ byteLength: 64, charset: 'binary', aligned16: true, aligned8: true })
+  })
+})
+
+describe('suggestPipelines', () => {
+  it('逐层解码 base64 → gzip → JSON', async () => {
+    const input = textValue(base64Encode(gzipSync('{"user":"admin"}')))
+    expect(await topChain(input)).toEqual(['base64.decode', 'gzip.decompress', 'json.parse'])
+  })
+
+  it('hex 编码的 JSON 优先于 base64 解释', async () => {
+    expect(await topChain(textValue(hexEncode(utf8Encode('{"ok":true}'))))).toEqual(['hex.decode', 'json.parse'])
+  })
+
+  it('salted 头提示口令解密', async () => {
+    const input = textValue(base64Encode(new Uint8Array([...utf8Encode('Salted__'), ...CIPHERTEXT.subarray(0, 24)])))
+    const suggestions = await suggestPipelines(input)
+    expect(suggestions[0]?.steps.map(step => step.operatorId)).toEqual(['base64.decode', 'openssl.decrypt'])
+    expect(suggestions[0]?.preview).toBeNull()
+  })
+
+  it('高熵且按 16 字节对齐的数据提示分组密文', async () => {
+    const suggestions = await suggestPipelines(textValue(base64Encode(CIPHERTEXT)))
+    expect(suggestions.map(item => item.steps.map(step => step.operatorId).join('>')).slice(0, 3)).toEqual([
+      'base64.decode>aes.decrypt',
+      'base64.decode>sm4.decrypt',
+      'base64.decode>tripledes.decrypt',
+    ])
+    expect(suggestions[0]?.reasons.join('\n')).toContain('16 的倍数')
+  })
+
+  it('可读文本之外没有解码路径时不给出候选', async () => {
+    expect(await suggestPipelines(textValue('hello world'))).toEqual([])
+  })
+})
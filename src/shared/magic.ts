@@ -0,0 +1,359 @@
+import type { PipelineStep } from './pipeline'
+import type { PipelineValue } from './value'
+import { latin1Decode, utf8Decode } from './bytes'
+import { isGzipHeader, isZlibHeader } from './compression'
+import { getDefaultParams, getOperator, runPipelineSteps } from './pipeline'
+import { valueToBytes } from './value'
+
+/** 文本字符集 */
+export type MagicCharset = 'hex' | 'base64' | 'base64url' | 'text' | 'binary'
+
+/** 已识别的魔数/结构特征 */
+export type MagicSignature = 'gzip' | 'zlib' | 'openssl-salted' | 'protobuf' | 'json'
+
+/** 值的特征分析 */
+export interface MagicAnalysis {
+  /** 字节长度 */
+  byteLength: number
+  /** 香农熵（比特/字节，0-8） */
+  entropy: number
+  /** 字符集 */
+  charset: MagicCharset
+  /** 长度可被 16 整除（AES/SM4 分组） */
+  aligned16: boolean
+  /** 长度可被 8 整除（DES/3DES 分组） */
+  aligned8: boolean
+  /** 识别到的特征 */
+  signatures: MagicSignature[]
+}
+
+/** 候选流水线 */
+export interface MagicSuggestion {
+  /** 候选步骤 */
+  steps: PipelineStep[]
+  /** 得分（越高越可能） */
+  score: number
+  /** 判断依据 */
+  reasons: string[]
+  /** 试解码输出（需要密钥的候选为 null） */
+  preview: PipelineValue | null
+}
+
+/** 搜索节点：已执行的步骤与当前值 */
+interface MagicNode {
+  /** 已执行的步骤 */
+  steps: PipelineStep[]
+  /** 当前值 */
+  value: PipelineValue
+}
+
+/** 试解码最大深度 */
+const MAX_DEPTH = 4
+
+/** 试解码最大节点数 */
+const MAX_NODES = 40
+
+/** 返回的候选数上限 */
+const MAX_SUGGESTIONS = 8
+
+/** 分析时最多采样的字节数（避免大正文阻塞） */
+const MAX_SAMPLE_BYTES = 64 * 1024
+
+/** 判定为密文的熵阈值（比特/字节） */
+const CIPHER_ENTROPY_THRESHOLD = 7.2
+
+/** 短数据判定为密文的熵比例（样本少时熵上限较低，按 log2(长度) 折算） */
+const SHORT_CIPHER_ENTROPY_RATIO = 0.85
+
+/** OpenSSL 口令加密头 */
+const SALTED_MAGIC = 'Salted__'
+
+/** 计算香农熵 */
+export function computeEntropy(bytes: Uint8Array): number {
+  if (bytes.length === 0)
+    return 0
+  // 字节频次
+  const counts = new Uint32Array(256)
+  for (const byte of bytes)
+    counts[byte]! += 1
+  // 熵累加
+  let entropy = 0
+  for (const count of counts) {
+    if (count === 0)
+      continue
+    const probability = count / bytes.length
+    entropy -= probability * Math.log2(probability)
+  }
+  return entropy
+}
+
+/** 判断熵是否接近随机数据（短数据按可达上限折算） */
+function isHighEntropy(bytes: Uint8Array, entropy: number): boolean {
+  // 样本长度决定的熵上限
+  const maxEntropy = Math.log2(Math.max(bytes.length, 2))
+  return entropy >= Math.min(CIPHER_ENTROPY_THRESHOLD, maxEntropy * SHORT_CIPHER_ENTROPY_RATIO)
+}
+
+/** 读取 protobuf varint，返回 [值, 新位置]（非法时返回 null） */
+function readVarint(bytes: Uint8Array, offset: number): [number, number] | null {
+  // 结果与位移
+  let value = 0
+  let shift = 0
+  for (let index = offset; index < bytes.length && shift < 35; index += 1) {
+    const byte = bytes[index]!
+    value += (byte & 0x7F) * 2 ** shift
+    if ((byte & 0x80) === 0)
+      return [value, index + 1]
+    shift += 7
+  }
+  return null
+}
+
+/** 判断字节是否符合 protobuf 线格式（完整遍历所有字段且至少两个字段） */
+export function looksLikeProtobuf(bytes: Uint8Array): boolean {
+  // 当前位置与字段数
+  let offset = 0
+  let fields = 0
+  while (offset < bytes.length) {
+    const key = readVarint(bytes, offset)
+    if (!key)
+      return false
+    const [tag, afterKey] = key
+    // 字段号与线类型
+    const fieldNumber = Math.floor(tag / 8)
+    const wireType = tag % 8
+    if (fieldNumber === 0 || fieldNumber > 536870911)
+      return false
+    if (wireType === 0) {
+      const varint = readVarint(bytes, afterKey)
+      if (!varint)
+        return false
+      offset = varint[1]
+    }
+    else if (wireType === 1) {
+      offset = afterKey + 8
+    }
+    else if (wireType === 2) {
+      const length = readVarint(bytes, afterKey)
+      if (!length)
+        return false
+      offset = length[1] + length[0]
+    }
+    else if (wireType === 5) {
+      offset = afterKey + 4
+    }
+    else {
+      return false
+    }
+    if (offset > bytes.length)
+      return false
+    fields += 1
+  }
+  return fields >= 2
+}
+
+/** 判断文本是否为 JSON 对象/数组 */
+function isJsonText(text: string): boolean {
+  // 去除空白
+  const trimmed = text.trim()
+  if (!(trimmed.startsWith('{') || trimmed.startsWith('[')))
+    return false
+  try {
+    JSON.parse(trimmed)
+    return true
+  }
+  catch {
+    return false
+  }
+}
+
+/** 判断文本是否可读（不含换行/制表以外的控制字符） */
+export function isReadableText(text: string): boolean {
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index)
+    if ((code < 0x20 && code !== 0x09 && code !== 0x0A && code !== 0x0D) || code === 0x7F)
+      return false
+  }
+  return true
+}
+
+/** 识别文本字符集（忽略空白） */
+export function detectTextCharset(text: string | null): MagicCharset {
+  if (text === null)
+    return 'binary'
+  // 去除空白
+  const compact = text.replace(/\s+/g, '')
+  if (compact.length >= 8 && compact.length % 2 === 0 && /^[0-9a-f]+$/i.test(compact))
+    return 'hex'
+  if (compact.length >= 8 && /^[\w-]+$/.test(compact) && /[-_]/.test(compact))
+    return 'base64url'
+  // base64 需混合多类字符，避免把普通单词误判为 base64
+  const mixed = [/[A-Z]/, /[a-z]/, /[0-9+/=]/].filter(pattern => pattern.test(compact)).length >= 2
+  if (compact.length >= 8 && mixed && /^[A-Z0-9+/]+={0,2}$/i.test(compact) && compact.length % 4 !== 1 && (compact.length % 4 === 0 || !compact.includes('=')))
+    return 'base64'
+  return 'text'
+}
+
+/** 取值的文本形式（字节需为严格 UTF-8） */
+function getValueText(value: PipelineValue): string | null {
+  if (value.type === 'text')
+    return value.text
+  if (value.type === 'json')
+    return null
+  return utf8Decode(value.bytes, true)
+}
+
+/** 分析值的特征 */
+export function analyzeValue(value: PipelineValue): MagicAnalysis {
+  // 采样字节
+  const bytes = valueToBytes(value)
+  const sample = bytes.subarray(0, MAX_SAMPLE_BYTES)
+  // 文本形式
+  const text = getValueText(value)
+  // 特征列表
+  const signatures: MagicSignature[] = []
+  if (value.type === 'json' || (text !== null && isJsonText(text)))
+    signatures.push('json')
+  if (isGzipHeader(sample))
+    signatures.push('gzip')
+  else if (isZlibHeader(sample))
+    signatures.push('zlib')
+  if (latin1Decode(sample.subarray(0, SALTED_MAGIC.length)) === SALTED_MAGIC)
+    signatures.push('openssl-salted')
+  if (text === null && looksLikeProtobuf(sample))
+    signatures.push('protobuf')
+  return {
+    byteLength: bytes.length,
+    entropy: computeEntropy(sample),
+    charset: detectTextCharset(text),
+    aligned16: bytes.length > 0 && bytes.length % 16 === 0,
+    aligned8: bytes.length > 0 && bytes.length % 8 === 0,
+    signatures,
+  }
+}
+
+/** 生成使用默认参数的步骤 */
+function step(operatorId: string): PipelineStep {
+  // 目标算子
+  const operator = getOperator(operatorId)
+  return { operatorId, params: operator ? getDefaultParams(operator) : {} }
+}
+
+/** 列出可对当前值尝试的无密钥解码步骤 */
+function listTrialSteps(value: PipelineValue, analysis: MagicAnalysis): PipelineStep[] {
+  // 候选步骤
+  const steps: PipelineStep[] = []
+  if (analysis.signatures.includes('gzip'))
+    steps.push(step('gzip.decompress'))
+  if (analysis.signatures.includes('zlib'))
+    steps.push(step('zlib.decompress'))
+  // 文本类解码
+  const text = getValueText(value)
+  if (text === null || analysis.signatures.includes('json'))
+    return steps
+  if (analysis.charset === 'hex')
+    steps.push(step('hex.decode'))
+  if (analysis.charset === 'base64' || analysis.charset === 'hex')
+    steps.push(step('base64.decode'))
+  if (analysis.charset === 'base64url')
+    steps.push(step('base64url.decode'))
+  if (/%[0-9a-f]{2}/i.test(text))
+    steps.push(step('url.decode'))
+  if (/\\u[0-9a-f]{4}|\\x[0-9a-f]{2}/i.test(text))
+    steps.push(step('unicode.unescape'))
+  if (/&(?:#\d+|#x[0-9a-f]+|[a-z]+);/i.test(text))
+    steps.push(step('html.unescape'))
+  return steps
+}
+
+/** 生成步骤链的说明片段 */
+function describeSteps(steps: PipelineStep[]): string {
+  return steps.map(item => getOperator(item.operatorId)?.name ?? item.operatorId).join(' → ')
+}
+
+/** 评估节点，生成终态候选（可能为空） */
+function evaluateNode(node: MagicNode, analysis: MagicAnalysis): MagicSuggestion[] {
+  // 路径长度惩罚，同等结果优先短路径
+  const penalty = node.steps.length * 2
+  // 路径说明
+  const path = node.steps.length > 0 ? [`解码路径：${describeSteps(node.steps)}`] : []
+  const suggestions: MagicSuggestion[] = []
+  if (node.steps.length > 0 && analysis.signatures.includes('json')) {
+    suggestions.push({ steps: [...node.steps, step('json.parse')], score: 100 - penalty, reasons: [...path, '结果为合法 JSON'], preview: node.value })
+    return suggestions
+  }
+  if (analysis.signatures.includes('openssl-salted')) {
+    suggestions.push({
+      steps: [...node.steps, step('openssl.decrypt')],
+      score: 80 - penalty,
+      reasons: [...path, '检测到 OpenSSL "Salted__" 头，需要口令'],
+      preview: null,
+    })
+    return suggestions
+  }
+  // 文本形式
+  const text = getValueText(node.value)
+  if (node.steps.length > 0 && text !== null && analysis.charset === 'text' && isReadableText(text)) {
+    suggestions.push({ steps: node.steps, score: 60 - penalty, reasons: [...path, '结果为可读 UTF-8 文本'], preview: node.value })
+    return suggestions
+  }
+  if (analysis.signatures.includes('protobuf')) {
+    suggestions.push({ steps: node.steps, score: 45 - penalty, reasons: [...path, '字节符合 protobuf 线格式'], preview: node.value })
+    return suggestions
+  }
+  // 密文特征：二进制、高熵、分组对齐
+  const bytes = valueToBytes(node.value)
+  if (text === null && isHighEntropy(bytes, analysis.entropy)) {
+    const entropyReason = `熵 ${analysis.entropy.toFixed(2)} 比特/字节，接近随机数据`
+    if (analysis.aligned16) {
+      suggestions.push({ steps: [...node.steps, step('aes.decrypt')], score: 40 - penalty, reasons: [...path, entropyReason, `长度 ${bytes.length} 为 16 的倍数，可能为 AES 分组密文`], preview: null })
+      suggestions.push({ steps: [...node.steps, step('sm4.decrypt')], score: 30 - penalty, reasons: [...path, entropyReason, `长度 ${bytes.length} 为 16 的倍数，可能为 SM4 分组密文`], preview: null })
+    }
+    if (analysis.aligned8)
+      suggestions.push({ steps: [...node.steps, step('tripledes.decrypt')], score: 25 - penalty, reasons: [...path, entropyReason, `长度 ${bytes.length} 为 8 的倍数，可能为 DES/3DES 分组密文`], preview: null })
+    if (!analysis.aligned8)
+      suggestions.push({ steps: [...node.steps, step('aes.decrypt')], score: 20 - penalty, reasons: [...path, entropyReason, '长度未按分组对齐，可能为流密码或 CTR/GCM 模式'], preview: null })
+  }
+  return suggestions
+}
+
+/** 试解码并排序候选流水线 */
+export async function suggestPipelines(value: PipelineValue): Promise<MagicSuggestion[]> {
+  // 待展开节点与已访问的值
+  const queue: MagicNode[] = [{ steps: [], value }]
+  const seen = new Set<string>()
+  const suggestions: MagicSuggestion[] = []
+  let visited = 0
+  while (queue.length > 0 && visited < MAX_NODES) {
+    const node = queue.shift()!
+    visited += 1
+    // 去重键：相同字节只展开一次
+    const key = latin1Decode(valueToBytes(node.value).subarray(0, 256))
+    if (seen.has(key))
+      continue
+    seen.add(key)
+    // 当前值特征
+    const analysis = analyzeValue(node.value)
+    suggestions.push(...evaluateNode(node, analysis))
+    if (node.steps.length >= MAX_DEPTH)
+      continue
+    // 展开子节点
+    for (const trial of listTrialSteps(node.value, analysis)) {
+      const result = await runPipelineSteps([trial], node.value)
+      if (result.ok && result.output && valueToBytes(result.output).length > 0)
+        queue.push({ steps: [...node.steps, trial], value: result.output })
+    }
+  }
+  // 同一步骤链只保留最高分
+  const best = new Map<string, MagicSuggestion>()
+  for (const suggestion of suggestions) {
+    const chain = suggestion.steps.map(item => item.operatorId).join('>')
+    const existing = best.get(chain)
+    if (!existing || existing.score < suggestion.score)
+      best.set(chain, suggestion)
+  }
+  return [...best.values()]
+    .filter(item => item.steps.length > 0)
+    .sort((left, right) => right.score - left.score)
+    .slice(0, MAX_SUGGESTIONS)
+}
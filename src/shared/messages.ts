@@ -1,3 +1,9 @@
+import type { CryptoHookCall, CryptoHookCorrelation } from './crypto-hooks'
+import type { Logpoint, LogpointCapture } from './logpoints'
+import type { PipelineTrace } from './pipeline'
+import type { ScriptInfo, ScriptSearchResult } from './script-search'
+import type { CaptureLimits, Settings, SiteSettings } from './settings'
+
 /** 结构化错误定义 */
 export interface AppError {
   /** 错误码 */
@@ -8,6 +14,36 @@ export interface AppError {
   cause?: unknown
 }
 
+/** 单条头部条目 */
+export interface HeaderEntry {
+  /** 头部名称 */
+  name: string
+  /** 头部值 */
+  value: string
+}
+
+/** 请求/响应头部集合 */
+export interface RecordHeaders {
+  /** 请求头（requestWillBeSent） */
+  request: HeaderEntry[]
+  /** 响应头（responseReceived） */
+  response: HeaderEntry[]
+  /** 原始请求头（requestWillBeSentExtraInfo，含 Cookie 等） */
+  requestExtra: HeaderEntry[]
+  /** 原始响应头（responseReceivedExtraInfo，含 Set-Cookie 等） */
+  responseExtra: HeaderEntry[]
+}
+
+/** 规则流水线自动解密结果 */
+export interface DecryptResult {
+  /** 命中的规则 ID */
+  ruleId: string
+  /** 命中的规则名称 */
+  ruleName: string
+  /** 流水线执行快照（含明文与逐步结果） */
+  trace: PipelineTrace
+}
+
 /** 响应体内容信息 */
 export interface ResponseBody {
   /** 响应体文本 */
@@ -16,8 +52,12 @@ export interface ResponseBody {
   isBase64: boolean
   /** 是否因阈值截断 */
   truncated: boolean
+  /** 超过阈值未随记录读取，可经 `record.body.load` 按需加载 */
+  deferred?: boolean
   /** 解析错误信息 */
   error?: AppError
+  /** 规则流水线解密结果 */
+  decrypted?: DecryptResult
 }
 
 /** 请求体内容信息 */
@@ -26,8 +66,122 @@ export interface RequestBody {
   text: string | null
   /** 是否因阈值截断 */
   truncated: boolean
+  /** 超过阈值未随记录读取，可经 `record.body.load` 按需加载 */
+  deferred?: boolean
   /** 解析错误信息 */
   error?: AppError
+  /** 规则流水线解密结果 */
+  decrypted?: DecryptResult
+}
+
+/** 调用栈帧 */
+export interface StackFrame {
+  /** 函数名（匿名函数为空串） */
+  functionName: string
+  /** 脚本 URL */
+  url: string
+  /** 脚本 ID */
+  scriptId: string
+  /** 行号（从 0 开始） */
+  lineNumber: number
+  /** 列号（从 0 开始） */
+  columnNumber: number
+}
+
+/** 调用栈片段（同步栈为第一段，其后依次为异步父栈） */
+export interface StackSegment {
+  /** 异步边界说明，如 `Promise.then`、`setTimeout`；同步栈为 null */
+  description: string | null
+  /** 栈帧（由内到外） */
+  frames: StackFrame[]
+}
+
+/** 请求发起方信息 */
+export interface RequestInitiator {
+  /** 发起方类型：parser、script、preload、other 等 */
+  type: string
+  /** 发起位置 URL（parser 发起时为文档 URL） */
+  url: string | null
+  /** 发起位置行号（从 0 开始） */
+  lineNumber: number | null
+  /** 发起位置列号（从 0 开始） */
+  columnNumber: number | null
+  /** 完整调用栈（含异步父栈） */
+  stack: StackSegment[]
+}
+
+/** WebSocket 帧方向：sent 页面发出，received 服务端推送 */
+export type FrameDirection = 'sent' | 'received'
+
+/** WebSocket 帧 */
+export interface WebSocketFrame {
+  /** 连接内序号（从 0 开始） */
+  index: number
+  /** 方向 */
+  direction: FrameDirection
+  /** opcode：1 文本，2 二进制，8 关闭，9 ping，10 pong */
+  opcode: number
+  /** 载荷：文本帧为原文，其余为 base64 */
+  payload: string
+  /** 载荷是否 base64 编码 */
+  isBase64: boolean
+  /** 载荷字节数（截断前） */
+  size: number
+  /** 是否因阈值截断 */
+  truncated: boolean
+  /** 时间戳（毫秒） */
+  timeStamp: number
+  /** 规则流水线解密结果（发出帧按请求规则，接收帧按响应规则） */
+  decrypted?: DecryptResult
+}
+
+/** WebSocket 连接状态与帧列表 */
+export interface WebSocketConnection {
+  /** 帧列表（超出上限时丢弃最早的帧） */
+  frames: WebSocketFrame[]
+  /** 已丢弃的帧数 */
+  dropped: number
+  /** 是否已关闭 */
+  closed: boolean
+  /** 帧错误信息 */
+  error: string | null
+}
+
+/** 流式响应格式：sse 事件流，ndjson 按行 JSON，chunk 按到达分块 */
+export type StreamFormat = 'sse' | 'ndjson' | 'chunk'
+
+/** 流式响应中的单个事件 */
+export interface StreamEvent {
+  /** 记录内序号（从 0 开始） */
+  index: number
+  /** 事件类型（SSE event 字段，默认 message；非 SSE 为 null） */
+  eventName: string | null
+  /** 事件 ID（SSE id 字段） */
+  eventId: string | null
+  /** 数据 */
+  data: string
+  /** 数据字节数（截断前） */
+  size: number
+  /** 是否因阈值截断 */
+  truncated: boolean
+  /** 时间戳（毫秒） */
+  timeStamp: number
+  /** 规则流水线解密结果（按响应规则） */
+  decrypted?: DecryptResult
+}
+
+/** 流式响应状态与事件列表 */
+export interface ResponseStream {
+  /** 流格式 */
+  format: StreamFormat
+  /** 事件列表（超出上限时丢弃最早的事件） */
+  events: StreamEvent[]
+  /** 已丢弃的事件数 */
+  dropped: number
+  /** 是否已结束 */
+  complete: boolean
+  /** 结束时的错误信息（如连接中断） */
+  error: string | null
 }
 
 /** 单条响应记录 */
@@ -48,10 +202,44 @@ export interface ResponseRecord {
   timeStamp: number
   /** 响应体大小（字节） */
   encodedDataLength: number
+  /** 请求/响应头部 */
+  headers: RecordHeaders
   /** 请求体内容 */
   requestBody: RequestBody
   /** 响应体内容 */
   body: ResponseBody
+  /** 请求发起方（含 JS 调用栈；未知时为 null） */
+  initiator: RequestInitiator | null
+  /** WebSocket 连接（非 WebSocket 记录为 null） */
+  webSocket: WebSocketConnection | null
+  /** 流式响应（SSE、按行 JSON 等；非流式记录为 null） */
+  stream: ResponseStream | null
+}
+
+/** 记录摘要（列表消息只携带摘要，完整记录经 `record.body.get` 按需获取） */
+export interface RecordSummary {
+  /** 请求唯一标识 */
+  id: string
+  /** 请求 URL */
+  url: string
+  /** 请求方法 */
+  method: string
+  /** 响应状态码 */
+  status: number
+  /** 响应 MIME 类型 */
+  mimeType: string
+  /** 资源类型 */
+  resourceType: string
+  /** 时间戳（毫秒） */
+  timeStamp: number
+  /** 响应体大小（字节） */
+  encodedDataLength: number
+  /** 是否有请求正文（含读取错误） */
+  hasRequestBody: boolean
+  /** 是否有响应正文（含读取错误） */
+  hasResponseBody: boolean
+  /** 是否已固定（固定的记录不会被淘汰） */
+  pinned: boolean
 }
 
 /** 面板 -> 后台消息：附加调试器 */
@@ -76,25 +264,159 @@ export interface DebuggerStatusMessage {
   type: 'debugger.status'
 }
 
-/** 面板 -> 后台消息：获取记录快照 */
+/** 面板 -> 后台消息：获取记录（sinceSeq 为 null 或会话不符时获取全量快照，否则获取该序号之后的增量） */
 export interface RecordsGetMessage {
   /** 消息类型 */
   type: 'records.get'
+  /** 面板已同步的记录会话 */
+  session: string | null
+  /** 面板已同步到的序号 */
+  sinceSeq: number | null
+}
+
+/** 面板 -> 后台消息：获取单条完整记录（含正文） */
+export interface RecordBodyGetMessage {
+  /** 消息类型 */
+  type: 'record.body.get'
+  /** 记录 ID */
+  recordId: string
+}
+
+/** 面板 -> 后台消息：固定或取消固定记录 */
+export interface RecordsPinMessage {
+  /** 消息类型 */
+  type: 'records.pin'
+  /** 记录 ID */
+  recordId: string
+  /** 是否固定 */
+  pinned: boolean
 }
 
-/** 面板 -> 后台消息：清空记录 */
+/** 面板 -> 后台消息：清空记录（固定的记录保留） */
 export interface RecordsClearMessage {
   /** 消息类型 */
   type: 'records.clear'
 }
 
+/** 面板 -> 后台消息：获取持久化设置 */
+export interface SettingsGetMessage {
+  /** 消息类型 */
+  type: 'settings.get'
+}
+
+/** 面板 -> 后台消息：覆盖单个站点的设置（规则、流水线、密钥配置） */
+export interface SettingsSiteSetMessage {
+  /** 消息类型 */
+  type: 'settings.site.set'
+  /** 站点键（域名或 `*`） */
+  site: string
+  /** 站点设置 */
+  settings: SiteSettings
+}
+
+/** 面板 -> 后台消息：删除单个站点的设置 */
+export interface SettingsSiteRemoveMessage {
+  /** 消息类型 */
+  type: 'settings.site.remove'
+  /** 站点键（域名或 `*`） */
+  site: string
+}
+
+/** 面板 -> 后台消息：开关页面加密调用 Hook */
+export interface HooksSetMessage {
+  /** 消息类型 */
+  type: 'hooks.set'
+  /** 是否启用 */
+  enabled: boolean
+}
+
+/** 面板 -> 后台消息：计算 Hook 调用与记录的关联 */
+export interface HooksCorrelateMessage {
+  /** 消息类型 */
+  type: 'hooks.correlate'
+}
+
+/** 面板 -> 后台消息：获取已解析的页面脚本 */
+export interface ScriptsListMessage {
+  /** 消息类型 */
+  type: 'scripts.list'
+}
+
+/** 面板 -> 后台消息：在页面脚本中搜索关键字 */
+export interface ScriptsSearchMessage {
+  /** 消息类型 */
+  type: 'scripts.search'
+  /** 关键字 */
+  keywords: string[]
+  /** 是否区分大小写 */
+  caseSensitive: boolean
+}
+
+/** 面板 -> 后台消息：在脚本位置添加捕获点 */
+export interface LogpointsAddMessage {
+  /** 消息类型 */
+  type: 'logpoints.add'
+  /** 脚本 URL */
+  url: string
+  /** 行号（从 0 开始） */
+  lineNumber: number
+  /** 列号（从 0 开始） */
+  columnNumber: number
+  /** 命中时求值的表达式 */
+  expressions: string[]
+  /** 命中条件（空串表示无条件） */
+  condition: string
+}
+
+/** 面板 -> 后台消息：移除捕获点 */
+export interface LogpointsRemoveMessage {
+  /** 消息类型 */
+  type: 'logpoints.remove'
+  /** 捕获点 ID */
+  id: string
+}
+
+/** 正文所属部分 */
+export type BodyPart = 'request' | 'response'
+
+/** 面板 -> 后台消息：按需加载记录中超过阈值的正文 */
+export interface RecordBodyLoadMessage {
+  /** 消息类型 */
+  type: 'record.body.load'
+  /** 记录 ID */
+  recordId: string
+  /** 正文部分 */
+  part: BodyPart
+}
+
+/** 面板 -> 后台消息：保存捕获限制 */
+export interface SettingsLimitsSetMessage {
+  /** 消息类型 */
+  type: 'settings.limits.set'
+  /** 捕获限制 */
+  limits: CaptureLimits
+}
+
 /** 面板 -> 后台消息联合类型 */
 export type PanelToBackgroundMessage =
   | DebuggerAttachMessage
   | DebuggerDetachMessage
   | DebuggerStatusMessage
   | RecordsGetMessage
+  | RecordBodyGetMessage
+  | RecordsPinMessage
   | RecordsClearMessage
+  | SettingsGetMessage
+  | SettingsSiteSetMessage
+  | SettingsSiteRemoveMessage
+  | HooksSetMessage
+  | HooksCorrelateMessage
+  | ScriptsListMessage
+  | ScriptsSearchMessage
+  | LogpointsAddMessage
+  | LogpointsRemoveMessage
+  | RecordBodyLoadMessage
+  | SettingsLimitsSetMessage
 
 /** 后台 -> 面板消息：状态 */
 export interface DebuggerStatusUpdateMessage {
@@ -104,22 +426,214 @@ export interface DebuggerStatusUpdateMessage {
   attachedTabId: number | null
 }
 
-/** 后台 -> 面板消息：记录快照 */
+/** 后台 -> 面板消息：记录快照（全量摘要，面板以此替换列表） */
 export interface RecordsSnapshotMessage {
   /** 消息类型 */
   type: 'records.snapshot'
-  /** 记录列表 */
-  records: ResponseRecord[]
+  /** 记录摘要列表 */
+  records: RecordSummary[]
+  /** 记录会话 */
+  session: string
+  /** 当前序号 */
+  seq: number
   /** 当前附加的标签页 ID */
   attachedTabId: number | null
 }
 
+/** 后台 -> 面板消息：自请求序号以来的增量 */
+export interface RecordsDeltaMessage {
+  /** 消息类型 */
+  type: 'records.delta'
+  /** 新增或更新的记录摘要（按记录顺序） */
+  records: RecordSummary[]
+  /** 已淘汰的记录 ID */
+  removed: string[]
+  /** 记录会话 */
+  session: string
+  /** 当前序号 */
+  seq: number
+}
+
 /** 后台 -> 面板消息：新增记录 */
 export interface RecordsAddedMessage {
   /** 消息类型 */
   type: 'records.added'
-  /** 新增记录 */
-  record: ResponseRecord
+  /** 新增记录摘要 */
+  record: RecordSummary
+  /** 记录会话 */
+  session: string
+  /** 本次变更的序号 */
+  seq: number
+}
+
+/** 后台 -> 面板消息：记录更新（如 WebSocket 握手完成、连接关闭） */
+export interface RecordsUpdatedMessage {
+  /** 消息类型 */
+  type: 'records.updated'
+  /** 更新后的记录摘要 */
+  record: RecordSummary
+  /** 记录会话 */
+  session: string
+  /** 本次变更的序号 */
+  seq: number
+}
+
+/** 后台 -> 面板消息：记录被淘汰 */
+export interface RecordsRemovedMessage {
+  /** 消息类型 */
+  type: 'records.removed'
+  /** 被淘汰的记录 ID */
+  ids: string[]
+  /** 记录会话 */
+  session: string
+  /** 本次变更的序号 */
+  seq: number
+}
+
+/** 后台 -> 面板消息：单条完整记录（记录已不存在时为 null） */
+export interface RecordBodyResultMessage {
+  /** 消息类型 */
+  type: 'record.body.result'
+  /** 请求的记录 ID */
+  recordId: string
+  /** 完整记录 */
+  record: ResponseRecord | null
+}
+
+/** 后台 -> 面板消息：WebSocket 连接新增帧 */
+export interface RecordsFrameAddedMessage {
+  /** 消息类型 */
+  type: 'records.frame.added'
+  /** 记录 ID */
+  recordId: string
+  /** 新增帧 */
+  frame: WebSocketFrame
+}
+
+/** 后台 -> 面板消息：流式响应新增事件 */
+export interface RecordsEventAddedMessage {
+  /** 消息类型 */
+  type: 'records.event.added'
+  /** 记录 ID */
+  recordId: string
+  /** 新增事件 */
+  event: StreamEvent
+}
+
+/** 后台 -> 面板消息：按需加载的正文分块 */
+export interface RecordBodyChunkMessage {
+  /** 消息类型 */
+  type: 'record.body.chunk'
+  /** 记录 ID */
+  recordId: string
+  /** 正文部分 */
+  part: BodyPart
+  /** 分块文本 */
+  text: string
+  /** 已传输字符数（含本块） */
+  loaded: number
+  /** 总字符数 */
+  total: number
+}
+
+/** 后台 -> 面板消息：响应阶段流式读取大正文的进度（每次读取推送一次） */
+export interface RecordBodyProgressMessage {
+  /** 消息类型 */
+  type: 'record.body.progress'
+  /** 记录 ID */
+  recordId: string
+  /** 正文部分 */
+  part: BodyPart
+  /** 已从浏览器读取的字节数 */
+  received: number
+  /** 响应头声明的字节数 */
+  total: number
+}
+
+/** 后台 -> 面板消息：按需加载结束（正文文本经分块传输，此处 text 恒为 null） */
+export interface RecordBodyLoadedMessage {
+  /** 消息类型 */
+  type: 'record.body.loaded'
+  /** 记录 ID */
+  recordId: string
+  /** 正文部分 */
+  part: BodyPart
+  /** 正文信息（失败时带 error） */
+  body: ResponseBody
+}
+
+/** 后台 -> 面板消息：持久化设置快照 */
+export interface SettingsSnapshotMessage {
+  /** 消息类型 */
+  type: 'settings.snapshot'
+  /** 设置 */
+  settings: Settings
+}
+
+/** 后台 -> 面板消息：Hook 状态与调用快照 */
+export interface HooksSnapshotMessage {
+  /** 消息类型 */
+  type: 'hooks.snapshot'
+  /** 是否启用 */
+  enabled: boolean
+  /** 已捕获的调用 */
+  calls: CryptoHookCall[]
+}
+
+/** 后台 -> 面板消息：新增 Hook 调用 */
+export interface HooksCallAddedMessage {
+  /** 消息类型 */
+  type: 'hooks.call.added'
+  /** 新增调用 */
+  call: CryptoHookCall
+}
+
+/** 后台 -> 面板消息：Hook 调用与记录的关联（未关联的调用不出现） */
+export interface HooksCorrelationsMessage {
+  /** 消息类型 */
+  type: 'hooks.correlations'
+  /** 关联结果 */
+  correlations: CryptoHookCorrelation[]
+}
+
+/** 后台 -> 面板消息：已解析的页面脚本 */
+export interface ScriptsSnapshotMessage {
+  /** 消息类型 */
+  type: 'scripts.snapshot'
+  /** 脚本列表 */
+  scripts: ScriptInfo[]
+}
+
+/** 后台 -> 面板消息：脚本搜索结果 */
+export interface ScriptsSearchResultMessage {
+  /** 消息类型 */
+  type: 'scripts.search.result'
+  /** 本次搜索的关键字 */
+  keywords: string[]
+  /** 按脚本分组的命中（仅含有命中的脚本） */
+  results: ScriptSearchResult[]
+  /** 已搜索的脚本数 */
+  scanned: number
+  /** 搜索失败的脚本数（如页面跳转后脚本已失效） */
+  failed: number
+}
+
+/** 后台 -> 面板消息：捕获点与已捕获数据快照 */
+export interface LogpointsSnapshotMessage {
+  /** 消息类型 */
+  type: 'logpoints.snapshot'
+  /** 捕获点 */
+  logpoints: Logpoint[]
+  /** 已捕获的数据 */
+  captures: LogpointCapture[]
+}
+
+/** 后台 -> 面板消息：新增捕获数据 */
+export interface CapturesAddedMessage {
+  /** 消息类型 */
+  type: 'captures.added'
+  /** 新增捕获 */
+  capture: LogpointCapture
 }
 
 /** 后台 -> 面板消息：错误 */
@@ -134,5 +648,22 @@ export interface ErrorMessage {
 export type BackgroundToPanelMessage =
   | DebuggerStatusUpdateMessage
   | RecordsSnapshotMessage
+  | RecordsDeltaMessage
   | RecordsAddedMessage
+  | RecordsUpdatedMessage
+  | RecordsRemovedMessage
+  | RecordBodyResultMessage
+  | RecordsFrameAddedMessage
+  | RecordsEventAddedMessage
+  | RecordBodyChunkMessage
+  | RecordBodyProgressMessage
+  | RecordBodyLoadedMessage
+  | SettingsSnapshotMessage
+  | HooksSnapshotMessage
+  | HooksCallAddedMessage
+  | HooksCorrelationsMessage
+  | ScriptsSnapshotMessage
+  | ScriptsSearchResultMessage
+  | LogpointsSnapshotMessage
+  | CapturesAddedMessage
   | ErrorMessage
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import type { OperatorParams, OperatorResult } from '../pipeline'
+import { hexDecode, utf8Encode } from '../bytes'
+import { createOperatorContext, getDefaultParams, getOperator } from '../pipeline'
+import { bytesValue, textValue } from '../value'
+import { registerBuiltinOperators } from './index'
+
+registerBuiltinOperators()
+
+/** 以默认参数 + 覆盖项执行算子 */
+async function run(operatorId: string, input: Uint8Array, overrides: OperatorParams): Promise<OperatorResult> {
+  const operator = getOperator(operatorId)!
+  return operator.run(bytesValue(input), { ...getDefaultParams(operator), ...overrides }, createOperatorContext())
+}
+
+/** hex 转字节（测试向量均为合法 hex） */
+function hex(text: string): Uint8Array {
+  return hexDecode(text)!
+}
+
+describe('aes 算子 GCM', () => {
+  // GCM 规范测试用例 2：全零密钥与 IV
+  const gcmParams = {
+    mode: 'GCM',
+    key: '00000000000000000000000000000000',
+    keyEncoding: 'hex',
+    iv: '000000000000000000000000',
+    ivEncoding: 'hex',
+    inputFormat: 'raw',
+    outputFormat: 'bytes',
+  }
+  const sealed = hex('0388dace60b6a392f328c2b971b2fe78ab6e47d42cec13bdf53a67b21257bddf')
+
+  it('标签取自密文末尾', async () => {
+    expect(await run('aes.decrypt', sealed, gcmParams)).toEqual({ ok: true, value: bytesValue(new Uint8Array(16)) })
+  })
+
+  it('加密输出密文 + 截短标签', async () => {
+    const result = await run('aes.encrypt', new Uint8Array(16), { ...gcmParams, tagLength: 12, outputFormat: 'hex' })
+    expect(result).toEqual({ ok: true, value: textValue('0388dace60b6a392f328c2b971b2fe78ab6e47d42cec13bdf53a67b2') })
+  })
+
+  it.each([0, 3, 17, -1, 1.5, Number.NaN])('标签长度 %s 不合法', async (tagLength) => {
+    const result = await run('aes.decrypt', sealed, { ...gcmParams, tagLength })
+    expect(result.ok ? null : result.error.code).toBe('CIPHER_TAG_INVALID')
+  })
+
+  it('标签参数超过 16 字节时拒绝，而不是按多余字节为零放行', async () => {
+    const result = await run('aes.decrypt', sealed.subarray(0, 16), { ...gcmParams, tag: 'ab6e47d42cec13bdf53a67b21257bddf00', tagEncoding: 'hex' })
+    expect(result.ok ? null : result.error.code).toBe('CIPHER_TAG_INVALID')
+  })
+
+  it('密文短于标签时报错', async () => {
+    const result = await run('aes.decrypt', sealed.subarray(0, 8), gcmParams)
+    expect(result.ok ? null : result.error.code).toBe('CIPHER_INPUT_INVALID')
+  })
+})
+
+describe('aes 算子分组模式', () => {
+  // NIST SP 800-38A F.1-F.5 AES-128 测试向量
+  const keyParams = { key: '2b7e151628aed2a6abf7158809cf4f3c', keyEncoding: 'hex', ivEncoding: 'hex', padding: 'NoPadding' }
+  const plain = hex('6bc1bee22e409f96e93d7e117393172aae2d8a571e03ac9c9eb76fac45af8e5130c81c46a35ce411e5fbc1191a0a52eff69f2445df4f9b17ad2b417be66c3710')
+
+  it.each([
+    ['ECB', '', '3ad77bb40d7a3660a89ecaf32466ef97f5d3d58503b9699de785895a96fdbaaf43b1cd7f598ece23881b00e3ed0306887b0c785e27e8ad3f8223207104725dd4'],
+    ['CBC', '000102030405060708090a0b0c0d0e0f', '7649abac8119b246cee98e9b12e9197d5086cb9b507219ee95db113a917678b273bed6b8e3c1743b7116e69e222295163ff1caa1681fac09120eca307586e1a7'],
+    ['CFB', '000102030405060708090a0b0c0d0e0f', '3b3fd92eb72dad20333449f8e83cfb4ac8a64537a0b3a93fcde3cdad9f1ce58b26751f67a3cbb140b1808cf187a4f4dfc04b05357c5d1c0eeac4c66f9ff7f2e6'],
+    ['CTR', 'f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff', '874d6191b620e3261bef6864990db6ce9806f66b7970fdff8617187bb9fffdff5ae4df3edbd5d35e5b4f09020db03eab1e031dda2fbe03d1792170a0f3009cee'],
+  ])('%s 对照 NIST 向量加解密', async (mode, iv, cipherHex) => {
+    const params = { ...keyParams, mode, iv }
+    expect(await run('aes.encrypt', plain, { ...params, outputFormat: 'hex' })).toEqual({ ok: true, value: textValue(cipherHex) })
+    expect(await run('aes.decrypt', hex(cipherHex), { ...params, inputFormat: 'raw', outputFormat: 'bytes' })).toEqual({ ok: true, value: bytesValue(plain) })
+  })
+
+  it.each([
+    ['CFB', '000102030405060708090a0b0c0d0e0f', '3b3fd92eb72dad20333449f8e83cfb4ac8a64537'],
+    ['CTR', 'f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff', '874d6191b620e3261bef6864990db6ce9806f66b'],
+  ])('%s 不足一组的尾部无需填充', async (mode, iv, cipherHex) => {
+    const result = await run('aes.encrypt', plain.subarray(0, 20), { ...keyParams, mode, iv, outputFormat: 'hex' })
+    expect(result).toEqual({ ok: true, value: textValue(cipherHex) })
+  })
+})
+
+describe('aes 算子填充', () => {
+  const cbcParams = { mode: 'CBC', key: '2b7e151628aed2a6abf7158809cf4f3c', keyEncoding: 'hex', iv: '000102030405060708090a0b0c0d0e0f', ivEncoding: 'hex' }
+
+  it.each([
+    ['PKCS7', 'hello', 'd8666ea8aad65cc08354b4bc43d4ff56'],
+    ['ZeroPadding', 'hello', '70ff206543679fcee7612f9840cca8b1'],
+  ])('%s 加密与解密还原', async (padding, text, cipherHex) => {
+    const params = { ...cbcParams, padding }
+    expect(await run('aes.encrypt', utf8Encode(text), { ...params, outputFormat: 'hex' })).toEqual({ ok: true, value: textValue(cipherHex) })
+    expect(await run('aes.decrypt', hex(cipherHex), { ...params, inputFormat: 'raw', outputFormat: 'auto' })).toEqual({ ok: true, value: textValue(text) })
+  })
+
+  it('pKCS7 已对齐的明文补整组', async () => {
+    const result = await run('aes.encrypt', new Uint8Array(16), { ...cbcParams, padding: 'PKCS7', outputFormat: 'hex' })
+    expect(result).toEqual({ ok: true, value: textValue('50fe67cc996d32b6da0937e99bafec603a471a730e06602f7791e02e09928309') })
+  })
+
+  it('错误密钥导致 PKCS7 校验失败', async () => {
+    const result = await run('aes.decrypt', hex('d8666ea8aad65cc08354b4bc43d4ff56'), { ...cbcParams, key: '000102030405060708090a0b0c0d0e0f', padding: 'PKCS7', inputFormat: 'raw' })
+    expect(result.ok ? null : result.error.code).toBe('CIPHER_PADDING_INVALID')
+  })
+
+  it('noPadding 明文未对齐时报错', async () => {
+    const result = await run('aes.encrypt', new Uint8Array(5), { ...cbcParams, padding: 'NoPadding' })
+    expect(result.ok ? null : result.error.code).toBe('CIPHER_INPUT_INVALID')
+  })
+
+  it('cBC 密文未对齐时报错', async () => {
+    const result = await run('aes.decrypt', new Uint8Array(15), { ...cbcParams, inputFormat: 'raw' })
+    expect(result.ok ? null : result.error.code).toBe('CIPHER_INPUT_INVALID')
+  })
+})
@@ -0,0 +1,13 @@
+import type { OperatorDefinition } from '../pipeline'
+import { AES_KEY_SIZES, createAesCipher } from '../crypto/aes'
+import { createBlockCipherOperators } from './block-cipher'
+
+/** AES 算子列表（AES-128/192/256） */
+export const aesOperators: OperatorDefinition[] = createBlockCipherOperators({
+  idPrefix: 'aes',
+  name: 'AES',
+  keySizes: AES_KEY_SIZES,
+  blockSize: 16,
+  modes: ['CBC', 'ECB', 'CTR', 'CFB', 'GCM'],
+  createCipher: createAesCipher,
+})
@@ -0,0 +1,277 @@
+import type { BlockCipher } from '../crypto/types'
+import type { CipherMode } from '../crypto/modes'
+import type { PaddingMode } from '../crypto/padding'
+import type { OperatorContext, OperatorDefinition, OperatorParamSpec, OperatorParams, OperatorResult } from '../pipeline'
+import type { PipelineValue } from '../value'
+import { concatBytes } from '../bytes'
+import { gcmDecrypt, gcmEncrypt } from '../crypto/gcm'
+import { cbcDecrypt, cbcEncrypt, cfbDecrypt, cfbEncrypt, ctrCrypt, ecbDecrypt, ecbEncrypt } from '../crypto/modes'
+import { PADDING_MODES, applyPadding, removePadding } from '../crypto/padding'
+import { getNumberParam, getStringParam, operatorFail, operatorOk } from '../pipeline'
+import { valueToBytes } from '../value'
+import {
+  CIPHER_INPUT_FORMATS,
+  CIPHER_OUTPUT_FORMATS,
+  PLAIN_OUTPUT_FORMATS,
+  createBytesParamSpecs,
+  formatCipherOutput,
+  formatPlainOutput,
+  readBytesParam,
+  readCipherInput,
+} from './params'
+
+/** 对称加密类算子分类 */
+export const SYMMETRIC_CATEGORY = '对称加密'
+
+/** GCM 认证标签的最小字节数 */
+const MIN_GCM_TAG_LENGTH = 4
+
+/** GCM 认证标签的最大字节数（一个分组） */
+const MAX_GCM_TAG_LENGTH = 16
+
+/** 分组密码算子描述 */
+export interface BlockCipherSpec {
+  /** 算子 id 前缀，如 `aes` */
+  idPrefix: string
+  /** 算法展示名，如 `AES` */
+  name: string
+  /** 合法密钥长度（字节） */
+  keySizes: number[]
+  /** 分组长度（字节） */
+  blockSize: number
+  /** 支持的工作模式（首项为默认） */
+  modes: CipherMode[]
+  /** 创建分组密码实例 */
+  createCipher: (key: Uint8Array) => BlockCipher
+}
+
+/** 已解析的分组密码参数 */
+interface ResolvedCipherParams {
+  /** 分组密码实例 */
+  cipher: BlockCipher
+  /** 工作模式 */
+  mode: CipherMode
+  /** 填充模式 */
+  padding: PaddingMode
+  /** 初始向量 */
+  iv: Uint8Array
+}
+
+/** 生成公共参数说明 */
+function createCommonParamSpecs(spec: BlockCipherSpec): OperatorParamSpec[] {
+  return [
+    {
+      key: 'mode',
+      label: '模式',
+      type: 'select',
+      default: spec.modes[0]!,
+      options: spec.modes,
+    },
+    {
+      key: 'padding',
+      label: '填充',
+      type: 'select',
+      default: 'PKCS7',
+      options: PADDING_MODES,
+      description: '仅 CBC/ECB 使用',
+    },
+    ...createBytesParamSpecs('key', '密钥', `长度 ${spec.keySizes.join('/')} 字节`),
+    ...createBytesParamSpecs('iv', 'IV', 'ECB 模式忽略'),
+  ]
+}
+
+/** 生成 GCM 相关参数说明 */
+function createGcmParamSpecs(spec: BlockCipherSpec, withTag: boolean): OperatorParamSpec[] {
+  if (!spec.modes.includes('GCM'))
+    return []
+  // 标签参数
+  const tagSpecs: OperatorParamSpec[] = withTag
+    ? createBytesParamSpecs('tag', '认证标签', 'GCM 使用；留空时取密文末尾')
+    : []
+  return [
+    ...tagSpecs,
+    {
+      key: 'tagLength',
+      label: '标签长度',
+      type: 'number',
+      default: 16,
+      description: `GCM 认证标签字节数（${MIN_GCM_TAG_LENGTH}-${MAX_GCM_TAG_LENGTH}）`,
+    },
+    ...createBytesParamSpecs('aad', '附加数据', 'GCM 使用，可留空'),
+  ]
+}
+
+/** 读取 GCM 标签长度（非 4-16 的整数时返回失败结果） */
+function resolveGcmTagLength(params: OperatorParams): { ok: true, tagLength: number } | { ok: false, result: OperatorResult } {
+  const tagLength = getNumberParam(params, 'tagLength')
+  if (!Number.isInteger(tagLength) || tagLength < MIN_GCM_TAG_LENGTH || tagLength > MAX_GCM_TAG_LENGTH)
+    return { ok: false, result: operatorFail('CIPHER_TAG_INVALID', `标签长度必须为 ${MIN_GCM_TAG_LENGTH}-${MAX_GCM_TAG_LENGTH} 的整数`) }
+  return { ok: true, tagLength }
+}
+
+/** 解析公共参数 */
+function resolveCipherParams(spec: BlockCipherSpec, params: OperatorParams, context: OperatorContext): { ok: true, value: ResolvedCipherParams } | { ok: false, result: OperatorResult } {
+  // 工作模式与填充
+  const mode = getStringParam(params, 'mode') as CipherMode
+  const padding = getStringParam(params, 'padding') as PaddingMode
+  // 密钥
+  const key = readBytesParam(params, 'key', context)
+  if (!key || !spec.keySizes.includes(key.length)) {
+    return {
+      ok: false,
+      result: operatorFail('CIPHER_KEY_INVALID', `${spec.name} 密钥长度必须为 ${spec.keySizes.join('/')} 字节，当前 ${key?.length ?? '无法解码'}`),
+    }
+  }
+  // 初始向量
+  const iv = mode === 'ECB' ? new Uint8Array(0) : readBytesParam(params, 'iv', context)
+  if (!iv)
+    return { ok: false, result: operatorFail('CIPHER_IV_INVALID', 'IV 无法按所选编码解码（或引用的变量不存在）') }
+  if (mode !== 'ECB' && mode !== 'GCM' && iv.length !== spec.blockSize)
+    return { ok: false, result: operatorFail('CIPHER_IV_INVALID', `IV 长度必须为 ${spec.blockSize} 字节，当前 ${iv.length}`) }
+  if (mode === 'GCM' && iv.length === 0)
+    return { ok: false, result: operatorFail('CIPHER_IV_INVALID', 'GCM 模式需要 IV') }
+  return { ok: true, value: { cipher: spec.createCipher(key), mode, padding, iv } }
+}
+
+/** 执行解密 */
+function decrypt(spec: BlockCipherSpec, input: PipelineValue, params: OperatorParams, context: OperatorContext): OperatorResult {
+  // 解析参数
+  const resolved = resolveCipherParams(spec, params, context)
+  if (!resolved.ok)
+    return resolved.result
+  const { cipher, mode, padding, iv } = resolved.value
+  // 读取密文
+  const data = readCipherInput(input, getStringParam(params, 'inputFormat'))
+  if (!data)
+    return operatorFail('CIPHER_INPUT_INVALID', '密文无法按所选输入格式解码')
+  // 输出格式
+  const outputFormat = getStringParam(params, 'outputFormat')
+
+  if (mode === 'GCM') {
+    // 认证标签：参数为空时取密文末尾
+    const tagParam = readBytesParam(params, 'tag', context)
+    if (!tagParam)
+      return operatorFail('CIPHER_TAG_INVALID', '认证标签无法按所选编码解码')
+    if (tagParam.length > 0 && (tagParam.length < MIN_GCM_TAG_LENGTH || tagParam.length > MAX_GCM_TAG_LENGTH))
+      return operatorFail('CIPHER_TAG_INVALID', `认证标签长度必须为 ${MIN_GCM_TAG_LENGTH}-${MAX_GCM_TAG_LENGTH} 字节，当前 ${tagParam.length}`)
+    const resolvedTag = resolveGcmTagLength(params)
+    if (!resolvedTag.ok)
+      return resolvedTag.result
+    // 标签取自密文末尾时，密文至少要容纳完整标签
+    const { tagLength } = resolvedTag
+    if (tagParam.length === 0 && data.length < tagLength)
+      return operatorFail('CIPHER_INPUT_INVALID', `密文长度 ${data.length} 不足以包含 ${tagLength} 字节的认证标签`)
+    const tag = tagParam.length > 0 ? tagParam : data.subarray(data.length - tagLength)
+    const ciphertext = tagParam.length > 0 ? data : data.subarray(0, data.length - tagLength)
+    // 附加数据
+    const aad = readBytesParam(params, 'aad', context)
+    if (!aad)
+      return operatorFail('CIPHER_AAD_INVALID', '附加数据无法按所选编码解码')
+    const plain = gcmDecrypt(cipher, ciphertext, iv, tag, aad)
+    if (!plain)
+      return operatorFail('CIPHER_TAG_MISMATCH', 'GCM 认证标签校验失败（密钥/IV/AAD 可能有误）')
+    return operatorOk(formatPlainOutput(plain, outputFormat))
+  }
+
+  if (mode === 'CTR')
+    return operatorOk(formatPlainOutput(ctrCrypt(cipher, data, iv), outputFormat))
+  if (mode === 'CFB')
+    return operatorOk(formatPlainOutput(cfbDecrypt(cipher, data, iv), outputFormat))
+
+  // CBC/ECB 需分组对齐
+  if (data.length === 0 || data.length % spec.blockSize !== 0)
+    return operatorFail('CIPHER_INPUT_INVALID', `密文长度 ${data.length} 不是分组长度 ${spec.blockSize} 的整数倍`)
+  const decrypted = mode === 'ECB' ? ecbDecrypt(cipher, data) : cbcDecrypt(cipher, data, iv)
+  // 去除填充
+  const plain = removePadding(decrypted, spec.blockSize, padding)
+  if (!plain)
+    return operatorFail('CIPHER_PADDING_INVALID', `${padding} 填充校验失败（密钥/IV/模式可能有误）`)
+  return operatorOk(formatPlainOutput(plain, outputFormat))
+}
+
+/** 执行加密 */
+function encrypt(spec: BlockCipherSpec, input: PipelineValue, params: OperatorParams, context: OperatorContext): OperatorResult {
+  // 解析参数
+  const resolved = resolveCipherParams(spec, params, context)
+  if (!resolved.ok)
+    return resolved.result
+  const { cipher, mode, padding, iv } = resolved.value
+  // 明文
+  const data = valueToBytes(input)
+  // 输出格式
+  const outputFormat = getStringParam(params, 'outputFormat')
+
+  if (mode === 'GCM') {
+    // 附加数据
+    const aad = readBytesParam(params, 'aad', context)
+    if (!aad)
+      return operatorFail('CIPHER_AAD_INVALID', '附加数据无法按所选编码解码')
+    const resolvedTag = resolveGcmTagLength(params)
+    if (!resolvedTag.ok)
+      return resolvedTag.result
+    const { ciphertext, tag } = gcmEncrypt(cipher, data, iv, aad, resolvedTag.tagLength)
+    return operatorOk(formatCipherOutput(concatBytes(ciphertext, tag), outputFormat))
+  }
+  if (mode === 'CTR')
+    return operatorOk(formatCipherOutput(ctrCrypt(cipher, data, iv), outputFormat))
+  if (mode === 'CFB')
+    return operatorOk(formatCipherOutput(cfbEncrypt(cipher, data, iv), outputFormat))
+
+  // 填充
+  const padded = applyPadding(data, spec.blockSize, padding)
+  if (!padded)
+    return operatorFail('CIPHER_INPUT_INVALID', `NoPadding 要求明文长度为 ${spec.blockSize} 的整数倍`)
+  const encrypted = mode === 'ECB' ? ecbEncrypt(cipher, padded) : cbcEncrypt(cipher, padded, iv)
+  return operatorOk(formatCipherOutput(encrypted, outputFormat))
+}
+
+/** 按分组密码描述生成解密/加密算子 */
+export function createBlockCipherOperators(spec: BlockCipherSpec): OperatorDefinition[] {
+  return [
+    {
+      id: `${spec.idPrefix}.decrypt`,
+      name: `${spec.name} 解密`,
+      category: SYMMETRIC_CATEGORY,
+      description: `${spec.name} 解密，支持 ${spec.modes.join('/')} 模式`,
+      params: [
+        ...createCommonParamSpecs(spec),
+        ...createGcmParamSpecs(spec, true),
+        {
+          key: 'inputFormat',
+          label: '密文格式',
+          type: 'select',
+          default: 'auto',
+          options: CIPHER_INPUT_FORMATS,
+          description: 'auto：字节原样使用，文本自动识别 hex/base64',
+        },
+        {
+          key: 'outputFormat',
+          label: '明文格式',
+          type: 'select',
+          default: 'auto',
+          options: PLAIN_OUTPUT_FORMATS,
+          description: 'auto：合法 UTF-8 时输出文本',
+        },
+      ],
+      run: (input, params, context) => decrypt(spec, input, params, context),
+    },
+    {
+      id: `${spec.idPrefix}.encrypt`,
+      name: `${spec.name} 加密`,
+      category: SYMMETRIC_CATEGORY,
+      description: `${spec.name} 加密，GCM 模式输出密文 + 标签`,
+      params: [
+        ...createCommonParamSpecs(spec),
+        ...createGcmParamSpecs(spec, false),
+        {
+          key: 'outputFormat',
+          label: '密文格式',
+          type: 'select',
+          default: 'base64',
+          options: CIPHER_OUTPUT_FORMATS,
+        },
+      ],
+      run: (input, params, context) => encrypt(spec, input, params, context),
+    },
+  ]
+}
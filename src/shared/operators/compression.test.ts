@@ -0,0 +1,45 @@
+import { brotliCompressSync, deflateRawSync, gzipSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import type { OperatorParams, OperatorResult } from '../pipeline'
+import { base64Encode, utf8Encode } from '../bytes'
+import { createOperatorContext, getDefaultParams, getOperator } from '../pipeline'
+import { bytesValue, textValue } from '../value'
+import { registerBuiltinOperators } from './index'
+
+registerBuiltinOperators()
+
+/** 以默认参数 + 覆盖项执行算子 */
+async function run(operatorId: string, input: Uint8Array | string, overrides: OperatorParams = {}): Promise<OperatorResult> {
+  const operator = getOperator(operatorId)!
+  const value = typeof input === 'string' ? textValue(input) : bytesValue(input)
+  return operator.run(value, { ...getDefaultParams(operator), ...overrides }, createOperatorContext())
+}
+
+/** 测试明文 */
+const PLAIN = '{"msg":"你好，世界"}'
+
+describe('decompress.auto 算子', () => {
+  it.each([
+    ['gzip', gzipSync(PLAIN)],
+    ['brotli', brotliCompressSync(PLAIN)],
+    ['raw deflate', deflateRawSync(PLAIN)],
+  ])('识别 %s 并输出文本', async (_title, compressed) => {
+    expect(await run('decompress.auto', new Uint8Array(compressed))).toEqual({ ok: true, value: textValue(PLAIN) })
+  })
+
+  it('文本输入自动按 base64 解码', async () => {
+    expect(await run('decompress.auto', base64Encode(gzipSync(PLAIN)))).toEqual({ ok: true, value: textValue(PLAIN) })
+  })
+
+  it('无法解压时报错', async () => {
+    const result = await run('decompress.auto', utf8Encode('plain text'), { inputFormat: 'raw' })
+    expect(result.ok ? null : result.error.code).toBe('DECOMPRESS_INVALID')
+  })
+})
+
+describe('gzip.decompress 算子', () => {
+  it('格式不符时返回解压失败', async () => {
+    const result = await run('gzip.decompress', new Uint8Array(deflateRawSync(PLAIN)))
+    expect(result.ok ? null : result.error.code).toBe('DECOMPRESS_INVALID')
+  })
+})
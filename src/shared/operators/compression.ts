@@ -0,0 +1,93 @@
+import type { CompressionFormat } from '../compression'
+import type { OperatorDefinition, OperatorParamSpec } from '../pipeline'
+import { utf8Decode } from '../bytes'
+import { decompressBytes, detectCompressionFormat } from '../compression'
+import { getStringParam, operatorFail, operatorOk } from '../pipeline'
+import { CIPHER_INPUT_FORMATS, PLAIN_OUTPUT_FORMATS, formatPlainOutput, readCipherInput } from './params'
+
+/** 压缩类算子分类 */
+const COMPRESSION_CATEGORY = '压缩'
+
+/** 解压算子公共参数 */
+const DECOMPRESS_PARAMS: OperatorParamSpec[] = [
+  {
+    key: 'inputFormat',
+    label: '输入格式',
+    type: 'select',
+    default: 'auto',
+    options: CIPHER_INPUT_FORMATS,
+    description: 'auto：字节原样使用，文本自动识别 hex/base64',
+  },
+  {
+    key: 'outputFormat',
+    label: '输出格式',
+    type: 'select',
+    default: 'auto',
+    options: PLAIN_OUTPUT_FORMATS,
+    description: 'auto：合法 UTF-8 时输出文本',
+  },
+]
+
+/** 生成指定格式的解压算子 */
+function createDecompressOperator(id: string, name: string, format: CompressionFormat, description: string): OperatorDefinition {
+  return {
+    id,
+    name,
+    category: COMPRESSION_CATEGORY,
+    description,
+    params: DECOMPRESS_PARAMS,
+    async run(input, params) {
+      // 压缩数据
+      const data = readCipherInput(input, getStringParam(params, 'inputFormat'))
+      if (!data)
+        return operatorFail('DECOMPRESS_INPUT_INVALID', '输入无法按所选格式解码')
+      const result = await decompressBytes(data, format)
+      if (!result.ok)
+        return operatorFail(`DECOMPRESS_${result.reason}`, `${name}失败：${result.message}`)
+      return operatorOk(formatPlainOutput(result.bytes, getStringParam(params, 'outputFormat')))
+    },
+  }
+}
+
+/** 自动识别格式的解压算子 */
+const autoDecompressOperator: OperatorDefinition = {
+  id: 'decompress.auto',
+  name: '自动解压',
+  category: COMPRESSION_CATEGORY,
+  description: '按头部识别 gzip/zlib，否则尝试 brotli 与 raw deflate（优先取解出文本的结果）',
+  params: DECOMPRESS_PARAMS,
+  async run(input, params) {
+    // 压缩数据
+    const data = readCipherInput(input, getStringParam(params, 'inputFormat'))
+    if (!data)
+      return operatorFail('DECOMPRESS_INPUT_INVALID', '输入无法按所选格式解码')
+    // 候选格式：头部可识别时只尝试该格式
+    const detected = detectCompressionFormat(data)
+    const candidates: CompressionFormat[] = detected ? [detected] : ['brotli', 'deflate-raw']
+    // 无头部格式可能误解出垃圾数据，优先采用结果为合法 UTF-8 的格式
+    let fallback: Uint8Array | null = null
+    for (const format of candidates) {
+      const result = await decompressBytes(data, format)
+      if (!result.ok) {
+        if (result.reason === 'TOO_LARGE')
+          return operatorFail('DECOMPRESS_TOO_LARGE', result.message)
+        continue
+      }
+      if (candidates.length === 1 || utf8Decode(result.bytes, true) !== null)
+        return operatorOk(formatPlainOutput(result.bytes, getStringParam(params, 'outputFormat')))
+      fallback ??= result.bytes
+    }
+    if (fallback)
+      return operatorOk(formatPlainOutput(fallback, getStringParam(params, 'outputFormat')))
+    return operatorFail('DECOMPRESS_INVALID', '无法识别压缩格式或数据已损坏')
+  },
+}
+
+/** 解压算子列表：gzip / zlib / raw deflate / brotli */
+export const compressionOperators: OperatorDefinition[] = [
+  createDecompressOperator('gzip.decompress', 'Gzip 解压', 'gzip', '解压 gzip（1f 8b 开头）数据'),
+  createDecompressOperator('zlib.decompress', 'Zlib 解压', 'zlib', '解压 zlib 封装的 deflate（HTTP deflate，常以 78 开头）'),
+  createDecompressOperator('deflate.decompress', 'Raw Deflate 解压', 'deflate-raw', '解压无头部的原始 deflate（如 pako.inflateRaw）'),
+  createDecompressOperator('brotli.decompress', 'Brotli 解压', 'brotli', '使用内置解码器解压 brotli 数据'),
+  autoDecompressOperator,
+]
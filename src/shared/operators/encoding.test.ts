@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import type { OperatorParams, OperatorResult } from '../pipeline'
+import { utf8Encode } from '../bytes'
+import { createOperatorContext, getDefaultParams, getOperator } from '../pipeline'
+import { bytesValue, textValue } from '../value'
+import { registerBuiltinOperators } from './index'
+
+registerBuiltinOperators()
+
+/** 以默认参数 + 覆盖项对文本输入执行算子 */
+async function run(operatorId: string, input: string, overrides: OperatorParams = {}): Promise<OperatorResult> {
+  const operator = getOperator(operatorId)!
+  return operator.run(textValue(input), { ...getDefaultParams(operator), ...overrides }, createOperatorContext())
+}
+
+describe('编码算子', () => {
+  it.each([
+    ['base64url.decode', 'eyJhIjoxfQ', bytesValue(utf8Encode('{"a":1}'))],
+    ['base32.encode', 'foobar', textValue('MZXW6YTBOI======')],
+    ['base58.decode', '2NEpo7TZRRrLZSi2U', bytesValue(utf8Encode('Hello World!'))],
+    ['hex.decode', '66:6f 6f', bytesValue(utf8Encode('foo'))],
+  ])('%s', async (operatorId, input, expected) => {
+    expect(await run(operatorId, input)).toEqual({ ok: true, value: expected })
+  })
+
+  it('解码失败时返回对应错误码', async () => {
+    const result = await run('base58.decode', '0OIl')
+    expect(result.ok ? null : result.error.code).toBe('BASE58_DECODE_FAILED')
+  })
+
+  it('uRL 解码支持多字节序列与 + 号', async () => {
+    expect(await run('url.decode', '%E4%BD%A0%E5%A5%BD+a%2Bb%zz')).toEqual({ ok: true, value: textValue('你好 a+b%zz') })
+    expect(await run('url.decode', 'a+b', { plusAsSpace: false })).toEqual({ ok: true, value: textValue('a+b') })
+  })
+
+  it('hTML 实体解码保留未知实体', async () => {
+    expect(await run('html.unescape', '&lt;a&gt; &amp;amp; &#39;&#x4e2d;&unknown;')).toEqual({ ok: true, value: textValue('<a> &amp; \'中&unknown;') })
+  })
+
+  it('unicode 反转义还原代理对与各类转义', async () => {
+    expect(await run('unicode.unescape', '\\u4f60\\u{1F600}\\x41%u597D\\ud83d\\ude00')).toEqual({ ok: true, value: textValue('你😀A好😀') })
+  })
+})
+
+describe('混淆算子', () => {
+  it('xOR 按循环密钥异或且可逆', async () => {
+    const encoded = await run('xor', 'hello', { key: '2a', keyEncoding: 'hex', outputFormat: 'bytes' })
+    expect(encoded).toEqual({ ok: true, value: bytesValue(new Uint8Array([0x42, 0x4F, 0x46, 0x46, 0x45])) })
+    expect(await run('xor', 'BOFFE', { key: '2a', keyEncoding: 'hex' })).toEqual({ ok: true, value: textValue('hello') })
+  })
+
+  it('逐字节加减按模 256 回绕', async () => {
+    const operator = getOperator('bytes.add')!
+    const result = await operator.run(bytesValue(new Uint8Array([0xFF, 0x01])), { ...getDefaultParams(operator), key: '02', keyEncoding: 'hex', outputFormat: 'bytes' }, createOperatorContext())
+    expect(result).toEqual({ ok: true, value: bytesValue(new Uint8Array([0x01, 0x03])) })
+  })
+
+  it('空密钥时报错', async () => {
+    const result = await run('xor', 'hello', { key: '' })
+    expect(result.ok ? null : result.error.code).toBe('OBFUSCATION_KEY_INVALID')
+  })
+
+  it('rOT13 与 ROT5 数字位移', async () => {
+    expect(await run('rot.n', 'Hello, World!')).toEqual({ ok: true, value: textValue('Uryyb, Jbeyq!') })
+    expect(await run('rot.n', 'abc-789', { shift: -1, rotateDigits: true })).toEqual({ ok: true, value: textValue('zab-678') })
+  })
+
+  it('按字符反转不拆散代理对', async () => {
+    expect(await run('text.reverse', 'a😀b')).toEqual({ ok: true, value: textValue('b😀a') })
+  })
+})
@@ -0,0 +1,288 @@
+import type { OperatorDefinition } from '../pipeline'
+import {
+  base32Decode,
+  base32Encode,
+  base58Decode,
+  base58Encode,
+  base64Decode,
+  base64Encode,
+  base64UrlDecode,
+  base64UrlEncode,
+  hexDecode,
+  hexEncode,
+  utf8Decode,
+  utf8Encode,
+} from '../bytes'
+import { getBooleanParam, operatorFail, operatorOk } from '../pipeline'
+import { bytesValue, textValue, valueToBytes, valueToText } from '../value'
+import { formatPlainOutput } from './params'
+
+/** 编码类算子分类 */
+const CATEGORY = '编码'
+
+/** 字节编码描述 */
+interface ByteCodecSpec {
+  /** 算子 id 前缀，如 `base64` */
+  idPrefix: string
+  /** 编码展示名，如 `Base64` */
+  name: string
+  /** 解码失败时的错误码 */
+  errorCode: string
+  /** 文本 -> 字节（非法输入返回 null） */
+  decode: (text: string) => Uint8Array | null
+  /** 字节 -> 文本 */
+  encode: (bytes: Uint8Array) => string
+}
+
+/** HTML 命名实体（常见子集） */
+const HTML_NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  laquo: '«',
+  raquo: '»',
+  ldquo: '“',
+  rdquo: '”',
+  lsquo: '‘',
+  rsquo: '’',
+  middot: '·',
+  times: '×',
+  divide: '÷',
+  yen: '¥',
+  euro: '€',
+  cent: '¢',
+  pound: '£',
+}
+
+/** HTML 实体正则：命名、十进制与十六进制 */
+const HTML_ENTITY_PATTERN = /&(#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);/gi
+
+/** Unicode 转义正则：\u{X}、\uXXXX、\xXX、%uXXXX */
+const UNICODE_ESCAPE_PATTERN = /\\u\{([0-9a-f]{1,6})\}|\\u([0-9a-f]{4})|\\x([0-9a-f]{2})|%u([0-9a-f]{4})/gi
+
+/** 十六进制文本中可忽略的分隔符（空白、冒号、逗号、0x / \x 前缀） */
+const HEX_SEPARATOR_PATTERN = /0x|\\x|[\s:,]/gi
+
+/** 按字节编码描述生成解码/编码算子 */
+function createByteCodecOperators(spec: ByteCodecSpec): OperatorDefinition[] {
+  return [
+    {
+      id: `${spec.idPrefix}.decode`,
+      name: `${spec.name} 解码`,
+      category: CATEGORY,
+      description: `将 ${spec.name} 文本解码为字节`,
+      params: [],
+      run(input) {
+        // 解码结果
+        const bytes = spec.decode(valueToText(input).trim())
+        if (!bytes)
+          return operatorFail(spec.errorCode, `${spec.name} 解码失败`)
+        return operatorOk(bytesValue(bytes))
+      },
+    },
+    {
+      id: `${spec.idPrefix}.encode`,
+      name: `${spec.name} 编码`,
+      category: CATEGORY,
+      description: `将字节编码为 ${spec.name} 文本`,
+      params: [],
+      run(input) {
+        return operatorOk(textValue(spec.encode(valueToBytes(input))))
+      },
+    },
+  ]
+}
+
+/** 将 %XX 序列解码为字节（非法序列按原文保留） */
+function percentDecode(text: string, plusAsSpace: boolean): Uint8Array {
+  // 输出字节
+  const bytes: number[] = []
+  for (let index = 0; index < text.length; index += 1) {
+    // 当前字符
+    const char = text[index]!
+    if (char === '%' && /^[0-9a-f]{2}$/i.test(text.slice(index + 1, index + 3))) {
+      bytes.push(Number.parseInt(text.slice(index + 1, index + 3), 16))
+      index += 2
+    }
+    else if (char === '+' && plusAsSpace) {
+      bytes.push(0x20)
+    }
+    else {
+      // 普通字符按 UTF-8 编码（代理对整体处理）
+      const codePoint = text.codePointAt(index)!
+      const encoded = utf8Encode(String.fromCodePoint(codePoint))
+      bytes.push(...encoded)
+      if (codePoint > 0xFFFF)
+        index += 1
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+/** UTF-8 解码（字节 -> 文本） */
+const utf8DecodeOperator: OperatorDefinition = {
+  id: 'utf8.decode',
+  name: 'UTF-8 解码',
+  category: CATEGORY,
+  description: '将字节按 UTF-8 解码为文本',
+  params: [
+    {
+      key: 'strict',
+      label: '严格模式',
+      type: 'boolean',
+      default: false,
+      description: '遇到非法 UTF-8 序列时报错而非替换',
+    },
+  ],
+  run(input, params) {
+    // 解码结果
+    const text = utf8Decode(valueToBytes(input), getBooleanParam(params, 'strict'))
+    if (text === null)
+      return operatorFail('UTF8_DECODE_FAILED', '输入不是合法的 UTF-8 字节序列')
+    return operatorOk(textValue(text))
+  },
+}
+
+/** UTF-8 编码（文本 -> 字节） */
+const utf8EncodeOperator: OperatorDefinition = {
+  id: 'utf8.encode',
+  name: 'UTF-8 编码',
+  category: CATEGORY,
+  description: '将文本按 UTF-8 编码为字节',
+  params: [],
+  run(input) {
+    return operatorOk(bytesValue(valueToBytes(input)))
+  },
+}
+
+/** URL 解码（百分号编码 -> 字节，合法 UTF-8 时输出文本） */
+const urlDecodeOperator: OperatorDefinition = {
+  id: 'url.decode',
+  name: 'URL 解码',
+  category: CATEGORY,
+  description: '解码 %XX 百分号编码，非法序列原样保留',
+  params: [
+    {
+      key: 'plusAsSpace',
+      label: '+ 视为空格',
+      type: 'boolean',
+      default: true,
+      description: '表单编码（application/x-www-form-urlencoded）使用',
+    },
+  ],
+  run(input, params) {
+    return operatorOk(formatPlainOutput(percentDecode(valueToText(input), getBooleanParam(params, 'plusAsSpace')), 'auto'))
+  },
+}
+
+/** URL 编码（encodeURIComponent） */
+const urlEncodeOperator: OperatorDefinition = {
+  id: 'url.encode',
+  name: 'URL 编码',
+  category: CATEGORY,
+  description: '按 encodeURIComponent 规则进行百分号编码',
+  params: [],
+  run(input) {
+    return operatorOk(textValue(encodeURIComponent(valueToText(input))))
+  },
+}
+
+/** HTML 实体反转义 */
+const htmlUnescapeOperator: OperatorDefinition = {
+  id: 'html.unescape',
+  name: 'HTML 实体解码',
+  category: CATEGORY,
+  description: '解码 &amp; / &#39; / &#x4e2d; 等 HTML 实体，未知实体原样保留',
+  params: [],
+  run(input) {
+    // 替换实体
+    const text = valueToText(input).replace(HTML_ENTITY_PATTERN, (entity, body: string) => {
+      if (body.startsWith('#')) {
+        // 数字实体
+        const codePoint = body[1] === 'x' || body[1] === 'X'
+          ? Number.parseInt(body.slice(2), 16)
+          : Number.parseInt(body.slice(1), 10)
+        return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : entity
+      }
+      return HTML_NAMED_ENTITIES[body] ?? HTML_NAMED_ENTITIES[body.toLowerCase()] ?? entity
+    })
+    return operatorOk(textValue(text))
+  },
+}
+
+/** Unicode 转义反解 */
+const unicodeUnescapeOperator: OperatorDefinition = {
+  id: 'unicode.unescape',
+  name: 'Unicode 反转义',
+  category: CATEGORY,
+  description: '解码 \\uXXXX、\\u{X}、\\xXX 与 %uXXXX 转义序列',
+  params: [],
+  run(input) {
+    // 替换转义序列（\uXXXX 代理对逐个还原后自然拼接）
+    const text = valueToText(input).replace(
+      UNICODE_ESCAPE_PATTERN,
+      (escape, braced?: string, unicode?: string, hex?: string, percent?: string) => {
+        if (braced !== undefined) {
+          const codePoint = Number.parseInt(braced, 16)
+          return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : escape
+        }
+        return String.fromCharCode(Number.parseInt(unicode ?? hex ?? percent ?? '', 16))
+      },
+    )
+    return operatorOk(textValue(text))
+  },
+}
+
+/** 编码类算子列表 */
+export const encodingOperators: OperatorDefinition[] = [
+  ...createByteCodecOperators({
+    idPrefix: 'base64',
+    name: 'Base64',
+    errorCode: 'BASE64_DECODE_FAILED',
+    decode: base64Decode,
+    encode: base64Encode,
+  }),
+  ...createByteCodecOperators({
+    idPrefix: 'base64url',
+    name: 'Base64URL',
+    errorCode: 'BASE64URL_DECODE_FAILED',
+    decode: base64UrlDecode,
+    encode: bytes => base64UrlEncode(bytes),
+  }),
+  ...createByteCodecOperators({
+    idPrefix: 'hex',
+    name: 'Hex',
+    errorCode: 'HEX_DECODE_FAILED',
+    decode: text => hexDecode(text.replace(HEX_SEPARATOR_PATTERN, '')),
+    encode: hexEncode,
+  }),
+  ...createByteCodecOperators({
+    idPrefix: 'base32',
+    name: 'Base32',
+    errorCode: 'BASE32_DECODE_FAILED',
+    decode: base32Decode,
+    encode: base32Encode,
+  }),
+  ...createByteCodecOperators({
+    idPrefix: 'base58',
+    name: 'Base58',
+    errorCode: 'BASE58_DECODE_FAILED',
+    decode: base58Decode,
+    encode: base58Encode,
+  }),
+  utf8DecodeOperator,
+  utf8EncodeOperator,
+  urlDecodeOperator,
+  urlEncodeOperator,
+  htmlUnescapeOperator,
+  unicodeUnescapeOperator,
+]
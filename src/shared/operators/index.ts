@@ -0,0 +1,29 @@
+import type { OperatorDefinition } from '../pipeline'
+import { registerOperators } from '../pipeline'
+import { aesOperators } from './aes'
+import { compressionOperators } from './compression'
+import { encodingOperators } from './encoding'
+import { jsonOperators } from './json'
+import { kdfOperators } from './kdf'
+import { legacyOperators } from './legacy'
+import { obfuscationOperators } from './obfuscation'
+import { opensslOperators } from './openssl'
+import { smOperators } from './sm'
+
+/** 内置算子列表 */
+export const BUILTIN_OPERATORS: OperatorDefinition[] = [
+  ...encodingOperators,
+  ...obfuscationOperators,
+  ...jsonOperators,
+  ...compressionOperators,
+  ...aesOperators,
+  ...smOperators,
+  ...legacyOperators,
+  ...opensslOperators,
+  ...kdfOperators,
+]
+
+/** 注册全部内置算子 */
+export function registerBuiltinOperators(): void {
+  registerOperators(BUILTIN_OPERATORS)
+}
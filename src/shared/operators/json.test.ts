@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import type { OperatorParams, OperatorResult } from '../pipeline'
+import type { PipelineValue } from '../value'
+import { createOperatorContext, getDefaultParams, getOperator } from '../pipeline'
+import { jsonValue, textValue } from '../value'
+import { registerBuiltinOperators } from './index'
+
+registerBuiltinOperators()
+
+/** 以默认参数 + 覆盖项执行 json.fields */
+async function runFields(input: PipelineValue, overrides: OperatorParams): Promise<OperatorResult> {
+  const operator = getOperator('json.fields')!
+  return operator.run(input, { ...getDefaultParams(operator), ...overrides }, createOperatorContext())
+}
+
+/** Base64 解码为文本的子流水线 */
+const BASE64_TEXT_STEPS = JSON.stringify([
+  { operatorId: 'base64.decode', params: {} },
+  { operatorId: 'utf8.decode', params: {} },
+])
+
+describe('json.fields 算子', () => {
+  it('解密字段并原位回填，JSON 文本结果解析后嵌入', async () => {
+    // data 为 {"user":"张三"} 的 Base64
+    const input = textValue('{"code":0,"data":"eyJ1c2VyIjoi5byg5LiJIn0="}')
+    expect(await runFields(input, { path: '$.data', steps: BASE64_TEXT_STEPS })).toEqual({
+      ok: true,
+      value: jsonValue({ code: 0, data: { user: '张三' } }),
+    })
+  })
+
+  it('关闭解析时以字符串回填', async () => {
+    const input = jsonValue({ data: 'eyJhIjoxfQ==' })
+    expect(await runFields(input, { path: '$.data', steps: BASE64_TEXT_STEPS, parseResult: false })).toEqual({
+      ok: true,
+      value: jsonValue({ data: '{"a":1}' }),
+    })
+  })
+
+  it('多个命中分别处理，且不修改上一步的输出', async () => {
+    const input = jsonValue({ list: [{ v: 'YQ==' }, { v: 'Yg==' }] })
+    const result = await runFields(input, { path: '$.list[*].v', steps: BASE64_TEXT_STEPS })
+    expect(result).toEqual({ ok: true, value: jsonValue({ list: [{ v: 'a' }, { v: 'b' }] }) })
+    expect(input).toEqual(jsonValue({ list: [{ v: 'YQ==' }, { v: 'Yg==' }] }))
+  })
+
+  it('非 UTF-8 字节结果以 Base64 回填', async () => {
+    const steps = JSON.stringify([{ operatorId: 'hex.decode', params: {} }])
+    expect(await runFields(jsonValue({ data: 'ff00' }), { path: '$.data', steps })).toEqual({
+      ok: true,
+      value: jsonValue({ data: '/wA=' }),
+    })
+  })
+
+  it('字段失败时按设置整步失败或保留原字段', async () => {
+    const input = jsonValue({ list: ['YQ==', '!!'] })
+    const failed = await runFields(input, { path: '$.list[*]', steps: BASE64_TEXT_STEPS })
+    expect(failed.ok ? null : failed.error).toMatchObject({ code: 'JSON_FIELD_FAILED', message: expect.stringContaining('$.list[1]') })
+    expect(await runFields(input, { path: '$.list[*]', steps: BASE64_TEXT_STEPS, onError: 'keep' })).toEqual({
+      ok: true,
+      value: jsonValue({ list: ['a', '!!'] }),
+    })
+  })
+
+  it.each([
+    ['非法路径', textValue('{}'), { path: 'data' }, 'JSON_PATH_INVALID'],
+    ['未命中', textValue('{}'), { path: '$.data' }, 'JSON_PATH_NO_MATCH'],
+    ['输入不是 JSON', textValue('not json'), { path: '$.data' }, 'JSON_PARSE_FAILED'],
+    ['子流水线非法', textValue('{"data":1}'), { path: '$.data', steps: '{}' }, 'PIPELINE_PARAM_INVALID'],
+  ])('%s时报错', async (_title, input, overrides, code) => {
+    const result = await runFields(input, overrides)
+    expect(result.ok ? null : result.error.code).toBe(code)
+  })
+})
@@ -0,0 +1,160 @@
+import type { OperatorDefinition } from '../pipeline'
+import type { PipelineValue } from '../value'
+import { base64Encode, utf8Decode } from '../bytes'
+import { formatJsonPathLocation, parseJsonPath, queryJsonPath, setJsonPathValue } from '../jsonpath'
+import { getBooleanParam, getNumberParam, getStepsParam, getStringParam, operatorFail, operatorOk, runPipelineSteps } from '../pipeline'
+import { jsonValue, textValue, valueToText } from '../value'
+
+/** 解析类算子分类 */
+const CATEGORY = '解析'
+
+/** JSON 解析（文本 -> JSON 值） */
+const jsonParseOperator: OperatorDefinition = {
+  id: 'json.parse',
+  name: 'JSON 解析',
+  category: CATEGORY,
+  description: '将文本解析为 JSON 值，供后续步骤按结构处理',
+  params: [],
+  run(input) {
+    if (input.type === 'json')
+      return operatorOk(input)
+    try {
+      // 解析后的对象
+      const parsed = JSON.parse(valueToText(input)) as unknown
+      return operatorOk(jsonValue(parsed))
+    }
+    catch (error) {
+      return operatorFail('JSON_PARSE_FAILED', 'JSON 解析失败', error)
+    }
+  },
+}
+
+/** JSON 序列化（JSON 值 -> 文本） */
+const jsonStringifyOperator: OperatorDefinition = {
+  id: 'json.stringify',
+  name: 'JSON 格式化',
+  category: CATEGORY,
+  description: '将 JSON 值（或 JSON 文本）按缩进序列化为文本',
+  params: [
+    {
+      key: 'indent',
+      label: '缩进空格数',
+      type: 'number',
+      default: 2,
+      description: '0 表示紧凑输出',
+    },
+  ],
+  run(input, params) {
+    try {
+      // 待序列化数据
+      const data = input.type === 'json' ? input.data : JSON.parse(valueToText(input)) as unknown
+      return operatorOk(textValue(JSON.stringify(data, null, getNumberParam(params, 'indent')) ?? ''))
+    }
+    catch (error) {
+      return operatorFail('JSON_PARSE_FAILED', 'JSON 解析失败', error)
+    }
+  },
+}
+
+/** 将字段值转为子流水线输入（字符串按文本，其余按 JSON 值） */
+function fieldToValue(field: unknown): PipelineValue {
+  return typeof field === 'string' ? textValue(field) : jsonValue(field)
+}
+
+/** 将子流水线输出转为可回填的 JSON 数据 */
+function valueToField(value: PipelineValue, parseResult: boolean): unknown {
+  if (value.type === 'json')
+    return value.data
+  // 文本内容：非 UTF-8 字节以 Base64 回填
+  const text = value.type === 'text' ? value.text : utf8Decode(value.bytes, true) ?? base64Encode(value.bytes)
+  // 仅对象/数组文本尝试解析，避免把普通字符串误转为数字或布尔
+  const trimmed = text.trim()
+  if (parseResult && (trimmed.startsWith('{') || trimmed.startsWith('['))) {
+    try {
+      return JSON.parse(trimmed) as unknown
+    }
+    catch {
+      return text
+    }
+  }
+  return text
+}
+
+/** JSON 字段处理：按 JSONPath 选取字段，执行子流水线后原位回填 */
+const jsonFieldsOperator: OperatorDefinition = {
+  id: 'json.fields',
+  name: 'JSON 字段处理',
+  category: CATEGORY,
+  description: '按 JSONPath 选取字段（如 $.data），对每个字段执行子流水线并将结果原位回填',
+  params: [
+    {
+      key: 'path',
+      label: 'JSONPath',
+      type: 'string',
+      default: '$.data',
+      description: '支持 .name、[\'name\']、[0]、[*]、..name',
+    },
+    {
+      key: 'steps',
+      label: '子流水线',
+      type: 'steps',
+      default: '[]',
+      description: '对每个命中字段执行的步骤',
+    },
+    {
+      key: 'parseResult',
+      label: '解析 JSON 结果',
+      type: 'boolean',
+      default: true,
+      description: '结果为 JSON 对象/数组文本时解析后回填',
+    },
+    {
+      key: 'onError',
+      label: '字段失败时',
+      type: 'select',
+      default: 'fail',
+      options: ['fail', 'keep'],
+      description: 'fail：整步失败；keep：保留原字段',
+    },
+  ],
+  async run(input, params, context) {
+    // 解析路径
+    const path = parseJsonPath(getStringParam(params, 'path'))
+    if (!path.ok)
+      return operatorFail('JSON_PATH_INVALID', path.message)
+    // 子流水线
+    const steps = getStepsParam(params, 'steps')
+    if (!steps)
+      return operatorFail('PIPELINE_PARAM_INVALID', '子流水线不是合法的步骤列表')
+    // 文档副本（回填时原地修改，不影响上一步输出）
+    let data: unknown
+    try {
+      data = input.type === 'json' ? structuredClone(input.data) : JSON.parse(valueToText(input)) as unknown
+    }
+    catch (error) {
+      return operatorFail('JSON_PARSE_FAILED', 'JSON 解析失败', error)
+    }
+    // 命中字段
+    const matches = queryJsonPath(data, path.segments)
+    if (matches.length === 0)
+      return operatorFail('JSON_PATH_NO_MATCH', `JSONPath 未命中任何字段：${getStringParam(params, 'path')}`)
+    // 倒序回填：递归下降时子字段先于父字段处理，避免父字段替换后子位置失效
+    for (const match of matches.toReversed()) {
+      const result = await runPipelineSteps(steps, fieldToValue(match.value), context)
+      if (!result.ok || !result.output) {
+        if (getStringParam(params, 'onError') === 'keep')
+          continue
+        return operatorFail('JSON_FIELD_FAILED', `字段 ${formatJsonPathLocation(match.location)} 处理失败：${result.error?.message ?? '未知错误'}`, result.error)
+      }
+      data = setJsonPathValue(data, match.location, valueToField(result.output, getBooleanParam(params, 'parseResult')))
+    }
+    return operatorOk(jsonValue(data))
+  },
+}
+
+/** 解析类算子列表 */
+export const jsonOperators: OperatorDefinition[] = [
+  jsonParseOperator,
+  jsonStringifyOperator,
+  jsonFieldsOperator,
+]
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import type { OperatorParams, OperatorResult } from '../pipeline'
+import { MAX_KDF_ITERATIONS } from '../crypto/kdf'
+import { createOperatorContext, getDefaultParams, getOperator } from '../pipeline'
+import { bytesValue, textValue } from '../value'
+import { registerBuiltinOperators } from './index'
+
+registerBuiltinOperators()
+
+/** 以默认参数 + 覆盖项执行算子 */
+async function run(operatorId: string, overrides: OperatorParams): Promise<OperatorResult> {
+  const operator = getOperator(operatorId)!
+  return operator.run(bytesValue(new Uint8Array(0)), { ...getDefaultParams(operator), ...overrides }, createOperatorContext())
+}
+
+describe('pbkdf2 算子', () => {
+  // RFC 6070 测试向量
+  const vectorParams = { password: 'password', salt: 'salt', hash: 'SHA-1', keySize: 20, ivSize: 0, output: 'hex' }
+
+  it('对照 RFC 6070 向量', async () => {
+    const result = await run('kdf.pbkdf2', { ...vectorParams, iterations: 2 })
+    expect(result).toEqual({ ok: true, value: textValue('ea6c014dc72d6f8ccd1ed92ace1d41f0d8de8957') })
+  })
+
+  it.each([0, 1.5, Number.NaN, MAX_KDF_ITERATIONS + 1])('迭代次数为 %s 时报错', async (iterations) => {
+    const result = await run('kdf.pbkdf2', { ...vectorParams, iterations })
+    expect(result.ok ? null : result.error.code).toBe('KDF_PARAM_INVALID')
+  })
+})
+
+describe('evpBytesToKey 算子', () => {
+  it('迭代次数超过上限时报错', async () => {
+    const result = await run('kdf.evpBytesToKey', { passphrase: 'password', iterations: MAX_KDF_ITERATIONS + 1 })
+    expect(result.ok ? null : result.error.code).toBe('KDF_PARAM_INVALID')
+  })
+})
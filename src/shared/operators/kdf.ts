@@ -0,0 +1,254 @@
+import type { DerivedKeyIv, DigestAlgorithm, WebDigestAlgorithm } from '../crypto/kdf'
+import type { OperatorContext, OperatorDefinition, OperatorParamSpec, OperatorParams, OperatorResult } from '../pipeline'
+import type { PipelineValue } from '../value'
+import { concatBytes, hexEncode } from '../bytes'
+import { EVP_DIGESTS, MAX_KDF_ITERATIONS, WEB_DIGESTS, evpBytesToKey, hkdf, pbkdf2, splitKeyIv } from '../crypto/kdf'
+import { getNumberParam, getStringParam, operatorFail, operatorOk } from '../pipeline'
+import { textValue } from '../value'
+import { createBytesParamSpecs, readBytesParam } from './params'
+
+/** 密钥派生类算子分类 */
+export const KDF_CATEGORY = '密钥派生'
+
+/** 派生结果输出方式：passthrough 保持输入不变，hex 输出 key||iv 十六进制 */
+const KDF_OUTPUT_MODES = ['passthrough', 'hex']
+
+/** 单次派生长度上限（字节） */
+const MAX_DERIVED_LENGTH = 1024
+
+/** 生成派生长度与变量名参数说明 */
+function createDerivedParamSpecs(defaultIvSize: number): OperatorParamSpec[] {
+  return [
+    {
+      key: 'keySize',
+      label: '密钥长度',
+      type: 'number',
+      default: 32,
+      description: '字节数，AES-128/192/256 对应 16/24/32',
+    },
+    {
+      key: 'ivSize',
+      label: 'IV 长度',
+      type: 'number',
+      default: defaultIvSize,
+      description: '字节数，0 表示不派生 IV',
+    },
+    {
+      key: 'keyVariable',
+      label: '密钥变量名',
+      type: 'string',
+      default: 'key',
+      description: '后续步骤将密钥编码选为 var 并填写此名称即可引用',
+    },
+    {
+      key: 'ivVariable',
+      label: 'IV 变量名',
+      type: 'string',
+      default: 'iv',
+    },
+    {
+      key: 'output',
+      label: '输出',
+      type: 'select',
+      default: 'passthrough',
+      options: KDF_OUTPUT_MODES,
+      description: 'passthrough：输入原样传给下一步；hex：输出派生结果便于核对',
+    },
+  ]
+}
+
+/** 读取派生长度（非法时返回 null） */
+function readDerivedSizes(params: OperatorParams): { keySize: number, ivSize: number } | null {
+  // 密钥与 IV 长度
+  const keySize = getNumberParam(params, 'keySize')
+  const ivSize = getNumberParam(params, 'ivSize')
+  if (!Number.isInteger(keySize) || !Number.isInteger(ivSize) || keySize < 0 || ivSize < 0)
+    return null
+  if (keySize + ivSize === 0 || keySize + ivSize > MAX_DERIVED_LENGTH)
+    return null
+  return { keySize, ivSize }
+}
+
+/** 写入变量并按输出方式生成结果 */
+function finishDerivation(
+  input: PipelineValue,
+  params: OperatorParams,
+  context: OperatorContext,
+  derived: DerivedKeyIv,
+): OperatorResult {
+  // 变量名
+  const keyVariable = getStringParam(params, 'keyVariable').trim()
+  const ivVariable = getStringParam(params, 'ivVariable').trim()
+  if (derived.key.length > 0 && keyVariable)
+    context.variables.set(keyVariable, derived.key)
+  if (derived.iv.length > 0 && ivVariable)
+    context.variables.set(ivVariable, derived.iv)
+  if (getStringParam(params, 'output') === 'hex')
+    return operatorOk(textValue(hexEncode(concatBytes(derived.key, derived.iv))))
+  return operatorOk(input)
+}
+
+/** 长度参数非法时的失败结果 */
+function sizeInvalid(): OperatorResult {
+  return operatorFail('KDF_PARAM_INVALID', `密钥与 IV 长度需为非负整数，合计 1-${MAX_DERIVED_LENGTH} 字节`)
+}
+
+/** 迭代次数是否在允许范围内 */
+function isValidIterations(iterations: number): boolean {
+  return Number.isInteger(iterations) && iterations >= 1 && iterations <= MAX_KDF_ITERATIONS
+}
+
+/** 迭代次数非法时的失败结果 */
+function iterationsInvalid(): OperatorResult {
+  return operatorFail('KDF_PARAM_INVALID', `迭代次数必须为 1-${MAX_KDF_ITERATIONS} 的整数`)
+}
+
+/** EVP_BytesToKey 算子 */
+const evpBytesToKeyOperator: OperatorDefinition = {
+  id: 'kdf.evpBytesToKey',
+  name: 'EVP_BytesToKey',
+  category: KDF_CATEGORY,
+  description: 'OpenSSL/CryptoJS 口令派生密钥与 IV，结果写入流水线变量',
+  params: [
+    ...createBytesParamSpecs('passphrase', '口令'),
+    ...createBytesParamSpecs('salt', '盐', '通常为 8 字节，可留空'),
+    {
+      key: 'hash',
+      label: '摘要算法',
+      type: 'select',
+      default: 'MD5',
+      options: EVP_DIGESTS,
+    },
+    {
+      key: 'iterations',
+      label: '迭代次数',
+      type: 'number',
+      default: 1,
+      description: `通常为 1（1-${MAX_KDF_ITERATIONS}）`,
+    },
+    ...createDerivedParamSpecs(16),
+  ],
+  async run(input, params, context) {
+    // 派生长度
+    const sizes = readDerivedSizes(params)
+    if (!sizes)
+      return sizeInvalid()
+    // 口令与盐
+    const passphrase = readBytesParam(params, 'passphrase', context)
+    const salt = readBytesParam(params, 'salt', context)
+    if (!passphrase || !salt)
+      return operatorFail('KDF_PARAM_INVALID', '口令或盐无法按所选编码解码')
+    // 迭代次数
+    const iterations = getNumberParam(params, 'iterations')
+    if (!isValidIterations(iterations))
+      return iterationsInvalid()
+    const derived = await evpBytesToKey(
+      passphrase,
+      salt,
+      sizes.keySize,
+      sizes.ivSize,
+      getStringParam(params, 'hash') as DigestAlgorithm,
+      iterations,
+    )
+    return finishDerivation(input, params, context, derived)
+  },
+}
+
+/** PBKDF2 算子 */
+const pbkdf2Operator: OperatorDefinition = {
+  id: 'kdf.pbkdf2',
+  name: 'PBKDF2',
+  category: KDF_CATEGORY,
+  description: 'PBKDF2 派生密钥（可附带 IV），结果写入流水线变量',
+  params: [
+    ...createBytesParamSpecs('password', '口令'),
+    ...createBytesParamSpecs('salt', '盐'),
+    {
+      key: 'hash',
+      label: '摘要算法',
+      type: 'select',
+      default: 'SHA-256',
+      options: WEB_DIGESTS,
+      description: 'CryptoJS 4.2 之前默认 SHA-1',
+    },
+    {
+      key: 'iterations',
+      label: '迭代次数',
+      type: 'number',
+      default: 10000,
+      description: `1-${MAX_KDF_ITERATIONS}`,
+    },
+    ...createDerivedParamSpecs(0),
+  ],
+  async run(input, params, context) {
+    // 派生长度
+    const sizes = readDerivedSizes(params)
+    if (!sizes)
+      return sizeInvalid()
+    // 口令与盐
+    const password = readBytesParam(params, 'password', context)
+    const salt = readBytesParam(params, 'salt', context)
+    if (!password || !salt)
+      return operatorFail('KDF_PARAM_INVALID', '口令或盐无法按所选编码解码')
+    // 迭代次数
+    const iterations = getNumberParam(params, 'iterations')
+    if (!isValidIterations(iterations))
+      return iterationsInvalid()
+    const material = await pbkdf2(
+      password,
+      salt,
+      iterations,
+      sizes.keySize + sizes.ivSize,
+      getStringParam(params, 'hash') as WebDigestAlgorithm,
+    )
+    return finishDerivation(input, params, context, splitKeyIv(material, sizes.keySize))
+  },
+}
+
+/** HKDF 算子 */
+const hkdfOperator: OperatorDefinition = {
+  id: 'kdf.hkdf',
+  name: 'HKDF',
+  category: KDF_CATEGORY,
+  description: 'HKDF（RFC 5869）派生密钥（可附带 IV），结果写入流水线变量',
+  params: [
+    ...createBytesParamSpecs('ikm', '输入密钥材料'),
+    ...createBytesParamSpecs('salt', '盐', '可留空'),
+    ...createBytesParamSpecs('info', '上下文信息', '可留空'),
+    {
+      key: 'hash',
+      label: '摘要算法',
+      type: 'select',
+      default: 'SHA-256',
+      options: WEB_DIGESTS,
+    },
+    ...createDerivedParamSpecs(0),
+  ],
+  async run(input, params, context) {
+    // 派生长度
+    const sizes = readDerivedSizes(params)
+    if (!sizes)
+      return sizeInvalid()
+    // 密钥材料、盐与上下文信息
+    const ikm = readBytesParam(params, 'ikm', context)
+    const salt = readBytesParam(params, 'salt', context)
+    const info = readBytesParam(params, 'info', context)
+    if (!ikm || !salt || !info)
+      return operatorFail('KDF_PARAM_INVALID', '密钥材料、盐或上下文信息无法按所选编码解码')
+    const material = await hkdf(
+      ikm,
+      salt,
+      info,
+      sizes.keySize + sizes.ivSize,
+      getStringParam(params, 'hash') as WebDigestAlgorithm,
+    )
+    return finishDerivation(input, params, context, splitKeyIv(material, sizes.keySize))
+  },
+}
+
+/** 密钥派生算子列表：EVP_BytesToKey / PBKDF2 / HKDF */
+export const kdfOperators: OperatorDefinition[] = [
+  evpBytesToKeyOperator,
+  pbkdf2Operator,
+  hkdfOperator,
+]
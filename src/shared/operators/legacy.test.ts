@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import type { OperatorParams, OperatorResult } from '../pipeline'
+import { utf8Encode } from '../bytes'
+import { createOperatorContext, getDefaultParams, getOperator } from '../pipeline'
+import { bytesValue, textValue } from '../value'
+import { registerBuiltinOperators } from './index'
+
+registerBuiltinOperators()
+
+/** 以默认参数 + 覆盖项执行算子 */
+async function run(operatorId: string, input: Uint8Array, overrides: OperatorParams): Promise<OperatorResult> {
+  const operator = getOperator(operatorId)!
+  return operator.run(bytesValue(input), { ...getDefaultParams(operator), ...overrides }, createOperatorContext())
+}
+
+describe('des 算子', () => {
+  it('对照 FIPS 81 CBC 示例', async () => {
+    const result = await run('des.encrypt', utf8Encode('Now is the time for all '), {
+      key: '0123456789abcdef',
+      keyEncoding: 'hex',
+      iv: '1234567890abcdef',
+      ivEncoding: 'hex',
+      mode: 'CBC',
+      padding: 'NoPadding',
+      outputFormat: 'hex',
+    })
+    expect(result).toEqual({ ok: true, value: textValue('e5c7cdde872bf27c43e934008c389c0f683788499a7c05f6') })
+  })
+})
+
+describe('rc4 算子', () => {
+  // RFC 6229 40 位密钥
+  const keyParams = { key: '0102030405', keyEncoding: 'hex', outputFormat: 'hex' }
+
+  it('按 drop 输出偏移处的密钥流', async () => {
+    const result = await run('rc4.encrypt', new Uint8Array(16), { ...keyParams, drop: 1536 })
+    expect(result).toEqual({ ok: true, value: textValue('d8729db41882259bee4f825325f5a130') })
+  })
+
+  it('解密还原明文', async () => {
+    const result = await run('rc4.decrypt', new Uint8Array([0xB2, 0x39, 0x63]), { ...keyParams, inputFormat: 'raw', outputFormat: 'bytes' })
+    expect(result).toEqual({ ok: true, value: bytesValue(new Uint8Array(3)) })
+  })
+
+  it.each([-1, 1.5, Number.NaN, 1024 * 1024 + 1])('drop 为 %s 时报错', async (drop) => {
+    const result = await run('rc4.encrypt', new Uint8Array(16), { ...keyParams, drop })
+    expect(result.ok ? null : result.error.code).toBe('CIPHER_PARAM_INVALID')
+  })
+})
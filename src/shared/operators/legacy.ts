@@ -0,0 +1,130 @@
+import type { OperatorContext, OperatorDefinition, OperatorParams, OperatorResult } from '../pipeline'
+import { createDesCipher, createTripleDesCipher } from '../crypto/des'
+import { rc4 } from '../crypto/rc4'
+import { getNumberParam, getStringParam, operatorFail, operatorOk } from '../pipeline'
+import { valueToBytes } from '../value'
+import { SYMMETRIC_CATEGORY, createBlockCipherOperators } from './block-cipher'
+import {
+  CIPHER_INPUT_FORMATS,
+  CIPHER_OUTPUT_FORMATS,
+  PLAIN_OUTPUT_FORMATS,
+  createBytesParamSpecs,
+  formatCipherOutput,
+  formatPlainOutput,
+  readBytesParam,
+  readCipherInput,
+} from './params'
+
+/** DES / 3DES 支持的模式 */
+const DES_MODES = ['CBC', 'ECB', 'CTR', 'CFB'] as const
+
+/** RC4 丢弃字节数上限（1 MiB） */
+const MAX_RC4_DROP = 1024 * 1024
+
+/** RC4 公共参数说明 */
+const RC4_COMMON_PARAMS = [
+  ...createBytesParamSpecs('key', '密钥', '1-256 字节'),
+  {
+    key: 'drop',
+    label: '丢弃字节数',
+    type: 'number' as const,
+    default: 0,
+    description: `RC4-drop[n]：丢弃密钥流前 n 字节（0-${MAX_RC4_DROP}）`,
+  },
+]
+
+/** 读取并校验 RC4 密钥与丢弃字节数 */
+function resolveRc4Params(params: OperatorParams, context: OperatorContext): { ok: true, key: Uint8Array, drop: number } | { ok: false, result: OperatorResult } {
+  // 密钥
+  const key = readBytesParam(params, 'key', context)
+  if (!key || key.length === 0 || key.length > 256)
+    return { ok: false, result: operatorFail('CIPHER_KEY_INVALID', 'RC4 密钥长度必须为 1-256 字节') }
+  // 丢弃字节数
+  const drop = getNumberParam(params, 'drop')
+  if (!Number.isInteger(drop) || drop < 0 || drop > MAX_RC4_DROP)
+    return { ok: false, result: operatorFail('CIPHER_PARAM_INVALID', `丢弃字节数必须为 0-${MAX_RC4_DROP} 的整数`) }
+  return { ok: true, key, drop }
+}
+
+/** RC4 解密算子 */
+const rc4DecryptOperator: OperatorDefinition = {
+  id: 'rc4.decrypt',
+  name: 'RC4 解密',
+  category: SYMMETRIC_CATEGORY,
+  description: 'RC4 流密码解密',
+  params: [
+    ...RC4_COMMON_PARAMS,
+    {
+      key: 'inputFormat',
+      label: '密文格式',
+      type: 'select',
+      default: 'auto',
+      options: CIPHER_INPUT_FORMATS,
+    },
+    {
+      key: 'outputFormat',
+      label: '明文格式',
+      type: 'select',
+      default: 'auto',
+      options: PLAIN_OUTPUT_FORMATS,
+    },
+  ],
+  run(input, params, context) {
+    // 密钥参数
+    const rc4Params = resolveRc4Params(params, context)
+    if (!rc4Params.ok)
+      return rc4Params.result
+    // 密文
+    const data = readCipherInput(input, getStringParam(params, 'inputFormat'))
+    if (!data)
+      return operatorFail('CIPHER_INPUT_INVALID', '密文无法按所选输入格式解码')
+    return operatorOk(formatPlainOutput(rc4(rc4Params.key, data, rc4Params.drop), getStringParam(params, 'outputFormat')))
+  },
+}
+
+/** RC4 加密算子 */
+const rc4EncryptOperator: OperatorDefinition = {
+  id: 'rc4.encrypt',
+  name: 'RC4 加密',
+  category: SYMMETRIC_CATEGORY,
+  description: 'RC4 流密码加密',
+  params: [
+    ...RC4_COMMON_PARAMS,
+    {
+      key: 'outputFormat',
+      label: '密文格式',
+      type: 'select',
+      default: 'base64',
+      options: CIPHER_OUTPUT_FORMATS,
+    },
+  ],
+  run(input, params, context) {
+    // 密钥参数
+    const rc4Params = resolveRc4Params(params, context)
+    if (!rc4Params.ok)
+      return rc4Params.result
+    return operatorOk(formatCipherOutput(rc4(rc4Params.key, valueToBytes(input), rc4Params.drop), getStringParam(params, 'outputFormat')))
+  },
+}
+
+/** 传统密码算子列表：DES / 3DES / RC4 */
+export const legacyOperators: OperatorDefinition[] = [
+  ...createBlockCipherOperators({
+    idPrefix: 'des',
+    name: 'DES',
+    keySizes: [8],
+    blockSize: 8,
+    modes: [...DES_MODES],
+    createCipher: createDesCipher,
+  }),
+  ...createBlockCipherOperators({
+    idPrefix: 'tripledes',
+    name: '3DES',
+    keySizes: [16, 24],
+    blockSize: 8,
+    modes: [...DES_MODES],
+    createCipher: createTripleDesCipher,
+  }),
+  rc4DecryptOperator,
+  rc4EncryptOperator,
+]
@@ -0,0 +1,126 @@
+import type { OperatorDefinition, OperatorParamSpec } from '../pipeline'
+import { getBooleanParam, getNumberParam, getStringParam, operatorFail, operatorOk } from '../pipeline'
+import { bytesValue, textValue, valueToBytes, valueToText } from '../value'
+import { PLAIN_OUTPUT_FORMATS, createBytesParamSpecs, formatPlainOutput, readBytesParam } from './params'
+
+/** 混淆类算子分类 */
+const CATEGORY = '混淆'
+
+/** 字节运算输出格式参数 */
+const OUTPUT_FORMAT_PARAM: OperatorParamSpec = {
+  key: 'outputFormat',
+  label: '输出格式',
+  type: 'select',
+  default: 'auto',
+  options: PLAIN_OUTPUT_FORMATS,
+  description: 'auto：合法 UTF-8 时输出文本',
+}
+
+/** 生成按循环密钥逐字节运算的算子 */
+function createKeyedByteOperator(
+  id: string,
+  name: string,
+  description: string,
+  combine: (byte: number, keyByte: number) => number,
+): OperatorDefinition {
+  return {
+    id,
+    name,
+    category: CATEGORY,
+    description,
+    params: [
+      ...createBytesParamSpecs('key', '密钥', '按字节循环使用'),
+      OUTPUT_FORMAT_PARAM,
+    ],
+    run(input, params, context) {
+      // 循环密钥
+      const key = readBytesParam(params, 'key', context)
+      if (!key || key.length === 0)
+        return operatorFail('OBFUSCATION_KEY_INVALID', '密钥为空或无法按所选编码解析')
+      // 输入字节
+      const data = valueToBytes(input)
+      const output = new Uint8Array(data.length)
+      for (let index = 0; index < data.length; index += 1)
+        output[index] = combine(data[index]!, key[index % key.length]!) & 0xFF
+      return operatorOk(formatPlainOutput(output, getStringParam(params, 'outputFormat')))
+    },
+  }
+}
+
+/** 按字母表循环位移单个字符（非字母表字符原样返回） */
+function shiftChar(char: string, shift: number, rotateDigits: boolean): string {
+  // 字符码
+  const code = char.charCodeAt(0)
+  if (code >= 0x41 && code <= 0x5A)
+    return String.fromCharCode(0x41 + (((code - 0x41 + shift) % 26) + 26) % 26)
+  if (code >= 0x61 && code <= 0x7A)
+    return String.fromCharCode(0x61 + (((code - 0x61 + shift) % 26) + 26) % 26)
+  if (rotateDigits && code >= 0x30 && code <= 0x39)
+    return String.fromCharCode(0x30 + (((code - 0x30 + shift) % 10) + 10) % 10)
+  return char
+}
+
+/** 字符串/字节反转 */
+const reverseOperator: OperatorDefinition = {
+  id: 'text.reverse',
+  name: '反转',
+  category: CATEGORY,
+  description: '按字符或按字节倒序',
+  params: [
+    {
+      key: 'unit',
+      label: '反转单位',
+      type: 'select',
+      default: 'char',
+      options: ['char', 'byte'],
+      description: 'char：按 Unicode 字符；byte：按原始字节',
+    },
+  ],
+  run(input, params) {
+    if (getStringParam(params, 'unit') === 'byte')
+      return operatorOk(bytesValue(valueToBytes(input).slice().reverse()))
+    // 按码点拆分，避免拆散代理对
+    return operatorOk(textValue(Array.from(valueToText(input)).reverse().join('')))
+  },
+}
+
+/** 凯撒 / ROT-N */
+const rotOperator: OperatorDefinition = {
+  id: 'rot.n',
+  name: '凯撒 / ROT-N',
+  category: CATEGORY,
+  description: '将英文字母按字母表循环位移（默认 ROT13）',
+  params: [
+    {
+      key: 'shift',
+      label: '位移量',
+      type: 'number',
+      default: 13,
+      description: '可为负数；解密时取相反数',
+    },
+    {
+      key: 'rotateDigits',
+      label: '同时位移数字',
+      type: 'boolean',
+      default: false,
+      description: '数字按 0-9 循环（如 ROT5）',
+    },
+  ],
+  run(input, params) {
+    // 位移参数
+    const shift = Math.trunc(getNumberParam(params, 'shift'))
+    const rotateDigits = getBooleanParam(params, 'rotateDigits')
+    // 仅 ASCII 字母与数字参与位移，按 UTF-16 单元替换即可
+    const text = valueToText(input).replace(/[a-z0-9]/gi, char => shiftChar(char, shift, rotateDigits))
+    return operatorOk(textValue(text))
+  },
+}
+
+/** 混淆类算子列表 */
+export const obfuscationOperators: OperatorDefinition[] = [
+  createKeyedByteOperator('xor', 'XOR', '与循环密钥逐字节异或', (byte, keyByte) => byte ^ keyByte),
+  createKeyedByteOperator('bytes.add', '逐字节加', '逐字节加上循环密钥（模 256）', (byte, keyByte) => byte + keyByte),
+  createKeyedByteOperator('bytes.subtract', '逐字节减', '逐字节减去循环密钥（模 256）', (byte, keyByte) => byte - keyByte),
+  reverseOperator,
+  rotOperator,
+]
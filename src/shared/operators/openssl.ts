@@ -0,0 +1,205 @@
+import type { DerivedKeyIv, DigestAlgorithm, WebDigestAlgorithm } from '../crypto/kdf'
+import type { BlockCipher } from '../crypto/types'
+import type { OperatorContext, OperatorDefinition, OperatorParamSpec, OperatorParams } from '../pipeline'
+import { concatBytes, latin1Decode, utf8Encode } from '../bytes'
+import { createAesCipher } from '../crypto/aes'
+import { createDesCipher, createTripleDesCipher } from '../crypto/des'
+import { MAX_KDF_ITERATIONS, WEB_DIGESTS, evpBytesToKey, pbkdf2, splitKeyIv } from '../crypto/kdf'
+import { cbcDecrypt, cbcEncrypt } from '../crypto/modes'
+import { applyPadding, removePadding } from '../crypto/padding'
+import { getNumberParam, getStringParam, operatorFail, operatorOk } from '../pipeline'
+import { valueToBytes } from '../value'
+import { SYMMETRIC_CATEGORY } from './block-cipher'
+import {
+  CIPHER_INPUT_FORMATS,
+  CIPHER_OUTPUT_FORMATS,
+  PLAIN_OUTPUT_FORMATS,
+  createBytesParamSpecs,
+  formatCipherOutput,
+  formatPlainOutput,
+  readBytesParam,
+  readCipherInput,
+} from './params'
+
+/** OpenSSL 口令加密格式头 */
+const SALTED_MAGIC = 'Salted__'
+
+/** 盐长度（字节） */
+const SALT_SIZE = 8
+
+/** 口令加密使用的分组密码 */
+interface PassphraseCipherSpec {
+  /** 密钥长度（字节） */
+  keySize: number
+  /** 分组长度（字节，亦为 IV 长度） */
+  blockSize: number
+  /** 创建分组密码实例 */
+  createCipher: (key: Uint8Array) => BlockCipher
+}
+
+/** 可选密码算法（与 CryptoJS.AES / TripleDES / DES 的口令模式对应） */
+const PASSPHRASE_CIPHERS: Record<string, PassphraseCipherSpec> = {
+  'AES-256': { keySize: 32, blockSize: 16, createCipher: createAesCipher },
+  'AES-192': { keySize: 24, blockSize: 16, createCipher: createAesCipher },
+  'AES-128': { keySize: 16, blockSize: 16, createCipher: createAesCipher },
+  'TripleDES': { keySize: 24, blockSize: 8, createCipher: createTripleDesCipher },
+  'DES': { keySize: 8, blockSize: 8, createCipher: createDesCipher },
+}
+
+/** 可选密钥派生方式 */
+const PASSPHRASE_KDFS = ['EVP_BytesToKey', 'PBKDF2']
+
+/** 口令加解密公共参数说明 */
+const PASSPHRASE_PARAMS: OperatorParamSpec[] = [
+  ...createBytesParamSpecs('passphrase', '口令', '如 CryptoJS.AES.decrypt(data, "口令") 中的口令'),
+  {
+    key: 'cipher',
+    label: '算法',
+    type: 'select',
+    default: 'AES-256',
+    options: Object.keys(PASSPHRASE_CIPHERS),
+    description: '固定 CBC + PKCS7',
+  },
+  {
+    key: 'kdf',
+    label: '密钥派生',
+    type: 'select',
+    default: 'EVP_BytesToKey',
+    options: PASSPHRASE_KDFS,
+    description: 'openssl enc -pbkdf2 时选 PBKDF2',
+  },
+  {
+    key: 'hash',
+    label: '摘要算法',
+    type: 'select',
+    default: 'MD5',
+    options: ['MD5', ...WEB_DIGESTS],
+    description: 'CryptoJS 为 MD5；OpenSSL 1.1+ 默认 SHA-256；PBKDF2 不支持 MD5',
+  },
+  {
+    key: 'iterations',
+    label: '迭代次数',
+    type: 'number',
+    default: 1,
+    description: `EVP_BytesToKey 通常为 1；openssl -pbkdf2 默认 10000（1-${MAX_KDF_ITERATIONS}）`,
+  },
+]
+
+/** 按参数派生密钥与 IV（参数非法时返回错误描述） */
+async function deriveKeyIv(
+  params: OperatorParams,
+  context: OperatorContext,
+  spec: PassphraseCipherSpec,
+  salt: Uint8Array,
+): Promise<{ ok: true, value: DerivedKeyIv } | { ok: false, message: string }> {
+  // 口令
+  const passphrase = readBytesParam(params, 'passphrase', context)
+  if (!passphrase)
+    return { ok: false, message: '口令无法按所选编码解码' }
+  // 迭代次数与摘要
+  const iterations = getNumberParam(params, 'iterations')
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_KDF_ITERATIONS)
+    return { ok: false, message: `迭代次数必须为 1-${MAX_KDF_ITERATIONS} 的整数` }
+  const hash = getStringParam(params, 'hash') as DigestAlgorithm
+  if (getStringParam(params, 'kdf') === 'PBKDF2') {
+    if (hash === 'MD5')
+      return { ok: false, message: 'PBKDF2 不支持 MD5，请选择 SHA 系列' }
+    const material = await pbkdf2(passphrase, salt, iterations, spec.keySize + spec.blockSize, hash as WebDigestAlgorithm)
+    return { ok: true, value: splitKeyIv(material, spec.keySize) }
+  }
+  return { ok: true, value: await evpBytesToKey(passphrase, salt, spec.keySize, spec.blockSize, hash, iterations) }
+}
+
+/** OpenSSL/CryptoJS 口令解密算子 */
+const opensslDecryptOperator: OperatorDefinition = {
+  id: 'openssl.decrypt',
+  name: 'OpenSSL 口令解密',
+  category: SYMMETRIC_CATEGORY,
+  description: '解密 "Salted__" + 盐 + 密文格式（CryptoJS 口令模式、openssl enc 输出）',
+  params: [
+    ...PASSPHRASE_PARAMS,
+    {
+      key: 'inputFormat',
+      label: '密文格式',
+      type: 'select',
+      default: 'auto',
+      options: CIPHER_INPUT_FORMATS,
+      description: 'CryptoJS 默认输出 Base64（以 U2FsdGVkX1 开头）',
+    },
+    {
+      key: 'outputFormat',
+      label: '明文格式',
+      type: 'select',
+      default: 'auto',
+      options: PLAIN_OUTPUT_FORMATS,
+    },
+  ],
+  async run(input, params, context) {
+    // 算法
+    const spec = PASSPHRASE_CIPHERS[getStringParam(params, 'cipher')]!
+    // 读取密文
+    const data = readCipherInput(input, getStringParam(params, 'inputFormat'))
+    if (!data)
+      return operatorFail('CIPHER_INPUT_INVALID', '密文无法按所选输入格式解码')
+    if (data.length < SALTED_MAGIC.length + SALT_SIZE || latin1Decode(data.subarray(0, SALTED_MAGIC.length)) !== SALTED_MAGIC)
+      return operatorFail('CIPHER_INPUT_INVALID', '密文缺少 "Salted__" 头，不是 OpenSSL 口令加密格式')
+    // 盐与密文
+    const salt = data.subarray(SALTED_MAGIC.length, SALTED_MAGIC.length + SALT_SIZE)
+    const ciphertext = data.subarray(SALTED_MAGIC.length + SALT_SIZE)
+    if (ciphertext.length === 0 || ciphertext.length % spec.blockSize !== 0)
+      return operatorFail('CIPHER_INPUT_INVALID', `密文长度 ${ciphertext.length} 不是分组长度 ${spec.blockSize} 的整数倍`)
+    // 派生密钥
+    const derived = await deriveKeyIv(params, context, spec, salt)
+    if (!derived.ok)
+      return operatorFail('KDF_PARAM_INVALID', derived.message)
+    const { key, iv } = derived.value
+    // 解密并去除填充
+    const plain = removePadding(cbcDecrypt(spec.createCipher(key), ciphertext, iv), spec.blockSize, 'PKCS7')
+    if (!plain)
+      return operatorFail('CIPHER_PADDING_INVALID', 'PKCS7 填充校验失败（口令、算法或摘要可能有误）')
+    return operatorOk(formatPlainOutput(plain, getStringParam(params, 'outputFormat')))
+  },
+}
+
+/** OpenSSL/CryptoJS 口令加密算子 */
+const opensslEncryptOperator: OperatorDefinition = {
+  id: 'openssl.encrypt',
+  name: 'OpenSSL 口令加密',
+  category: SYMMETRIC_CATEGORY,
+  description: '生成 "Salted__" + 盐 + 密文格式（与 CryptoJS 口令模式兼容）',
+  params: [
+    ...PASSPHRASE_PARAMS,
+    ...createBytesParamSpecs('salt', '盐', '8 字节；留空时随机生成'),
+    {
+      key: 'outputFormat',
+      label: '密文格式',
+      type: 'select',
+      default: 'base64',
+      options: CIPHER_OUTPUT_FORMATS,
+    },
+  ],
+  async run(input, params, context) {
+    // 算法
+    const spec = PASSPHRASE_CIPHERS[getStringParam(params, 'cipher')]!
+    // 盐：留空时随机生成
+    const saltParam = readBytesParam(params, 'salt', context)
+    if (!saltParam || (saltParam.length !== 0 && saltParam.length !== SALT_SIZE))
+      return operatorFail('KDF_PARAM_INVALID', `盐必须为 ${SALT_SIZE} 字节或留空`)
+    const salt = saltParam.length > 0 ? saltParam : crypto.getRandomValues(new Uint8Array(SALT_SIZE))
+    // 派生密钥
+    const derived = await deriveKeyIv(params, context, spec, salt)
+    if (!derived.ok)
+      return operatorFail('KDF_PARAM_INVALID', derived.message)
+    const { key, iv } = derived.value
+    // 填充后加密
+    const padded = applyPadding(valueToBytes(input), spec.blockSize, 'PKCS7')!
+    const ciphertext = cbcEncrypt(spec.createCipher(key), padded, iv)
+    return operatorOk(formatCipherOutput(concatBytes(utf8Encode(SALTED_MAGIC), salt, ciphertext), getStringParam(params, 'outputFormat')))
+  },
+}
+
+/** OpenSSL 口令格式算子列表 */
+export const opensslOperators: OperatorDefinition[] = [
+  opensslDecryptOperator,
+  opensslEncryptOperator,
+]
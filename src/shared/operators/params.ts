@@ -0,0 +1,87 @@
+import type { OperatorContext, OperatorParamSpec, OperatorParams } from '../pipeline'
+import type { PipelineValue } from '../value'
+import { base64Decode, base64Encode, hexDecode, hexEncode, utf8Decode, utf8Encode } from '../bytes'
+import { getStringParam } from '../pipeline'
+import { bytesValue, textValue, valueToBytes, valueToText } from '../value'
+
+/** 字节参数（key/iv 等）可选编码；var 表示参数值为流水线变量名 */
+export const BYTE_PARAM_ENCODINGS = ['utf8', 'hex', 'base64', 'var']
+
+/** 密文输入格式：auto 时字节原样使用，文本按 hex/base64 识别 */
+export const CIPHER_INPUT_FORMATS = ['auto', 'raw', 'base64', 'hex']
+
+/** 明文输出格式：auto 时合法 UTF-8 输出文本，否则输出字节 */
+export const PLAIN_OUTPUT_FORMATS = ['auto', 'bytes']
+
+/** 密文输出格式 */
+export const CIPHER_OUTPUT_FORMATS = ['base64', 'hex', 'bytes']
+
+/** 纯十六进制文本正则 */
+const HEX_TEXT_PATTERN = /^(?:[0-9a-f]{2})+$/i
+
+/** 按编码解码字节参数（非法输入或变量不存在时返回 null） */
+export function decodeParamBytes(text: string, encoding: string, context?: OperatorContext): Uint8Array | null {
+  if (encoding === 'var')
+    return context?.variables.get(text.trim()) ?? null
+  if (encoding === 'hex')
+    return hexDecode(text)
+  if (encoding === 'base64')
+    return base64Decode(text)
+  return utf8Encode(text)
+}
+
+/** 读取参数表中的字节参数（约定编码参数键为 `${key}Encoding`） */
+export function readBytesParam(params: OperatorParams, key: string, context?: OperatorContext): Uint8Array | null {
+  return decodeParamBytes(getStringParam(params, key), getStringParam(params, `${key}Encoding`), context)
+}
+
+/** 生成字节参数及其编码参数说明 */
+export function createBytesParamSpecs(key: string, label: string, description?: string): OperatorParamSpec[] {
+  return [
+    {
+      key,
+      label,
+      type: 'string',
+      default: '',
+      description,
+    },
+    {
+      key: `${key}Encoding`,
+      label: `${label}编码`,
+      type: 'select',
+      default: 'utf8',
+      options: BYTE_PARAM_ENCODINGS,
+    },
+  ]
+}
+
+/** 按输入格式读取密文字节 */
+export function readCipherInput(value: PipelineValue, format: string): Uint8Array | null {
+  if (format === 'raw' || (format === 'auto' && value.type === 'bytes'))
+    return valueToBytes(value)
+  // 文本内容
+  const text = valueToText(value).trim()
+  if (format === 'hex' || (format === 'auto' && HEX_TEXT_PATTERN.test(text)))
+    return hexDecode(text)
+  return base64Decode(text)
+}
+
+/** 按输出格式包装明文字节 */
+export function formatPlainOutput(bytes: Uint8Array, format: string): PipelineValue {
+  if (format === 'auto') {
+    // 严格 UTF-8 解码，成功则转为文本（可无损还原）
+    const text = utf8Decode(bytes, true)
+    if (text !== null)
+      return textValue(text)
+  }
+  return bytesValue(bytes)
+}
+
+/** 按输出格式包装密文字节 */
+export function formatCipherOutput(bytes: Uint8Array, format: string): PipelineValue {
+  if (format === 'hex')
+    return textValue(hexEncode(bytes))
+  if (format === 'base64')
+    return textValue(base64Encode(bytes))
+  return bytesValue(bytes)
+}
@@ -0,0 +1,132 @@
+import type { Sm2C1Format, Sm2CipherMode } from '../crypto/sm2'
+import type { OperatorDefinition } from '../pipeline'
+import { sm2Decrypt } from '../crypto/sm2'
+import { sm3 } from '../crypto/sm3'
+import { SM4_KEY_SIZE, createSm4Cipher } from '../crypto/sm4'
+import { getStringParam, operatorFail, operatorOk } from '../pipeline'
+import { valueToBytes } from '../value'
+import { createBlockCipherOperators } from './block-cipher'
+import {
+  CIPHER_INPUT_FORMATS,
+  PLAIN_OUTPUT_FORMATS,
+  formatCipherOutput,
+  formatPlainOutput,
+  readBytesParam,
+  readCipherInput,
+} from './params'
+
+/** SM2 解密失败原因对应的提示 */
+const SM2_FAILURE_MESSAGES: Record<string, string> = {
+  KEY_INVALID: 'SM2 私钥无效（需为 32 字节且小于曲线阶）',
+  INPUT_INVALID: 'SM2 密文长度不足',
+  C1_INVALID: 'C1 不是曲线上的点（检查 C1 格式或密文编码）',
+  KDF_ZERO: 'KDF 输出全零，密文无效',
+  C3_MISMATCH: 'C3 校验失败（私钥或密文排列方式可能有误）',
+}
+
+/** SM3 摘要算子 */
+const sm3Operator: OperatorDefinition = {
+  id: 'sm3.hash',
+  name: 'SM3 摘要',
+  category: '哈希',
+  description: '计算输入字节的 SM3 摘要',
+  params: [
+    {
+      key: 'outputFormat',
+      label: '输出格式',
+      type: 'select',
+      default: 'hex',
+      options: ['hex', 'base64', 'bytes'],
+    },
+  ],
+  run(input, params) {
+    return operatorOk(formatCipherOutput(sm3(valueToBytes(input)), getStringParam(params, 'outputFormat')))
+  },
+}
+
+/** SM2 解密算子 */
+const sm2DecryptOperator: OperatorDefinition = {
+  id: 'sm2.decrypt',
+  name: 'SM2 解密',
+  category: '非对称加密',
+  description: '使用 SM2 私钥解密（支持 C1C3C2 / C1C2C3）',
+  params: [
+    {
+      key: 'privateKey',
+      label: '私钥',
+      type: 'string',
+      default: '',
+      description: '32 字节私钥',
+    },
+    {
+      key: 'privateKeyEncoding',
+      label: '私钥编码',
+      type: 'select',
+      default: 'hex',
+      options: ['hex', 'base64'],
+    },
+    {
+      key: 'cipherMode',
+      label: '密文排列',
+      type: 'select',
+      default: 'C1C3C2',
+      options: ['C1C3C2', 'C1C2C3'],
+    },
+    {
+      key: 'c1Format',
+      label: 'C1 格式',
+      type: 'select',
+      default: 'auto',
+      options: ['auto', 'prefixed', 'raw'],
+      description: 'prefixed：04||x||y；raw：x||y（如 sm-crypto 输出）',
+    },
+    {
+      key: 'inputFormat',
+      label: '密文格式',
+      type: 'select',
+      default: 'auto',
+      options: CIPHER_INPUT_FORMATS,
+    },
+    {
+      key: 'outputFormat',
+      label: '明文格式',
+      type: 'select',
+      default: 'auto',
+      options: PLAIN_OUTPUT_FORMATS,
+    },
+  ],
+  run(input, params) {
+    // 私钥
+    const privateKey = readBytesParam(params, 'privateKey')
+    if (!privateKey || privateKey.length !== 32)
+      return operatorFail('SM2_KEY_INVALID', `SM2 私钥必须为 32 字节，当前 ${privateKey?.length ?? '无法解码'}`)
+    // 密文
+    const data = readCipherInput(input, getStringParam(params, 'inputFormat'))
+    if (!data)
+      return operatorFail('CIPHER_INPUT_INVALID', '密文无法按所选输入格式解码')
+    // 解密
+    const result = sm2Decrypt(
+      privateKey,
+      data,
+      getStringParam(params, 'cipherMode') as Sm2CipherMode,
+      getStringParam(params, 'c1Format') as Sm2C1Format,
+    )
+    if (!result.ok)
+      return operatorFail(`SM2_${result.reason}`, SM2_FAILURE_MESSAGES[result.reason] ?? 'SM2 解密失败')
+    return operatorOk(formatPlainOutput(result.plaintext, getStringParam(params, 'outputFormat')))
+  },
+}
+
+/** 国密算子列表：SM4 / SM3 / SM2 */
+export const smOperators: OperatorDefinition[] = [
+  ...createBlockCipherOperators({
+    idPrefix: 'sm4',
+    name: 'SM4',
+    keySizes: [SM4_KEY_SIZE],
+    blockSize: 16,
+    modes: ['ECB', 'CBC', 'CTR', 'CFB', 'GCM'],
+    createCipher: createSm4Cipher,
+  }),
+  sm3Operator,
+  sm2DecryptOperator,
+]
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import type { OperatorDefinition } from './pipeline'
+import { registerBuiltinOperators } from './operators/index'
+import { operatorOk, parsePipelineDefinition, parsePipelineTrace, registerOperators, runPipelineSteps, toPipelineTrace } from './pipeline'
+import { jsonValue, textValue } from './value'
+
+registerBuiltinOperators()
+
+/** 测试用算子：记录执行次数，原样输出 */
+const countingOperator: OperatorDefinition & { calls: number } = {
+  id: 'test.count',
+  name: '计数',
+  category: '测试',
+  description: '记录执行次数',
+  params: [],
+  calls: 0,
+  run(input) {
+    countingOperator.calls += 1
+    return operatorOk(input)
+  },
+}
+
+/** 测试用算子：始终抛出异常 */
+const throwingOperator: OperatorDefinition = {
+  id: 'test.throw',
+  name: '抛错',
+  category: '测试',
+  description: '始终抛出异常',
+  params: [],
+  run() {
+    throw new Error('boom')
+  },
+}
+
+registerOperators([countingOperator, throwingOperator])
+
+describe('runPipelineSteps', () => {
+  it('按顺序执行并输出最终值', async () => {
+    const result = await runPipelineSteps([
+      { operatorId: 'base64.decode', params: {} },
+      { operatorId: 'utf8.decode', params: {} },
+      { operatorId: 'json.parse', params: {} },
+    ], textValue('eyJhIjoxfQ=='))
+    expect(result.ok).toBe(true)
+    expect(result.output).toEqual(jsonValue({ a: 1 }))
+    expect(result.steps.map(step => step.index)).toEqual([0, 1, 2])
+    expect(result.steps[1]?.input.type).toBe('bytes')
+  })
+
+  it('步骤失败即停止，后续步骤不执行', async () => {
+    countingOperator.calls = 0
+    const result = await runPipelineSteps([
+      { operatorId: 'test.count', params: {} },
+      { operatorId: 'base64.decode', params: {} },
+      { operatorId: 'test.count', params: {} },
+    ], textValue('不是 base64'))
+    expect(result.ok).toBe(false)
+    expect(result.output).toBeNull()
+    expect(result.error?.code).toBe('BASE64_DECODE_FAILED')
+    expect(result.steps).toHaveLength(2)
+    expect(result.steps[1]).toMatchObject({ index: 1, output: null, error: { code: 'BASE64_DECODE_FAILED' } })
+    expect(countingOperator.calls).toBe(1)
+  })
+
+  it('跳过禁用的步骤', async () => {
+    const result = await runPipelineSteps([
+      { operatorId: 'base64.decode', params: {}, disabled: true },
+      { operatorId: 'text.reverse', params: {} },
+    ], textValue('abc'))
+    expect(result.output).toEqual(textValue('cba'))
+    expect(result.steps[0]).toMatchObject({ skipped: true, output: null })
+  })
+
+  it.each([
+    ['未知算子', { operatorId: 'missing', params: {} }, 'PIPELINE_OPERATOR_NOT_FOUND'],
+    ['参数类型错误', { operatorId: 'utf8.decode', params: { strict: 'yes' } }, 'PIPELINE_PARAM_INVALID'],
+    ['算子抛出异常', { operatorId: 'test.throw', params: {} }, 'PIPELINE_STEP_FAILED'],
+  ])('%s时返回结构化错误', async (_title, step, code) => {
+    const result = await runPipelineSteps([step], textValue('abc'))
+    expect(result.ok).toBe(false)
+    expect(result.error?.code).toBe(code)
+    expect(result.steps[0]?.error?.code).toBe(code)
+  })
+
+  it('执行快照可序列化后还原', async () => {
+    const result = await runPipelineSteps([{ operatorId: 'base64.decode', params: {} }], textValue('!'))
+    const trace = toPipelineTrace(result)
+    expect(parsePipelineTrace(JSON.parse(JSON.stringify(trace)))).toEqual(JSON.parse(JSON.stringify(trace)))
+  })
+})
+
+describe('parsePipelineDefinition', () => {
+  it('解析合法定义并拒绝非法步骤', () => {
+    const definition = { id: 'p1', name: '示例', steps: [{ operatorId: 'base64.decode', params: {} }, { operatorId: 'text.reverse', disabled: true }] }
+    expect(parsePipelineDefinition(definition)).toEqual({
+      id: 'p1',
+      name: '示例',
+      steps: [{ operatorId: 'base64.decode', params: {} }, { operatorId: 'text.reverse', params: {}, disabled: true }],
+    })
+    expect(parsePipelineDefinition({ ...definition, steps: [{ params: {} }] })).toBeNull()
+    expect(parsePipelineDefinition({ ...definition, steps: [{ operatorId: 'x', params: { nested: {} } }] })).toBeNull()
+  })
+})
@@ -0,0 +1,428 @@
+import type { AppError } from './messages'
+import type { PipelineValue, PipelineValueSnapshot } from './value'
+import { parseValueSnapshot, snapshotValue } from './value'
+
+/** 算子参数值 */
+export type OperatorParamValue = string | number | boolean
+
+/** 算子参数表 */
+export type OperatorParams = Record<string, OperatorParamValue>
+
+/** 算子参数类型（steps：以 JSON 文本保存的子流水线步骤列表） */
+export type OperatorParamType = 'string' | 'number' | 'boolean' | 'select' | 'steps'
+
+/** 算子参数说明 */
+export interface OperatorParamSpec {
+  /** 参数键 */
+  key: string
+  /** 展示名称 */
+  label: string
+  /** 参数类型 */
+  type: OperatorParamType
+  /** 默认值 */
+  default: OperatorParamValue
+  /** 可选项（select 类型使用） */
+  options?: string[]
+  /** 参数说明 */
+  description?: string
+}
+
+/** 算子执行上下文（同一次流水线执行内共享） */
+export interface OperatorContext {
+  /** 流水线变量：由密钥派生等步骤写入，供后续步骤的字节参数引用 */
+  variables: Map<string, Uint8Array>
+}
+
+/** 算子执行结果 */
+export type OperatorResult = { ok: true, value: PipelineValue } | { ok: false, error: AppError }
+
+/** 算子定义 */
+export interface OperatorDefinition {
+  /** 算子唯一标识 */
+  id: string
+  /** 展示名称 */
+  name: string
+  /** 分类（用于步骤选择器分组） */
+  category: string
+  /** 算子说明 */
+  description: string
+  /** 参数说明列表 */
+  params: OperatorParamSpec[]
+  /** 执行算子 */
+  run: (input: PipelineValue, params: OperatorParams, context: OperatorContext) => OperatorResult | Promise<OperatorResult>
+}
+
+/** 流水线步骤定义 */
+export interface PipelineStep {
+  /** 算子标识 */
+  operatorId: string
+  /** 参数表 */
+  params: OperatorParams
+  /** 是否跳过该步骤 */
+  disabled?: boolean
+}
+
+/** 流水线定义（可序列化） */
+export interface PipelineDefinition {
+  /** 流水线唯一标识 */
+  id: string
+  /** 流水线名称 */
+  name: string
+  /** 步骤列表 */
+  steps: PipelineStep[]
+}
+
+/** 单步执行结果 */
+export interface PipelineStepResult {
+  /** 步骤序号 */
+  index: number
+  /** 算子标识 */
+  operatorId: string
+  /** 是否跳过 */
+  skipped: boolean
+  /** 步骤输入 */
+  input: PipelineValue
+  /** 步骤输出（失败或跳过时为 null） */
+  output: PipelineValue | null
+  /** 步骤错误 */
+  error?: AppError
+  /** 耗时（毫秒） */
+  durationMs: number
+}
+
+/** 流水线执行结果 */
+export interface PipelineRunResult {
+  /** 是否全部成功 */
+  ok: boolean
+  /** 最终输出（失败时为 null） */
+  output: PipelineValue | null
+  /** 各步骤结果 */
+  steps: PipelineStepResult[]
+  /** 失败时的错误 */
+  error?: AppError
+}
+
+/** 单步执行结果快照 */
+export interface PipelineStepTrace {
+  /** 步骤序号 */
+  index: number
+  /** 算子标识 */
+  operatorId: string
+  /** 是否跳过 */
+  skipped: boolean
+  /** 步骤输入 */
+  input: PipelineValueSnapshot
+  /** 步骤输出 */
+  output: PipelineValueSnapshot | null
+  /** 步骤错误 */
+  error?: AppError
+  /** 耗时（毫秒） */
+  durationMs: number
+}
+
+/** 流水线执行结果快照（可跨端口传递） */
+export interface PipelineTrace {
+  /** 是否全部成功 */
+  ok: boolean
+  /** 最终输出 */
+  output: PipelineValueSnapshot | null
+  /** 各步骤结果 */
+  steps: PipelineStepTrace[]
+  /** 失败时的错误 */
+  error?: AppError
+}
+
+/** 算子注册表 */
+const operatorRegistry = new Map<string, OperatorDefinition>()
+
+/** 创建结构化错误 */
+export function createPipelineError(code: string, message: string, cause?: unknown): AppError {
+  return { code, message, cause }
+}
+
+/** 创建空的执行上下文 */
+export function createOperatorContext(): OperatorContext {
+  return { variables: new Map() }
+}
+
+/** 生成成功的算子结果 */
+export function operatorOk(value: PipelineValue): OperatorResult {
+  return { ok: true, value }
+}
+
+/** 生成失败的算子结果 */
+export function operatorFail(code: string, message: string, cause?: unknown): OperatorResult {
+  return { ok: false, error: createPipelineError(code, message, cause) }
+}
+
+/** 注册算子（同 id 覆盖） */
+export function registerOperators(operators: OperatorDefinition[]): void {
+  for (const operator of operators)
+    operatorRegistry.set(operator.id, operator)
+}
+
+/** 按 id 读取算子 */
+export function getOperator(operatorId: string): OperatorDefinition | null {
+  return operatorRegistry.get(operatorId) ?? null
+}
+
+/** 列出全部已注册算子 */
+export function listOperators(): OperatorDefinition[] {
+  return [...operatorRegistry.values()]
+}
+
+/** 读取字符串参数 */
+export function getStringParam(params: OperatorParams, key: string): string {
+  // 参数值
+  const value = params[key]
+  return typeof value === 'string' ? value : String(value ?? '')
+}
+
+/** 读取数字参数 */
+export function getNumberParam(params: OperatorParams, key: string): number {
+  // 参数值
+  const value = params[key]
+  return typeof value === 'number' ? value : Number(value)
+}
+
+/** 读取布尔参数 */
+export function getBooleanParam(params: OperatorParams, key: string): boolean {
+  return params[key] === true
+}
+
+/** 读取子流水线步骤参数（JSON 文本非法时返回 null） */
+export function getStepsParam(params: OperatorParams, key: string): PipelineStep[] | null {
+  try {
+    return parsePipelineSteps(JSON.parse(getStringParam(params, key)))
+  }
+  catch {
+    return null
+  }
+}
+
+/** 按参数说明补齐默认值并校验类型 */
+export function resolveOperatorParams(
+  operator: OperatorDefinition,
+  params: OperatorParams,
+): { ok: true, params: OperatorParams } | { ok: false, error: AppError } {
+  // 解析后的参数表
+  const resolved: OperatorParams = {}
+  for (const spec of operator.params) {
+    // 用户提供的值
+    const value = params[spec.key] ?? spec.default
+    if (spec.type === 'number' && (typeof value !== 'number' || !Number.isFinite(value)))
+      return { ok: false, error: createPipelineError('PIPELINE_PARAM_INVALID', `参数「${spec.label}」必须为数字`) }
+    if (spec.type === 'boolean' && typeof value !== 'boolean')
+      return { ok: false, error: createPipelineError('PIPELINE_PARAM_INVALID', `参数「${spec.label}」必须为布尔值`) }
+    if ((spec.type === 'string' || spec.type === 'select' || spec.type === 'steps') && typeof value !== 'string')
+      return { ok: false, error: createPipelineError('PIPELINE_PARAM_INVALID', `参数「${spec.label}」必须为字符串`) }
+    if (spec.type === 'steps' && !getStepsParam({ [spec.key]: value }, spec.key))
+      return { ok: false, error: createPipelineError('PIPELINE_PARAM_INVALID', `参数「${spec.label}」不是合法的步骤列表`) }
+    if (spec.type === 'select' && spec.options && !spec.options.includes(value as string))
+      return { ok: false, error: createPipelineError('PIPELINE_PARAM_INVALID', `参数「${spec.label}」取值不在可选范围内`) }
+    resolved[spec.key] = value
+  }
+  return { ok: true, params: resolved }
+}
+
+/** 生成算子的默认参数表 */
+export function getDefaultParams(operator: OperatorDefinition): OperatorParams {
+  // 默认参数
+  const params: OperatorParams = {}
+  for (const spec of operator.params)
+    params[spec.key] = spec.default
+  return params
+}
+
+/** 读取当前时间（毫秒） */
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now()
+}
+
+/** 执行单个步骤 */
+async function runStep(step: PipelineStep, input: PipelineValue, context: OperatorContext): Promise<OperatorResult> {
+  // 查找算子
+  const operator = getOperator(step.operatorId)
+  if (!operator)
+    return operatorFail('PIPELINE_OPERATOR_NOT_FOUND', `未知算子：${step.operatorId}`)
+  // 解析参数
+  const resolved = resolveOperatorParams(operator, step.params)
+  if (!resolved.ok)
+    return resolved
+  // 执行算子，捕获意外异常
+  try {
+    return await operator.run(input, resolved.params, context)
+  }
+  catch (error) {
+    return operatorFail('PIPELINE_STEP_FAILED', `${operator.name} 执行异常`, error)
+  }
+}
+
+/** 顺序执行流水线步骤，失败即停止 */
+export async function runPipelineSteps(
+  steps: PipelineStep[],
+  input: PipelineValue,
+  context: OperatorContext = createOperatorContext(),
+): Promise<PipelineRunResult> {
+  // 步骤结果
+  const results: PipelineStepResult[] = []
+  // 当前值
+  let current = input
+  for (const [index, step] of steps.entries()) {
+    if (step.disabled) {
+      results.push({ index, operatorId: step.operatorId, skipped: true, input: current, output: null, durationMs: 0 })
+      continue
+    }
+    // 开始时间
+    const startedAt = now()
+    // 执行结果
+    const result = await runStep(step, current, context)
+    // 耗时
+    const durationMs = now() - startedAt
+    if (!result.ok) {
+      results.push({ index, operatorId: step.operatorId, skipped: false, input: current, output: null, error: result.error, durationMs })
+      return { ok: false, output: null, steps: results, error: result.error }
+    }
+    results.push({ index, operatorId: step.operatorId, skipped: false, input: current, output: result.value, durationMs })
+    current = result.value
+  }
+  return { ok: true, output: current, steps: results }
+}
+
+/** 执行流水线定义 */
+export function runPipeline(definition: PipelineDefinition, input: PipelineValue, context?: OperatorContext): Promise<PipelineRunResult> {
+  return runPipelineSteps(definition.steps, input, context)
+}
+
+/** 将执行结果转为可序列化快照 */
+export function toPipelineTrace(result: PipelineRunResult): PipelineTrace {
+  return {
+    ok: result.ok,
+    output: result.output ? snapshotValue(result.output) : null,
+    steps: result.steps.map(step => ({
+      index: step.index,
+      operatorId: step.operatorId,
+      skipped: step.skipped,
+      input: snapshotValue(step.input),
+      output: step.output ? snapshotValue(step.output) : null,
+      error: step.error,
+      durationMs: step.durationMs,
+    })),
+    error: result.error,
+  }
+}
+
+/** 判断对象类型 */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/** 解析参数表 */
+function parseOperatorParams(value: unknown): OperatorParams | null {
+  if (!isRecord(value))
+    return null
+  // 解析结果
+  const params: OperatorParams = {}
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item !== 'string' && typeof item !== 'number' && typeof item !== 'boolean')
+      return null
+    params[key] = item
+  }
+  return params
+}
+
+/** 解析步骤定义 */
+export function parsePipelineStep(value: unknown): PipelineStep | null {
+  if (!isRecord(value))
+    return null
+  // 算子标识
+  const operatorId = typeof value.operatorId === 'string' ? value.operatorId : null
+  // 参数表
+  const params = parseOperatorParams(value.params ?? {})
+  if (!operatorId || !params)
+    return null
+  return value.disabled === true
+    ? { operatorId, params, disabled: true }
+    : { operatorId, params }
+}
+
+/** 解析步骤列表 */
+export function parsePipelineSteps(value: unknown): PipelineStep[] | null {
+  if (!Array.isArray(value))
+    return null
+  // 步骤列表
+  const steps: PipelineStep[] = []
+  for (const item of value) {
+    const step = parsePipelineStep(item)
+    if (!step)
+      return null
+    steps.push(step)
+  }
+  return steps
+}
+
+/** 解析流水线定义 */
+export function parsePipelineDefinition(value: unknown): PipelineDefinition | null {
+  if (!isRecord(value))
+    return null
+  // 基础字段
+  const id = typeof value.id === 'string' ? value.id : null
+  const name = typeof value.name === 'string' ? value.name : null
+  // 步骤列表
+  const steps = parsePipelineSteps(value.steps)
+  if (!id || name === null || !steps)
+    return null
+  return { id, name, steps }
+}
+
+/** 解析错误对象 */
+function parseAppError(value: unknown): AppError | null {
+  if (!isRecord(value))
+    return null
+  if (typeof value.code !== 'string' || typeof value.message !== 'string')
+    return null
+  return { code: value.code, message: value.message, cause: value.cause }
+}
+
+/** 解析单步快照 */
+function parseStepTrace(value: unknown): PipelineStepTrace | null {
+  if (!isRecord(value))
+    return null
+  // 基础字段
+  const index = typeof value.index === 'number' ? value.index : null
+  const operatorId = typeof value.operatorId === 'string' ? value.operatorId : null
+  const durationMs = typeof value.durationMs === 'number' ? value.durationMs : null
+  // 输入输出
+  const input = parseValueSnapshot(value.input)
+  const output = value.output === null ? null : parseValueSnapshot(value.output)
+  if (index === null || !operatorId || durationMs === null || !input || (value.output !== null && !output))
+    return null
+  // 步骤错误
+  const error = value.error === undefined ? undefined : parseAppError(value.error)
+  if (error === null)
+    return null
+  return { index, operatorId, skipped: value.skipped === true, input, output, error, durationMs }
+}
+
+/** 解析流水线执行快照 */
+export function parsePipelineTrace(value: unknown): PipelineTrace | null {
+  if (!isRecord(value) || typeof value.ok !== 'boolean' || !Array.isArray(value.steps))
+    return null
+  // 最终输出
+  const output = value.output === null ? null : parseValueSnapshot(value.output)
+  if (value.output !== null && !output)
+    return null
+  // 步骤列表
+  const steps: PipelineStepTrace[] = []
+  for (const item of value.steps) {
+    const step = parseStepTrace(item)
+    if (!step)
+      return null
+    steps.push(step)
+  }
+  // 失败错误
+  const error = value.error === undefined ? undefined : parseAppError(value.error)
+  if (error === null)
+    return null
+  return { ok: value.ok, output, steps, error }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import type { UrlRule, UrlRuleMatch } from './rules'
+import { findMatchingRule, matchUrlRule, parseUrlRule } from './rules'
+
+/** 生成测试规则 */
+function createRule(match: UrlRuleMatch, overrides: Partial<UrlRule> = {}): UrlRule {
+  return {
+    id: 'rule-1',
+    name: '测试规则',
+    enabled: true,
+    match,
+    target: 'both',
+    pipeline: { id: 'pipeline-1', name: '流水线', steps: [] },
+    ...overrides,
+  }
+}
+
+describe('matchUrlRule', () => {
+  it.each([
+    ['api.example.com', 'https://api.example.com/v1', true],
+    ['API.Example.com', 'https://api.example.com:8443/v1', true],
+    ['api.example.com:8443', 'https://api.example.com:8443/v1', true],
+    ['api.example.com:8443', 'https://api.example.com/v1', false],
+    ['*.example.com', 'https://a.b.example.com/', true],
+    ['*.example.com', 'https://example.com/', true],
+    ['*.example.com', 'https://badexample.com/', false],
+    ['example.com', 'https://api.example.com/', false],
+  ])('域名 %s 匹配 %s：%s', (host, url, expected) => {
+    expect(matchUrlRule(createRule({ host }), url, 'GET')).toBe(expected)
+  })
+
+  it.each([
+    ['/api/*', '/api/user', true],
+    ['/api/*', '/api/user/1', false],
+    ['/api/**', '/api/user/1', true],
+    ['/api/?', '/api/a', true],
+    ['/v1.0/*', '/v1x0/a', false],
+  ])('路径 glob %s 匹配 %s：%s', (pathGlob, path, expected) => {
+    expect(matchUrlRule(createRule({ pathGlob }), `https://example.com${path}?q=1`, 'GET')).toBe(expected)
+  })
+
+  it('同时按正则与请求方法过滤', () => {
+    const rule = createRule({ regex: 'token=\\w+', methods: ['POST'] })
+    expect(matchUrlRule(rule, 'https://example.com/a?token=abc', 'post')).toBe(true)
+    expect(matchUrlRule(rule, 'https://example.com/a?token=abc', 'GET')).toBe(false)
+    expect(matchUrlRule(rule, 'https://example.com/a', 'POST')).toBe(false)
+  })
+
+  it('禁用规则、非法正则与非法 URL 均不匹配', () => {
+    expect(matchUrlRule(createRule({}, { enabled: false }), 'https://example.com/', 'GET')).toBe(false)
+    expect(matchUrlRule(createRule({ regex: '(' }), 'https://example.com/', 'GET')).toBe(false)
+    expect(matchUrlRule(createRule({}), 'not a url', 'GET')).toBe(false)
+  })
+})
+
+describe('findMatchingRule', () => {
+  it('按目标筛选并返回首条匹配规则', () => {
+    const requestRule = createRule({ host: 'example.com' }, { id: 'request', target: 'request' })
+    const bothRule = createRule({ host: 'example.com' }, { id: 'both' })
+    const responseRule = createRule({ host: 'example.com' }, { id: 'response', target: 'response' })
+    const rules = [requestRule, bothRule, responseRule]
+    expect(findMatchingRule(rules, 'https://example.com/', 'GET', 'request')?.id).toBe('request')
+    expect(findMatchingRule(rules, 'https://example.com/', 'GET', 'response')?.id).toBe('both')
+    expect(findMatchingRule(rules, 'https://other.com/', 'GET', 'response')).toBeNull()
+  })
+})
+
+describe('parseUrlRule', () => {
+  it('方法统一为大写，非法字段整体拒绝', () => {
+    const rule = createRule({ host: 'example.com', methods: ['get'] })
+    expect(parseUrlRule(rule)?.match.methods).toEqual(['GET'])
+    expect(parseUrlRule({ ...rule, target: 'all' })).toBeNull()
+    expect(parseUrlRule({ ...rule, match: { methods: [1] } })).toBeNull()
+  })
+})
@@ -0,0 +1,227 @@
+import type { PipelineDefinition } from './pipeline'
+import { parsePipelineDefinition } from './pipeline'
+
+/** 规则作用目标 */
+export type RuleTarget = 'request' | 'response' | 'both'
+
+/** URL 匹配条件（各字段为空表示不限制，均需满足） */
+export interface UrlRuleMatch {
+  /** 域名（不含端口时匹配任意端口，写成 `host:port` 时只匹配该端口），支持 `*.example.com` 通配 */
+  host?: string
+  /** 路径 glob，`*` 匹配单段，`**` 匹配多段 */
+  pathGlob?: string
+  /** 完整 URL 正则 */
+  regex?: string
+  /** 请求方法列表（大写） */
+  methods?: string[]
+}
+
+/** URL 规则：匹配条件 + 绑定的流水线 */
+export interface UrlRule {
+  /** 规则唯一标识 */
+  id: string
+  /** 规则名称 */
+  name: string
+  /** 是否启用 */
+  enabled: boolean
+  /** 匹配条件 */
+  match: UrlRuleMatch
+  /** 作用目标 */
+  target: RuleTarget
+  /** 绑定的流水线 */
+  pipeline: PipelineDefinition
+}
+
+/** 规则作用目标列表 */
+const RULE_TARGETS: RuleTarget[] = ['request', 'response', 'both']
+
+/** 已编译正则缓存的最大条数 */
+const MAX_REGEX_CACHE = 128
+
+/** 已编译正则缓存（最近使用的在后，超出上限时淘汰最久未用的） */
+const regexCache = new Map<string, RegExp | null>()
+
+/** 转义正则字符 */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** 编译正则（非法表达式返回 null 并缓存） */
+function compileRegex(source: string, flags = ''): RegExp | null {
+  // 缓存键
+  const cacheKey = `${flags}/${source}`
+  if (regexCache.has(cacheKey)) {
+    // 重新插入以标记为最近使用
+    const cached = regexCache.get(cacheKey) ?? null
+    regexCache.delete(cacheKey)
+    regexCache.set(cacheKey, cached)
+    return cached
+  }
+  // 编译结果
+  let compiled: RegExp | null
+  try {
+    compiled = new RegExp(source, flags)
+  }
+  catch {
+    compiled = null
+  }
+  regexCache.set(cacheKey, compiled)
+  for (const oldest of regexCache.keys()) {
+    if (regexCache.size <= MAX_REGEX_CACHE)
+      break
+    regexCache.delete(oldest)
+  }
+  return compiled
+}
+
+/** 将路径 glob 转为正则源码 */
+function globToRegexSource(glob: string): string {
+  // 输出片段
+  let source = ''
+  for (let index = 0; index < glob.length; index += 1) {
+    // 当前字符
+    const char = glob[index]!
+    if (char === '*') {
+      if (glob[index + 1] === '*') {
+        source += '.*'
+        index += 1
+      }
+      else {
+        source += '[^/]*'
+      }
+    }
+    else if (char === '?') {
+      source += '[^/]'
+    }
+    else {
+      source += escapeRegExp(char)
+    }
+  }
+  return `^${source}$`
+}
+
+/** 判断域名是否匹配（支持 `*.` 前缀通配；模式带端口时连同端口比较，否则只比较主机名） */
+function matchHost(pattern: string, url: URL): boolean {
+  // 统一小写
+  const normalizedPattern = pattern.trim().toLowerCase()
+  const normalizedHost = (/:\d+$/.test(normalizedPattern) ? url.host : url.hostname).toLowerCase()
+  if (normalizedPattern.startsWith('*.')) {
+    // 通配后缀
+    const suffix = normalizedPattern.slice(1)
+    return normalizedHost.endsWith(suffix) || normalizedHost === suffix.slice(1)
+  }
+  return normalizedHost === normalizedPattern
+}
+
+/** 判断规则是否匹配指定请求 */
+export function matchUrlRule(rule: UrlRule, url: string, method: string): boolean {
+  if (!rule.enabled)
+    return false
+  // 解析 URL
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  }
+  catch {
+    return false
+  }
+  // 匹配条件
+  const { host, pathGlob, regex, methods } = rule.match
+  if (host && !matchHost(host, parsed))
+    return false
+  if (pathGlob) {
+    // 路径正则
+    const pathRegex = compileRegex(globToRegexSource(pathGlob))
+    if (!pathRegex || !pathRegex.test(parsed.pathname))
+      return false
+  }
+  if (regex) {
+    // URL 正则
+    const urlRegex = compileRegex(regex)
+    if (!urlRegex || !urlRegex.test(url))
+      return false
+  }
+  if (methods && methods.length > 0 && !methods.includes(method.toUpperCase()))
+    return false
+  return true
+}
+
+/** 查找首条作用于指定目标的匹配规则 */
+export function findMatchingRule(
+  rules: UrlRule[],
+  url: string,
+  method: string,
+  target: Exclude<RuleTarget, 'both'>,
+): UrlRule | null {
+  for (const rule of rules) {
+    if (rule.target !== target && rule.target !== 'both')
+      continue
+    if (matchUrlRule(rule, url, method))
+      return rule
+  }
+  return null
+}
+
+/** 判断对象类型 */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/** 解析可选字符串字段 */
+function parseOptionalString(value: unknown): string | undefined | null {
+  if (value === undefined)
+    return undefined
+  return typeof value === 'string' ? value : null
+}
+
+/** 解析匹配条件 */
+function parseUrlRuleMatch(value: unknown): UrlRuleMatch | null {
+  if (!isRecord(value))
+    return null
+  // 各字段
+  const host = parseOptionalString(value.host)
+  const pathGlob = parseOptionalString(value.pathGlob)
+  const regex = parseOptionalString(value.regex)
+  if (host === null || pathGlob === null || regex === null)
+    return null
+  // 方法列表
+  let methods: string[] | undefined
+  if (value.methods !== undefined) {
+    if (!Array.isArray(value.methods) || !value.methods.every(item => typeof item === 'string'))
+      return null
+    methods = value.methods.map(item => (item as string).toUpperCase())
+  }
+  return { host, pathGlob, regex, methods }
+}
+
+/** 解析单条规则 */
+export function parseUrlRule(value: unknown): UrlRule | null {
+  if (!isRecord(value))
+    return null
+  // 基础字段
+  const id = typeof value.id === 'string' ? value.id : null
+  const name = typeof value.name === 'string' ? value.name : null
+  const enabled = typeof value.enabled === 'boolean' ? value.enabled : null
+  const target = RULE_TARGETS.find(item => item === value.target) ?? null
+  // 匹配条件与流水线
+  const match = parseUrlRuleMatch(value.match)
+  const pipeline = parsePipelineDefinition(value.pipeline)
+  if (!id || name === null || enabled === null || !target || !match || !pipeline)
+    return null
+  return { id, name, enabled, match, target, pipeline }
+}
+
+/** 解析规则列表（任一条非法即整体失败） */
+export function parseUrlRules(value: unknown): UrlRule[] | null {
+  if (!Array.isArray(value))
+    return null
+  // 规则列表
+  const rules: UrlRule[] = []
+  for (const item of value) {
+    const rule = parseUrlRule(item)
+    if (!rule)
+      return null
+    rules.push(rule)
+  }
+  return rules
+}
@@ -0,0 +1,137 @@
+/** 已解析的页面脚本（Debugger.scriptParsed） */
+export interface ScriptInfo {
+  /** 脚本 ID */
+  scriptId: string
+  /** 脚本 URL（eval 等动态脚本为空串） */
+  url: string
+  /** 脚本长度（字符） */
+  length: number
+}
+
+/** 关键字集合 */
+export interface ScriptKeywordSet {
+  /** 集合 ID */
+  id: string
+  /** 显示名称 */
+  name: string
+  /** 关键字 */
+  keywords: string[]
+}
+
+/** 单处命中 */
+export interface ScriptSearchMatch {
+  /** 行号（从 0 开始） */
+  lineNumber: number
+  /** 列号（从 0 开始） */
+  columnNumber: number
+  /** 命中位置附近的片段 */
+  preview: string
+  /** 命中的关键字 */
+  keyword: string
+}
+
+/** 单个脚本的搜索结果 */
+export interface ScriptSearchResult {
+  /** 脚本 */
+  script: ScriptInfo
+  /** 命中列表 */
+  matches: ScriptSearchMatch[]
+  /** 命中数超过上限已截断 */
+  truncated: boolean
+}
+
+/** 内置关键字集合 */
+export const SCRIPT_KEYWORD_SETS: ScriptKeywordSet[] = [
+  { id: 'crypto', name: '加解密', keywords: ['encrypt', 'decrypt', 'cipher', 'iv', 'key', 'padding'] },
+  { id: 'algorithms', name: '算法', keywords: ['AES', 'DES', 'RSA', 'RC4', 'sm2', 'sm3', 'sm4', 'Salted__', 'Pkcs7'] },
+  { id: 'libraries', name: '加密库', keywords: ['CryptoJS', 'JSEncrypt', 'forge', 'sm-crypto', 'crypto.subtle', 'importKey'] },
+  { id: 'encoding', name: '编码', keywords: ['atob', 'btoa', 'Base64', 'TextEncoder', 'fromCharCode'] },
+]
+
+/** 短关键字长度上限：不超过该长度的关键字按整词匹配，避免 iv 命中 private、div 等 */
+const WHOLE_WORD_MAX_LENGTH = 3
+
+/** 单个脚本最多保留的命中数 */
+export const MAX_SCRIPT_MATCHES = 100
+
+/** 片段中命中位置前后保留的字符数 */
+const PREVIEW_CONTEXT_CHARS = 60
+
+/** 转义正则特殊字符 */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** 关键字去空白、去重 */
+export function normalizeKeywords(keywords: string[]): string[] {
+  return [...new Set(keywords.map(keyword => keyword.trim()).filter(Boolean))]
+}
+
+/** 由关键字生成正则源码（长关键字在前，保证重叠时优先命中更长的） */
+export function buildKeywordPattern(keywords: string[]): string {
+  return normalizeKeywords(keywords)
+    .sort((left, right) => right.length - left.length)
+    .map((keyword) => {
+      // 转义后的关键字
+      const escaped = escapeRegExp(keyword)
+      return keyword.length <= WHOLE_WORD_MAX_LENGTH && /^\w+$/.test(keyword) ? `\\b${escaped}\\b` : escaped
+    })
+    .join('|')
+}
+
+/** 在一行中找出全部命中（压缩脚本常为单行，需逐个定位列号） */
+export function collectLineMatches(lineNumber: number, lineContent: string, pattern: RegExp, limit: number): ScriptSearchMatch[] {
+  // 输出列表
+  const matches: ScriptSearchMatch[] = []
+  for (const match of lineContent.matchAll(pattern)) {
+    if (matches.length >= limit)
+      break
+    // 片段范围
+    const start = Math.max(0, match.index - PREVIEW_CONTEXT_CHARS)
+    const end = Math.min(lineContent.length, match.index + match[0].length + PREVIEW_CONTEXT_CHARS)
+    matches.push({
+      lineNumber,
+      columnNumber: match.index,
+      preview: `${start > 0 ? '…' : ''}${lineContent.slice(start, end).trim()}${end < lineContent.length ? '…' : ''}`,
+      keyword: match[0],
+    })
+  }
+  return matches
+}
+
+/** 判断对象类型 */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/** 解析脚本信息 */
+export function parseScriptInfo(value: unknown): ScriptInfo | null {
+  if (!isRecord(value))
+    return null
+  const { scriptId, url, length } = value
+  if (typeof scriptId !== 'string' || typeof url !== 'string' || typeof length !== 'number')
+    return null
+  return { scriptId, url, length }
+}
+
+/** 解析单处命中 */
+function parseScriptSearchMatch(value: unknown): ScriptSearchMatch | null {
+  if (!isRecord(value))
+    return null
+  const { lineNumber, columnNumber, preview, keyword } = value
+  if (typeof lineNumber !== 'number' || typeof columnNumber !== 'number' || typeof preview !== 'string' || typeof keyword !== 'string')
+    return null
+  return { lineNumber, columnNumber, preview, keyword }
+}
+
+/** 解析单个脚本的搜索结果 */
+export function parseScriptSearchResult(value: unknown): ScriptSearchResult | null {
+  if (!isRecord(value) || !Array.isArray(value.matches) || typeof value.truncated !== 'boolean')
+    return null
+  // 脚本与命中
+  const script = parseScriptInfo(value.script)
+  const matches = value.matches.map(parseScriptSearchMatch)
+  if (!script || matches.includes(null))
+    return null
+  return { script, matches: matches as ScriptSearchMatch[], truncated: value.truncated }
+}
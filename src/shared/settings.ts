@@ -0,0 +1,313 @@
+import type { OperatorContext, PipelineDefinition } from './pipeline'
+import type { UrlRule } from './rules'
+import { decodeParamBytes } from './operators/params'
+import { createOperatorContext, parsePipelineDefinition } from './pipeline'
+import { parseUrlRules } from './rules'
+
+/** 设置在 chrome.storage.local 中的存储键 */
+export const SETTINGS_STORAGE_KEY = 'settings'
+
+/** 当前设置结构版本 */
+export const SETTINGS_VERSION = 4
+
+/** 全局站点键（对所有站点生效） */
+export const GLOBAL_SITE = '*'
+
+/** 密钥配置可选编码 */
+export const KEY_PROFILE_ENCODINGS = ['utf8', 'hex', 'base64']
+
+/** 捕获限制 */
+export interface CaptureLimits {
+  /** 大正文按需加载上限（字节），同时作为浏览器为单个请求保留正文的缓冲区大小 */
+  largeBodyBytes: number
+  /** 缓冲区最多保留的记录数 */
+  maxRecords: number
+  /** 缓冲区内全部记录正文的总字节上限（超出时从最旧的未固定记录开始淘汰） */
+  maxBufferBytes: number
+  /** 单条记录内联保存的正文上限（字节）；超出的正文按需加载，WebSocket 帧与流事件丢弃最早的 */
+  maxRecordBytes: number
+}
+
+/** 默认捕获限制 */
+export const DEFAULT_CAPTURE_LIMITS: CaptureLimits = {
+  largeBodyBytes: 20 * 1024 * 1024,
+  maxRecords: 200,
+  maxBufferBytes: 32 * 1024 * 1024,
+  maxRecordBytes: 200 * 1024,
+}
+
+/** 各项捕获限制的可选范围 */
+export const CAPTURE_LIMIT_RANGES: Record<keyof CaptureLimits, { min: number, max: number }> = {
+  largeBodyBytes: { min: 1024 * 1024, max: 100 * 1024 * 1024 },
+  maxRecords: { min: 10, max: 5000 },
+  maxBufferBytes: { min: 1024 * 1024, max: 512 * 1024 * 1024 },
+  maxRecordBytes: { min: 16 * 1024, max: 16 * 1024 * 1024 },
+}
+
+/** 命名密钥/IV 配置 */
+export interface KeyProfile {
+  /** 配置唯一标识 */
+  id: string
+  /** 配置名称（流水线中以 `名称.key` / `名称.iv` 变量引用） */
+  name: string
+  /** 密钥文本 */
+  key: string
+  /** 密钥编码 */
+  keyEncoding: string
+  /** IV 文本（可为空） */
+  iv: string
+  /** IV 编码 */
+  ivEncoding: string
+}
+
+/** 单个站点的设置 */
+export interface SiteSettings {
+  /** URL 规则 */
+  rules: UrlRule[]
+  /** 已保存的流水线 */
+  pipelines: PipelineDefinition[]
+  /** 密钥配置 */
+  keyProfiles: KeyProfile[]
+}
+
+/** 持久化设置（按站点划分） */
+export interface Settings {
+  /** 结构版本 */
+  version: number
+  /** 站点设置，键为主机名（不含端口）或 `*` */
+  sites: Record<string, SiteSettings>
+  /** 捕获限制（全局） */
+  limits: CaptureLimits
+}
+
+/** 设置迁移函数：将第 n 版数据升级为第 n + 1 版 */
+type SettingsMigration = (value: Record<string, unknown>) => Record<string, unknown>
+
+/** 设置迁移表（键为迁移前版本） */
+const SETTINGS_MIGRATIONS: Record<number, SettingsMigration> = {
+  // 第 0 版：无版本号的全局规则列表 { rules }，迁入全局站点
+  0: value => ({
+    version: 1,
+    sites: { [GLOBAL_SITE]: { rules: Array.isArray(value.rules) ? value.rules : [], pipelines: [], keyProfiles: [] } },
+  }),
+  // 第 1 版：补充默认捕获限制
+  1: value => ({ ...value, version: 2, limits: { ...DEFAULT_CAPTURE_LIMITS } }),
+  // 第 2 版：补充记录数、缓冲区总字节与单条记录字节上限
+  2: value => ({ ...value, version: 3, limits: { ...DEFAULT_CAPTURE_LIMITS, ...(isRecord(value.limits) ? value.limits : {}) } }),
+  // 第 3 版：站点键去掉端口（同一主机名的多个端口合并）
+  3: value => ({ ...value, version: 4, sites: isRecord(value.sites) ? mergeSitesByHostname(value.sites) : value.sites }),
+}
+
+/** 去掉站点键中的端口（非法键原样保留） */
+function stripSitePort(site: string): string {
+  if (site === GLOBAL_SITE)
+    return site
+  try {
+    return new URL(`http://${site}`).hostname
+  }
+  catch {
+    return site
+  }
+}
+
+/** 按主机名合并站点设置（迁移用，数据尚未校验；同名列表按原顺序拼接） */
+function mergeSitesByHostname(sites: Record<string, unknown>): Record<string, unknown> {
+  // 合并结果
+  const merged: Record<string, unknown> = {}
+  for (const [site, value] of Object.entries(sites)) {
+    const key = stripSitePort(site)
+    const existing = merged[key]
+    if (!isRecord(existing) || !isRecord(value)) {
+      merged[key] = existing ?? value
+      continue
+    }
+    // 逐个列表拼接
+    const combined: Record<string, unknown> = { ...existing }
+    for (const field of ['rules', 'pipelines', 'keyProfiles']) {
+      const left = existing[field]
+      const right = value[field]
+      combined[field] = Array.isArray(left) && Array.isArray(right) ? [...left, ...right] : left ?? right
+    }
+    merged[key] = combined
+  }
+  return merged
+}
+
+/** 判断对象类型 */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/** 创建空的站点设置 */
+export function createSiteSettings(): SiteSettings {
+  return { rules: [], pipelines: [], keyProfiles: [] }
+}
+
+/** 创建默认设置 */
+export function createDefaultSettings(): Settings {
+  return { version: SETTINGS_VERSION, sites: {}, limits: { ...DEFAULT_CAPTURE_LIMITS } }
+}
+
+/** 解析密钥配置 */
+export function parseKeyProfile(value: unknown): KeyProfile | null {
+  if (!isRecord(value))
+    return null
+  // 各字段
+  const { id, name, key, keyEncoding, iv, ivEncoding } = value
+  if (typeof id !== 'string' || !id || typeof name !== 'string' || !name || typeof key !== 'string' || typeof iv !== 'string')
+    return null
+  if (typeof keyEncoding !== 'string' || !KEY_PROFILE_ENCODINGS.includes(keyEncoding))
+    return null
+  if (typeof ivEncoding !== 'string' || !KEY_PROFILE_ENCODINGS.includes(ivEncoding))
+    return null
+  return { id, name, key, keyEncoding, iv, ivEncoding }
+}
+
+/** 解析列表字段（任一项非法即整体失败） */
+function parseList<T>(value: unknown, parseItem: (item: unknown) => T | null): T[] | null {
+  if (!Array.isArray(value))
+    return null
+  // 解析结果
+  const items: T[] = []
+  for (const item of value) {
+    const parsed = parseItem(item)
+    if (!parsed)
+      return null
+    items.push(parsed)
+  }
+  return items
+}
+
+/** 解析站点设置 */
+export function parseSiteSettings(value: unknown): SiteSettings | null {
+  if (!isRecord(value))
+    return null
+  // 各列表
+  const rules = parseUrlRules(value.rules)
+  const pipelines = parseList(value.pipelines, parsePipelineDefinition)
+  const keyProfiles = parseList(value.keyProfiles, parseKeyProfile)
+  if (!rules || !pipelines || !keyProfiles)
+    return null
+  return { rules, pipelines, keyProfiles }
+}
+
+/** 解析捕获限制（超出可选范围视为非法） */
+export function parseCaptureLimits(value: unknown): CaptureLimits | null {
+  if (!isRecord(value))
+    return null
+  // 逐项校验
+  const limits = { ...DEFAULT_CAPTURE_LIMITS }
+  for (const [key, range] of Object.entries(CAPTURE_LIMIT_RANGES) as Array<[keyof CaptureLimits, { min: number, max: number }]>) {
+    const item = value[key]
+    if (typeof item !== 'number' || !Number.isInteger(item) || item < range.min || item > range.max)
+      return null
+    limits[key] = item
+  }
+  return limits
+}
+
+/** 解析当前版本的设置 */
+export function parseSettings(value: unknown): Settings | null {
+  if (!isRecord(value) || value.version !== SETTINGS_VERSION || !isRecord(value.sites))
+    return null
+  // 捕获限制
+  const limits = parseCaptureLimits(value.limits)
+  if (!limits)
+    return null
+  // 站点设置
+  const sites: Record<string, SiteSettings> = {}
+  for (const [site, item] of Object.entries(value.sites)) {
+    const parsed = parseSiteSettings(item)
+    if (!parsed)
+      return null
+    sites[site] = parsed
+  }
+  return { version: SETTINGS_VERSION, sites, limits }
+}
+
+/** 将任意版本的存储数据迁移并解析为当前版本（无数据返回默认设置，无法迁移返回 null） */
+export function migrateSettings(value: unknown): Settings | null {
+  if (value === undefined || value === null)
+    return createDefaultSettings()
+  if (!isRecord(value))
+    return null
+  // 逐版本升级
+  let current = value
+  let version = typeof value.version === 'number' ? value.version : 0
+  while (version < SETTINGS_VERSION) {
+    const migration = SETTINGS_MIGRATIONS[version]
+    if (!migration)
+      return null
+    current = migration(current)
+    version += 1
+  }
+  return parseSettings(current)
+}
+
+/** 规范化站点键（小写主机名，去掉端口；空值视为全局） */
+export function normalizeSite(site: string): string {
+  // 去除空白与端口
+  const trimmed = site.trim().toLowerCase()
+  return trimmed ? stripSitePort(trimmed) : GLOBAL_SITE
+}
+
+/** 读取站点设置（不存在时返回空设置） */
+export function getSiteSettings(settings: Settings, site: string): SiteSettings {
+  return settings.sites[normalizeSite(site)] ?? createSiteSettings()
+}
+
+/** 替换站点设置，返回新设置（空站点会被移除） */
+export function setSiteSettings(settings: Settings, site: string, siteSettings: SiteSettings): Settings {
+  // 站点键
+  const key = normalizeSite(site)
+  // 新站点表
+  const sites = { ...settings.sites }
+  if (siteSettings.rules.length === 0 && siteSettings.pipelines.length === 0 && siteSettings.keyProfiles.length === 0)
+    delete sites[key]
+  else
+    sites[key] = siteSettings
+  return { ...settings, sites }
+}
+
+/** 替换捕获限制，返回新设置 */
+export function setCaptureLimits(settings: Settings, limits: CaptureLimits): Settings {
+  return { ...settings, limits }
+}
+
+/** 获取对指定域名生效的设置（站点设置在前，全局设置在后） */
+export function resolveSettingsForHost(settings: Settings, host: string): SiteSettings {
+  // 站点与全局设置
+  const site = getSiteSettings(settings, host)
+  const global = host.trim() ? getSiteSettings(settings, GLOBAL_SITE) : createSiteSettings()
+  return {
+    rules: [...site.rules, ...global.rules],
+    pipelines: [...site.pipelines, ...global.pipelines],
+    keyProfiles: [...site.keyProfiles, ...global.keyProfiles],
+  }
+}
+
+/** 由密钥配置创建执行上下文（写入 `名称.key` / `名称.iv` 变量，无法解码的字段跳过） */
+export function createKeyProfileContext(profiles: KeyProfile[]): OperatorContext {
+  // 执行上下文
+  const context = createOperatorContext()
+  // 倒序写入，使靠前（站点）的同名配置覆盖靠后（全局）的配置
+  for (const profile of [...profiles].reverse()) {
+    const key = decodeParamBytes(profile.key, profile.keyEncoding)
+    if (key)
+      context.variables.set(`${profile.name}.key`, key)
+    const iv = profile.iv ? decodeParamBytes(profile.iv, profile.ivEncoding) : null
+    if (iv)
+      context.variables.set(`${profile.name}.iv`, iv)
+  }
+  return context
+}
+
+/** 读取 URL 的主机名（不含端口，站点设置按主机名划分；非法 URL 返回空字符串） */
+export function getUrlHost(url: string): string {
+  try {
+    return new URL(url).hostname
+  }
+  catch {
+    return ''
+  }
+}
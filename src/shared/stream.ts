@@ -0,0 +1,80 @@
+import type { StreamFormat } from './messages'
+
+/** 单个流事件的原始内容（尚未分配序号与时间） */
+export interface StreamEventContent {
+  /** 事件类型（SSE event 字段；非 SSE 为 null） */
+  eventName: string | null
+  /** 事件 ID（SSE id 字段） */
+  eventId: string | null
+  /** 数据 */
+  data: string
+}
+
+/** 按行分隔的 JSON 流 MIME 类型 */
+const NDJSON_MIME_TYPES = new Set(['application/x-ndjson', 'application/ndjson', 'application/jsonl', 'application/x-jsonlines', 'application/stream+json'])
+
+/** 判断响应是否为流式响应并返回其格式（非流式返回 null） */
+export function detectStreamFormat(resourceType: string, mimeType: string, headers: Array<{ name: string, value: string }>): StreamFormat | null {
+  // MIME 主体（去除参数）
+  const mime = mimeType.split(';')[0]?.trim().toLowerCase() ?? ''
+  if (resourceType === 'EventSource' || mime === 'text/event-stream')
+    return 'sse'
+  if (NDJSON_MIME_TYPES.has(mime))
+    return 'ndjson'
+  // 无长度的分块纯文本（常见于逐字输出的大模型接口）
+  const chunked = headers.some(header => header.name.toLowerCase() === 'transfer-encoding' && header.value.toLowerCase().includes('chunked'))
+  const sized = headers.some(header => header.name.toLowerCase() === 'content-length')
+  if (resourceType === 'Fetch' && mime === 'text/plain' && chunked && !sized)
+    return 'chunk'
+  return null
+}
+
+/** 解析一个 SSE 事件块（仅有注释或无 data 字段时返回 null） */
+export function parseSseBlock(block: string): StreamEventContent | null {
+  // 各字段
+  let eventName: string | null = null
+  let eventId: string | null = null
+  const dataLines: string[] = []
+  for (const line of block.split(/\r\n|\r|\n/)) {
+    // 注释行
+    if (!line || line.startsWith(':'))
+      continue
+    // 字段名与值（冒号后的单个空格不计入值）
+    const colon = line.indexOf(':')
+    const field = colon < 0 ? line : line.slice(0, colon)
+    const value = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '')
+    if (field === 'data')
+      dataLines.push(value)
+    else if (field === 'event')
+      eventName = value
+    else if (field === 'id')
+      eventId = value
+  }
+  if (dataLines.length === 0)
+    return null
+  return { eventName: eventName ?? 'message', eventId, data: dataLines.join('\n') }
+}
+
+/** 从累积文本中切出完整事件，返回事件与未完结的剩余文本；flush 时剩余文本也作为事件 */
+export function splitStreamText(buffer: string, format: StreamFormat, flush: boolean): { events: StreamEventContent[], rest: string } {
+  if (format === 'chunk') {
+    // 分块格式：每个到达的分块即一个事件
+    return { events: buffer ? [{ eventName: null, eventId: null, data: buffer }] : [], rest: '' }
+  }
+  // SSE 以空行分隔事件，NDJSON 以换行分隔
+  const parts = buffer.split(format === 'sse' ? /\r\n\r\n|\n\n|\r\r/ : /\r?\n/)
+  const rest = flush ? '' : parts.pop() ?? ''
+  // 事件列表
+  const events: StreamEventContent[] = []
+  for (const part of parts) {
+    if (format === 'sse') {
+      const event = parseSseBlock(part)
+      if (event)
+        events.push(event)
+    }
+    else if (part.trim()) {
+      events.push({ eventName: null, eventId: null, data: part })
+    }
+  }
+  return { events, rest }
+}
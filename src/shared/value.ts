@@ -0,0 +1,152 @@
+import { base64Decode, base64Encode, hexDump, latin1Decode, utf8Decode, utf8Encode } from './bytes'
+
+/** 文本值 */
+export interface TextValue {
+  /** 值类型 */
+  type: 'text'
+  /** 文本内容 */
+  text: string
+}
+
+/** 字节值 */
+export interface BytesValue {
+  /** 值类型 */
+  type: 'bytes'
+  /** 字节内容 */
+  bytes: Uint8Array
+}
+
+/** 已解析的 JSON 值 */
+export interface JsonValue {
+  /** 值类型 */
+  type: 'json'
+  /** JSON.parse 得到的数据 */
+  data: unknown
+}
+
+/** 流水线步骤间传递的值 */
+export type PipelineValue = TextValue | BytesValue | JsonValue
+
+/** 文本值快照 */
+export interface TextValueSnapshot {
+  /** 值类型 */
+  type: 'text'
+  /** 文本内容 */
+  text: string
+}
+
+/** 字节值快照（以 Base64 承载，便于跨端口序列化） */
+export interface BytesValueSnapshot {
+  /** 值类型 */
+  type: 'bytes'
+  /** Base64 内容 */
+  base64: string
+}
+
+/** JSON 值快照（数据本身可直接序列化） */
+export interface JsonValueSnapshot {
+  /** 值类型 */
+  type: 'json'
+  /** JSON 数据 */
+  data: unknown
+}
+
+/** 可序列化的值快照 */
+export type PipelineValueSnapshot = TextValueSnapshot | BytesValueSnapshot | JsonValueSnapshot
+
+/** 值的查看方式 */
+export type ValueView = 'hex' | 'base64' | 'utf8' | 'latin1'
+
+/** 全部查看方式 */
+export const VALUE_VIEWS: ValueView[] = ['hex', 'base64', 'utf8', 'latin1']
+
+/** 创建文本值 */
+export function textValue(text: string): TextValue {
+  return { type: 'text', text }
+}
+
+/** 创建字节值 */
+export function bytesValue(bytes: Uint8Array): BytesValue {
+  return { type: 'bytes', bytes }
+}
+
+/** 创建 JSON 值 */
+export function jsonValue(data: unknown): JsonValue {
+  return { type: 'json', data }
+}
+
+/** 将值转为文本（字节按 UTF-8 解码，非法序列以替换字符展示；JSON 紧凑序列化） */
+export function valueToText(value: PipelineValue): string {
+  if (value.type === 'text')
+    return value.text
+  if (value.type === 'json')
+    return JSON.stringify(value.data) ?? ''
+  return utf8Decode(value.bytes) ?? ''
+}
+
+/** 将值转为字节（文本与 JSON 按 UTF-8 编码） */
+export function valueToBytes(value: PipelineValue): Uint8Array {
+  return value.type === 'bytes' ? value.bytes : utf8Encode(valueToText(value))
+}
+
+/** 获取值的字节长度 */
+export function getValueByteLength(value: PipelineValue): number {
+  return valueToBytes(value).length
+}
+
+/** 按查看方式将值格式化为文本（不改变值本身） */
+export function formatValueView(value: PipelineValue, view: ValueView): string {
+  // 底层字节
+  const bytes = valueToBytes(value)
+  if (view === 'hex')
+    return hexDump(bytes)
+  if (view === 'base64')
+    return base64Encode(bytes)
+  if (view === 'latin1')
+    return latin1Decode(bytes)
+  return utf8Decode(bytes) ?? ''
+}
+
+/** 由正文文本与 base64 标记生成值（base64 正文按字节保留，非法时返回 null） */
+export function bodyTextToValue(text: string, isBase64: boolean): PipelineValue | null {
+  if (!isBase64)
+    return textValue(text)
+  // 解码字节
+  const bytes = base64Decode(text)
+  return bytes ? bytesValue(bytes) : null
+}
+
+/** 生成可序列化快照 */
+export function snapshotValue(value: PipelineValue): PipelineValueSnapshot {
+  if (value.type === 'bytes')
+    return { type: 'bytes', base64: base64Encode(value.bytes) }
+  if (value.type === 'json')
+    return { type: 'json', data: value.data }
+  return { type: 'text', text: value.text }
+}
+
+/** 从快照恢复值（Base64 非法时返回 null） */
+export function restoreValue(snapshot: PipelineValueSnapshot): PipelineValue | null {
+  if (snapshot.type === 'text')
+    return textValue(snapshot.text)
+  if (snapshot.type === 'json')
+    return jsonValue(snapshot.data)
+  // 解码字节
+  const bytes = base64Decode(snapshot.base64)
+  return bytes ? bytesValue(bytes) : null
+}
+
+/** 解析未知输入为值快照 */
+export function parseValueSnapshot(value: unknown): PipelineValueSnapshot | null {
+  if (typeof value !== 'object' || value === null)
+    return null
+  // 读取字段
+  const record = value as Record<string, unknown>
+  if (record.type === 'text' && typeof record.text === 'string')
+    return { type: 'text', text: record.text }
+  if (record.type === 'bytes' && typeof record.base64 === 'string')
+    return { type: 'bytes', base64: record.base64 }
+  if (record.type === 'json' && 'data' in record)
+    return { type: 'json', data: record.data }
+  return null
+}
@@ -3,11 +3,64 @@ import type { ReactNode } from 'react'
 import type {
   AppError,
   BackgroundToPanelMessage,
+  BodyPart,
+  DecryptResult,
+  HeaderEntry,
   PanelToBackgroundMessage,
+  RecordHeaders,
+  RecordSummary,
   RequestBody,
+  RequestInitiator,
   ResponseBody,
   ResponseRecord,
+  ResponseStream,
+  ScriptsSearchResultMessage,
+  StackFrame,
+  StackSegment,
+  StreamEvent,
+  WebSocketConnection,
+  WebSocketFrame,
 } from '../shared/messages'
+import type { PipelineStep } from '../shared/pipeline'
+import type { CryptoHookCall, CryptoHookCorrelation } from '../shared/crypto-hooks'
+import type { Logpoint, LogpointCapture } from '../shared/logpoints'
+import type { ScriptInfo, ScriptSearchResult } from '../shared/script-search'
+import type { CaptureLimits, Settings, SiteSettings } from '../shared/settings'
+import { MAX_HOOK_CALLS, parseCryptoHookCall, parseCryptoHookCorrelation } from '../shared/crypto-hooks'
+import { MAX_LOGPOINT_CAPTURES, parseLogpoint, parseLogpointCapture } from '../shared/logpoints'
+import { parsePipelineTrace } from '../shared/pipeline'
+import { parseScriptInfo, parseScriptSearchResult } from '../shared/script-search'
+import { createDefaultSettings, getUrlHost, parseSettings, resolveSettingsForHost } from '../shared/settings'
+import { bodyTextToValue, getValueByteLength, textValue } from '../shared/value'
+import { CaptureLimitsEditor } from './capture-limits'
+import type { EditorTarget, KeyValueRow, SourceLocation, ValueViewMode } from './common'
+import {
+  buildValueDisplay,
+  decodeUrlComponent,
+  detectContentKind,
+  formatBytes,
+  formatRequestPath,
+  formatTime,
+  renderKeyValueTable,
+  renderTextBlock,
+  renderValueViewSwitch,
+} from './common'
+import { CryptoHookPanel } from './crypto-hooks'
+import { DecryptResultView } from './decrypt-result'
+import { InitiatorView } from './initiator'
+import { KeyProfileEditor } from './key-profiles'
+import { KeySearchPanel } from './key-search'
+import type { LargeBodyState } from './large-body'
+import { appendLargeBodyChunk, createLargeBodyState, finishLargeBody, renderLargeBodyStatus, updateLargeBodyProgress } from './large-body'
+import type { LogpointDraftRequest } from './logpoints'
+import { LogpointPanel } from './logpoints'
+import { MagicSuggestions } from './magic-suggestions'
+import type { PipelineLoadRequest } from './pipeline-editor'
+import { PipelineEditor } from './pipeline-editor'
+import { ScriptSearchPanel } from './script-search'
+import { SettingsTransfer } from './settings-transfer'
+import { StreamEventsView } from './stream-events'
+import { WebSocketFramesView } from './websocket-frames'
 
 /** 面板标题 */
 const PANEL_TITLE = 'Capture + Decrypt'
@@ -15,6 +68,9 @@ const PANEL_TITLE = 'Capture + Decrypt'
 /** 连接端口名称 */
 const PANEL_PORT_NAME = 'panel'
 
+/** 连接断开（如 Service Worker 重启）后的重连延迟（毫秒） */
+const RECONNECT_DELAY_MS = 1000
+
 /** 左侧面板最小宽度百分比 */
 const MIN_LEFT_PERCENT = 28
 
@@ -27,72 +83,15 @@ const DEFAULT_LEFT_PERCENT = 56
 /** 拖拽分隔条宽度 */
 const SPLITTER_WIDTH = 6
 
-/** 预览展示的最大行数 */
-const PREVIEW_MAX_LINES = 60
-
-/** 预览展示的最大字符数 */
-const PREVIEW_MAX_CHARS = 4000
+/** 单个 WebSocket 连接最多保留的帧数（与后台一致） */
+const MAX_WEBSOCKET_FRAMES = 1000
 
-/** 高亮颜色 class */
-const HIGHLIGHT_CLASS_NAME = 'bg-yellow-200 text-slate-900'
+/** 单个流式响应最多保留的事件数（与后台一致） */
+const MAX_STREAM_EVENTS = 1000
 
 /** UTF-8 编码器 */
 const TEXT_ENCODER = new TextEncoder()
 
-/** 查询参数条目 */
-interface KeyValueRow {
-  /** 键 */
-  key: string
-  /** 值 */
-  value: string
-}
-
-/** 内容类型 */
-type ContentKind = 'empty' | 'json' | 'form' | 'text'
-
-/** 格式化字节数 */
-function formatBytes(value: number): string {
-  // 处理非法输入
-  if (!Number.isFinite(value))
-    return '-'
-  // 小于 1024 直接展示
-  if (value < 1024)
-    return `${Math.round(value)} B`
-  // 计算 KB
-  const kb = value / 1024
-  if (kb < 1024)
-    return `${kb.toFixed(1)} KB`
-  // 计算 MB
-  const mb = kb / 1024
-  return `${mb.toFixed(1)} MB`
-}
-
-/** 格式化时间戳 */
-function formatTime(timeStamp: number): string {
-  // 处理非法输入
-  if (!Number.isFinite(timeStamp))
-    return '-'
-  // 转换时间
-  const date = new Date(timeStamp)
-  return `${date.toLocaleTimeString()} ${date.toLocaleDateString()}`
-}
-
-/** 提取请求路径 */
-function formatRequestPath(url: string): string {
-  // 解析 URL
-  try {
-    // 解析 URL 对象
-    const parsed = new URL(url)
-    // 拼接路径与查询参数
-    const path = parsed.pathname || '/'
-    return parsed.search ? `${path}${parsed.search}` : path
-  }
-  catch {
-    // URL 解析失败时降级为原始字符串
-    return url
-  }
-}
-
 /** 提取请求域名 */
 function formatRequestHost(url: string): string {
   // 解析 URL
@@ -106,16 +105,6 @@ function formatRequestHost(url: string): string {
   }
 }
 
-/** 将字符串安全解码为 URL 组件 */
-function decodeUrlComponent(value: string): string {
-  try {
-    return decodeURIComponent(value)
-  }
-  catch {
-    return value
-  }
-}
-
 /** 解析 query 参数 */
 function getQueryRows(url: string): KeyValueRow[] {
   try {
@@ -136,157 +125,43 @@ function getQueryRows(url: string): KeyValueRow[] {
   }
 }
 
-/** 推断内容类型 */
-function detectContentKind(text: string, mimeType: string): ContentKind {
-  // 去除空白后的文本
-  const trimmed = text.trim()
-  if (!trimmed)
-    return 'empty'
-  if (mimeType.includes('json') || trimmed.startsWith('{') || trimmed.startsWith('['))
-    return 'json'
-  if (mimeType.includes('x-www-form-urlencoded') || (trimmed.includes('=') && trimmed.includes('&')))
-    return 'form'
-  return 'text'
+/** 头部列表转为 key/value 行 */
+function getHeaderRows(headers: HeaderEntry[]): KeyValueRow[] {
+  return headers.map(header => ({ key: header.name, value: header.value }))
 }
 
-/** 尝试格式化 JSON */
-function tryFormatJson(text: string): string | null {
-  try {
-    // 解析后的对象
-    const parsed = JSON.parse(text) as unknown
-    return JSON.stringify(parsed, null, 2)
-  }
-  catch {
-    return null
-  }
-}
-
-/** 解析表单文本为键值对 */
-function parseFormRows(text: string): KeyValueRow[] {
-  // 参数列表
-  const params = new URLSearchParams(text)
-  // 输出行
-  const rows: KeyValueRow[] = []
-  params.forEach((value, key) => {
-    rows.push({
-      key: decodeUrlComponent(key),
-      value: decodeUrlComponent(value),
-    })
-  })
-  return rows
-}
-
-/** 计算 UTF-8 字节长度 */
-function getByteLength(text: string): number {
-  return TEXT_ENCODER.encode(text).length
-}
-
-/** 将 Base64 解码为文本 */
-function decodeBase64ToText(value: string): { ok: true, text: string } | { ok: false, message: string } {
-  try {
-    // 去除空白字符
-    const normalized = value.replace(/\s+/g, '')
-    // 二进制字符串
-    const binary = atob(normalized)
-    // 字节数组
-    const bytes = new Uint8Array(binary.length)
-    for (let index = 0; index < binary.length; index += 1) {
-      bytes[index] = binary.charCodeAt(index)
-    }
-    // 解码后的文本
-    const decoded = new TextDecoder().decode(bytes)
-    return { ok: true, text: decoded }
-  }
-  catch {
-    return { ok: false, message: 'Base64 解码失败' }
-  }
+/** 读取指定头部值（名称不区分大小写） */
+function getHeaderValue(headers: HeaderEntry[], name: string): string {
+  // 目标名称
+  const target = name.toLowerCase()
+  return headers.find(header => header.name.toLowerCase() === target)?.value ?? ''
 }
 
-/** 转义正则字符 */
-function escapeRegExp(value: string): string {
-  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+/** 生成头部区块 meta 信息 */
+function formatHeadersMeta(headers: HeaderEntry[], extraHeaders: HeaderEntry[]): string {
+  if (headers.length === 0 && extraHeaders.length === 0)
+    return '空'
+  return extraHeaders.length > 0
+    ? `${headers.length} 项 · 原始 ${extraHeaders.length} 项`
+    : `${headers.length} 项`
 }
 
-/** 高亮文本命中 */
-function highlightText(text: string, keyword: string): ReactNode {
-  if (!keyword)
-    return text
-  // 关键字正则
-  const regex = new RegExp(escapeRegExp(keyword), 'gi')
-  // 分段内容
-  const parts = text.split(regex)
-  if (parts.length === 1)
-    return text
-  // 匹配列表
-  const matches = text.match(regex)
-  if (!matches)
-    return text
-  // 片段节点
-  const nodes: ReactNode[] = []
-  for (let index = 0; index < parts.length; index += 1) {
-    // 当前分段
-    const part = parts[index]
-    if (part)
-      nodes.push(part)
-    // 当前匹配
-    const match = matches[index]
-    if (match) {
-      nodes.push(
-        <mark key={`${match}-${index}`} className={HIGHLIGHT_CLASS_NAME}>
-          {match}
-        </mark>,
-      )
-    }
-  }
-  return nodes
-}
-
-/** 渲染 key/value 表格 */
-function renderKeyValueTable(rows: KeyValueRow[]): ReactNode {
-  if (rows.length === 0)
-    return <div className="text-slate-400">无内容</div>
+/** 渲染头部表格（含 ExtraInfo 原始头） */
+function renderHeadersTable(headers: HeaderEntry[], extraHeaders: HeaderEntry[], extraTitle: string): ReactNode {
+  if (extraHeaders.length === 0)
+    return renderKeyValueTable(getHeaderRows(headers))
   return (
-    <div className="grid gap-2">
-      {rows.map(row => (
-        <div key={`${row.key}-${row.value}`} className="grid grid-cols-[140px_1fr] gap-2">
-          <div className="truncate text-slate-500">{row.key}</div>
-          <div className="break-words text-slate-700">{row.value}</div>
-        </div>
-      ))}
+    <div className="grid gap-3">
+      {renderKeyValueTable(getHeaderRows(headers))}
+      <div className="text-[11px] font-semibold text-slate-500">{extraTitle}</div>
+      {renderKeyValueTable(getHeaderRows(extraHeaders))}
     </div>
   )
 }
 
-/** 渲染文本区块（支持预览/搜索高亮） */
-function renderTextBlock(text: string, keyword: string, expanded: boolean): { node: ReactNode, hasOverflow: boolean } {
-  // 行列表
-  const lines = text.split(/\r?\n/)
-  // 是否超出行数
-  const hasLineOverflow = lines.length > PREVIEW_MAX_LINES
-  // 是否超出字符数
-  const hasCharOverflow = text.length > PREVIEW_MAX_CHARS
-  // 是否超出预览限制
-  const hasOverflow = hasLineOverflow || hasCharOverflow
-  // 预览文本
-  let previewText = text
-  if (!expanded && hasOverflow) {
-    if (hasLineOverflow) {
-      previewText = lines.slice(0, PREVIEW_MAX_LINES).join('\n')
-    }
-    else {
-      previewText = text.slice(0, PREVIEW_MAX_CHARS)
-    }
-  }
-  return {
-    node: (
-      <div className="grid gap-2">
-        <pre className="whitespace-pre-wrap break-words font-mono text-[11px]">
-          {highlightText(previewText, keyword)}
-        </pre>
-      </div>
-    ),
-    hasOverflow,
-  }
+/** 计算 UTF-8 字节长度 */
+function getByteLength(text: string): number {
+  return TEXT_ENCODER.encode(text).length
 }
 
 /** 分区容器 */
@@ -368,6 +243,65 @@ function parseAppError(value: unknown): AppError | null {
   return { code, message, cause }
 }
 
+/** 解析头部列表 */
+function parseHeaderEntries(value: unknown): HeaderEntry[] | null {
+  if (!Array.isArray(value))
+    return null
+  // 输出列表
+  const entries: HeaderEntry[] = []
+  for (const item of value) {
+    if (!isRecord(item))
+      return null
+    // 头部名称与值
+    const name = asString(item.name)
+    const headerValue = asString(item.value)
+    if (name === null || headerValue === null)
+      return null
+    entries.push({ name, value: headerValue })
+  }
+  return entries
+}
+
+/** 解析头部集合 */
+function parseRecordHeaders(value: unknown): RecordHeaders | null {
+  if (!isRecord(value))
+    return null
+  // 各来源头部
+  const request = parseHeaderEntries(value.request)
+  const response = parseHeaderEntries(value.response)
+  const requestExtra = parseHeaderEntries(value.requestExtra)
+  const responseExtra = parseHeaderEntries(value.responseExtra)
+  if (!request || !response || !requestExtra || !responseExtra)
+    return null
+  return {
+    request,
+    response,
+    requestExtra,
+    responseExtra,
+  }
+}
+
+/** 解析解密结果 */
+function parseDecryptResult(value: unknown): DecryptResult | null {
+  if (!isRecord(value))
+    return null
+  // 规则信息
+  const ruleId = asString(value.ruleId)
+  const ruleName = asString(value.ruleName)
+  // 执行快照
+  const trace = parsePipelineTrace(value.trace)
+  if (!ruleId || ruleName === null || !trace)
+    return null
+  return { ruleId, ruleName, trace }
+}
+
+/** 解析可选的解密结果字段 */
+function parseOptionalDecryptResult(value: unknown): DecryptResult | undefined | null {
+  if (value === undefined)
+    return undefined
+  return parseDecryptResult(value)
+}
+
 /** 解析响应正文 */
 function parseResponseBody(value: unknown): ResponseBody | null {
   if (!isRecord(value))
@@ -392,11 +326,17 @@ function parseResponseBody(value: unknown): ResponseBody | null {
       return null
     error = parsed
   }
+  // 解密结果
+  const decrypted = parseOptionalDecryptResult(value.decrypted)
+  if (decrypted === null)
+    return null
   return {
     text,
     isBase64,
     truncated,
+    deferred: value.deferred === true ? true : undefined,
     error,
+    decrypted,
   }
 }
 
@@ -422,10 +362,186 @@ function parseRequestBody(value: unknown): RequestBody | null {
       return null
     error = parsed
   }
+  // 解密结果
+  const decrypted = parseOptionalDecryptResult(value.decrypted)
+  if (decrypted === null)
+    return null
   return {
     text,
     truncated,
+    deferred: value.deferred === true ? true : undefined,
     error,
+    decrypted,
+  }
+}
+
+/** 解析调用栈帧 */
+function parseStackFrame(value: unknown): StackFrame | null {
+  if (!isRecord(value))
+    return null
+  // 帧字段
+  const functionName = asString(value.functionName)
+  const url = asString(value.url)
+  const scriptId = asString(value.scriptId)
+  const lineNumber = asNumber(value.lineNumber)
+  const columnNumber = asNumber(value.columnNumber)
+  if (functionName === null || url === null || scriptId === null || lineNumber === null || columnNumber === null)
+    return null
+  return { functionName, url, scriptId, lineNumber, columnNumber }
+}
+
+/** 解析调用栈片段 */
+function parseStackSegment(value: unknown): StackSegment | null {
+  if (!isRecord(value) || !Array.isArray(value.frames))
+    return null
+  // 异步边界说明
+  const description = value.description === null ? null : asString(value.description)
+  if (value.description !== null && description === null)
+    return null
+  // 栈帧
+  const frames = value.frames.map(parseStackFrame)
+  if (frames.includes(null))
+    return null
+  return { description, frames: frames as StackFrame[] }
+}
+
+/** 解析请求发起方（null 表示未知，解析失败返回 undefined） */
+function parseRequestInitiator(value: unknown): RequestInitiator | null | undefined {
+  if (value === null || value === undefined)
+    return null
+  if (!isRecord(value) || !Array.isArray(value.stack))
+    return undefined
+  // 发起方类型
+  const type = asString(value.type)
+  if (!type)
+    return undefined
+  // 发起位置
+  const url = value.url === null ? null : asString(value.url)
+  const lineNumber = value.lineNumber === null ? null : asNumber(value.lineNumber)
+  const columnNumber = value.columnNumber === null ? null : asNumber(value.columnNumber)
+  if ((value.url !== null && url === null) || (value.lineNumber !== null && lineNumber === null) || (value.columnNumber !== null && columnNumber === null))
+    return undefined
+  // 调用栈
+  const stack = value.stack.map(parseStackSegment)
+  if (stack.includes(null))
+    return undefined
+  return { type, url, lineNumber, columnNumber, stack: stack as StackSegment[] }
+}
+
+/** 解析 WebSocket 帧 */
+function parseWebSocketFrame(value: unknown): WebSocketFrame | null {
+  if (!isRecord(value))
+    return null
+  // 帧字段
+  const index = asNumber(value.index)
+  const direction = value.direction === 'sent' || value.direction === 'received' ? value.direction : null
+  const opcode = asNumber(value.opcode)
+  const payload = asString(value.payload)
+  const isBase64 = asBoolean(value.isBase64)
+  const size = asNumber(value.size)
+  const truncated = asBoolean(value.truncated)
+  const timeStamp = asNumber(value.timeStamp)
+  if (index === null || !direction || opcode === null || payload === null || isBase64 === null || size === null || truncated === null || timeStamp === null)
+    return null
+  // 解密结果
+  const decrypted = parseOptionalDecryptResult(value.decrypted)
+  if (decrypted === null)
+    return null
+  return { index, direction, opcode, payload, isBase64, size, truncated, timeStamp, decrypted }
+}
+
+/** 解析 WebSocket 连接（null 表示非 WebSocket 记录，解析失败返回 undefined） */
+function parseWebSocketConnection(value: unknown): WebSocketConnection | null | undefined {
+  if (value === null || value === undefined)
+    return null
+  if (!isRecord(value) || !Array.isArray(value.frames))
+    return undefined
+  // 状态字段
+  const dropped = asNumber(value.dropped)
+  const closed = asBoolean(value.closed)
+  const error = value.error === null ? null : asString(value.error)
+  if (dropped === null || closed === null || (value.error !== null && error === null))
+    return undefined
+  // 帧列表
+  const frames = value.frames.map(parseWebSocketFrame)
+  if (frames.includes(null))
+    return undefined
+  return { frames: frames as WebSocketFrame[], dropped, closed, error }
+}
+
+/** 向 WebSocket 记录追加帧（超出上限时丢弃最早的帧） */
+function appendWebSocketFrame(record: ResponseRecord, frame: WebSocketFrame): ResponseRecord {
+  if (!record.webSocket)
+    return record
+  // 超出上限时丢弃的帧数
+  const overflow = Math.max(0, record.webSocket.frames.length + 1 - MAX_WEBSOCKET_FRAMES)
+  return {
+    ...record,
+    encodedDataLength: record.encodedDataLength + frame.size,
+    webSocket: {
+      ...record.webSocket,
+      frames: [...record.webSocket.frames.slice(overflow), frame],
+      dropped: record.webSocket.dropped + overflow,
+    },
+  }
+}
+
+/** 解析流事件 */
+function parseStreamEvent(value: unknown): StreamEvent | null {
+  if (!isRecord(value))
+    return null
+  // 事件字段
+  const index = asNumber(value.index)
+  const eventName = value.eventName === null ? null : asString(value.eventName)
+  const eventId = value.eventId === null ? null : asString(value.eventId)
+  const data = asString(value.data)
+  const size = asNumber(value.size)
+  const truncated = asBoolean(value.truncated)
+  const timeStamp = asNumber(value.timeStamp)
+  if (index === null || (value.eventName !== null && eventName === null) || (value.eventId !== null && eventId === null))
+    return null
+  if (data === null || size === null || truncated === null || timeStamp === null)
+    return null
+  // 解密结果
+  const decrypted = parseOptionalDecryptResult(value.decrypted)
+  if (decrypted === null)
+    return null
+  return { index, eventName, eventId, data, size, truncated, timeStamp, decrypted }
+}
+
+/** 解析流式响应（null 表示非流式记录，解析失败返回 undefined） */
+function parseResponseStream(value: unknown): ResponseStream | null | undefined {
+  if (value === null || value === undefined)
+    return null
+  if (!isRecord(value) || !Array.isArray(value.events))
+    return undefined
+  // 状态字段
+  const format = value.format === 'sse' || value.format === 'ndjson' || value.format === 'chunk' ? value.format : null
+  const dropped = asNumber(value.dropped)
+  const complete = asBoolean(value.complete)
+  const error = value.error === null ? null : asString(value.error)
+  if (!format || dropped === null || complete === null || (value.error !== null && error === null))
+    return undefined
+  // 事件列表
+  const events = value.events.map(parseStreamEvent)
+  if (events.includes(null))
+    return undefined
+  return { format, events: events as StreamEvent[], dropped, complete, error }
+}
+
+/** 向流记录追加事件（超出上限时丢弃最早的事件） */
+function appendStreamEvent(record: ResponseRecord, event: StreamEvent): ResponseRecord {
+  if (!record.stream)
+    return record
+  // 超出上限时丢弃的事件数
+  const overflow = Math.max(0, record.stream.events.length + 1 - MAX_STREAM_EVENTS)
+  return {
+    ...record,
+    stream: {
+      ...record.stream,
+      events: [...record.stream.events.slice(overflow), event],
+      dropped: record.stream.dropped + overflow,
+    },
   }
 }
 
@@ -444,11 +560,19 @@ function parseResponseRecord(value: unknown): ResponseRecord | null {
   const encodedDataLength = asNumber(value.encodedDataLength)
   if (!id || !url || !method || status === null || !mimeType || !resourceType || timeStamp === null || encodedDataLength === null)
     return null
+  // 头部集合
+  const headers = parseRecordHeaders(value.headers)
   // 请求正文
   const requestBody = parseRequestBody(value.requestBody)
   // 响应正文
   const body = parseResponseBody(value.body)
-  if (!requestBody || !body)
+  // 请求发起方
+  const initiator = parseRequestInitiator(value.initiator)
+  // WebSocket 连接
+  const webSocket = parseWebSocketConnection(value.webSocket)
+  // 流式响应
+  const stream = parseResponseStream(value.stream)
+  if (!headers || !requestBody || !body || initiator === undefined || webSocket === undefined || stream === undefined)
     return null
   return {
     id,
@@ -459,11 +583,61 @@ function parseResponseRecord(value: unknown): ResponseRecord | null {
     resourceType,
     timeStamp,
     encodedDataLength,
+    headers,
     requestBody,
     body,
+    initiator,
+    webSocket,
+    stream,
   }
 }
 
+/** 解析记录摘要 */
+function parseRecordSummary(value: unknown): RecordSummary | null {
+  if (!isRecord(value))
+    return null
+  // 基础字段
+  const id = asString(value.id)
+  const url = asString(value.url)
+  const method = asString(value.method)
+  const status = asNumber(value.status)
+  const mimeType = asString(value.mimeType)
+  const resourceType = asString(value.resourceType)
+  const timeStamp = asNumber(value.timeStamp)
+  const encodedDataLength = asNumber(value.encodedDataLength)
+  if (!id || !url || !method || status === null || !mimeType || !resourceType || timeStamp === null || encodedDataLength === null)
+    return null
+  // 正文标记
+  const hasRequestBody = asBoolean(value.hasRequestBody)
+  const hasResponseBody = asBoolean(value.hasResponseBody)
+  const pinned = asBoolean(value.pinned)
+  if (hasRequestBody === null || hasResponseBody === null || pinned === null)
+    return null
+  return { id, url, method, status, mimeType, resourceType, timeStamp, encodedDataLength, hasRequestBody, hasResponseBody, pinned }
+}
+
+/** 解析记录摘要列表（任一项非法返回 null） */
+function parseRecordSummaries(value: unknown): RecordSummary[] | null {
+  if (!Array.isArray(value))
+    return null
+  // 解析结果
+  const summaries = value.map(parseRecordSummary)
+  if (summaries.includes(null))
+    return null
+  return summaries as RecordSummary[]
+}
+
+/** 合并增量：更新的记录原位替换，新增的记录追加在末尾，淘汰的记录移除 */
+function applyRecordsDelta(records: RecordSummary[], changed: RecordSummary[], removed: string[]): RecordSummary[] {
+  // 淘汰与变更集合
+  const removedIds = new Set(removed)
+  const changedById = new Map(changed.map(record => [record.id, record]))
+  // 保留的记录
+  const kept = records.filter(record => !removedIds.has(record.id)).map(record => changedById.get(record.id) ?? record)
+  const keptIds = new Set(kept.map(record => record.id))
+  return [...kept, ...changed.filter(record => !keptIds.has(record.id) && !removedIds.has(record.id))]
+}
+
 /** 解析后台消息 */
 function parseBackgroundMessage(value: unknown): BackgroundToPanelMessage | null {
   if (!isRecord(value))
@@ -483,35 +657,183 @@ function parseBackgroundMessage(value: unknown): BackgroundToPanelMessage | null
   }
 
   if (message资源类型 === 'records.snapshot') {
-    // 解析 records
-    const records = Array.isArray(value.records) ? value.records : null
-    if (!records)
+    // 解析记录摘要与序号
+    const records = parseRecordSummaries(value.records)
+    const session = asString(value.session)
+    const seq = asNumber(value.seq)
+    if (!records || session === null || seq === null)
       return null
     // 解析 attachedTabId
     const attachedTabId = asNumber(value.attachedTabId)
     if (attachedTabId === null && value.attachedTabId !== null)
       return null
-    // 解析记录列表
-    const parsedRecords: ResponseRecord[] = []
-    for (const record of records) {
-      const parsed = parseResponseRecord(record)
-      if (!parsed)
-        return null
-      parsedRecords.push(parsed)
-    }
     return {
       type: 'records.snapshot',
-      records: parsedRecords,
+      records,
+      session,
+      seq,
       attachedTabId,
     }
   }
 
-  if (message资源类型 === 'records.added') {
-    // 解析 record
-    const parsedRecord = parseResponseRecord(value.record)
-    if (!parsedRecord)
+  if (message资源类型 === 'records.delta') {
+    // 解析变更摘要、淘汰 ID 与序号
+    const records = parseRecordSummaries(value.records)
+    const removed = Array.isArray(value.removed) ? value.removed.filter((item): item is string => typeof item === 'string') : null
+    const session = asString(value.session)
+    const seq = asNumber(value.seq)
+    if (!records || !removed || session === null || seq === null)
+      return null
+    return { type: 'records.delta', records, removed, session, seq }
+  }
+
+  if (message资源类型 === 'records.added' || message资源类型 === 'records.updated') {
+    // 解析记录摘要与序号
+    const parsedRecord = parseRecordSummary(value.record)
+    const session = asString(value.session)
+    const seq = asNumber(value.seq)
+    if (!parsedRecord || session === null || seq === null)
+      return null
+    return { type: message资源类型, record: parsedRecord, session, seq }
+  }
+
+  if (message资源类型 === 'records.removed') {
+    // 解析淘汰 ID 与序号
+    const ids = Array.isArray(value.ids) ? value.ids.filter((item): item is string => typeof item === 'string') : null
+    const session = asString(value.session)
+    const seq = asNumber(value.seq)
+    if (!ids || session === null || seq === null)
+      return null
+    return { type: 'records.removed', ids, session, seq }
+  }
+
+  if (message资源类型 === 'record.body.result') {
+    // 解析记录 ID 与完整记录
+    const recordId = asString(value.recordId)
+    const record = value.record === null ? null : parseResponseRecord(value.record)
+    if (!recordId || (value.record !== null && !record))
+      return null
+    return { type: 'record.body.result', recordId, record }
+  }
+
+  if (message资源类型 === 'hooks.correlations') {
+    // 解析关联结果
+    const correlations = Array.isArray(value.correlations) ? value.correlations.map(parseCryptoHookCorrelation) : null
+    if (!correlations || correlations.includes(null))
+      return null
+    return { type: 'hooks.correlations', correlations: correlations as CryptoHookCorrelation[] }
+  }
+
+  if (message资源类型 === 'records.frame.added') {
+    // 解析记录 ID 与帧
+    const recordId = asString(value.recordId)
+    const frame = parseWebSocketFrame(value.frame)
+    if (!recordId || !frame)
+      return null
+    return { type: 'records.frame.added', recordId, frame }
+  }
+
+  if (message资源类型 === 'record.body.chunk') {
+    // 记录 ID、正文部分与分块
+    const recordId = asString(value.recordId)
+    const part = value.part === 'request' || value.part === 'response' ? value.part : null
+    const text = asString(value.text)
+    const loaded = asNumber(value.loaded)
+    const total = asNumber(value.total)
+    if (!recordId || !part || text === null || loaded === null || total === null)
+      return null
+    return { type: 'record.body.chunk', recordId, part, text, loaded, total }
+  }
+
+  if (message资源类型 === 'record.body.progress') {
+    // 记录 ID、正文部分与读取进度
+    const recordId = asString(value.recordId)
+    const part = value.part === 'request' || value.part === 'response' ? value.part : null
+    const received = asNumber(value.received)
+    const total = asNumber(value.total)
+    if (!recordId || !part || received === null || total === null)
+      return null
+    return { type: 'record.body.progress', recordId, part, received, total }
+  }
+
+  if (message资源类型 === 'record.body.loaded') {
+    // 记录 ID、正文部分与正文信息
+    const recordId = asString(value.recordId)
+    const part = value.part === 'request' || value.part === 'response' ? value.part : null
+    const body = parseResponseBody(value.body)
+    if (!recordId || !part || !body)
+      return null
+    return { type: 'record.body.loaded', recordId, part, body }
+  }
+
+  if (message资源类型 === 'records.event.added') {
+    // 解析记录 ID 与事件
+    const recordId = asString(value.recordId)
+    const event = parseStreamEvent(value.event)
+    if (!recordId || !event)
+      return null
+    return { type: 'records.event.added', recordId, event }
+  }
+
+  if (message资源类型 === 'settings.snapshot') {
+    // 解析设置
+    const settings = parseSettings(value.settings)
+    if (!settings)
+      return null
+    return { type: 'settings.snapshot', settings }
+  }
+
+  if (message资源类型 === 'hooks.snapshot') {
+    // 解析开关与调用列表
+    const enabled = asBoolean(value.enabled)
+    const calls = Array.isArray(value.calls) ? value.calls.map(item => parseCryptoHookCall(item)) : null
+    if (enabled === null || !calls || calls.includes(null))
+      return null
+    return { type: 'hooks.snapshot', enabled, calls: calls as CryptoHookCall[] }
+  }
+
+  if (message资源类型 === 'hooks.call.added') {
+    // 解析调用
+    const call = parseCryptoHookCall(value.call)
+    if (!call)
+      return null
+    return { type: 'hooks.call.added', call }
+  }
+
+  if (message资源类型 === 'scripts.snapshot') {
+    // 解析脚本列表
+    const scripts = Array.isArray(value.scripts) ? value.scripts.map(parseScriptInfo) : null
+    if (!scripts || scripts.includes(null))
+      return null
+    return { type: 'scripts.snapshot', scripts: scripts as ScriptInfo[] }
+  }
+
+  if (message资源类型 === 'scripts.search.result') {
+    // 解析关键字、分组结果与计数
+    const keywords = Array.isArray(value.keywords) ? value.keywords.filter((item): item is string => typeof item === 'string') : null
+    const results = Array.isArray(value.results) ? value.results.map(parseScriptSearchResult) : null
+    const scanned = asNumber(value.scanned)
+    const failed = asNumber(value.failed)
+    if (!keywords || !results || results.includes(null) || scanned === null || failed === null)
+      return null
+    return { type: 'scripts.search.result', keywords, results: results as ScriptSearchResult[], scanned, failed }
+  }
+
+  if (message资源类型 === 'logpoints.snapshot') {
+    // 解析捕获点与捕获数据
+    const logpoints = Array.isArray(value.logpoints) ? value.logpoints.map(parseLogpoint) : null
+    const captures = Array.isArray(value.captures) ? value.captures.map(parseLogpointCapture) : null
+    if (!logpoints || !captures || logpoints.includes(null) || captures.includes(null))
       return null
-    return { type: 'records.added', record: parsedRecord }
+    return { type: 'logpoints.snapshot', logpoints: logpoints as Logpoint[], captures: captures as LogpointCapture[] }
+  }
+
+  if (message资源类型 === 'captures.added') {
+    // 解析捕获数据
+    const capture = parseLogpointCapture(value.capture)
+    if (!capture)
+      return null
+    return { type: 'captures.added', capture }
   }
 
   if (message资源类型 === 'error') {
@@ -544,8 +866,18 @@ export function App() {
   const draggingRef = useRef(false)
   /** 用户选择样式缓存 */
   const userSelectRef = useRef('')
-  /** 捕获记录 */
-  const [records, setRecords] = useState<ResponseRecord[]>([])
+  /** 捕获记录（摘要） */
+  const [records, setRecords] = useState<RecordSummary[]>([])
+  /** 已同步的记录会话（与序号一起用于拉取增量；会话不符时改为拉取全量） */
+  const recordSessionRef = useRef<string | null>(null)
+  /** 已同步到的记录序号（重连后据此拉取增量） */
+  const recordSeqRef = useRef<number | null>(null)
+  /** 等待完整记录的回调（记录 ID -> 按请求顺序排列的回调） */
+  const recordWaitersRef = useRef(new Map<string, Array<(record: ResponseRecord | null) => void>>())
+  /** 选中记录的完整内容 */
+  const [detail, setDetail] = useState<ResponseRecord | null>(null)
+  /** Hook 调用与记录的关联（调用 ID -> 关联） */
+  const [hookCorrelations, setHookCorrelations] = useState<Map<string, CryptoHookCorrelation>>(() => new Map())
   /** 当前选中记录 ID */
   const [selectedId, setSelectedId] = useState<string | null>(null)
   /** 已附加的 tabId */
@@ -564,14 +896,72 @@ export function App() {
   const [responseExpanded, setResponseExpanded] = useState(false)
   /** 查询参数 区块是否展开 */
   const [queryOpen, setQueryOpen] = useState(true)
+  /** 请求头区块是否展开 */
+  const [requestHeadersOpen, setRequestHeadersOpen] = useState(false)
+  /** 响应头区块是否展开 */
+  const [responseHeadersOpen, setResponseHeadersOpen] = useState(false)
+  /** 发起方区块是否展开 */
+  const [initiatorOpen, setInitiatorOpen] = useState(false)
   /** 请求正文区块是否展开 */
   const [requestOpen, setRequestOpen] = useState(true)
   /** 响应正文区块是否展开 */
   const [responseOpen, setResponseOpen] = useState(true)
-  /** 响应正文 Base64 解码开关 */
-  const [decodeResponseBase64, setDecodeResponseBase64] = useState(false)
+  /** WebSocket 帧区块是否展开 */
+  const [framesOpen, setFramesOpen] = useState(true)
+  /** 流式事件区块是否展开 */
+  const [streamOpen, setStreamOpen] = useState(true)
+  /** 请求解密区块是否展开 */
+  const [requestDecryptOpen, setRequestDecryptOpen] = useState(true)
+  /** 响应解密区块是否展开 */
+  const [responseDecryptOpen, setResponseDecryptOpen] = useState(true)
+  /** 请求正文查看方式 */
+  const [requestViewMode, setRequestViewMode] = useState<ValueViewMode>('auto')
+  /** 响应正文查看方式 */
+  const [responseViewMode, setResponseViewMode] = useState<ValueViewMode>('auto')
   /** 顶部信息是否折叠 */
   const [isHeaderCollapsed, setIsHeaderCollapsed] = useState(false)
+  /** 全局设置区是否展开（不依赖选中记录） */
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  /** 持久化设置 */
+  const [settings, setSettings] = useState<Settings>(() => createDefaultSettings())
+  /** 密钥配置区块是否展开 */
+  const [keyProfilesOpen, setKeyProfilesOpen] = useState(false)
+  /** 导入导出区块是否展开 */
+  const [transferOpen, setTransferOpen] = useState(false)
+  /** 捕获限制区块是否展开 */
+  const [limitsOpen, setLimitsOpen] = useState(false)
+  /** 选中记录按需加载的大正文（独立于记录列表） */
+  const [largeBodies, setLargeBodies] = useState<Partial<Record<BodyPart, LargeBodyState>>>({})
+  /** 流水线编辑区块是否展开 */
+  const [pipelineEditorOpen, setPipelineEditorOpen] = useState(false)
+  /** 智能识别区块是否展开 */
+  const [magicOpen, setMagicOpen] = useState(false)
+  /** 密钥尝试区块是否展开 */
+  const [keySearchOpen, setKeySearchOpen] = useState(false)
+  /** 加密调用区块是否展开 */
+  const [hooksOpen, setHooksOpen] = useState(false)
+  /** 是否启用页面加密调用 Hook */
+  const [hooksEnabled, setHooksEnabled] = useState(false)
+  /** 已捕获的加密调用 */
+  const [hookCalls, setHookCalls] = useState<CryptoHookCall[]>([])
+  /** 脚本搜索区块是否展开 */
+  const [scriptsOpen, setScriptsOpen] = useState(false)
+  /** 已解析的页面脚本 */
+  const [scripts, setScripts] = useState<ScriptInfo[]>([])
+  /** 最近一次脚本搜索结果 */
+  const [scriptSearch, setScriptSearch] = useState<ScriptsSearchResultMessage | null>(null)
+  /** 是否正在搜索脚本 */
+  const [scriptSearching, setScriptSearching] = useState(false)
+  /** 参数捕获区块是否展开 */
+  const [logpointsOpen, setLogpointsOpen] = useState(false)
+  /** 捕获点 */
+  const [logpoints, setLogpoints] = useState<Logpoint[]>([])
+  /** 已捕获的数据 */
+  const [captures, setCaptures] = useState<LogpointCapture[]>([])
+  /** 捕获点表单外部填充请求 */
+  const [logpointDraft, setLogpointDraft] = useState<LogpointDraftRequest | null>(null)
+  /** 流水线编辑器外部载入请求 */
+  const [pipelineLoad, setPipelineLoad] = useState<PipelineLoadRequest | null>(null)
 
   /** 拖拽移动事件 */
   const handleResizeMove = useCallback((event: MouseEvent): void => {
@@ -623,11 +1013,27 @@ export function App() {
 
   // 连接后台并接收消息
   useEffect(() => {
-    // 创建连接
-    const port = chrome.runtime.connect({ name: PANEL_PORT_NAME })
-    portRef.current = port
+    /** 是否已卸载（卸载后不再重连） */
+    let disposed = false
+    /** 重连定时器 */
+    let reconnectTimer: number | undefined
+    /** 等待完整记录的回调 */
+    const waiters = recordWaitersRef.current
+
+    /** 判断增量消息是否属于已同步的记录会话；不属于时重新拉取全量（已在等待全量时不重复请求） */
+    function isSyncedSession(session: string): boolean {
+      if (session === recordSessionRef.current)
+        return true
+      if (recordSessionRef.current !== null) {
+        recordSessionRef.current = null
+        recordSeqRef.current = null
+        sendPanelMessage(portRef.current, { type: 'records.get', session: null, sinceSeq: null })
+      }
+      return false
+    }
 
-    port.onMessage.addListener((rawMessage) => {
+    /** 处理后台消息 */
+    function handleMessage(rawMessage: unknown): void {
       // 解析消息
       const message = parseBackgroundMessage(rawMessage)
       if (!message)
@@ -639,30 +1045,178 @@ export function App() {
       }
 
       if (message.type === 'records.snapshot') {
+        recordSessionRef.current = message.session
+        recordSeqRef.current = message.seq
         setRecords(message.records)
         setAttachedTabId(message.attachedTabId)
         return
       }
 
+      // 增量消息的会话与已同步的不符（后台已重启）时丢弃，改为拉取全量
+      if ((message.type === 'records.delta' || message.type === 'records.added' || message.type === 'records.updated' || message.type === 'records.removed') && !isSyncedSession(message.session))
+        return
+
+      if (message.type === 'records.delta') {
+        recordSeqRef.current = message.seq
+        setRecords(prev => applyRecordsDelta(prev, message.records, message.removed))
+        return
+      }
+
       if (message.type === 'records.added') {
+        recordSeqRef.current = message.seq
         setRecords(prev => [...prev, message.record])
         return
       }
 
+      if (message.type === 'records.updated') {
+        recordSeqRef.current = message.seq
+        setRecords(prev => prev.map(record => record.id === message.record.id ? message.record : record))
+        return
+      }
+
+      if (message.type === 'records.removed') {
+        recordSeqRef.current = message.seq
+        setRecords(prev => applyRecordsDelta(prev, [], message.ids))
+        return
+      }
+
+      if (message.type === 'record.body.result') {
+        // 按请求顺序交给最早的等待者
+        const pending = waiters.get(message.recordId)
+        const resolve = pending?.shift()
+        if (pending?.length === 0)
+          waiters.delete(message.recordId)
+        resolve?.(message.record)
+        return
+      }
+
+      if (message.type === 'records.frame.added') {
+        setDetail(prev => prev?.id === message.recordId ? appendWebSocketFrame(prev, message.frame) : prev)
+        return
+      }
+
+      if (message.type === 'record.body.chunk') {
+        setLargeBodies(prev => ({ ...prev, [message.part]: appendLargeBodyChunk(prev[message.part], message) }))
+        return
+      }
+
+      if (message.type === 'record.body.progress') {
+        setLargeBodies(prev => ({ ...prev, [message.part]: updateLargeBodyProgress(prev[message.part], message) }))
+        return
+      }
+
+      if (message.type === 'record.body.loaded') {
+        setLargeBodies(prev => ({ ...prev, [message.part]: finishLargeBody(prev[message.part], message) }))
+        return
+      }
+
+      if (message.type === 'records.event.added') {
+        setDetail(prev => prev?.id === message.recordId ? appendStreamEvent(prev, message.event) : prev)
+        return
+      }
+
+      if (message.type === 'hooks.correlations') {
+        setHookCorrelations(new Map(message.correlations.map(correlation => [correlation.callId, correlation])))
+        return
+      }
+
+      if (message.type === 'settings.snapshot') {
+        setSettings(message.settings)
+        return
+      }
+
+      if (message.type === 'hooks.snapshot') {
+        setHooksEnabled(message.enabled)
+        setHookCalls(message.calls)
+        return
+      }
+
+      if (message.type === 'hooks.call.added') {
+        setHookCalls(prev => [...prev.slice(Math.max(0, prev.length + 1 - MAX_HOOK_CALLS)), message.call])
+        return
+      }
+
+      if (message.type === 'scripts.snapshot') {
+        setScripts(message.scripts)
+        return
+      }
+
+      if (message.type === 'scripts.search.result') {
+        setScriptSearch(message)
+        setScriptSearching(false)
+        return
+      }
+
+      if (message.type === 'logpoints.snapshot') {
+        setLogpoints(message.logpoints)
+        setCaptures(message.captures)
+        return
+      }
+
+      if (message.type === 'captures.added') {
+        setCaptures(prev => [...prev.slice(Math.max(0, prev.length + 1 - MAX_LOGPOINT_CAPTURES)), message.capture])
+        return
+      }
+
       if (message.type === 'error') {
         setErrorMessage(message.error.message)
+        setScriptSearching(false)
       }
-    })
+    }
+
+    /** 建立连接；断开（如 Service Worker 重启）后自动重连，并按已同步序号拉取记录增量 */
+    function connect(): chrome.runtime.Port {
+      // 创建连接
+      const port = chrome.runtime.connect({ name: PANEL_PORT_NAME })
+      portRef.current = port
+      port.onMessage.addListener(handleMessage)
+      port.onDisconnect.addListener(() => {
+        // 未返回的完整记录请求不会再有结果
+        for (const pending of waiters.values())
+          pending.forEach(resolve => resolve(null))
+        waiters.clear()
+        if (disposed)
+          return
+        portRef.current = null
+        reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS)
+      })
+      sendPanelMessage(port, { type: 'records.get', session: recordSessionRef.current, sinceSeq: recordSeqRef.current })
+      return port
+    }
 
+    const port = connect()
     // 默认尝试附加
     sendPanelMessage(port, { type: 'debugger.attach', tabId })
+    // 拉取持久化设置
+    sendPanelMessage(port, { type: 'settings.get' })
 
     return () => {
-      port.disconnect()
+      disposed = true
+      window.clearTimeout(reconnectTimer)
+      portRef.current?.disconnect()
       portRef.current = null
     }
   }, [tabId])
 
+  /** 获取完整记录（含正文；连接断开或记录已淘汰时为 null） */
+  const requestRecord = useCallback((recordId: string): Promise<ResponseRecord | null> => {
+    return new Promise((resolve) => {
+      if (!portRef.current) {
+        resolve(null)
+        return
+      }
+      // 同一记录的结果按请求顺序返回
+      const pending = recordWaitersRef.current.get(recordId) ?? []
+      recordWaitersRef.current.set(recordId, [...pending, resolve])
+      sendPanelMessage(portRef.current, { type: 'record.body.get', recordId })
+    })
+  }, [])
+
+  /** 请求 Hook 调用关联 */
+  const handleCorrelateHooks = useCallback((): void => {
+    sendPanelMessage(portRef.current, { type: 'hooks.correlate' })
+  }, [])
+
   // 当记录变化时尝试选中最新一条
   useEffect(() => {
     // 已有选中则不变
@@ -680,15 +1234,18 @@ export function App() {
     setResponseSearch('')
     setRequestExpanded(false)
     setResponseExpanded(false)
-    setDecodeResponseBase64(false)
+    setRequestViewMode('auto')
+    setResponseViewMode('auto')
 
     const current = records.find(record => record.id === selectedId) ?? null
     const hasQuery = current ? getQueryRows(current.url).length > 0 : false
-    const hasRequest = current ? (current.requestBody.text !== null || !!current.requestBody.error) : false
-    const hasResponse = current ? (current.body.text !== null || !!current.body.error) : false
+    const hasRequest = current?.hasRequestBody ?? false
+    const hasResponse = current?.hasResponseBody ?? false
     setQueryOpen(hasQuery)
     setRequestOpen(hasRequest)
     setResponseOpen(hasResponse)
+    setRequestDecryptOpen(true)
+    setResponseDecryptOpen(true)
   }, [records, selectedId])
 
   // 卸载时清理拖拽监听
@@ -701,11 +1258,73 @@ export function App() {
 
   /** 排序后的记录 */
   const orderedRecords = useMemo(() => [...records].reverse(), [records])
-  /** 当前选中的记录 */
-  const selectedRecord = useMemo(
+  /** 选中记录的摘要 */
+  const selectedSummary = useMemo(
     () => records.find(record => record.id === selectedId) ?? null,
     [records, selectedId],
   )
+
+  // 选中记录或其摘要变化时拉取完整记录
+  useEffect(() => {
+    if (!selectedSummary) {
+      setDetail(null)
+      return
+    }
+    /** 是否已过期（选中已切换） */
+    let stale = false
+    void requestRecord(selectedSummary.id).then((record) => {
+      if (!stale)
+        setDetail(record)
+    })
+    return () => {
+      stale = true
+    }
+  }, [selectedSummary, requestRecord])
+
+  /** 当前选中的记录（捕获时的完整记录，拉取完成前为 null） */
+  const capturedRecord = detail?.id === selectedId ? detail : null
+  /** 选中记录的请求体是否需按需加载 */
+  const requestDeferred = capturedRecord?.requestBody.deferred === true
+  /** 选中记录的响应体是否需按需加载 */
+  const responseDeferred = capturedRecord?.body.deferred === true
+  /** 选中记录的请求体加载状态 */
+  const requestLoad = largeBodies.request?.recordId === capturedRecord?.id ? largeBodies.request : undefined
+  /** 选中记录的响应体加载状态 */
+  const responseLoad = largeBodies.response?.recordId === capturedRecord?.id ? largeBodies.response : undefined
+  /** 当前选中的记录（已加载的大正文替换记录中的占位正文） */
+  const selectedRecord = useMemo(() => {
+    if (!capturedRecord)
+      return null
+    // 已加载完成的正文
+    const requestBody = requestLoad?.body
+    const responseBody = responseLoad?.body
+    if (!requestBody && !responseBody)
+      return capturedRecord
+    return {
+      ...capturedRecord,
+      requestBody: requestBody
+        ? { text: requestBody.text, truncated: requestBody.truncated, error: requestBody.error, decrypted: requestBody.decrypted }
+        : capturedRecord.requestBody,
+      body: responseBody ?? capturedRecord.body,
+    }
+  }, [capturedRecord, requestLoad, responseLoad])
+
+  // 选中记录变化时按需加载超过阈值的正文（丢弃上一条记录的大正文）
+  useEffect(() => {
+    if (!selectedId) {
+      setLargeBodies({})
+      return
+    }
+    // 需加载的部分
+    const next: Partial<Record<BodyPart, LargeBodyState>> = {}
+    if (requestDeferred)
+      next.request = createLargeBodyState(selectedId)
+    if (responseDeferred)
+      next.response = createLargeBodyState(selectedId)
+    setLargeBodies(next)
+    for (const part of Object.keys(next) as BodyPart[])
+      sendPanelMessage(portRef.current, { type: 'record.body.load', recordId: selectedId, part })
+  }, [selectedId, requestDeferred, responseDeferred])
   /** 是否已附加到当前 tab */
   const isAttached = attachedTabId === tabId
   /** 右侧宽度百分比 */
@@ -724,7 +1343,16 @@ export function App() {
   /** 点击清空按钮 */
   function handleClearClick(): void {
     sendPanelMessage(portRef.current, { type: 'records.clear' })
-    setSelectedId(null)
+    // 固定的记录会保留，仍可保持选中
+    if (!selectedSummary?.pinned)
+      setSelectedId(null)
+  }
+
+  /** 点击固定/取消固定按钮 */
+  function handlePinClick(): void {
+    if (!selectedSummary)
+      return
+    sendPanelMessage(portRef.current, { type: 'records.pin', recordId: selectedSummary.id, pinned: !selectedSummary.pinned })
   }
 
   /** 点击记录行 */
@@ -732,78 +1360,117 @@ export function App() {
     setSelectedId(recordId)
   }
 
-  /** 请求正文展示内容 */
+  /** 保存单个站点的设置 */
+  function handleSaveSite(site: string, siteSettings: SiteSettings): void {
+    sendPanelMessage(portRef.current, { type: 'settings.site.set', site, settings: siteSettings })
+  }
 
-  const requestDisplay = useMemo(() => {
-    if (!selectedRecord)
+  /** 切换页面加密调用 Hook */
+  function handleToggleHooks(enabled: boolean): void {
+    sendPanelMessage(portRef.current, { type: 'hooks.set', enabled })
+  }
+
+  /** 刷新页面脚本列表 */
+  function handleRefreshScripts(): void {
+    sendPanelMessage(portRef.current, { type: 'scripts.list' })
+  }
+
+  /** 搜索页面脚本（同时刷新脚本列表） */
+  function handleSearchScripts(keywords: string[], caseSensitive: boolean): void {
+    setScriptSearching(true)
+    sendPanelMessage(portRef.current, { type: 'scripts.list' })
+    sendPanelMessage(portRef.current, { type: 'scripts.search', keywords, caseSensitive })
+  }
+
+  /** 切换脚本搜索区块（展开时拉取脚本列表） */
+  function handleToggleScripts(): void {
+    if (!scriptsOpen)
+      handleRefreshScripts()
+    setScriptsOpen(prev => !prev)
+  }
+
+  /** 选定捕获点位置：填入参数捕获表单并展开 */
+  function handlePickLogpointLocation(location: SourceLocation): void {
+    setLogpointDraft(prev => ({ nonce: (prev?.nonce ?? 0) + 1, location }))
+    setLogpointsOpen(true)
+  }
+
+  /** 添加捕获点 */
+  function handleAddLogpoint(location: SourceLocation, expressions: string[], condition: string): void {
+    sendPanelMessage(portRef.current, { type: 'logpoints.add', ...location, expressions, condition })
+  }
+
+  /** 重新加载选中记录的大正文 */
+  function handleReloadLargeBody(part: BodyPart): void {
+    if (!selectedId)
+      return
+    setLargeBodies(prev => ({ ...prev, [part]: createLargeBodyState(selectedId) }))
+    sendPanelMessage(portRef.current, { type: 'record.body.load', recordId: selectedId, part })
+  }
+
+  /** 保存捕获限制 */
+  function handleSaveLimits(limits: CaptureLimits): void {
+    sendPanelMessage(portRef.current, { type: 'settings.limits.set', limits })
+  }
+
+  /** 移除捕获点 */
+  function handleRemoveLogpoint(id: string): void {
+    sendPanelMessage(portRef.current, { type: 'logpoints.remove', id })
+  }
+
+  /** 应用智能识别候选、密钥尝试命中或 Hook 生成的流水线：载入流水线编辑器并展开 */
+  function handleApplySuggestion(target: EditorTarget, steps: PipelineStep[]): void {
+    setPipelineLoad(prev => ({ nonce: (prev?.nonce ?? 0) + 1, target, steps }))
+    setPipelineEditorOpen(true)
+  }
+
+  /** 请求正文值 */
+  const requestValue = useMemo(() => {
+    if (!selectedRecord || selectedRecord.requestBody.text === null)
       return null
-    if (selectedRecord.requestBody.text === null)
+    return textValue(selectedRecord.requestBody.text)
+  }, [selectedRecord])
+
+  /** 响应正文值（base64 正文按字节保留，不经文本解码） */
+  const responseValue = useMemo(() => {
+    if (!selectedRecord || selectedRecord.body.text === null)
       return null
-    // 原始文本
-    const rawText = selectedRecord.requestBody.text
-    // 内容类型
-    const kind = detectContentKind(rawText, selectedRecord.mimeType)
-    if (kind === 'json') {
-      // 格式化 JSON
-      const formatted = tryFormatJson(rawText)
-      return {
-        kind,
-        text: formatted ?? rawText,
-      }
-    }
-    if (kind === 'form') {
-      return {
-        kind,
-        rows: parseFormRows(rawText),
-      }
-    }
-    return {
-      kind: 'text' as const,
-      text: decodeUrlComponent(rawText),
-    }
+    return bodyTextToValue(selectedRecord.body.text, selectedRecord.body.isBase64)
   }, [selectedRecord])
 
+  /** 请求正文展示内容 */
+  const requestDisplay = useMemo(() => {
+    if (!selectedRecord || !requestValue)
+      return null
+    return buildValueDisplay(requestValue, requestViewMode, getHeaderValue(selectedRecord.headers.request, 'content-type'))
+  }, [selectedRecord, requestValue, requestViewMode])
+
   /** 响应正文展示内容 */
   const responseDisplay = useMemo(() => {
-    if (!selectedRecord)
-      return null
-    if (selectedRecord.body.text === null)
+    if (!selectedRecord || selectedRecord.body.text === null)
       return null
-    // 原始文本
-    let rawText = selectedRecord.body.text
-    if (selectedRecord.body.isBase64 && decodeResponseBase64) {
-      // Base64 解码结果
-      const decoded = decodeBase64ToText(rawText)
-      if (!decoded.ok) {
-        return {
-          kind: 'text' as const,
-          text: rawText,
-          decodeError: decoded.message,
-        }
-      }
-      rawText = decoded.text
-    }
-    // 内容类型
-    const kind = detectContentKind(rawText, selectedRecord.mimeType)
-    if (kind === 'json') {
-      // 格式化 JSON
-      const formatted = tryFormatJson(rawText)
-      return {
-        kind,
-        text: formatted ?? rawText,
-      }
-    }
-    if (kind === 'form') {
+    if (!responseValue) {
       return {
-        kind,
-        rows: parseFormRows(rawText),
+        kind: 'text' as const,
+        text: selectedRecord.body.text,
+        decodeError: 'Base64 解码失败',
       }
     }
-    return {
-      kind: 'text' as const,
-      text: decodeUrlComponent(rawText),
-    }
-  }, [selectedRecord, decodeResponseBase64])
+    return buildValueDisplay(responseValue, responseViewMode, selectedRecord.mimeType)
+  }, [selectedRecord, responseValue, responseViewMode])
+
+  /** 响应正文是否为整段编码文本（疑似密文） */
+  const responseEncoded = useMemo(() => {
+    if (!selectedRecord || !responseValue || responseValue.type !== 'text')
+      return false
+    return detectContentKind(responseValue.text, selectedRecord.mimeType) === 'encoded'
+  }, [selectedRecord, responseValue])
+
+  // 选中疑似密文的记录时自动展开智能识别
+  useEffect(() => {
+    if (responseEncoded)
+      setMagicOpen(true)
+  }, [selectedId, responseEncoded])
 
   /** 请求正文文本区块 */
   const requestTextBlock: { node: ReactNode, hasOverflow: boolean } | null = useMemo(() => {
@@ -825,17 +1492,38 @@ export function App() {
     return getQueryRows(selectedRecord.url)
   }, [selectedRecord])
 
+  /** 请求头 meta 信息 */
+  const requestHeadersMeta = selectedRecord
+    ? formatHeadersMeta(selectedRecord.headers.request, selectedRecord.headers.requestExtra)
+    : '空'
+
+  /** 响应头 meta 信息 */
+  const responseHeadersMeta = selectedRecord
+    ? formatHeadersMeta(selectedRecord.headers.response, selectedRecord.headers.responseExtra)
+    : '空'
+
+  /** 发起方 meta 信息 */
+  const initiatorMeta = selectedRecord?.initiator
+    ? `${selectedRecord.initiator.type} · ${selectedRecord.initiator.stack.reduce((total, segment) => total + segment.frames.length, 0)} 帧`
+    : '未知'
+
+  /** 当前记录域名生效的设置（站点 + 全局） */
+  const selectedSiteSettings = useMemo(
+    () => resolveSettingsForHost(settings, selectedRecord ? getUrlHost(selectedRecord.url) : ''),
+    [settings, selectedRecord],
+  )
+
   /** 查询参数 meta 信息 */
   const queryMeta = queryRows.length > 0 ? `${queryRows.length} 项` : '空'
 
   /** 请求正文 meta 信息 */
-  const requestMeta = selectedRecord?.requestBody.text
-    ? `${formatBytes(getByteLength(selectedRecord.requestBody.text))}${selectedRecord.requestBody.truncated ? ' · 已截断' : ''}`
+  const requestMeta = requestValue
+    ? `${formatBytes(getValueByteLength(requestValue))}${selectedRecord?.requestBody.truncated ? ' · 已截断' : ''}`
     : '空'
 
   /** 响应正文 meta 信息 */
   const responseMeta = selectedRecord?.body.text
-    ? `${formatBytes(getByteLength(selectedRecord.body.text))}${selectedRecord.body.truncated ? ' · 已截断' : ''}`
+    ? `${formatBytes(responseValue ? getValueByteLength(responseValue) : getByteLength(selectedRecord.body.text))}${selectedRecord.body.truncated ? ' · 已截断' : ''}`
     : '空'
 
   /** 响应正文解码错误信息 */
@@ -867,6 +1555,13 @@ export function App() {
             >
               {isHeaderCollapsed ? '展开' : '收起'}
             </button>
+            <button
+              type="button"
+              onClick={() => setIsSettingsOpen(prev => !prev)}
+              className={`rounded-full border px-3 py-1 text-xs font-semibold ${isSettingsOpen ? 'border-ink text-ink' : 'border-slate-200 text-slate-600'}`}
+            >
+              设置
+            </button>
             <button
               type="button"
               onClick={isAttached ? handleDetachClick : handleAttachClick}
@@ -898,6 +1593,25 @@ export function App() {
           : null}
       </header>
 
+      {isSettingsOpen
+        ? (
+            <section className="grid max-h-[40vh] gap-3 overflow-y-auto rounded-2xl bg-white px-4 py-3 shadow-lg shadow-slate-200/60">
+              <Section
+                title="导入 / 导出"
+                meta={`${Object.keys(settings.sites).length} 个站点`}
+                isOpen={transferOpen}
+                onToggle={() => setTransferOpen(prev => !prev)}
+              >
+                <SettingsTransfer
+                  host={selectedRecord ? getUrlHost(selectedRecord.url) : ''}
+                  settings={settings}
+                  onSaveSite={handleSaveSite}
+                />
+              </Section>
+            </section>
+          )
+        : null}
+
       {errorMessage
         ? (
             <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
@@ -939,6 +1653,7 @@ export function App() {
                             {record.method}
                           </span>
                           <span className="truncate" title={formatRequestPath(record.url)}>{formatRequestPath(record.url)}</span>
+                          {record.pinned ? <span className="shrink-0 rounded bg-amber-100 px-1.5 py-0.5 text-[10px] font-semibold text-amber-700">固定</span> : null}
                         </div>
                         {formatRequestHost(record.url)
                           ? <div className="truncate text-[10px] text-slate-400" title={formatRequestHost(record.url)}>{formatRequestHost(record.url)}</div>
@@ -966,8 +1681,20 @@ export function App() {
           style={{ width: `${rightPercent}%` }}
           className="flex min-h-0 flex-1 flex-col overflow-hidden rounded-2xl bg-white shadow-lg shadow-slate-200/60"
         >
-          <div className="border-b border-slate-100 px-4 py-3 text-sm font-semibold text-slate-700">
-            请求/响应详情
+          <div className="flex items-center justify-between border-b border-slate-100 px-4 py-3 text-sm font-semibold text-slate-700">
+            <span>请求/响应详情</span>
+            {selectedSummary
+              ? (
+                  <button
+                    type="button"
+                    onClick={handlePinClick}
+                    title={selectedSummary.pinned ? '取消固定后可能被淘汰' : '固定的记录不会被淘汰，清空时也会保留'}
+                    className={`rounded-full border px-3 py-1 text-[11px] font-semibold ${selectedSummary.pinned ? 'border-amber-300 bg-amber-50 text-amber-700' : 'border-slate-200 text-slate-600'}`}
+                  >
+                    {selectedSummary.pinned ? '取消固定' : '固定'}
+                  </button>
+                )
+              : null}
           </div>
           <div className="flex-1 overflow-y-auto overflow-x-hidden px-4 py-3">
             {selectedRecord
@@ -986,13 +1713,40 @@ export function App() {
                     >
                       {renderKeyValueTable(queryRows)}
                     </Section>
+                    <Section
+                      title="请求头"
+                      meta={requestHeadersMeta}
+                      isOpen={requestHeadersOpen}
+                      onToggle={() => setRequestHeadersOpen(prev => !prev)}
+                    >
+                      {renderHeadersTable(selectedRecord.headers.request, selectedRecord.headers.requestExtra, '原始请求头（ExtraInfo）')}
+                    </Section>
+                    <Section
+                      title="响应头"
+                      meta={responseHeadersMeta}
+                      isOpen={responseHeadersOpen}
+                      onToggle={() => setResponseHeadersOpen(prev => !prev)}
+                    >
+                      {renderHeadersTable(selectedRecord.headers.response, selectedRecord.headers.responseExtra, '原始响应头（ExtraInfo）')}
+                    </Section>
+                    <Section
+                      title="发起方"
+                      meta={initiatorMeta}
+                      isOpen={initiatorOpen}
+                      onToggle={() => setInitiatorOpen(prev => !prev)}
+                    >
+                      {selectedRecord.initiator
+                        ? <InitiatorView initiator={selectedRecord.initiator} onPickLocation={handlePickLogpointLocation} />
+                        : <div className="text-slate-400">未捕获到发起方信息</div>}
+                    </Section>
                     <Section
                       title="请求正文"
                       meta={requestMeta}
                       isOpen={requestOpen}
                       onToggle={() => setRequestOpen(prev => !prev)}
                     >
-                      <div className="flex items-center justify-end pb-2">
+                      <div className="flex items-center justify-between gap-2 pb-2">
+                        {renderValueViewSwitch(requestViewMode, setRequestViewMode)}
                         <input
                           value={requestSearch}
                           onChange={event => setRequestSearch(event.target.value)}
@@ -1000,6 +1754,7 @@ export function App() {
                           className="w-40 rounded-md border border-slate-200 px-2 py-1 text-[11px]"
                         />
                       </div>
+                      {renderLargeBodyStatus(requestLoad, () => handleReloadLargeBody('request'))}
                       {selectedRecord.requestBody.error
                         ? <div className="text-rose-600">{selectedRecord.requestBody.error.message}</div>
                         : selectedRecord.requestBody.text === null
@@ -1026,6 +1781,22 @@ export function App() {
                         ? <div className="mt-2 text-[11px] text-slate-400">请求正文已因大小限制截断</div>
                         : null}
                     </Section>
+                    {selectedRecord.requestBody.decrypted
+                      ? (
+                          <Section
+                            title="请求解密"
+                            meta={selectedRecord.requestBody.decrypted.trace.ok ? '成功' : '失败'}
+                            isOpen={requestDecryptOpen}
+                            onToggle={() => setRequestDecryptOpen(prev => !prev)}
+                          >
+                            <DecryptResultView
+                              key={selectedRecord.id}
+                              result={selectedRecord.requestBody.decrypted}
+                              mimeType={getHeaderValue(selectedRecord.headers.request, 'content-type')}
+                            />
+                          </Section>
+                        )
+                      : null}
 
                     <Section
                       title="响应正文"
@@ -1033,7 +1804,8 @@ export function App() {
                       isOpen={responseOpen}
                       onToggle={() => setResponseOpen(prev => !prev)}
                     >
-                      <div className="flex items-center justify-end pb-2">
+                      <div className="flex items-center justify-between gap-2 pb-2">
+                        {renderValueViewSwitch(responseViewMode, setResponseViewMode)}
                         <input
                           value={responseSearch}
                           onChange={event => setResponseSearch(event.target.value)}
@@ -1041,18 +1813,7 @@ export function App() {
                           className="w-40 rounded-md border border-slate-200 px-2 py-1 text-[11px]"
                         />
                       </div>
-                      {selectedRecord.body.isBase64
-                        ? (
-                            <label className="mb-2 flex items-center gap-2 text-[11px] text-slate-500">
-                              <input
-                                type="checkbox"
-                                checked={decodeResponseBase64}
-                                onChange={event => setDecodeResponseBase64(event.target.checked)}
-                              />
-                              Base64 解码
-                            </label>
-                          )
-                        : null}
+                      {renderLargeBodyStatus(responseLoad, () => handleReloadLargeBody('response'))}
                       {selectedRecord.body.error
                         ? <div className="text-rose-600">{selectedRecord.body.error.message}</div>
                         : selectedRecord.body.text === null
@@ -1079,16 +1840,167 @@ export function App() {
                           )
                         : null}
                       {selectedRecord.body.isBase64
-                        ? <div className="mt-2 text-[11px] text-slate-400">响应正文为 Base64 编码</div>
+                        ? <div className="mt-2 text-[11px] text-slate-400">响应正文以 Base64 传输，已按原始字节处理</div>
                         : null}
                       {selectedRecord.body.truncated
                         ? <div className="mt-2 text-[11px] text-slate-400">响应正文超过大小限制已截断</div>
                         : null}
                     </Section>
+                    {selectedRecord.body.decrypted
+                      ? (
+                          <Section
+                            title="响应解密"
+                            meta={selectedRecord.body.decrypted.trace.ok ? '成功' : '失败'}
+                            isOpen={responseDecryptOpen}
+                            onToggle={() => setResponseDecryptOpen(prev => !prev)}
+                          >
+                            <DecryptResultView
+                              key={selectedRecord.id}
+                              result={selectedRecord.body.decrypted}
+                              mimeType={selectedRecord.mimeType}
+                            />
+                          </Section>
+                        )
+                      : null}
+                    {selectedRecord.webSocket
+                      ? (
+                          <Section
+                            title="WebSocket 帧"
+                            meta={`${selectedRecord.webSocket.frames.length} 帧${selectedRecord.webSocket.closed ? ' · 已关闭' : ''}`}
+                            isOpen={framesOpen}
+                            onToggle={() => setFramesOpen(prev => !prev)}
+                          >
+                            <WebSocketFramesView key={selectedRecord.id} connection={selectedRecord.webSocket} />
+                          </Section>
+                        )
+                      : null}
+                    {selectedRecord.stream
+                      ? (
+                          <Section
+                            title="流式事件"
+                            meta={`${selectedRecord.stream.events.length} 个事件${selectedRecord.stream.complete ? '' : ' · 接收中'}`}
+                            isOpen={streamOpen}
+                            onToggle={() => setStreamOpen(prev => !prev)}
+                          >
+                            <StreamEventsView key={selectedRecord.id} stream={selectedRecord.stream} />
+                          </Section>
+                        )
+                      : null}
+
+                    <Section
+                      title="智能识别"
+                      meta={responseEncoded ? '疑似编码' : undefined}
+                      isOpen={magicOpen}
+                      onToggle={() => setMagicOpen(prev => !prev)}
+                    >
+                      <MagicSuggestions
+                        requestValue={requestValue}
+                        responseValue={responseValue}
+                        onApply={handleApplySuggestion}
+                      />
+                    </Section>
+                    <Section
+                      title="加密调用"
+                      meta={hooksEnabled ? `Hook 已启用 · ${hookCalls.length} 次` : 'Hook 未启用'}
+                      isOpen={hooksOpen}
+                      onToggle={() => setHooksOpen(prev => !prev)}
+                    >
+                      <CryptoHookPanel
+                        record={selectedRecord}
+                        records={records}
+                        calls={hookCalls}
+                        correlations={hookCorrelations}
+                        onCorrelate={handleCorrelateHooks}
+                        enabled={hooksEnabled}
+                        onToggle={handleToggleHooks}
+                        onApply={handleApplySuggestion}
+                      />
+                    </Section>
+                    <Section
+                      title="脚本搜索"
+                      meta={scriptSearch ? `${scriptSearch.results.length} 个脚本有命中` : undefined}
+                      isOpen={scriptsOpen}
+                      onToggle={handleToggleScripts}
+                    >
+                      <ScriptSearchPanel
+                        scripts={scripts}
+                        result={scriptSearch}
+                        searching={scriptSearching}
+                        onRefresh={handleRefreshScripts}
+                        onSearch={handleSearchScripts}
+                        onPickLocation={handlePickLogpointLocation}
+                      />
+                    </Section>
+                    <Section
+                      title="参数捕获"
+                      meta={`${logpoints.length} 个捕获点 · ${captures.length} 条`}
+                      isOpen={logpointsOpen}
+                      onToggle={() => setLogpointsOpen(prev => !prev)}
+                    >
+                      <LogpointPanel
+                        logpoints={logpoints}
+                        captures={captures}
+                        records={records}
+                        draftRequest={logpointDraft}
+                        onAdd={handleAddLogpoint}
+                        onRemove={handleRemoveLogpoint}
+                        onSelectRecord={handleSelectRecord}
+                      />
+                    </Section>
+                    <Section
+                      title="密钥尝试"
+                      isOpen={keySearchOpen}
+                      onToggle={() => setKeySearchOpen(prev => !prev)}
+                    >
+                      <KeySearchPanel
+                        record={selectedRecord}
+                        records={records}
+                        loadRecord={requestRecord}
+                        requestValue={requestValue}
+                        responseValue={responseValue}
+                        settings={settings}
+                        onApply={handleApplySuggestion}
+                      />
+                    </Section>
+                    <Section
+                      title="流水线编辑"
+                      meta={`${selectedSiteSettings.rules.length} 条规则`}
+                      isOpen={pipelineEditorOpen}
+                      onToggle={() => setPipelineEditorOpen(prev => !prev)}
+                    >
+                      <PipelineEditor
+                        record={selectedRecord}
+                        requestValue={requestValue}
+                        responseValue={responseValue}
+                        settings={settings}
+                        onSaveSite={handleSaveSite}
+                        loadRequest={pipelineLoad}
+                      />
+                    </Section>
+                    <Section
+                      title="密钥配置"
+                      meta={`${selectedSiteSettings.keyProfiles.length} 项`}
+                      isOpen={keyProfilesOpen}
+                      onToggle={() => setKeyProfilesOpen(prev => !prev)}
+                    >
+                      <KeyProfileEditor
+                        host={getUrlHost(selectedRecord.url)}
+                        settings={settings}
+                        onSaveSite={handleSaveSite}
+                      />
+                    </Section>
+                    <Section
+                      title="捕获限制"
+                      meta={`大正文 ${formatBytes(settings.limits.largeBodyBytes)}`}
+                      isOpen={limitsOpen}
+                      onToggle={() => setLimitsOpen(prev => !prev)}
+                    >
+                      <CaptureLimitsEditor key={Object.values(settings.limits).join(':')} limits={settings.limits} onSave={handleSaveLimits} />
+                    </Section>
                   </div>
                 )
               : (
-                  <div className="text-xs text-slate-400">请选择一条记录查看详情</div>
+                  <div className="text-xs text-slate-400">{selectedSummary ? '正在加载记录详情…' : '请选择一条记录查看详情'}</div>
                 )}
           </div>
         </section>
@@ -0,0 +1,74 @@
+import { useState } from 'react'
+import type { CaptureLimits } from '../shared/settings'
+import { CAPTURE_LIMIT_RANGES } from '../shared/settings'
+import { formatBytes } from './common'
+
+/** 捕获限制编辑项（按显示单位换算） */
+const CAPTURE_LIMIT_FIELDS: Array<{ key: keyof CaptureLimits, label: string, unit: string, scale: number }> = [
+  { key: 'maxRecords', label: '最多保留记录数', unit: '条', scale: 1 },
+  { key: 'maxBufferBytes', label: '记录正文总上限', unit: 'MB', scale: 1024 * 1024 },
+  { key: 'maxRecordBytes', label: '单条记录正文上限', unit: 'KB', scale: 1024 },
+  { key: 'largeBodyBytes', label: '大正文按需加载上限', unit: 'MB', scale: 1024 * 1024 },
+]
+
+/** 捕获限制编辑 */
+export function CaptureLimitsEditor(props: {
+  /** 当前捕获限制 */
+  limits: CaptureLimits
+  /** 保存捕获限制 */
+  onSave: (limits: CaptureLimits) => void
+}) {
+  const { limits, onSave } = props
+  /** 各项草稿（显示单位） */
+  const [drafts, setDrafts] = useState<Record<keyof CaptureLimits, string>>(() => ({
+    largeBodyBytes: String(limits.largeBodyBytes / 1024 / 1024),
+    maxRecords: String(limits.maxRecords),
+    maxBufferBytes: String(limits.maxBufferBytes / 1024 / 1024),
+    maxRecordBytes: String(limits.maxRecordBytes / 1024),
+  }))
+  // 草稿换算后的限制与首个非法项的提示
+  const next = { ...limits }
+  let invalid: string | null = null
+  for (const field of CAPTURE_LIMIT_FIELDS) {
+    const range = CAPTURE_LIMIT_RANGES[field.key]
+    const value = Math.round(Number(drafts[field.key]) * field.scale)
+    if (!Number.isFinite(value) || value < range.min || value > range.max)
+      invalid ??= `${field.label}请输入 ${range.min / field.scale} ~ ${range.max / field.scale} 之间的数值`
+    else
+      next[field.key] = value
+  }
+  const changed = CAPTURE_LIMIT_FIELDS.some(field => next[field.key] !== limits[field.key])
+
+  return (
+    <div className="grid gap-2 text-[11px]">
+      {CAPTURE_LIMIT_FIELDS.map(field => (
+        <label key={field.key} className="flex items-center gap-2">
+          <span className="w-28 text-slate-500">{field.label}</span>
+          <input
+            type="number"
+            min={CAPTURE_LIMIT_RANGES[field.key].min / field.scale}
+            max={CAPTURE_LIMIT_RANGES[field.key].max / field.scale}
+            value={drafts[field.key]}
+            onChange={event => setDrafts(prev => ({ ...prev, [field.key]: event.target.value }))}
+            className="w-20 rounded-md border border-slate-200 px-2 py-1 text-[11px]"
+          />
+          <span className="text-slate-500">{field.unit}</span>
+        </label>
+      ))}
+      <div>
+        <button
+          type="button"
+          disabled={invalid !== null || !changed}
+          onClick={() => onSave(next)}
+          className="rounded-full border border-slate-200 px-3 py-1 font-semibold text-slate-600 disabled:opacity-40"
+        >
+          保存
+        </button>
+      </div>
+      {invalid ? <div className="text-rose-600">{invalid}</div> : null}
+      <div className="text-slate-400">
+        {`记录数或正文总量超出上限时从最旧的记录开始淘汰，固定的记录不会被淘汰；超过 ${formatBytes(limits.maxRecordBytes)} 的正文在选中记录时按需读取，WebSocket 帧与流事件超出时丢弃最早的。浏览器保留正文的缓冲区按大正文上限设置，修改后立即生效；缓存的大正文计入正文总量。`}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,402 @@
+import type { ReactNode } from 'react'
+import type { MagicCharset } from '../shared/magic'
+import type { PipelineValue, ValueView } from '../shared/value'
+import { hexEncode, utf8Decode } from '../shared/bytes'
+import { detectTextCharset } from '../shared/magic'
+import { GLOBAL_SITE } from '../shared/settings'
+import { VALUE_VIEWS, formatValueView, valueToText } from '../shared/value'
+
+/** 预览展示的最大行数 */
+const PREVIEW_MAX_LINES = 60
+
+/** 预览展示的最大字符数 */
+const PREVIEW_MAX_CHARS = 4000
+
+/** 高亮颜色 class */
+const HIGHLIGHT_CLASS_NAME = 'bg-yellow-200 text-slate-900'
+
+/** 查询参数条目 */
+export interface KeyValueRow {
+  /** 键 */
+  key: string
+  /** 值 */
+  value: string
+}
+
+/** 内容类型（encoded：整段为 hex/base64 等编码文本，疑似密文） */
+type ContentKind = 'empty' | 'json' | 'form' | 'encoded' | 'text'
+
+/** 正文展示内容 */
+type BodyDisplay =
+  | { kind: 'json', text: string }
+  | { kind: 'form', rows: KeyValueRow[] }
+  | { kind: 'text', text: string }
+
+/** 值查看方式（auto 按内容自动选择） */
+export type ValueViewMode = 'auto' | ValueView
+
+/** 值查看方式展示名 */
+const VALUE_VIEW_LABELS: Record<ValueViewMode, string> = {
+  auto: '自动',
+  hex: 'Hex',
+  base64: 'Base64',
+  utf8: 'UTF-8',
+  latin1: 'Latin-1',
+}
+
+/** 视为编码内容的字符集 */
+const ENCODED_CHARSETS: MagicCharset[] = ['hex', 'base64', 'base64url']
+
+/** 值查看方式列表 */
+const VALUE_VIEW_MODES: ValueViewMode[] = ['auto', ...VALUE_VIEWS]
+
+/** 格式化字节数 */
+export function formatBytes(value: number): string {
+  // 处理非法输入
+  if (!Number.isFinite(value))
+    return '-'
+  // 小于 1024 直接展示
+  if (value < 1024)
+    return `${Math.round(value)} B`
+  // 计算 KB
+  const kb = value / 1024
+  if (kb < 1024)
+    return `${kb.toFixed(1)} KB`
+  // 计算 MB
+  const mb = kb / 1024
+  return `${mb.toFixed(1)} MB`
+}
+
+/** 格式化时间戳 */
+export function formatTime(timeStamp: number): string {
+  // 处理非法输入
+  if (!Number.isFinite(timeStamp))
+    return '-'
+  // 转换时间
+  const date = new Date(timeStamp)
+  return `${date.toLocaleTimeString()} ${date.toLocaleDateString()}`
+}
+
+/** 提取请求路径 */
+export function formatRequestPath(url: string): string {
+  // 解析 URL
+  try {
+    // 解析 URL 对象
+    const parsed = new URL(url)
+    // 拼接路径与查询参数
+    const path = parsed.pathname || '/'
+    return parsed.search ? `${path}${parsed.search}` : path
+  }
+  catch {
+    // URL 解析失败时降级为原始字符串
+    return url
+  }
+}
+
+/** 将字符串安全解码为 URL 组件 */
+export function decodeUrlComponent(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  }
+  catch {
+    return value
+  }
+}
+
+/** 推断内容类型 */
+export function detectContentKind(text: string, mimeType: string): ContentKind {
+  // 去除空白后的文本
+  const trimmed = text.trim()
+  if (!trimmed)
+    return 'empty'
+  if (mimeType.includes('json') || trimmed.startsWith('{') || trimmed.startsWith('['))
+    return 'json'
+  if (mimeType.includes('x-www-form-urlencoded') || (trimmed.includes('=') && trimmed.includes('&')))
+    return 'form'
+  if (ENCODED_CHARSETS.includes(detectTextCharset(trimmed)))
+    return 'encoded'
+  return 'text'
+}
+
+/** 尝试格式化 JSON */
+function tryFormatJson(text: string): string | null {
+  try {
+    // 解析后的对象
+    const parsed = JSON.parse(text) as unknown
+    return JSON.stringify(parsed, null, 2)
+  }
+  catch {
+    return null
+  }
+}
+
+/** 解析表单文本为键值对 */
+function parseFormRows(text: string): KeyValueRow[] {
+  // 参数列表
+  const params = new URLSearchParams(text)
+  // 输出行
+  const rows: KeyValueRow[] = []
+  params.forEach((value, key) => {
+    rows.push({
+      key: decodeUrlComponent(key),
+      value: decodeUrlComponent(value),
+    })
+  })
+  return rows
+}
+
+/** 按内容类型生成正文展示内容 */
+function buildBodyDisplay(rawText: string, mimeType: string): BodyDisplay {
+  // 内容类型
+  const kind = detectContentKind(rawText, mimeType)
+  if (kind === 'json') {
+    // 格式化 JSON
+    const formatted = tryFormatJson(rawText)
+    return {
+      kind,
+      text: formatted ?? rawText,
+    }
+  }
+  if (kind === 'form') {
+    return {
+      kind,
+      rows: parseFormRows(rawText),
+    }
+  }
+  // 编码文本原样展示，避免 URL 解码改写 base64 中的 +
+  if (kind === 'encoded')
+    return { kind: 'text', text: rawText }
+  return {
+    kind: 'text',
+    text: decodeUrlComponent(rawText),
+  }
+}
+
+/** 按查看方式生成值的展示内容（auto：文本/JSON 按内容渲染，非 UTF-8 字节以 Hex 展示） */
+export function buildValueDisplay(value: PipelineValue, mode: ValueViewMode, mimeType: string): BodyDisplay {
+  if (mode !== 'auto')
+    return { kind: 'text', text: formatValueView(value, mode) }
+  if (value.type === 'json')
+    return { kind: 'json', text: JSON.stringify(value.data, null, 2) ?? '' }
+  if (value.type === 'text')
+    return buildBodyDisplay(value.text, mimeType)
+  // 严格 UTF-8 解码，失败说明是二进制内容
+  const text = utf8Decode(value.bytes, true)
+  return text === null
+    ? { kind: 'text', text: formatValueView(value, 'hex') }
+    : buildBodyDisplay(text, mimeType)
+}
+
+/** 值类型展示名 */
+export function formatValueType(value: PipelineValue): string {
+  if (value.type === 'json')
+    return 'JSON'
+  return value.type === 'bytes' ? '字节' : '文本'
+}
+
+/** 转义正则字符 */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** 高亮文本命中 */
+export function highlightText(text: string, keyword: string): ReactNode {
+  if (!keyword)
+    return text
+  // 关键字正则
+  const regex = new RegExp(escapeRegExp(keyword), 'gi')
+  // 分段内容
+  const parts = text.split(regex)
+  if (parts.length === 1)
+    return text
+  // 匹配列表
+  const matches = text.match(regex)
+  if (!matches)
+    return text
+  // 片段节点
+  const nodes: ReactNode[] = []
+  for (let index = 0; index < parts.length; index += 1) {
+    // 当前分段
+    const part = parts[index]
+    if (part)
+      nodes.push(part)
+    // 当前匹配
+    const match = matches[index]
+    if (match) {
+      nodes.push(
+        <mark key={`${match}-${index}`} className={HIGHLIGHT_CLASS_NAME}>
+          {match}
+        </mark>,
+      )
+    }
+  }
+  return nodes
+}
+
+/** 渲染 key/value 表格 */
+export function renderKeyValueTable(rows: KeyValueRow[]): ReactNode {
+  if (rows.length === 0)
+    return <div className="text-slate-400">无内容</div>
+  return (
+    <div className="grid gap-2">
+      {rows.map(row => (
+        <div key={`${row.key}-${row.value}`} className="grid grid-cols-[140px_1fr] gap-2">
+          <div className="truncate text-slate-500">{row.key}</div>
+          <div className="break-words text-slate-700">{row.value}</div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/** 渲染文本区块（支持预览/搜索高亮） */
+export function renderTextBlock(text: string, keyword: string, expanded: boolean): { node: ReactNode, hasOverflow: boolean } {
+  // 行列表
+  const lines = text.split(/\r?\n/)
+  // 是否超出行数
+  const hasLineOverflow = lines.length > PREVIEW_MAX_LINES
+  // 是否超出字符数
+  const hasCharOverflow = text.length > PREVIEW_MAX_CHARS
+  // 是否超出预览限制
+  const hasOverflow = hasLineOverflow || hasCharOverflow
+  // 预览文本
+  let previewText = text
+  if (!expanded && hasOverflow) {
+    if (hasLineOverflow) {
+      previewText = lines.slice(0, PREVIEW_MAX_LINES).join('\n')
+    }
+    else {
+      previewText = text.slice(0, PREVIEW_MAX_CHARS)
+    }
+  }
+  return {
+    node: (
+      <div className="grid gap-2">
+        <pre className="whitespace-pre-wrap break-words font-mono text-[11px]">
+          {highlightText(previewText, keyword)}
+        </pre>
+      </div>
+    ),
+    hasOverflow,
+  }
+}
+
+/** 渲染正文展示内容 */
+export function renderBodyDisplay(display: BodyDisplay, keyword: string, expanded: boolean): { node: ReactNode, hasOverflow: boolean } {
+  if (display.kind === 'form')
+    return { node: renderKeyValueTable(display.rows), hasOverflow: false }
+  return renderTextBlock(display.text, keyword, expanded)
+}
+
+/** 渲染值查看方式切换按钮组 */
+export function renderValueViewSwitch(mode: ValueViewMode, onChange: (mode: ValueViewMode) => void): ReactNode {
+  return (
+    <div className="flex items-center gap-1">
+      {VALUE_VIEW_MODES.map(item => (
+        <button
+          key={item}
+          type="button"
+          onClick={() => onChange(item)}
+          className={item === mode
+            ? 'rounded-full bg-ink px-2 py-0.5 text-[10px] font-semibold text-white'
+            : 'rounded-full border border-slate-200 px-2 py-0.5 text-[10px] text-slate-500'}
+        >
+          {VALUE_VIEW_LABELS[item]}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+/** 设置保存范围 */
+export type SettingsScope = 'site' | 'global'
+
+/** 设置保存范围展示名 */
+export const SETTINGS_SCOPE_LABELS: Record<SettingsScope, string> = {
+  site: '当前站点',
+  global: '全局',
+}
+
+/** 生成设置条目标识（时间戳 + 随机后缀） */
+export function createSettingsItemId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+}
+
+/** 按保存范围解析站点键（无域名时退回全局） */
+export function resolveScopeSite(scope: SettingsScope, host: string): string {
+  return scope === 'site' && host ? host : GLOBAL_SITE
+}
+
+/** 渲染设置保存范围切换按钮组 */
+export function renderScopeSwitch(scope: SettingsScope, onChange: (scope: SettingsScope) => void): ReactNode {
+  return (
+    <div className="flex items-center gap-1">
+      {(['site', 'global'] as const).map(item => (
+        <button
+          key={item}
+          type="button"
+          onClick={() => onChange(item)}
+          className={item === scope
+            ? 'rounded-full bg-ink px-2 py-0.5 text-[10px] font-semibold text-white'
+            : 'rounded-full border border-slate-200 px-2 py-0.5 text-[10px] text-slate-500'}
+        >
+          {SETTINGS_SCOPE_LABELS[item]}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+/** 编辑器输入目标 */
+export type EditorTarget = 'request' | 'response'
+
+/** 编辑器输入目标展示名 */
+export const EDITOR_TARGET_LABELS: Record<EditorTarget, string> = {
+  request: '请求正文',
+  response: '响应正文',
+}
+
+/** 步骤输出摘要的最大字符数 */
+export const STEP_SNIPPET_MAX_CHARS = 120
+
+/** 生成值的单行摘要（二进制以 Hex 展示） */
+export function formatValueSnippet(value: PipelineValue): string {
+  // 摘要文本
+  const text = value.type === 'bytes'
+    ? utf8Decode(value.bytes, true) ?? hexEncode(value.bytes.subarray(0, STEP_SNIPPET_MAX_CHARS / 2))
+    : valueToText(value)
+  // 压缩空白
+  const singleLine = text.replace(/\s+/g, ' ')
+  return singleLine.length > STEP_SNIPPET_MAX_CHARS ? `${singleLine.slice(0, STEP_SNIPPET_MAX_CHARS)}…` : singleLine
+}
+
+/** 源码位置（行列号从 0 开始） */
+export interface SourceLocation {
+  /** 脚本 URL */
+  url: string
+  /** 行号 */
+  lineNumber: number
+  /** 列号 */
+  columnNumber: number
+}
+
+/** 在 DevTools Sources 面板中打开源码位置（行列号从 0 开始） */
+export function openSourceLocation(url: string, lineNumber: number, columnNumber: number): void {
+  chrome.devtools.panels.openResource(url, lineNumber, columnNumber, () => {})
+}
+
+/** 源码位置显示文本（文件名 + 1 起始的行列号） */
+export function formatSourceLocation(url: string, lineNumber: number, columnNumber: number): string {
+  // 路径（去除查询参数）
+  const path = formatRequestPath(url).replace(/\?.*$/, '')
+  // 文件名（取路径最后一段）
+  const fileName = path.slice(path.lastIndexOf('/') + 1) || url
+  return `${fileName}:${lineNumber + 1}:${columnNumber + 1}`
+}
+
+/** 帧时间（时:分:秒.毫秒） */
+export function formatFrameTime(timeStamp: number): string {
+  // 转换时间
+  const date = new Date(timeStamp)
+  return `${date.toLocaleTimeString()}.${String(date.getMilliseconds()).padStart(3, '0')}`
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react'
+import type { CryptoHookCall, CryptoHookCorrelation } from '../shared/crypto-hooks'
+import type { RecordSummary, ResponseRecord } from '../shared/messages'
+import type { PipelineStep } from '../shared/pipeline'
+import { hexDecode } from '../shared/bytes'
+import { buildPipelineFromCryptoCall } from '../shared/crypto-hooks'
+import { bytesValue } from '../shared/value'
+import type { EditorTarget } from './common'
+import { STEP_SNIPPET_MAX_CHARS, formatRequestPath, formatTime, formatValueSnippet } from './common'
+
+/** hex 数据的展示片段（合法 UTF-8 时展示文本） */
+function formatHexSnippet(hex: string): string {
+  // 字节
+  const bytes = hexDecode(hex)
+  if (!bytes)
+    return hex.slice(0, STEP_SNIPPET_MAX_CHARS)
+  return formatValueSnippet(bytesValue(bytes))
+}
+
+/** 页面加密调用：展示 Hook 捕获的调用并生成对应流水线 */
+export function CryptoHookPanel(props: {
+  /** 当前记录 */
+  record: ResponseRecord
+  /** 全部记录摘要（显示关联记录） */
+  records: RecordSummary[]
+  /** 已捕获的调用 */
+  calls: CryptoHookCall[]
+  /** 调用与记录的关联（调用 ID -> 关联，由后台计算） */
+  correlations: Map<string, CryptoHookCorrelation>
+  /** 请求重新计算关联 */
+  onCorrelate: () => void
+  /** 是否启用 Hook */
+  enabled: boolean
+  /** 切换 Hook */
+  onToggle: (enabled: boolean) => void
+  /** 应用生成的流水线 */
+  onApply: (target: EditorTarget, steps: PipelineStep[]) => void
+}) {
+  const { record, records, calls, correlations, onCorrelate, enabled, onToggle, onApply } = props
+  /** 是否展示全部调用（否则只展示关联到当前记录的） */
+  const [showAll, setShowAll] = useState(false)
+  /** 生成失败提示 */
+  const [notice, setNotice] = useState<string | null>(null)
+  // 最新记录（新记录可能成为调用的关联对象）
+  const latestRecordId = records.at(-1)?.id
+
+  // 调用或记录变化时请求后台重新计算关联（关联需比对正文）
+  useEffect(() => {
+    onCorrelate()
+  }, [calls.length, latestRecordId, onCorrelate])
+  // 展示的调用（新调用在前）
+  const visibleCalls = [...calls].reverse().filter(call => showAll || correlations.get(call.id)?.recordId === record.id)
+
+  /** 生成并载入流水线 */
+  function handleGenerate(call: CryptoHookCall): void {
+    const result = buildPipelineFromCryptoCall(call)
+    if (!result.ok) {
+      setNotice(result.message)
+      return
+    }
+    setNotice(null)
+    // 加密调用对应请求正文，解密调用对应响应正文
+    onApply(call.operation === 'encrypt' || call.operation === 'encode' ? 'request' : 'response', result.steps)
+  }
+
+  return (
+    <div className="grid gap-2 text-[11px]">
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-1 text-slate-600">
+          <input type="checkbox" checked={enabled} onChange={event => onToggle(event.target.checked)} />
+          启用页面 Hook（crypto.subtle / CryptoJS / JSEncrypt / atob / btoa）
+        </label>
+        <label className="flex shrink-0 items-center gap-1 text-slate-500">
+          <input type="checkbox" checked={showAll} onChange={event => setShowAll(event.target.checked)} />
+          全部调用
+        </label>
+      </div>
+      <div className="text-slate-400">启用后新加载的页面自动注入；已运行的脚本若提前缓存了函数引用，需刷新页面后才能捕获。</div>
+      {notice ? <div className="text-rose-600">{notice}</div> : null}
+      {visibleCalls.length === 0
+        ? <div className="text-slate-400">{showAll ? '暂无调用' : '暂无关联到当前记录的调用'}</div>
+        : visibleCalls.map((call) => {
+            // 关联结果
+            const correlation = correlations.get(call.id)
+            return (
+              <div key={call.id} className="grid gap-1 rounded-md border border-slate-100 px-2 py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate font-mono text-slate-700">
+                    {[call.api, call.algorithm, call.mode, call.padding].filter(Boolean).join(' · ')}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleGenerate(call)}
+                    className="shrink-0 rounded-full bg-ink px-2 py-0.5 text-[10px] font-semibold text-white"
+                  >
+                    生成流水线
+                  </button>
+                </div>
+                <div className="text-slate-400">
+                  {`${formatTime(call.timeStamp)} · ${correlation ? `${correlation.match === 'content' ? '数据匹配' : '时间邻近'} ${formatRequestPath(records.find(item => item.id === correlation.recordId)?.url ?? '')}` : '未关联'}`}
+                </div>
+                {call.key ? <div className="truncate font-mono text-slate-500">{`${call.keyType === 'passphrase' ? '口令' : '密钥'} ${formatHexSnippet(call.key)}`}</div> : null}
+                {call.iv ? <div className="truncate font-mono text-slate-500">{`IV ${call.iv}`}</div> : null}
+                <div className="truncate font-mono text-slate-500">{`输入 ${formatHexSnippet(call.input)}`}</div>
+                <div className="truncate font-mono text-slate-500">{`输出 ${formatHexSnippet(call.output)}`}</div>
+              </div>
+            )
+          })}
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import type { DecryptResult } from '../shared/messages'
+import { getOperator } from '../shared/pipeline'
+import { getValueByteLength, restoreValue } from '../shared/value'
+import type { ValueViewMode } from './common'
+import { buildValueDisplay, formatBytes, formatValueType, renderBodyDisplay, renderValueViewSwitch } from './common'
+
+/** 解密结果视图（明文 + 逐步结果，可切换查看方式） */
+export function DecryptResultView(props: {
+  /** 解密结果 */
+  result: DecryptResult
+  /** 原始 MIME 类型 */
+  mimeType: string
+}) {
+  const { result, mimeType } = props
+  /** 明文是否展开 */
+  const [expanded, setExpanded] = useState(false)
+  /** 查看方式（明文与步骤输出共用） */
+  const [viewMode, setViewMode] = useState<ValueViewMode>('auto')
+  /** 展开输出的步骤序号 */
+  const [openStepIndex, setOpenStepIndex] = useState<number | null>(null)
+  // 执行快照
+  const { trace } = result
+  // 明文值
+  const plainValue = trace.output ? restoreValue(trace.output) : null
+  // 明文展示内容
+  const display = plainValue ? buildValueDisplay(plainValue, viewMode, mimeType) : null
+  // 明文区块
+  const block = display ? renderBodyDisplay(display, '', expanded) : null
+  // 展开步骤的输出值
+  const openStep = trace.steps.find(step => step.index === openStepIndex) ?? null
+  const openStepValue = openStep?.output ? restoreValue(openStep.output) : null
+  // 展开步骤的输出区块
+  const openStepBlock = openStepValue
+    ? renderBodyDisplay(buildValueDisplay(openStepValue, viewMode, ''), '', false)
+    : null
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-[11px] text-slate-500">
+          命中规则：
+          {result.ruleName || result.ruleId}
+          {plainValue ? ` · ${formatValueType(plainValue)} ${formatBytes(getValueByteLength(plainValue))}` : ''}
+        </div>
+        {renderValueViewSwitch(viewMode, setViewMode)}
+      </div>
+      {trace.error
+        ? <div className="text-rose-600">{trace.error.message}</div>
+        : null}
+      {block?.node}
+      {block?.hasOverflow
+        ? (
+            <button
+              type="button"
+              onClick={() => setExpanded(prev => !prev)}
+              className="text-left text-[11px] text-slate-500"
+            >
+              {expanded ? '收起全文' : '展开全文'}
+            </button>
+          )
+        : null}
+      <div className="grid gap-1 border-t border-slate-100 pt-2 text-[11px]">
+        {trace.steps.map(step => (
+          <button
+            key={step.index}
+            type="button"
+            disabled={!step.output}
+            onClick={() => setOpenStepIndex(prev => (prev === step.index ? null : step.index))}
+            className="flex items-center justify-between gap-2 text-left disabled:cursor-default"
+          >
+            <span className={step.index === openStepIndex ? 'truncate font-semibold text-slate-700' : 'truncate text-slate-600'}>
+              {`${step.index + 1}. ${getOperator(step.operatorId)?.name ?? step.operatorId}`}
+            </span>
+            <span className={step.error ? 'text-rose-500' : 'text-slate-400'}>
+              {step.skipped ? '已跳过' : step.error ? step.error.message : `${step.durationMs.toFixed(1)} ms`}
+            </span>
+          </button>
+        ))}
+      </div>
+      {openStep && openStepValue
+        ? (
+            <div className="grid gap-1 rounded-md bg-slate-50 px-2 py-2">
+              <div className="text-[11px] text-slate-500">
+                {`步骤 ${openStep.index + 1} 输出 · ${formatValueType(openStepValue)} ${formatBytes(getValueByteLength(openStepValue))}`}
+              </div>
+              {openStepBlock?.node}
+            </div>
+          )
+        : null}
+    </div>
+  )
+}
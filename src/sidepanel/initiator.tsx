@@ -0,0 +1,75 @@
+import type { RequestInitiator, StackFrame } from '../shared/messages'
+import type { SourceLocation } from './common'
+import { formatSourceLocation, openSourceLocation } from './common'
+
+/** 栈帧显示名（匿名函数标记为 anonymous） */
+function formatFrameName(frame: StackFrame): string {
+  return frame.functionName || '(anonymous)'
+}
+
+/** 请求发起方：类型、发起位置与含异步父栈的完整调用栈，位置可跳转到 Sources 面板或设为捕获点 */
+export function InitiatorView(props: {
+  /** 发起方信息 */
+  initiator: RequestInitiator
+  /** 选为捕获点位置 */
+  onPickLocation: (location: SourceLocation) => void
+}) {
+  const { initiator, onPickLocation } = props
+  // 链接样式
+  const linkClassName = 'truncate text-left font-mono text-sky-600 hover:underline'
+  // 按片段顺序展开的行（异步边界行 + 栈帧行），id 为栈内位置
+  const rows: Array<{ id: string, description: string | null, frame: StackFrame | null }> = []
+  for (const segment of initiator.stack) {
+    if (segment.description)
+      rows.push({ id: `async-${rows.length}`, description: segment.description, frame: null })
+    for (const frame of segment.frames)
+      rows.push({ id: `frame-${rows.length}`, description: null, frame })
+  }
+  return (
+    <div className="grid gap-2 text-[11px]">
+      <div className="flex items-center gap-2">
+        <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[10px] text-slate-600">{initiator.type}</span>
+        {initiator.url && initiator.lineNumber !== null
+          ? (
+              <button
+                type="button"
+                title={initiator.url}
+                onClick={() => openSourceLocation(initiator.url ?? '', initiator.lineNumber ?? 0, initiator.columnNumber ?? 0)}
+                className={linkClassName}
+              >
+                {formatSourceLocation(initiator.url, initiator.lineNumber, initiator.columnNumber ?? 0)}
+              </button>
+            )
+          : <span className="truncate text-slate-500">{initiator.url ?? '未知位置'}</span>}
+      </div>
+      {rows.length === 0
+        ? <div className="text-slate-400">无 JS 调用栈</div>
+        : (
+            <div className="grid gap-0.5">
+              {rows.map(({ id, description, frame }) => frame
+                ? (
+                    <div key={id} className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)_auto] gap-2">
+                      <span className="truncate font-mono text-slate-700" title={formatFrameName(frame)}>{formatFrameName(frame)}</span>
+                      {frame.url
+                        ? (
+                            <button
+                              type="button"
+                              title={frame.url}
+                              onClick={() => openSourceLocation(frame.url, frame.lineNumber, frame.columnNumber)}
+                              className={linkClassName}
+                            >
+                              {formatSourceLocation(frame.url, frame.lineNumber, frame.columnNumber)}
+                            </button>
+                          )
+                        : <span className="truncate font-mono text-slate-400">{`(VM ${frame.scriptId})`}</span>}
+                      {frame.url
+                        ? <button type="button" onClick={() => onPickLocation(frame)} className="text-slate-400 hover:text-slate-700">捕获</button>
+                        : <span />}
+                    </div>
+                  )
+                : <div key={id} className="pt-1 text-[10px] text-slate-400">{`—— ${description} ——`}</div>)}
+            </div>
+          )}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import type { KeyProfile, Settings, SiteSettings } from '../shared/settings'
+import { GLOBAL_SITE, KEY_PROFILE_ENCODINGS, getSiteSettings } from '../shared/settings'
+import type { SettingsScope } from './common'
+import { SETTINGS_SCOPE_LABELS, createSettingsItemId, renderScopeSwitch, resolveScopeSite } from './common'
+
+/** 密钥配置编辑器（按站点/全局保存命名密钥与 IV） */
+export function KeyProfileEditor(props: {
+  /** 当前记录域名 */
+  host: string
+  /** 持久化设置 */
+  settings: Settings
+  /** 保存站点设置 */
+  onSaveSite: (site: string, siteSettings: SiteSettings) => void
+}) {
+  const { host, settings, onSaveSite } = props
+  /** 新配置草稿 */
+  const [draft, setDraft] = useState<Omit<KeyProfile, 'id'>>({ name: '', key: '', keyEncoding: 'utf8', iv: '', ivEncoding: 'utf8' })
+  /** 保存范围 */
+  const [scope, setScope] = useState<SettingsScope>('site')
+  // 站点与全局配置（站点在前）
+  const groups: Array<[string, KeyProfile[]]> = [
+    ...(host ? [[host, getSiteSettings(settings, host).keyProfiles] as [string, KeyProfile[]]] : []),
+    [GLOBAL_SITE, getSiteSettings(settings, GLOBAL_SITE).keyProfiles],
+  ]
+  // 输入框公共样式
+  const inputClassName = 'min-w-0 rounded-md border border-slate-200 px-2 py-1 font-mono text-[11px]'
+
+  /** 添加配置 */
+  function handleAdd(): void {
+    // 配置名称
+    const name = draft.name.trim()
+    if (!name)
+      return
+    // 目标站点及其现有设置
+    const site = resolveScopeSite(scope, host)
+    const current = getSiteSettings(settings, site)
+    onSaveSite(site, {
+      ...current,
+      keyProfiles: [...current.keyProfiles.filter(item => item.name !== name), { ...draft, name, id: createSettingsItemId('key') }],
+    })
+    setDraft(prev => ({ ...prev, name: '', key: '', iv: '' }))
+  }
+
+  /** 删除配置 */
+  function handleRemove(site: string, profileId: string): void {
+    // 站点现有设置
+    const current = getSiteSettings(settings, site)
+    onSaveSite(site, { ...current, keyProfiles: current.keyProfiles.filter(item => item.id !== profileId) })
+  }
+
+  return (
+    <div className="grid gap-3 text-[11px]">
+      <div className="text-slate-400">
+        字节参数选择 var 编码并填写「名称.key」或「名称.iv」即可引用，同名时站点配置优先。
+      </div>
+      {groups.map(([site, profiles]) => (
+        <div key={site} className="grid gap-1">
+          <div className="font-semibold text-slate-500">{site === GLOBAL_SITE ? SETTINGS_SCOPE_LABELS.global : site}</div>
+          {profiles.length === 0
+            ? <div className="text-slate-400">无配置</div>
+            : profiles.map(profile => (
+                <div key={profile.id} className="flex items-center justify-between gap-2">
+                  <span className="truncate font-mono text-slate-700">
+                    {`${profile.name} · key(${profile.keyEncoding})${profile.iv ? ` · iv(${profile.ivEncoding})` : ''}`}
+                  </span>
+                  <button type="button" onClick={() => handleRemove(site, profile.id)} className="shrink-0 text-rose-500">删除</button>
+                </div>
+              ))}
+        </div>
+      ))}
+      <div className="grid gap-1 border-t border-slate-100 pt-2">
+        <input
+          value={draft.name}
+          onChange={event => setDraft(prev => ({ ...prev, name: event.target.value }))}
+          placeholder="配置名称"
+          className={inputClassName}
+        />
+        <div className="grid grid-cols-[1fr_80px] gap-2">
+          <input value={draft.key} onChange={event => setDraft(prev => ({ ...prev, key: event.target.value }))} placeholder="密钥" className={inputClassName} />
+          <select value={draft.keyEncoding} onChange={event => setDraft(prev => ({ ...prev, keyEncoding: event.target.value }))} className={inputClassName}>
+            {KEY_PROFILE_ENCODINGS.map(item => <option key={item} value={item}>{item}</option>)}
+          </select>
+        </div>
+        <div className="grid grid-cols-[1fr_80px] gap-2">
+          <input value={draft.iv} onChange={event => setDraft(prev => ({ ...prev, iv: event.target.value }))} placeholder="IV（可选）" className={inputClassName} />
+          <select value={draft.ivEncoding} onChange={event => setDraft(prev => ({ ...prev, ivEncoding: event.target.value }))} className={inputClassName}>
+            {KEY_PROFILE_ENCODINGS.map(item => <option key={item} value={item}>{item}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center justify-between gap-2 pt-1">
+          {renderScopeSwitch(scope, setScope)}
+          <button
+            type="button"
+            disabled={!draft.name.trim()}
+            onClick={handleAdd}
+            className="rounded-full bg-ink px-3 py-1 text-[11px] font-semibold text-white disabled:opacity-40"
+          >
+            添加配置
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,308 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { KeyCandidateSource, KeySearchEvent, KeySearchHit, KeySearchIvMode, KeySearchRequest } from '../shared/keysearch'
+import type { RecordSummary, ResponseRecord } from '../shared/messages'
+import type { PipelineStep } from '../shared/pipeline'
+import type { Settings, SiteSettings } from '../shared/settings'
+import type { PipelineValue } from '../shared/value'
+import { hexEncode } from '../shared/bytes'
+import { MAX_KEY_CANDIDATES, hasKeyParam, replaceKeyParams } from '../shared/keysearch'
+import { getDefaultParams, getOperator } from '../shared/pipeline'
+import { getUrlHost, resolveSettingsForHost } from '../shared/settings'
+import { getValueByteLength } from '../shared/value'
+import type { EditorTarget } from './common'
+import { EDITOR_TARGET_LABELS, formatBytes } from './common'
+
+/** 密钥尝试模板 */
+interface KeySearchTemplate {
+  /** 模板标识 */
+  id: string
+  /** 展示名 */
+  label: string
+  /** 模板步骤 */
+  steps: PipelineStep[]
+}
+
+/** 内置密钥尝试模板的算子与模式 */
+const BUILTIN_KEY_SEARCH_CIPHERS: Array<[string, string | null]> = [
+  ['aes.decrypt', 'CBC'],
+  ['aes.decrypt', 'ECB'],
+  ['sm4.decrypt', 'CBC'],
+  ['sm4.decrypt', 'ECB'],
+  ['des.decrypt', 'CBC'],
+  ['des.decrypt', 'ECB'],
+  ['tripledes.decrypt', 'CBC'],
+  ['tripledes.decrypt', 'ECB'],
+  ['rc4.decrypt', null],
+]
+
+/** 列出密钥尝试模板：内置加密算子、已保存流水线与规则流水线（仅含密钥参数的） */
+function listKeySearchTemplates(siteSettings: SiteSettings): KeySearchTemplate[] {
+  // 内置模板
+  const builtin = BUILTIN_KEY_SEARCH_CIPHERS.flatMap(([operatorId, mode]): KeySearchTemplate[] => {
+    const operator = getOperator(operatorId)
+    if (!operator)
+      return []
+    // 默认参数（按需覆盖模式）
+    const params = mode ? { ...getDefaultParams(operator), mode } : getDefaultParams(operator)
+    return [{ id: `builtin:${operatorId}:${mode ?? ''}`, label: mode ? `${operator.name} · ${mode}` : operator.name, steps: [{ operatorId, params }] }]
+  })
+  return [
+    ...builtin,
+    ...siteSettings.pipelines.map(item => ({ id: `pipeline:${item.id}`, label: `流水线 · ${item.name}`, steps: item.steps })),
+    ...siteSettings.rules.map(item => ({ id: `rule:${item.id}`, label: `规则 · ${item.name}`, steps: item.pipeline.steps })),
+  ].filter(item => hasKeyParam(item.steps))
+}
+
+/** 候选来源展示名 */
+const KEY_CANDIDATE_SOURCE_LABELS: Record<KeyCandidateSource, string> = {
+  profile: '密钥配置',
+  record: '其他响应',
+  paste: '粘贴列表',
+}
+
+/** 密钥尝试：以候选密钥逐个执行加密模板，找出能解出 UTF-8/JSON 的组合（在 Worker 中执行） */
+export function KeySearchPanel(props: {
+  /** 当前记录 */
+  record: ResponseRecord
+  /** 全部记录摘要（提取候选片段） */
+  records: RecordSummary[]
+  /** 获取完整记录（候选片段需读取正文） */
+  loadRecord: (recordId: string) => Promise<ResponseRecord | null>
+  /** 请求正文值 */
+  requestValue: PipelineValue | null
+  /** 响应正文值 */
+  responseValue: PipelineValue | null
+  /** 持久化设置 */
+  settings: Settings
+  /** 应用命中组合 */
+  onApply: (target: EditorTarget, steps: PipelineStep[]) => void
+}) {
+  const { record, records, loadRecord, requestValue, responseValue, settings, onApply } = props
+  /** 输入目标 */
+  const [target, setTarget] = useState<EditorTarget>('response')
+  /** 选中的模板 */
+  const [templateId, setTemplateId] = useState('')
+  /** IV 取值方式 */
+  const [ivMode, setIvMode] = useState<KeySearchIvMode>('template')
+  /** 启用的候选来源 */
+  const [sources, setSources] = useState<Record<KeyCandidateSource, boolean>>({ profile: true, record: true, paste: true })
+  /** 粘贴的候选列表 */
+  const [pasteText, setPasteText] = useState('')
+  /** 进度（null 表示未开始） */
+  const [progress, setProgress] = useState<{ done: number, total: number, running: boolean } | null>(null)
+  /** 命中列表 */
+  const [hits, setHits] = useState<KeySearchHit[]>([])
+  /** 任务失败信息 */
+  const [searchError, setSearchError] = useState<string | null>(null)
+  /** 当前 Worker */
+  const workerRef = useRef<Worker | null>(null)
+  /** 任务序号 */
+  const runIdRef = useRef(0)
+  // 当前输入值
+  const inputValue = target === 'request' ? requestValue : responseValue
+  /** 对当前域名生效的设置 */
+  const resolvedSettings = useMemo(() => resolveSettingsForHost(settings, getUrlHost(record.url)), [settings, record.url])
+  /** 可用模板 */
+  const templates = useMemo(() => listKeySearchTemplates(resolvedSettings), [resolvedSettings])
+  // 当前模板（未选择时取首项）
+  const template = templates.find(item => item.id === templateId) ?? templates[0] ?? null
+
+  // 卸载时终止 Worker
+  useEffect(() => () => workerRef.current?.terminate(), [])
+
+  /** 停止任务 */
+  function handleStop(): void {
+    runIdRef.current += 1
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setProgress(prev => (prev ? { ...prev, running: false } : prev))
+  }
+
+  /** 拉取其他记录的响应正文作为候选来源（base64 正文为二进制，不参与提取） */
+  async function collectDocuments(): Promise<KeySearchRequest['documents']> {
+    if (!sources.record)
+      return []
+    // 其他有响应正文的记录
+    const others = await Promise.all(records
+      .filter(item => item.id !== record.id && item.hasResponseBody)
+      .map(item => loadRecord(item.id)))
+    return others
+      .filter((item): item is ResponseRecord => item !== null && item.body.text !== null && !item.body.isBase64)
+      .map(item => ({ text: item.body.text ?? '', source: 'record' as const, origin: item.url }))
+  }
+
+  /** 开始任务 */
+  function handleStart(): void {
+    if (!inputValue || !template)
+      return
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setHits([])
+    setSearchError(null)
+    setProgress({ done: 0, total: 0, running: true })
+    // 本次任务序号（拉取正文期间停止或重新开始时放弃本次任务）
+    const runId = runIdRef.current + 1
+    runIdRef.current = runId
+    void collectDocuments().then((documents) => {
+      if (runIdRef.current === runId)
+        runSearch(inputValue, template, documents)
+    }, (error: unknown) => {
+      if (runIdRef.current === runId)
+        failSearch(null, `拉取记录正文失败：${error instanceof Error ? error.message : String(error)}`)
+    })
+  }
+
+  /** 任务失败：终止 Worker 并结束进度（已停止或被新任务替换的 Worker 忽略） */
+  function failSearch(worker: Worker | null, message: string): void {
+    if (worker) {
+      worker.terminate()
+      if (workerRef.current !== worker)
+        return
+      workerRef.current = null
+    }
+    setProgress(prev => ({ done: prev?.done ?? 0, total: prev?.total ?? 0, running: false }))
+    setSearchError(message)
+  }
+
+  /** 在新 Worker 中执行任务（每次任务独立，取消时直接终止） */
+  function runSearch(input: PipelineValue, searchTemplate: KeySearchTemplate, documents: KeySearchRequest['documents']): void {
+    const worker = new Worker(new URL('./keysearch.worker.ts', import.meta.url), { type: 'module' })
+    workerRef.current = worker
+    worker.onmessage = (event: MessageEvent<KeySearchEvent>) => {
+      // Worker 事件
+      const message = event.data
+      if (message.type === 'hit') {
+        setHits(prev => [...prev, message.hit])
+        return
+      }
+      if (message.type === 'error') {
+        failSearch(worker, `尝试失败：${message.message}`)
+        return
+      }
+      setProgress({ done: message.done, total: message.total, running: message.type !== 'done' })
+      if (message.type === 'done') {
+        worker.terminate()
+        if (workerRef.current === worker)
+          workerRef.current = null
+      }
+    }
+    // Worker 加载失败、未捕获异常或消息无法反序列化
+    worker.onerror = (event) => {
+      event.preventDefault()
+      failSearch(worker, `尝试失败：${event.message || 'Worker 异常'}`)
+    }
+    worker.onmessageerror = () => failSearch(worker, '尝试失败：Worker 消息无法解析')
+    // 粘贴列表按行使用
+    const texts = sources.paste
+      ? pasteText.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(text => ({ text, source: 'paste' as const, origin: KEY_CANDIDATE_SOURCE_LABELS.paste }))
+      : []
+    const request: KeySearchRequest = {
+      input,
+      steps: searchTemplate.steps,
+      ivMode,
+      profiles: sources.profile ? resolvedSettings.keyProfiles : [],
+      texts,
+      documents,
+    }
+    worker.postMessage(request)
+  }
+
+  /** 应用命中组合：以 hex 写入密钥后载入流水线编辑器 */
+  function handleApplyHit(hit: KeySearchHit): void {
+    if (template)
+      onApply(target, replaceKeyParams(template.steps, ivMode, hexEncode(hit.candidate.bytes), 'hex'))
+  }
+
+  // 输入框公共样式
+  const inputClassName = 'min-w-0 rounded-md border border-slate-200 px-2 py-1 text-[11px]'
+  return (
+    <div className="grid gap-2 text-[11px]">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          {(['request', 'response'] as const).map(item => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => setTarget(item)}
+              className={item === target
+                ? 'rounded-full bg-ink px-2 py-0.5 text-[10px] font-semibold text-white'
+                : 'rounded-full border border-slate-200 px-2 py-0.5 text-[10px] text-slate-500'}
+            >
+              {EDITOR_TARGET_LABELS[item]}
+            </button>
+          ))}
+        </div>
+        <span className="text-slate-400">{inputValue ? `输入 · ${formatBytes(getValueByteLength(inputValue))}` : `无${EDITOR_TARGET_LABELS[target]}`}</span>
+      </div>
+      <div className="grid grid-cols-[1fr_120px] gap-2">
+        <select value={template?.id ?? ''} onChange={event => setTemplateId(event.target.value)} className={inputClassName}>
+          {templates.map(item => <option key={item.id} value={item.id}>{item.label}</option>)}
+        </select>
+        <select value={ivMode} onChange={event => setIvMode(event.target.value as KeySearchIvMode)} className={inputClassName}>
+          <option value="template">IV 沿用模板</option>
+          <option value="key">IV 同密钥</option>
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-slate-500">
+        {(Object.keys(KEY_CANDIDATE_SOURCE_LABELS) as KeyCandidateSource[]).map(item => (
+          <label key={item} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={sources[item]}
+              onChange={event => setSources(prev => ({ ...prev, [item]: event.target.checked }))}
+            />
+            {KEY_CANDIDATE_SOURCE_LABELS[item]}
+          </label>
+        ))}
+      </div>
+      {sources.paste
+        ? (
+            <textarea
+              value={pasteText}
+              onChange={event => setPasteText(event.target.value)}
+              rows={3}
+              spellCheck={false}
+              placeholder="每行一个候选密钥（按 UTF-8 / Hex / Base64 分别尝试）"
+              className={`${inputClassName} font-mono`}
+            />
+          )
+        : null}
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-slate-400">
+          {progress
+            ? `${progress.running ? '尝试中' : '已结束'} · ${progress.done}/${progress.total} · 命中 ${hits.length}`
+            : `最多尝试 ${MAX_KEY_CANDIDATES} 个候选`}
+        </span>
+        {progress?.running
+          ? <button type="button" onClick={handleStop} className="rounded-full border border-slate-200 px-3 py-1 font-semibold text-slate-600">停止</button>
+          : (
+              <button
+                type="button"
+                disabled={!inputValue || !template}
+                onClick={handleStart}
+                className="rounded-full bg-ink px-3 py-1 font-semibold text-white disabled:opacity-40"
+              >
+                开始尝试
+              </button>
+            )}
+      </div>
+      {searchError ? <div className="text-rose-600">{searchError}</div> : null}
+      {hits.map(hit => (
+        <div key={`${hit.candidate.encoding}:${hexEncode(hit.candidate.bytes)}`} className="grid gap-1 rounded-md border border-slate-100 px-2 py-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="truncate font-mono text-slate-700">{`${hit.candidate.text} (${hit.candidate.encoding})`}</span>
+            <button
+              type="button"
+              onClick={() => handleApplyHit(hit)}
+              className="shrink-0 rounded-full bg-ink px-2 py-0.5 text-[10px] font-semibold text-white"
+            >
+              应用
+            </button>
+          </div>
+          <div className="truncate text-slate-500">{`${KEY_CANDIDATE_SOURCE_LABELS[hit.candidate.source]} · ${hit.candidate.origin} · ${hit.kind === 'json' ? 'JSON' : 'UTF-8 文本'}`}</div>
+          <div className="truncate font-mono text-slate-400">{hit.preview}</div>
+        </div>
+      ))}
+    </div>
+  )
+}
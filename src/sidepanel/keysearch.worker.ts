@@ -0,0 +1,15 @@
+import type { KeySearchEvent, KeySearchRequest } from '../shared/keysearch'
+import { runKeySearch } from '../shared/keysearch'
+import { registerBuiltinOperators } from '../shared/operators'
+
+// Worker 内独立注册算子
+registerBuiltinOperators()
+
+// 每个 Worker 只执行一次任务，取消时由面板直接终止
+globalThis.onmessage = (event: MessageEvent<KeySearchRequest>) => {
+  void runKeySearch(event.data, message => globalThis.postMessage(message)).catch((error: unknown) => {
+    // 异常时发送终止事件，避免面板停留在进行中
+    const failure: KeySearchEvent = { type: 'error', message: error instanceof Error ? error.message : String(error) }
+    globalThis.postMessage(failure)
+  })
+}
@@ -0,0 +1,84 @@
+import type { ReactNode } from 'react'
+import type { RecordBodyChunkMessage, RecordBodyLoadedMessage, RecordBodyProgressMessage, ResponseBody } from '../shared/messages'
+
+/** 按需加载的大正文状态 */
+export interface LargeBodyState {
+  /** 所属记录 */
+  recordId: string
+  /** 已接收的分块 */
+  chunks: string[]
+  /** 已接收字符数 */
+  loaded: number
+  /** 总字符数（开始传输前为 0） */
+  total: number
+  /** 后台已从浏览器读取的字节数（仅响应阶段流式读取时推送） */
+  received: number
+  /** 响应头声明的字节数（未在流式读取时为 0） */
+  expected: number
+  /** 加载结果（完成前为 null） */
+  body: ResponseBody | null
+}
+
+/** 创建待加载的大正文状态 */
+export function createLargeBodyState(recordId: string): LargeBodyState {
+  return { recordId, chunks: [], loaded: 0, total: 0, received: 0, expected: 0, body: null }
+}
+
+/** 更新后台流式读取大正文的进度 */
+export function updateLargeBodyProgress(state: LargeBodyState | undefined, message: RecordBodyProgressMessage): LargeBodyState | undefined {
+  if (!state || state.recordId !== message.recordId || state.body)
+    return state
+  return { ...state, received: message.received, expected: message.total }
+}
+
+/** 追加大正文分块（只接受与已接收内容衔接的分块，其他面板触发的重复推送被忽略） */
+export function appendLargeBodyChunk(state: LargeBodyState | undefined, message: RecordBodyChunkMessage): LargeBodyState | undefined {
+  if (!state || state.recordId !== message.recordId || state.body)
+    return state
+  // 本块起始位置
+  const offset = message.loaded - message.text.length
+  if (offset === 0)
+    return { ...state, chunks: [message.text], loaded: message.loaded, total: message.total }
+  if (offset !== state.loaded)
+    return state
+  return { ...state, chunks: [...state.chunks, message.text], loaded: message.loaded, total: message.total }
+}
+
+/** 结束大正文加载：拼接分块作为正文文本 */
+export function finishLargeBody(state: LargeBodyState | undefined, message: RecordBodyLoadedMessage): LargeBodyState | undefined {
+  if (!state || state.recordId !== message.recordId || state.body)
+    return state
+  return {
+    ...state,
+    chunks: [],
+    body: { ...message.body, text: state.chunks.length > 0 ? state.chunks.join('') : null },
+  }
+}
+
+/** 大正文加载状态：传输进度，失败时提供重试 */
+export function renderLargeBodyStatus(state: LargeBodyState | undefined, onRetry: () => void): ReactNode {
+  if (!state)
+    return null
+  if (state.body) {
+    return state.body.error
+      ? (
+          <button type="button" onClick={onRetry} className="mb-2 text-[11px] font-semibold text-slate-600">
+            重新加载正文
+          </button>
+        )
+      : null
+  }
+  // 传输百分比（传输开始前显示后台读取进度）
+  const reading = state.total === 0 && state.expected > 0
+  const percent = state.total > 0
+    ? Math.round(state.loaded / state.total * 100)
+    : reading ? Math.min(100, Math.round(state.received / state.expected * 100)) : 0
+  return (
+    <div className="mb-2 grid gap-1 text-[11px] text-slate-500">
+      <span>{state.total > 0 ? `正在传输正文 ${percent}%` : reading ? `正在读取正文 ${percent}%` : '正在读取正文…'}</span>
+      <div className="h-1 overflow-hidden rounded bg-slate-100">
+        <div className="h-full bg-sky-500" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  )
+}
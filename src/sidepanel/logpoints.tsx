@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react'
+import type { Logpoint, LogpointCapture } from '../shared/logpoints'
+import type { RecordSummary } from '../shared/messages'
+import { DEFAULT_LOGPOINT_EXPRESSIONS, findNearbyRecords } from '../shared/logpoints'
+import type { SourceLocation } from './common'
+import { formatRequestPath, formatSourceLocation, formatTime, openSourceLocation } from './common'
+
+/** 捕获点表单的外部填充请求（nonce 变化时生效） */
+export interface LogpointDraftRequest {
+  /** 请求序号 */
+  nonce: number
+  /** 位置 */
+  location: SourceLocation
+}
+
+/** 参数捕获：在脚本位置设置捕获点，命中时在断点条件内求值表达式并上报（页面不会暂停），按时间关联附近的网络记录 */
+export function LogpointPanel(props: {
+  /** 捕获点 */
+  logpoints: Logpoint[]
+  /** 已捕获的数据 */
+  captures: LogpointCapture[]
+  /** 全部记录摘要（用于关联） */
+  records: RecordSummary[]
+  /** 外部填充的位置 */
+  draftRequest: LogpointDraftRequest | null
+  /** 添加捕获点 */
+  onAdd: (location: SourceLocation, expressions: string[], condition: string) => void
+  /** 移除捕获点 */
+  onRemove: (id: string) => void
+  /** 选中记录 */
+  onSelectRecord: (recordId: string) => void
+}) {
+  const { logpoints, captures, records, draftRequest, onAdd, onRemove, onSelectRecord } = props
+  /** 脚本 URL */
+  const [url, setUrl] = useState('')
+  /** 行号（从 1 开始） */
+  const [line, setLine] = useState('1')
+  /** 列号（从 1 开始） */
+  const [column, setColumn] = useState('1')
+  /** 表达式（每行一个） */
+  const [expressions, setExpressions] = useState(DEFAULT_LOGPOINT_EXPRESSIONS.join('\n'))
+  /** 命中条件 */
+  const [condition, setCondition] = useState('')
+  // 捕获点 ID -> 捕获点
+  const logpointMap = new Map(logpoints.map(logpoint => [logpoint.id, logpoint]))
+  // 表单解析结果
+  const lineNumber = Number.parseInt(line, 10) - 1
+  const columnNumber = Number.parseInt(column, 10) - 1
+  const expressionList = expressions.split('\n').map(item => item.trim()).filter(Boolean)
+  const canAdd = url.trim() !== '' && lineNumber >= 0 && columnNumber >= 0 && expressionList.length > 0
+  // 输入框公共样式
+  const inputClassName = 'min-w-0 rounded-md border border-slate-200 px-2 py-1 font-mono text-[11px]'
+
+  // 外部填充位置
+  useEffect(() => {
+    if (!draftRequest)
+      return
+    setUrl(draftRequest.location.url)
+    setLine(String(draftRequest.location.lineNumber + 1))
+    setColumn(String(draftRequest.location.columnNumber + 1))
+  }, [draftRequest])
+
+  /** 添加捕获点 */
+  function handleAdd(): void {
+    if (!canAdd)
+      return
+    onAdd({ url: url.trim(), lineNumber, columnNumber }, expressionList, condition.trim())
+  }
+
+  return (
+    <div className="grid gap-2 text-[11px]">
+      <div className="text-slate-400">命中时在暂停帧上求值表达式并立即恢复执行；可从「发起方」调用栈或「脚本搜索」结果点击“捕获”填入位置。</div>
+      <div className="grid grid-cols-[minmax(0,1fr)_56px_56px] gap-2">
+        <input value={url} onChange={event => setUrl(event.target.value)} placeholder="脚本 URL" className={inputClassName} />
+        <input value={line} onChange={event => setLine(event.target.value)} placeholder="行" className={inputClassName} />
+        <input value={column} onChange={event => setColumn(event.target.value)} placeholder="列" className={inputClassName} />
+      </div>
+      <textarea
+        value={expressions}
+        onChange={event => setExpressions(event.target.value)}
+        rows={3}
+        placeholder="求值表达式，每行一个，如 Array.from(arguments)、key"
+        className={inputClassName}
+      />
+      <div className="flex items-center gap-2">
+        <input value={condition} onChange={event => setCondition(event.target.value)} placeholder="命中条件（可选）" className={`${inputClassName} flex-1`} />
+        <button
+          type="button"
+          disabled={!canAdd}
+          onClick={handleAdd}
+          className="shrink-0 rounded-full bg-ink px-3 py-1 text-[11px] font-semibold text-white disabled:opacity-40"
+        >
+          添加捕获点
+        </button>
+      </div>
+      {logpoints.map(logpoint => (
+        <div key={logpoint.id} className="flex items-center justify-between gap-2 rounded-md border border-slate-100 px-2 py-1">
+          <button
+            type="button"
+            title={logpoint.url}
+            onClick={() => openSourceLocation(logpoint.url, logpoint.lineNumber, logpoint.columnNumber)}
+            className="truncate text-left font-mono text-sky-600 hover:underline"
+          >
+            {formatSourceLocation(logpoint.url, logpoint.lineNumber, logpoint.columnNumber)}
+          </button>
+          <span className="shrink-0 text-slate-400">
+            {logpoint.breakpointId === null ? '未设置' : logpoint.resolved > 0 ? `已生效 · ${logpoint.expressions.length} 个表达式` : '等待脚本加载'}
+          </span>
+          <button type="button" onClick={() => onRemove(logpoint.id)} className="shrink-0 text-rose-500">移除</button>
+        </div>
+      ))}
+      {captures.length === 0
+        ? <div className="text-slate-400">暂无捕获数据</div>
+        : [...captures].reverse().map((capture) => {
+            // 所属捕获点与附近的记录
+            const logpoint = logpointMap.get(capture.logpointId)
+            const nearby = findNearbyRecords(capture, records).slice(0, 3)
+            return (
+              <div key={capture.id} className="grid gap-1 rounded-md border border-slate-100 px-2 py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate font-mono text-slate-700">
+                    {`${capture.functionName || '(anonymous)'}${logpoint ? ` @ ${formatSourceLocation(logpoint.url, logpoint.lineNumber, logpoint.columnNumber)}` : ''}`}
+                  </span>
+                  <span className="shrink-0 text-slate-400">{formatTime(capture.timeStamp)}</span>
+                </div>
+                {capture.values.map(item => (
+                  <div key={item.expression} className="grid grid-cols-[minmax(0,1fr)_minmax(0,3fr)] gap-2">
+                    <span className="truncate font-mono text-slate-500" title={item.expression}>{item.expression}</span>
+                    {item.error
+                      ? <span className="break-all font-mono text-rose-500">{item.error}</span>
+                      : <span className="max-h-32 overflow-y-auto break-all font-mono text-slate-700">{item.value}</span>}
+                  </div>
+                ))}
+                <div className="flex flex-wrap items-center gap-2 text-slate-400">
+                  附近请求
+                  {nearby.length === 0
+                    ? <span>无</span>
+                    : nearby.map(record => (
+                        <button
+                          key={record.id}
+                          type="button"
+                          title={record.url}
+                          onClick={() => onSelectRecord(record.id)}
+                          className="max-w-48 truncate text-sky-600 hover:underline"
+                        >
+                          {`${record.method} ${formatRequestPath(record.url)}`}
+                        </button>
+                      ))}
+                </div>
+              </div>
+            )
+          })}
+    </div>
+  )
+}
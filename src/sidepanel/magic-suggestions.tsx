@@ -0,0 +1,121 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { MagicAnalysis, MagicCharset, MagicSuggestion } from '../shared/magic'
+import type { PipelineStep } from '../shared/pipeline'
+import type { PipelineValue } from '../shared/value'
+import { analyzeValue, suggestPipelines } from '../shared/magic'
+import { getOperator } from '../shared/pipeline'
+import type { EditorTarget } from './common'
+import { EDITOR_TARGET_LABELS, formatBytes, formatValueSnippet } from './common'
+
+/** 字符集展示名 */
+const MAGIC_CHARSET_LABELS: Record<MagicCharset, string> = {
+  hex: 'Hex',
+  base64: 'Base64',
+  base64url: 'Base64URL',
+  text: '文本',
+  binary: '二进制',
+}
+
+/** 生成特征分析摘要 */
+function formatMagicAnalysis(analysis: MagicAnalysis): string {
+  // 摘要片段
+  const parts = [
+    MAGIC_CHARSET_LABELS[analysis.charset],
+    formatBytes(analysis.byteLength),
+    `熵 ${analysis.entropy.toFixed(2)}`,
+  ]
+  if (analysis.aligned16)
+    parts.push('16 字节对齐')
+  else if (analysis.aligned8)
+    parts.push('8 字节对齐')
+  if (analysis.signatures.length > 0)
+    parts.push(analysis.signatures.join('/'))
+  return parts.join(' · ')
+}
+
+/** 智能识别：分析正文特征并给出可一键应用的候选流水线 */
+export function MagicSuggestions(props: {
+  /** 请求正文值 */
+  requestValue: PipelineValue | null
+  /** 响应正文值 */
+  responseValue: PipelineValue | null
+  /** 应用候选 */
+  onApply: (target: EditorTarget, steps: PipelineStep[]) => void
+}) {
+  const { requestValue, responseValue, onApply } = props
+  /** 分析目标 */
+  const [target, setTarget] = useState<EditorTarget>('response')
+  /** 候选列表（null 表示分析中） */
+  const [suggestions, setSuggestions] = useState<MagicSuggestion[] | null>(null)
+  // 当前输入值
+  const inputValue = target === 'request' ? requestValue : responseValue
+  /** 特征分析 */
+  const analysis = useMemo(() => (inputValue ? analyzeValue(inputValue) : null), [inputValue])
+
+  // 输入变化时重新试解码
+  useEffect(() => {
+    setSuggestions(null)
+    if (!inputValue)
+      return
+    // 是否已过期
+    let cancelled = false
+    void suggestPipelines(inputValue).then((result) => {
+      if (!cancelled)
+        setSuggestions(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [inputValue])
+
+  return (
+    <div className="grid gap-2 text-[11px]">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          {(['request', 'response'] as const).map(item => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => setTarget(item)}
+              className={item === target
+                ? 'rounded-full bg-ink px-2 py-0.5 text-[10px] font-semibold text-white'
+                : 'rounded-full border border-slate-200 px-2 py-0.5 text-[10px] text-slate-500'}
+            >
+              {EDITOR_TARGET_LABELS[item]}
+            </button>
+          ))}
+        </div>
+        <span className="truncate text-slate-400">{analysis ? formatMagicAnalysis(analysis) : `无${EDITOR_TARGET_LABELS[target]}`}</span>
+      </div>
+      {!inputValue
+        ? null
+        : suggestions === null
+          ? <div className="text-slate-400">分析中…</div>
+          : suggestions.length === 0
+            ? <div className="text-slate-400">未找到可能的解码方式</div>
+            : suggestions.map(suggestion => (
+                <div key={suggestion.steps.map(item => item.operatorId).join('>')} className="grid gap-1 rounded-md border border-slate-100 px-2 py-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate font-mono text-slate-700">
+                      {suggestion.steps.map(item => getOperator(item.operatorId)?.name ?? item.operatorId).join(' → ')}
+                    </span>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <span className="text-slate-400">{suggestion.score}</span>
+                      <button
+                        type="button"
+                        onClick={() => onApply(target, suggestion.steps)}
+                        className="rounded-full bg-ink px-2 py-0.5 text-[10px] font-semibold text-white"
+                      >
+                        应用
+                      </button>
+                    </div>
+                  </div>
+                  <div className="text-slate-500">{suggestion.reasons.join('；')}</div>
+                  {suggestion.preview
+                    ? <div className="truncate font-mono text-slate-400">{formatValueSnippet(suggestion.preview)}</div>
+                    : <div className="text-slate-400">需要在流水线编辑中填写密钥</div>}
+                </div>
+              ))}
+    </div>
+  )
+}
@@ -1,7 +1,11 @@
 import { createRoot } from 'react-dom/client'
+import { registerBuiltinOperators } from '../shared/operators'
 import { App } from './app'
 import './styles.css'
 
+// Register built-in decrypt operators
+registerBuiltinOperators()
+
 // Root mount element
 const rootElement = document.getElementById('root')
 
@@ -0,0 +1,513 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { ReactNode } from 'react'
+import type { ResponseRecord } from '../shared/messages'
+import type { OperatorDefinition, OperatorParamSpec, OperatorParamValue, PipelineRunResult, PipelineStep } from '../shared/pipeline'
+import type { UrlRuleMatch } from '../shared/rules'
+import type { Settings, SiteSettings } from '../shared/settings'
+import type { PipelineValue } from '../shared/value'
+import { getDefaultParams, getOperator, listOperators, runPipelineSteps } from '../shared/pipeline'
+import { createKeyProfileContext, getSiteSettings, getUrlHost, resolveSettingsForHost } from '../shared/settings'
+import { getValueByteLength } from '../shared/value'
+import type { EditorTarget, SettingsScope, ValueViewMode } from './common'
+import {
+  EDITOR_TARGET_LABELS,
+  buildValueDisplay,
+  createSettingsItemId,
+  formatBytes,
+  formatRequestPath,
+  formatValueSnippet,
+  formatValueType,
+  renderBodyDisplay,
+  renderScopeSwitch,
+  renderValueViewSwitch,
+  resolveScopeSite,
+} from './common'
+
+/** 编辑中的步骤（附带稳定 key 供列表渲染） */
+interface EditorStep {
+  /** 列表 key */
+  key: string
+  /** 步骤定义 */
+  step: PipelineStep
+}
+
+/** 外部载入步骤请求（如智能识别候选的一键应用） */
+export interface PipelineLoadRequest {
+  /** 请求序号（相同步骤重复应用时仍触发载入） */
+  nonce: number
+  /** 输入目标 */
+  target: EditorTarget
+  /** 载入的步骤 */
+  steps: PipelineStep[]
+}
+
+/** 按分类分组算子（保持注册顺序） */
+function groupOperatorsByCategory(): Array<[string, OperatorDefinition[]]> {
+  // 分组结果
+  const groups = new Map<string, OperatorDefinition[]>()
+  for (const operator of listOperators()) {
+    // 当前分组
+    const group = groups.get(operator.category) ?? []
+    group.push(operator)
+    groups.set(operator.category, group)
+  }
+  return [...groups.entries()]
+}
+
+/** 由记录生成默认匹配条件（域名 + 路径 + 方法） */
+function buildRuleMatchFromRecord(record: Pick<ResponseRecord, 'url' | 'method'>): UrlRuleMatch {
+  try {
+    // URL 对象
+    const parsed = new URL(record.url)
+    return { host: parsed.host, pathGlob: parsed.pathname, methods: [record.method.toUpperCase()] }
+  }
+  catch {
+    return { methods: [record.method.toUpperCase()] }
+  }
+}
+
+/** 渲染单个参数输入控件 */
+function renderParamInput(spec: OperatorParamSpec, value: OperatorParamValue | undefined, onChange: (value: OperatorParamValue) => void): ReactNode {
+  // 输入框公共样式
+  const inputClassName = 'w-full rounded-md border border-slate-200 px-2 py-1 text-[11px]'
+  if (spec.type === 'boolean') {
+    return (
+      <input
+        type="checkbox"
+        checked={value === true}
+        onChange={event => onChange(event.target.checked)}
+      />
+    )
+  }
+  if (spec.type === 'select') {
+    return (
+      <select value={String(value ?? spec.default)} onChange={event => onChange(event.target.value)} className={inputClassName}>
+        {(spec.options ?? []).map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+    )
+  }
+  if (spec.type === 'number') {
+    return (
+      <input
+        type="number"
+        value={typeof value === 'number' && Number.isFinite(value) ? value : ''}
+        onChange={event => onChange(event.target.value === '' ? Number.NaN : Number(event.target.value))}
+        className={inputClassName}
+      />
+    )
+  }
+  if (spec.type === 'steps') {
+    return (
+      <textarea
+        value={String(value ?? spec.default)}
+        onChange={event => onChange(event.target.value)}
+        rows={3}
+        spellCheck={false}
+        className={`${inputClassName} font-mono`}
+      />
+    )
+  }
+  return (
+    <input
+      value={String(value ?? spec.default)}
+      onChange={event => onChange(event.target.value)}
+      spellCheck={false}
+      className={`${inputClassName} font-mono`}
+    />
+  )
+}
+
+/** 流水线编辑器（绑定当前记录，逐步预览并可一键保存为 URL 规则） */
+export function PipelineEditor(props: {
+  /** 当前记录 */
+  record: ResponseRecord
+  /** 请求正文值 */
+  requestValue: PipelineValue | null
+  /** 响应正文值 */
+  responseValue: PipelineValue | null
+  /** 持久化设置 */
+  settings: Settings
+  /** 保存站点设置 */
+  onSaveSite: (site: string, siteSettings: SiteSettings) => void
+  /** 外部载入步骤请求 */
+  loadRequest: PipelineLoadRequest | null
+}) {
+  const { record, requestValue, responseValue, settings, onSaveSite, loadRequest } = props
+  /** 输入目标 */
+  const [target, setTarget] = useState<EditorTarget>('response')
+  /** 编辑中的步骤（切换记录时保留，便于复用） */
+  const [editorSteps, setEditorSteps] = useState<EditorStep[]>([])
+  /** 步骤 key 计数 */
+  const stepKeyRef = useRef(0)
+  /** 待添加的算子 */
+  const [pendingOperatorId, setPendingOperatorId] = useState(() => listOperators()[0]?.id ?? '')
+  /** 预览执行结果 */
+  const [runResult, setRunResult] = useState<PipelineRunResult | null>(null)
+  /** 展开输出的步骤序号 */
+  const [openStepIndex, setOpenStepIndex] = useState<number | null>(null)
+  /** 输出查看方式 */
+  const [viewMode, setViewMode] = useState<ValueViewMode>('auto')
+  /** 规则名称 */
+  const [ruleName, setRuleName] = useState('')
+  /** 规则匹配条件 */
+  const [ruleMatch, setRuleMatch] = useState<UrlRuleMatch>(() => buildRuleMatchFromRecord(record))
+  /** 保存提示 */
+  const [saveNotice, setSaveNotice] = useState<string | null>(null)
+  /** 保存范围 */
+  const [scope, setScope] = useState<SettingsScope>('site')
+  // 当前输入值
+  const inputValue = target === 'request' ? requestValue : responseValue
+  // 记录域名
+  const host = getUrlHost(record.url)
+  /** 对当前域名生效的设置 */
+  const resolvedSettings = useMemo(() => resolveSettingsForHost(settings, host), [settings, host])
+  /** 算子分组 */
+  const operatorGroups = useMemo(() => groupOperatorsByCategory(), [])
+  /** 步骤列表 */
+  const steps = useMemo(() => editorSteps.map(item => item.step), [editorSteps])
+
+  // 记录标识字段（同一记录追加帧、事件或载入正文时不变）
+  const { id: recordId, url: recordUrl, method: recordMethod } = record
+
+  // 切换记录时按新记录重置匹配条件，同一记录更新时保留编辑中的内容
+  useEffect(() => {
+    setRuleMatch(buildRuleMatchFromRecord({ url: recordUrl, method: recordMethod }))
+    setRuleName(formatRequestPath(recordUrl))
+    setSaveNotice(null)
+  }, [recordId, recordUrl, recordMethod])
+
+  // 外部请求载入步骤时替换当前步骤
+  useEffect(() => {
+    if (!loadRequest)
+      return
+    setTarget(loadRequest.target)
+    setEditorSteps(loadRequest.steps.map((step) => {
+      stepKeyRef.current += 1
+      return { key: `step-${stepKeyRef.current}`, step }
+    }))
+    setOpenStepIndex(null)
+    setSaveNotice(null)
+  }, [loadRequest])
+
+  // 步骤或输入变化时重新执行预览
+  useEffect(() => {
+    if (!inputValue) {
+      setRunResult(null)
+      return
+    }
+    // 是否已过期（后发起的执行覆盖先发起的）
+    let cancelled = false
+    // 密钥配置以变量形式注入，与后台执行保持一致
+    void runPipelineSteps(steps, inputValue, createKeyProfileContext(resolvedSettings.keyProfiles)).then((result) => {
+      if (!cancelled)
+        setRunResult(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [steps, inputValue, resolvedSettings.keyProfiles])
+
+  /** 添加步骤 */
+  function handleAddStep(): void {
+    // 目标算子
+    const operator = getOperator(pendingOperatorId)
+    if (!operator)
+      return
+    stepKeyRef.current += 1
+    setEditorSteps(prev => [...prev, { key: `step-${stepKeyRef.current}`, step: { operatorId: operator.id, params: getDefaultParams(operator) } }])
+    setSaveNotice(null)
+  }
+
+  /** 更新指定步骤 */
+  function updateStep(index: number, patch: (step: PipelineStep) => PipelineStep): void {
+    setEditorSteps(prev => prev.map((item, itemIndex) => (itemIndex === index ? { key: item.key, step: patch(item.step) } : item)))
+    setSaveNotice(null)
+  }
+
+  /** 移动步骤（offset 为 -1 上移、1 下移） */
+  function moveStep(index: number, offset: number): void {
+    // 目标位置
+    const nextIndex = index + offset
+    if (nextIndex < 0 || nextIndex >= steps.length)
+      return
+    setEditorSteps((prev) => {
+      // 交换后的列表
+      const next = [...prev]
+      const [moved] = next.splice(index, 1)
+      next.splice(nextIndex, 0, moved!)
+      return next
+    })
+    setOpenStepIndex(null)
+  }
+
+  /** 删除步骤 */
+  function removeStep(index: number): void {
+    setEditorSteps(prev => prev.filter((_, itemIndex) => itemIndex !== index))
+    setOpenStepIndex(null)
+  }
+
+  /** 保存为 URL 规则 */
+  function handleSaveRule(): void {
+    // 规则标识
+    const id = createSettingsItemId('rule')
+    // 规则名称
+    const name = ruleName.trim() || formatRequestPath(record.url)
+    // 目标站点及其现有设置
+    const site = resolveScopeSite(scope, host)
+    const current = getSiteSettings(settings, site)
+    onSaveSite(site, {
+      ...current,
+      rules: [...current.rules, {
+        id,
+        name,
+        enabled: true,
+        match: ruleMatch,
+        target,
+        pipeline: { id: `${id}-pipeline`, name, steps },
+      }],
+    })
+    setSaveNotice(`已保存规则「${name}」`)
+  }
+
+  /** 仅保存流水线（不绑定 URL） */
+  function handleSavePipeline(): void {
+    // 流水线名称
+    const name = ruleName.trim() || formatRequestPath(record.url)
+    // 目标站点及其现有设置
+    const site = resolveScopeSite(scope, host)
+    const current = getSiteSettings(settings, site)
+    onSaveSite(site, {
+      ...current,
+      pipelines: [...current.pipelines, { id: createSettingsItemId('pipeline'), name, steps }],
+    })
+    setSaveNotice(`已保存流水线「${name}」`)
+  }
+
+  /** 载入已保存的流水线（替换当前步骤） */
+  function handleLoadPipeline(pipelineId: string): void {
+    // 目标流水线
+    const pipeline = resolvedSettings.pipelines.find(item => item.id === pipelineId)
+    if (!pipeline)
+      return
+    setEditorSteps(pipeline.steps.map((step) => {
+      stepKeyRef.current += 1
+      return { key: `step-${stepKeyRef.current}`, step }
+    }))
+    setRuleName(pipeline.name)
+    setOpenStepIndex(null)
+    setSaveNotice(null)
+  }
+
+  // 最终输出
+  const finalValue = runResult?.ok ? runResult.output : null
+  // 最终输出区块
+  const finalBlock = finalValue
+    ? renderBodyDisplay(buildValueDisplay(finalValue, viewMode, target === 'response' ? record.mimeType : ''), '', false)
+    : null
+  // 展开步骤的输出
+  const openStepValue = openStepIndex === null ? null : runResult?.steps[openStepIndex]?.output ?? null
+  const openStepBlock = openStepValue
+    ? renderBodyDisplay(buildValueDisplay(openStepValue, viewMode, ''), '', false)
+    : null
+  return (
+    <div className="grid gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          {(['request', 'response'] as const).map(item => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => setTarget(item)}
+              className={item === target
+                ? 'rounded-full bg-ink px-2 py-0.5 text-[10px] font-semibold text-white'
+                : 'rounded-full border border-slate-200 px-2 py-0.5 text-[10px] text-slate-500'}
+            >
+              {EDITOR_TARGET_LABELS[item]}
+            </button>
+          ))}
+        </div>
+        <div className="text-[11px] text-slate-400">
+          {inputValue ? `输入 · ${formatValueType(inputValue)} ${formatBytes(getValueByteLength(inputValue))}` : `无${EDITOR_TARGET_LABELS[target]}`}
+        </div>
+      </div>
+
+      <div className="grid gap-2">
+        {steps.length === 0
+          ? <div className="text-[11px] text-slate-400">暂无步骤，从下方选择算子添加</div>
+          : null}
+        {editorSteps.map(({ key, step }, index) => {
+          // 算子定义
+          const operator = getOperator(step.operatorId)
+          // 步骤执行结果
+          const stepResult = runResult?.steps[index] ?? null
+          return (
+            <div key={key} className="grid gap-2 rounded-lg border border-slate-100 px-2 py-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className={step.disabled ? 'truncate text-[11px] font-semibold text-slate-400 line-through' : 'truncate text-[11px] font-semibold text-slate-700'}>
+                  {`${index + 1}. ${operator?.name ?? step.operatorId}`}
+                </div>
+                <div className="flex shrink-0 items-center gap-2 text-[11px] text-slate-500">
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={!step.disabled}
+                      onChange={event => updateStep(index, prev => (event.target.checked
+                        ? { operatorId: prev.operatorId, params: prev.params }
+                        : { ...prev, disabled: true }))}
+                    />
+                    启用
+                  </label>
+                  <button type="button" disabled={index === 0} onClick={() => moveStep(index, -1)} className="disabled:text-slate-300">上移</button>
+                  <button type="button" disabled={index === steps.length - 1} onClick={() => moveStep(index, 1)} className="disabled:text-slate-300">下移</button>
+                  <button type="button" onClick={() => removeStep(index)} className="text-rose-500">删除</button>
+                </div>
+              </div>
+              {operator && operator.params.length > 0
+                ? (
+                    <div className="grid gap-1">
+                      {operator.params.map(spec => (
+                        <label key={spec.key} className="grid grid-cols-[110px_1fr] items-center gap-2 text-[11px]" title={spec.description}>
+                          <span className="truncate text-slate-500">{spec.label}</span>
+                          {renderParamInput(spec, step.params[spec.key], value => updateStep(index, prev => ({
+                            ...prev,
+                            params: { ...prev.params, [spec.key]: value },
+                          })))}
+                        </label>
+                      ))}
+                    </div>
+                  )
+                : null}
+              {stepResult
+                ? (
+                    <button
+                      type="button"
+                      disabled={!stepResult.output}
+                      onClick={() => setOpenStepIndex(prev => (prev === index ? null : index))}
+                      className="grid gap-0.5 rounded-md bg-slate-50 px-2 py-1 text-left text-[11px] disabled:cursor-default"
+                    >
+                      {stepResult.error
+                        ? <span className="text-rose-500">{stepResult.error.message}</span>
+                        : stepResult.skipped
+                          ? <span className="text-slate-400">已跳过</span>
+                          : stepResult.output
+                            ? (
+                                <>
+                                  <span className="text-slate-400">
+                                    {`${formatValueType(stepResult.output)} ${formatBytes(getValueByteLength(stepResult.output))} · ${stepResult.durationMs.toFixed(1)} ms`}
+                                  </span>
+                                  <span className="truncate font-mono text-slate-600">{formatValueSnippet(stepResult.output)}</span>
+                                </>
+                              )
+                            : null}
+                    </button>
+                  )
+                : null}
+              {openStepIndex === index && openStepBlock
+                ? <div className="rounded-md bg-slate-50 px-2 py-2">{openStepBlock.node}</div>
+                : null}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={pendingOperatorId}
+          onChange={event => setPendingOperatorId(event.target.value)}
+          className="min-w-0 flex-1 rounded-md border border-slate-200 px-2 py-1 text-[11px]"
+        >
+          {operatorGroups.map(([category, operators]) => (
+            <optgroup key={category} label={category}>
+              {operators.map(operator => <option key={operator.id} value={operator.id}>{operator.name}</option>)}
+            </optgroup>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleAddStep}
+          className="rounded-full border border-slate-200 px-3 py-1 text-[11px] font-semibold text-slate-600"
+        >
+          添加步骤
+        </button>
+      </div>
+      {resolvedSettings.pipelines.length > 0
+        ? (
+            <select
+              value=""
+              onChange={event => handleLoadPipeline(event.target.value)}
+              className="rounded-md border border-slate-200 px-2 py-1 text-[11px] text-slate-600"
+            >
+              <option value="">载入已保存的流水线…</option>
+              {resolvedSettings.pipelines.map(pipeline => <option key={pipeline.id} value={pipeline.id}>{pipeline.name}</option>)}
+            </select>
+          )
+        : null}
+
+      {runResult && steps.length > 0
+        ? (
+            <div className="grid gap-2 border-t border-slate-100 pt-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className={runResult.ok ? 'text-[11px] text-slate-500' : 'text-[11px] text-rose-600'}>
+                  {runResult.ok && finalValue
+                    ? `输出 · ${formatValueType(finalValue)} ${formatBytes(getValueByteLength(finalValue))}`
+                    : runResult.error?.message ?? '执行失败'}
+                </div>
+                {renderValueViewSwitch(viewMode, setViewMode)}
+              </div>
+              {finalBlock?.node}
+            </div>
+          )
+        : null}
+
+      <div className="grid gap-1 border-t border-slate-100 pt-2 text-[11px]">
+        <label className="grid grid-cols-[110px_1fr] items-center gap-2">
+          <span className="text-slate-500">规则名称</span>
+          <input value={ruleName} onChange={event => setRuleName(event.target.value)} className="rounded-md border border-slate-200 px-2 py-1 text-[11px]" />
+        </label>
+        <label className="grid grid-cols-[110px_1fr] items-center gap-2">
+          <span className="text-slate-500">域名</span>
+          <input
+            value={ruleMatch.host ?? ''}
+            onChange={event => setRuleMatch(prev => ({ ...prev, host: event.target.value || undefined }))}
+            placeholder="*.example.com"
+            className="rounded-md border border-slate-200 px-2 py-1 font-mono text-[11px]"
+          />
+        </label>
+        <label className="grid grid-cols-[110px_1fr] items-center gap-2">
+          <span className="text-slate-500">路径 glob</span>
+          <input
+            value={ruleMatch.pathGlob ?? ''}
+            onChange={event => setRuleMatch(prev => ({ ...prev, pathGlob: event.target.value || undefined }))}
+            placeholder="/api/**"
+            className="rounded-md border border-slate-200 px-2 py-1 font-mono text-[11px]"
+          />
+        </label>
+        <div className="grid grid-cols-[110px_1fr] items-center gap-2">
+          <span className="text-slate-500">保存到</span>
+          {renderScopeSwitch(scope, setScope)}
+        </div>
+        <div className="flex items-center justify-between gap-2 pt-1">
+          <span className="text-slate-400">{saveNotice ?? `作用于${EDITOR_TARGET_LABELS[target]} · ${ruleMatch.methods?.join('/') ?? '全部方法'}`}</span>
+          <div className="flex shrink-0 items-center gap-2">
+            <button
+              type="button"
+              disabled={steps.length === 0}
+              onClick={handleSavePipeline}
+              className="rounded-full border border-slate-200 px-3 py-1 text-[11px] font-semibold text-slate-600 disabled:opacity-40"
+            >
+              保存流水线
+            </button>
+            <button
+              type="button"
+              disabled={steps.length === 0}
+              onClick={handleSaveRule}
+              className="rounded-full bg-ink px-3 py-1 text-[11px] font-semibold text-white disabled:opacity-40"
+            >
+              保存为规则
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
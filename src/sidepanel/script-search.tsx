@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import type { ScriptsSearchResultMessage } from '../shared/messages'
+import type { ScriptInfo, ScriptSearchResult } from '../shared/script-search'
+import { SCRIPT_KEYWORD_SETS, normalizeKeywords } from '../shared/script-search'
+import type { SourceLocation } from './common'
+import { formatBytes, formatRequestPath, highlightText, openSourceLocation } from './common'
+
+/** 默认勾选的关键字集合 */
+const DEFAULT_KEYWORD_SET_IDS = ['crypto', 'algorithms', 'libraries']
+
+/** 脚本显示名（动态脚本显示 VM 编号） */
+function formatScriptName(script: ScriptInfo): string {
+  return script.url ? formatRequestPath(script.url) : `(VM ${script.scriptId})`
+}
+
+/** 脚本搜索：在页面已加载脚本中按关键字集合检索，按脚本分组展示命中并可跳转源码 */
+export function ScriptSearchPanel(props: {
+  /** 已解析的脚本 */
+  scripts: ScriptInfo[]
+  /** 最近一次搜索结果 */
+  result: ScriptsSearchResultMessage | null
+  /** 是否搜索中 */
+  searching: boolean
+  /** 刷新脚本列表 */
+  onRefresh: () => void
+  /** 发起搜索 */
+  onSearch: (keywords: string[], caseSensitive: boolean) => void
+  /** 选为捕获点位置 */
+  onPickLocation: (location: SourceLocation) => void
+}) {
+  const { scripts, result, searching, onRefresh, onSearch, onPickLocation } = props
+  /** 勾选的关键字集合 */
+  const [setIds, setSetIds] = useState<string[]>(DEFAULT_KEYWORD_SET_IDS)
+  /** 自定义关键字（逗号或空白分隔） */
+  const [customKeywords, setCustomKeywords] = useState('')
+  /** 是否区分大小写 */
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  /** 是否展开脚本列表 */
+  const [showScripts, setShowScripts] = useState(false)
+  // 本次搜索的关键字
+  const keywords = normalizeKeywords([
+    ...SCRIPT_KEYWORD_SETS.filter(set => setIds.includes(set.id)).flatMap(set => set.keywords),
+    ...customKeywords.split(/[\s,，]+/),
+  ])
+  // 链接样式
+  const linkClassName = 'shrink-0 text-left font-mono text-sky-600 hover:underline'
+
+  /** 切换关键字集合 */
+  function toggleSet(id: string, checked: boolean): void {
+    setSetIds(prev => checked ? [...prev, id] : prev.filter(item => item !== id))
+  }
+
+  /** 渲染单个脚本的命中 */
+  function renderResult(item: ScriptSearchResult): ReactNode {
+    return (
+      <div key={item.script.scriptId} className="grid gap-1 rounded-md border border-slate-100 px-2 py-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="truncate font-mono text-slate-700" title={item.script.url}>{formatScriptName(item.script)}</span>
+          <span className="shrink-0 text-slate-400">{`${item.matches.length}${item.truncated ? '+' : ''} 处`}</span>
+        </div>
+        {item.matches.map(match => (
+          <div key={`${match.lineNumber}:${match.columnNumber}`} className="flex min-w-0 items-start gap-2">
+            {item.script.url
+              ? (
+                  <button
+                    type="button"
+                    onClick={() => openSourceLocation(item.script.url, match.lineNumber, match.columnNumber)}
+                    className={linkClassName}
+                  >
+                    {`${match.lineNumber + 1}:${match.columnNumber + 1}`}
+                  </button>
+                )
+              : <span className="shrink-0 font-mono text-slate-400">{`${match.lineNumber + 1}:${match.columnNumber + 1}`}</span>}
+            <span className="min-w-0 flex-1 break-all font-mono text-slate-500">{highlightText(match.preview, match.keyword)}</span>
+            {item.script.url
+              ? (
+                  <button
+                    type="button"
+                    onClick={() => onPickLocation({ url: item.script.url, lineNumber: match.lineNumber, columnNumber: match.columnNumber })}
+                    className="shrink-0 text-slate-400 hover:text-slate-700"
+                  >
+                    捕获
+                  </button>
+                )
+              : null}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-2 text-[11px]">
+      <div className="flex flex-wrap items-center gap-3">
+        {SCRIPT_KEYWORD_SETS.map(set => (
+          <label key={set.id} className="flex items-center gap-1 text-slate-600" title={set.keywords.join(', ')}>
+            <input type="checkbox" checked={setIds.includes(set.id)} onChange={event => toggleSet(set.id, event.target.checked)} />
+            {set.name}
+          </label>
+        ))}
+        <label className="flex items-center gap-1 text-slate-500">
+          <input type="checkbox" checked={caseSensitive} onChange={event => setCaseSensitive(event.target.checked)} />
+          区分大小写
+        </label>
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          value={customKeywords}
+          onChange={event => setCustomKeywords(event.target.value)}
+          placeholder="自定义关键字，逗号或空格分隔"
+          className="min-w-0 flex-1 rounded-md border border-slate-200 px-2 py-1 font-mono text-[11px]"
+        />
+        <button
+          type="button"
+          disabled={searching || keywords.length === 0}
+          onClick={() => onSearch(keywords, caseSensitive)}
+          className="shrink-0 rounded-full bg-ink px-3 py-1 text-[11px] font-semibold text-white disabled:opacity-40"
+        >
+          {searching ? '搜索中…' : '搜索'}
+        </button>
+      </div>
+      <div className="text-slate-400">不超过 3 个字符的关键字按整词匹配（如 iv 不会命中 private）。</div>
+      <div className="flex items-center justify-between gap-2 text-slate-500">
+        <button type="button" onClick={() => setShowScripts(prev => !prev)} className="text-left">
+          {`已加载脚本 ${scripts.length} 个 · ${showScripts ? '收起' : '展开'}`}
+        </button>
+        <button type="button" onClick={onRefresh} className="shrink-0 text-slate-500">刷新</button>
+      </div>
+      {showScripts
+        ? (
+            <div className="grid max-h-40 gap-0.5 overflow-y-auto">
+              {scripts.map(script => (
+                <div key={script.scriptId} className="flex items-center justify-between gap-2">
+                  {script.url
+                    ? (
+                        <button type="button" title={script.url} onClick={() => openSourceLocation(script.url, 0, 0)} className="truncate text-left font-mono text-sky-600 hover:underline">
+                          {formatScriptName(script)}
+                        </button>
+                      )
+                    : <span className="truncate font-mono text-slate-400">{formatScriptName(script)}</span>}
+                  <span className="shrink-0 text-slate-400">{formatBytes(script.length)}</span>
+                </div>
+              ))}
+            </div>
+          )
+        : null}
+      {result
+        ? (
+            <>
+              <div className="text-slate-500">
+                {`已搜索 ${result.scanned} 个脚本，${result.results.length} 个有命中${result.failed > 0 ? `，${result.failed} 个已失效` : ''}`}
+              </div>
+              {result.results.map(renderResult)}
+            </>
+          )
+        : null}
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react'
+import type { Settings, SiteSettings } from '../shared/settings'
+import { createSettingsBundle, isSettingsBundle, mergeSettingsBundle, parseSettingsBundle } from '../shared/bundle'
+import { importCyberChefRecipe } from '../shared/cyberchef'
+import { getSiteSettings } from '../shared/settings'
+import type { SettingsScope } from './common'
+import { createSettingsItemId, renderScopeSwitch, resolveScopeSite } from './common'
+
+/** 下载文本文件 */
+function downloadTextFile(fileName: string, text: string): void {
+  // 文件地址
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }))
+  // 临时链接
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  anchor.click()
+  URL.revokeObjectURL(url)
+}
+
+/** 设置导入导出（设置包与 CyberChef 配方） */
+export function SettingsTransfer(props: {
+  /** 当前记录域名（未选中记录时为空串：仅可导出全部，配方存入全局） */
+  host: string
+  /** 持久化设置 */
+  settings: Settings
+  /** 保存站点设置 */
+  onSaveSite: (site: string, siteSettings: SiteSettings) => void
+}) {
+  const { host, settings, onSaveSite } = props
+  /** 待导入文本 */
+  const [importText, setImportText] = useState('')
+  /** CyberChef 配方保存范围 */
+  const [scope, setScope] = useState<SettingsScope>('site')
+  /** 结果提示 */
+  const [notice, setNotice] = useState<{ ok: boolean, text: string } | null>(null)
+
+  /** 导出设置包（site 为空时导出全部） */
+  function handleExport(site?: string): void {
+    // 导出包
+    const bundle = createSettingsBundle(settings, site ? [site] : undefined)
+    // 文件名日期
+    const date = new Date().toISOString().slice(0, 10)
+    downloadTextFile(`capture-decrypt-${site ? site.replace(/[^\w.-]/g, '_') : 'all'}-${date}.json`, JSON.stringify(bundle, null, 2))
+  }
+
+  /** 选择导入文件 */
+  function handleFileChange(event: React.ChangeEvent<HTMLInputElement>): void {
+    // 选中文件
+    const file = event.target.files?.[0]
+    if (!file)
+      return
+    void file.text().then(setImportText)
+    event.target.value = ''
+  }
+
+  /** 执行导入（自动识别设置包与 CyberChef 配方） */
+  function handleImport(): void {
+    // 解析 JSON
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(importText) as unknown
+    }
+    catch {
+      setNotice({ ok: false, text: '导入内容不是合法的 JSON' })
+      return
+    }
+    if (isSettingsBundle(parsed)) {
+      const result = parseSettingsBundle(parsed)
+      if (!result.ok) {
+        setNotice({ ok: false, text: result.error.message })
+        return
+      }
+      // 合并后的站点设置
+      const merged = mergeSettingsBundle(settings, result.bundle)
+      for (const [site, siteSettings] of merged)
+        onSaveSite(site, siteSettings)
+      setNotice({ ok: true, text: `已导入 ${merged.length} 个站点的设置` })
+      setImportText('')
+      return
+    }
+    // CyberChef 配方
+    const recipe = importCyberChefRecipe(importText)
+    if (!recipe.ok) {
+      setNotice({ ok: false, text: recipe.error.message })
+      return
+    }
+    // 目标站点及其现有设置
+    const site = resolveScopeSite(scope, host)
+    const current = getSiteSettings(settings, site)
+    // 流水线名称
+    const name = `CyberChef 配方 ${new Date().toLocaleString()}`
+    onSaveSite(site, {
+      ...current,
+      pipelines: [...current.pipelines, { id: createSettingsItemId('pipeline'), name, steps: recipe.steps }],
+    })
+    setNotice({ ok: true, text: `已导入 ${recipe.steps.length} 个步骤为流水线「${name}」，可在流水线编辑中载入` })
+    setImportText('')
+  }
+
+  return (
+    <div className="grid gap-3 text-[11px]">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => handleExport()}
+          className="rounded-full border border-slate-200 px-3 py-1 font-semibold text-slate-600"
+        >
+          导出全部
+        </button>
+        {host
+          ? (
+              <button
+                type="button"
+                onClick={() => handleExport(host)}
+                className="rounded-full border border-slate-200 px-3 py-1 font-semibold text-slate-600"
+              >
+                导出当前站点
+              </button>
+            )
+          : null}
+      </div>
+      <div className="grid gap-1 border-t border-slate-100 pt-2">
+        <textarea
+          value={importText}
+          onChange={event => setImportText(event.target.value)}
+          rows={4}
+          spellCheck={false}
+          placeholder="粘贴设置包或 CyberChef 配方（Compact / Clean JSON）"
+          className="rounded-md border border-slate-200 px-2 py-1 font-mono text-[11px]"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <input type="file" accept=".json,application/json" onChange={handleFileChange} className="min-w-0 text-[11px]" />
+          <div className="flex shrink-0 items-center gap-2">
+            {renderScopeSwitch(scope, setScope)}
+            <button
+              type="button"
+              disabled={!importText.trim()}
+              onClick={handleImport}
+              className="rounded-full bg-ink px-3 py-1 font-semibold text-white disabled:opacity-40"
+            >
+              导入
+            </button>
+          </div>
+        </div>
+        <div className="text-slate-400">CyberChef 配方导入为流水线并按所选范围保存；设置包按原站点合并，同 id 条目被覆盖。</div>
+        {notice
+          ? <div className={notice.ok ? 'whitespace-pre-wrap text-emerald-600' : 'whitespace-pre-wrap text-rose-600'}>{notice.text}</div>
+          : null}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import type { ResponseStream } from '../shared/messages'
+import { textValue } from '../shared/value'
+import type { ValueViewMode } from './common'
+import { buildValueDisplay, formatBytes, formatFrameTime, renderBodyDisplay, renderValueViewSwitch } from './common'
+import { DecryptResultView } from './decrypt-result'
+
+/** 流格式展示名 */
+const STREAM_FORMAT_LABELS: Record<ResponseStream['format'], string> = {
+  sse: 'SSE',
+  ndjson: 'NDJSON',
+  chunk: '分块',
+}
+
+/** 流事件列表：时间、事件类型、大小与数据摘要，点开查看完整数据与解密结果 */
+export function StreamEventsView(props: {
+  /** 流 */
+  stream: ResponseStream
+}) {
+  const { stream } = props
+  /** 数据搜索 */
+  const [search, setSearch] = useState('')
+  /** 展开的事件序号 */
+  const [openIndex, setOpenIndex] = useState<number | null>(null)
+  /** 展开事件的查看方式 */
+  const [viewMode, setViewMode] = useState<ValueViewMode>('auto')
+  // 筛选后的事件
+  const events = stream.events.filter(event => !search || event.data.toLowerCase().includes(search.toLowerCase()))
+  // 展开的事件与其数据
+  const openEvent = stream.events.find(event => event.index === openIndex) ?? null
+  const openBlock = openEvent ? renderBodyDisplay(buildValueDisplay(textValue(openEvent.data), viewMode, ''), search, true) : null
+
+  return (
+    <div className="grid gap-2 text-[11px]">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-slate-500">{`${STREAM_FORMAT_LABELS[stream.format]} · ${stream.complete ? '已结束' : '接收中'}`}</span>
+        <input
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          placeholder="搜索数据"
+          className="w-40 rounded-md border border-slate-200 px-2 py-1 text-[11px]"
+        />
+      </div>
+      {stream.error ? <div className="text-rose-600">{stream.error}</div> : null}
+      {stream.dropped > 0 ? <div className="text-slate-400">{`已丢弃最早的 ${stream.dropped} 个事件`}</div> : null}
+      {events.length === 0
+        ? <div className="text-slate-400">暂无事件</div>
+        : (
+            <div className="grid max-h-80 gap-0.5 overflow-y-auto">
+              {events.map(event => (
+                <button
+                  key={event.index}
+                  type="button"
+                  onClick={() => setOpenIndex(prev => prev === event.index ? null : event.index)}
+                  className={`grid grid-cols-[36px_96px_72px_64px_minmax(0,1fr)] items-center gap-2 rounded px-1 py-0.5 text-left ${openIndex === event.index ? 'bg-slate-100' : 'hover:bg-slate-50'}`}
+                >
+                  <span className="text-slate-400">{`#${event.index}`}</span>
+                  <span className="text-slate-400">{formatFrameTime(event.timeStamp)}</span>
+                  <span className="truncate text-slate-500">{event.eventName ?? '-'}</span>
+                  <span className="text-slate-500">{formatBytes(event.size)}</span>
+                  <span className="truncate font-mono text-slate-700">
+                    {event.decrypted
+                      ? <span className={event.decrypted.trace.ok ? 'text-emerald-600' : 'text-rose-500'}>{event.decrypted.trace.ok ? '[已解密] ' : '[解密失败] '}</span>
+                      : null}
+                    {event.data.slice(0, 200)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+      {openEvent
+        ? (
+            <div className="grid gap-2 rounded-md border border-slate-100 px-2 py-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-slate-500">{`#${openEvent.index}${openEvent.eventName ? ` · ${openEvent.eventName}` : ''}${openEvent.eventId ? ` · id ${openEvent.eventId}` : ''} · ${formatBytes(openEvent.size)}${openEvent.truncated ? ' · 已截断' : ''}`}</span>
+                {renderValueViewSwitch(viewMode, setViewMode)}
+              </div>
+              {openBlock?.node ?? null}
+              {openEvent.decrypted
+                ? <DecryptResultView key={openEvent.index} result={openEvent.decrypted} mimeType="" />
+                : null}
+            </div>
+          )
+        : null}
+    </div>
+  )
+}
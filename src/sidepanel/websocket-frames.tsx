@@ -0,0 +1,112 @@
+import { useState } from 'react'
+import type { WebSocketConnection, WebSocketFrame } from '../shared/messages'
+import type { PipelineValue } from '../shared/value'
+import { bodyTextToValue } from '../shared/value'
+import type { ValueViewMode } from './common'
+import { buildValueDisplay, formatBytes, formatFrameTime, renderBodyDisplay, renderValueViewSwitch } from './common'
+import { DecryptResultView } from './decrypt-result'
+
+/** WebSocket opcode 展示名 */
+const WEBSOCKET_OPCODE_LABELS: Record<number, string> = {
+  1: '文本',
+  2: '二进制',
+  8: '关闭',
+  9: 'ping',
+  10: 'pong',
+}
+
+/** 帧载荷转为流水线值（二进制帧按字节） */
+function frameToValue(frame: WebSocketFrame): PipelineValue | null {
+  return bodyTextToValue(frame.payload, frame.isBase64)
+}
+
+/** WebSocket 帧列表：方向、时间、大小与载荷摘要，点开查看完整载荷与解密结果 */
+export function WebSocketFramesView(props: {
+  /** 连接 */
+  connection: WebSocketConnection
+}) {
+  const { connection } = props
+  /** 方向筛选 */
+  const [direction, setDirection] = useState<'all' | WebSocketFrame['direction']>('all')
+  /** 载荷搜索 */
+  const [search, setSearch] = useState('')
+  /** 展开的帧序号 */
+  const [openIndex, setOpenIndex] = useState<number | null>(null)
+  /** 展开帧的查看方式 */
+  const [viewMode, setViewMode] = useState<ValueViewMode>('auto')
+  // 筛选后的帧
+  const frames = connection.frames.filter(frame =>
+    (direction === 'all' || frame.direction === direction)
+    && (!search || frame.payload.toLowerCase().includes(search.toLowerCase())),
+  )
+  // 展开的帧与其载荷
+  const openFrame = connection.frames.find(frame => frame.index === openIndex) ?? null
+  const openValue = openFrame ? frameToValue(openFrame) : null
+  const openBlock = openValue ? renderBodyDisplay(buildValueDisplay(openValue, viewMode, ''), search, true) : null
+
+  return (
+    <div className="grid gap-2 text-[11px]">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          {(['all', 'sent', 'received'] as const).map(item => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => setDirection(item)}
+              className={`rounded-full px-2 py-0.5 ${direction === item ? 'bg-ink text-white' : 'bg-slate-100 text-slate-600'}`}
+            >
+              {item === 'all' ? '全部' : item === 'sent' ? '↑ 发出' : '↓ 接收'}
+            </button>
+          ))}
+        </div>
+        <input
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          placeholder="搜索载荷"
+          className="w-40 rounded-md border border-slate-200 px-2 py-1 text-[11px]"
+        />
+      </div>
+      {connection.error ? <div className="text-rose-600">{connection.error}</div> : null}
+      {connection.dropped > 0 ? <div className="text-slate-400">{`已丢弃最早的 ${connection.dropped} 帧`}</div> : null}
+      {frames.length === 0
+        ? <div className="text-slate-400">暂无帧</div>
+        : (
+            <div className="grid max-h-80 gap-0.5 overflow-y-auto">
+              {frames.map(frame => (
+                <button
+                  key={frame.index}
+                  type="button"
+                  onClick={() => setOpenIndex(prev => prev === frame.index ? null : frame.index)}
+                  className={`grid grid-cols-[16px_96px_56px_64px_minmax(0,1fr)] items-center gap-2 rounded px-1 py-0.5 text-left ${openIndex === frame.index ? 'bg-slate-100' : 'hover:bg-slate-50'}`}
+                >
+                  <span className={frame.direction === 'sent' ? 'text-emerald-600' : 'text-sky-600'}>{frame.direction === 'sent' ? '↑' : '↓'}</span>
+                  <span className="text-slate-400">{formatFrameTime(frame.timeStamp)}</span>
+                  <span className="text-slate-500">{WEBSOCKET_OPCODE_LABELS[frame.opcode] ?? `op ${frame.opcode}`}</span>
+                  <span className="text-slate-500">{formatBytes(frame.size)}</span>
+                  <span className="truncate font-mono text-slate-700">
+                    {frame.decrypted
+                      ? <span className={frame.decrypted.trace.ok ? 'text-emerald-600' : 'text-rose-500'}>{frame.decrypted.trace.ok ? '[已解密] ' : '[解密失败] '}</span>
+                      : null}
+                    {frame.isBase64 ? frame.payload.slice(0, 120) : frame.payload.slice(0, 200)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+      {openFrame
+        ? (
+            <div className="grid gap-2 rounded-md border border-slate-100 px-2 py-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-slate-500">{`#${openFrame.index} · ${openFrame.direction === 'sent' ? '发出' : '接收'} · ${formatBytes(openFrame.size)}${openFrame.truncated ? ' · 已截断' : ''}`}</span>
+                {renderValueViewSwitch(viewMode, setViewMode)}
+              </div>
+              {openBlock?.node ?? <div className="text-rose-600">载荷无法解码</div>}
+              {openFrame.decrypted
+                ? <DecryptResultView key={openFrame.index} result={openFrame.decrypted} mimeType="" />
+                : null}
+            </div>
+          )
+        : null}
+    </div>
+  )
+}